@@ -58,7 +58,9 @@ create table if not exists public.user_settings (
   theme_style                  text,
   collect_pinned_tabs          boolean default false,
   layout_mode                  text default 'single' check (layout_mode = any (array['single','double'])),
-  reorder_mode                 boolean default false
+  reorder_mode                 boolean default false,
+  session_folders              jsonb default '[]'::jsonb,
+  saved_searches               jsonb default '[]'::jsonb
 );
 
 -- ── 4. 行级安全（RLS）：与生产库一致，用户只能读写自己的数据 ──────────
@@ -1,7 +1,131 @@
 import { storage } from '@/utils/storage';
-import { createTabGroupFromChromeTabs, filterValidTabs } from '@/domain/tabGroup';
-import { cacheManager } from '@/utils/performance';
+import { scheduleSaveTargetMenuRefresh } from '@/background/saveTargetMenu';
+import { capturePageStates, restorePageState } from '@/background/pageState';
+import { capturePageContents } from '@/background/pageContent';
+import {
+  applyAlwaysPinRules,
+  applyAutoSnapshotRetention,
+  applyRetention,
+  appendTabsToGroup,
+  buildLinkSession,
+  buildAutoSnapshotName,
+  buildBrowsingSessionRecord,
+  createTabGroupFromChromeTabs,
+  createTabsFromLinks,
+  getLatestAutoSnapshotRun,
+  isSameAutoSnapshotRun,
+  mergeIntoIdleSession,
+  filterValidTabs,
+  getTabHostname,
+  groupTabsByWindow,
+  isMultiWindowScope,
+  markTabsRestored,
+  planNativeTabGroups,
+  resolveInboxGroup,
+  selectTabsForScope,
+  selectWorkspaceTemplates,
+  extractGroupTemplateVariables,
+  toNativeTabGroupInfo,
+  SAVE_SCOPE_LABELS,
+  type AppendTabsResult,
+  type LinkInput,
+  type SaveScope,
+} from '@/domain/tabGroup';
+import { cacheManager, mapWithConcurrency } from '@/utils/performance';
 import { trackProductEvent } from '@/utils/productEvents';
+import { buildRestoreTabsPayload, WORKSPACE_LAUNCHER_QUERY } from '@/utils/sessionRestore';
+import { updateGroupWithVersion } from '@/utils/versionHelper';
+import type {
+  BrowsingSessionRecord,
+  NativeTabGroupInfo,
+  RestoreTarget,
+  Tab,
+  TabGroupColor,
+  TabPageState,
+  UserSettings,
+} from '@/types/tab';
+
+export interface SaveTabsOptions {
+  /** 按窗口拆分为多个会话（每个窗口一个会话） */
+  splitByWindow?: boolean;
+  /** 没有可保存标签页时的通知文案 */
+  emptyMessage?: string;
+  /**
+   * 保存后保留原标签页（「保存但不关闭」快照模式）。
+   * 缺省时跟随用户设置 autoCloseTabsAfterSaving。
+   */
+  keepOpen?: boolean;
+  /** 不显示保存成功的通知（调用方自行提示） */
+  silent?: boolean;
+  /**
+   * 追加到已有会话而不是新建会话。
+   * 会话不存在、已删除或已锁定时保存失败；是否跳过重复 URL 跟随 allowDuplicateTabs。
+   */
+  targetGroupId?: string;
+}
+
+export interface SaveTabsResult {
+  /** 新建的会话数；追加到已有会话时为 0 */
+  sessionCount: number;
+  /** 实际保存的标签页数（追加时不含跳过的重复标签页） */
+  tabCount: number;
+  /** 本次保存是否保留了原标签页 */
+  keptOpen: boolean;
+  /** 追加到的会话 */
+  appendedTo?: { id: string; name: string };
+}
+
+type AppendedTabsResult = Extract<AppendTabsResult, { status: 'appended' }>;
+
+/**
+ * 追加到已有会话后的提示文案
+ */
+const getAppendedMessage = (result: Pick<AppendedTabsResult, 'group' | 'addedCount' | 'duplicateCount'>): string => {
+  if (result.addedCount === 0) {
+    return `标签页已在「${result.group.name}」中`;
+  }
+  const skipped = result.duplicateCount > 0 ? `，跳过 ${result.duplicateCount} 个重复标签页` : '';
+  return `已将 ${result.addedCount} 个标签页追加到「${result.group.name}」${skipped}`;
+};
+
+export interface SaveScopeRequest {
+  /** 指定窗口；缺省时使用当前窗口 */
+  windowId?: number;
+  /** domain 范围使用的域名；缺省时取活动标签页的域名 */
+  domain?: string;
+  /** 见 SaveTabsOptions.keepOpen */
+  keepOpen?: boolean;
+  /** 见 SaveTabsOptions.targetGroupId */
+  targetGroupId?: string;
+}
+
+export interface RestoreTabInput {
+  url: string;
+  pinned?: boolean;
+  nativeGroup?: NativeTabGroupInfo;
+  /** 保存时的阅读位置，加载完成后滚动回去 */
+  pageState?: TabPageState;
+}
+
+export interface RestoreTabsOptions {
+  /**
+   * 被恢复的会话；开启 restoreAsNativeTabGroup 时，
+   * 没有记录原生分组的标签页会放进以会话命名的分组
+   */
+  session?: { name: string; color?: TabGroupColor };
+  /**
+   * 延迟恢复：后台标签页创建后立即丢弃，激活时再加载。
+   * 缺省时跟随用户设置 lazyRestore。
+   */
+  lazy?: boolean;
+  /** 恢复位置；缺省时跟随用户设置 restoreTarget */
+  target?: RestoreTarget;
+  /** 「当前窗口」指哪个窗口；缺省时使用最近聚焦的普通窗口 */
+  windowId?: number;
+}
+
+/** 延迟恢复时等待单个标签页加载完成的上限，超时后直接尝试丢弃 */
+const LAZY_RESTORE_LOAD_TIMEOUT_MS = 15_000;
 
 /**
  * 统一的标签页管理器
@@ -54,10 +178,51 @@ export class TabManager {
     }
   }
 
+  /**
+   * 快捷键启动工作区：只有一个模板且不含变量时直接打开，
+   * 否则打开标签管理器并弹出模板选择 / 变量填写对话框。
+   */
+  async openWorkspaceLauncher(): Promise<void> {
+    cacheManager.getCache('storage').delete('groups');
+    const templates = selectWorkspaceTemplates(await storage.getGroups());
+
+    if (templates.length === 0) {
+      await this.showNotification({
+        type: 'basic',
+        iconUrl: chrome.runtime.getURL('icons/icon128.png'),
+        title: 'TabStack',
+        message: '还没有工作区模板，可在会话操作中「设为工作区模板」'
+      });
+      return;
+    }
+
+    const [template] = templates;
+    if (templates.length === 1 && extractGroupTemplateVariables(template).length === 0) {
+      await this.restoreTabs(
+        buildRestoreTabsPayload(template.tabs),
+        { session: { name: template.name, color: template.color } }
+      );
+      await this.recordTabRestores(template.id);
+      return;
+    }
+
+    const existingTabs = await this.getExistingTabManagerTabs();
+    const existingTabId = existingTabs[0]?.id;
+    if (existingTabId) {
+      await chrome.tabs.update(existingTabId, { active: true });
+      chrome.runtime.sendMessage({ type: 'OPEN_WORKSPACE_LAUNCHER' }).catch(() => {});
+    } else {
+      await chrome.tabs.create({ url: `${this.getExtensionUrl()}?${WORKSPACE_LAUNCHER_QUERY}` });
+    }
+  }
+
   /**
    * 保存所有标签页
    */
-  async saveAllTabs(inputTabs?: chrome.tabs.Tab[]): Promise<void> {
+  async saveAllTabs(
+    inputTabs?: chrome.tabs.Tab[],
+    options: SaveTabsOptions = {}
+  ): Promise<SaveTabsResult | null> {
     try {
       let tabs = inputTabs ?? [];
 
@@ -80,43 +245,84 @@ export class TabManager {
       cache.delete('settings');
       const settings = await storage.getSettings();
       const collectPinnedTabs = settings.collectPinnedTabs ?? false;
+      const keepOpen = this.resolveKeepOpen(options.keepOpen, settings);
+      const nativeGroups = await this.getNativeTabGroups(tabs);
+      const pageStates = await this.getPageStates(tabs, settings);
 
-      const tabGroup = createTabGroupFromChromeTabs(tabs, {
-        includePinned: collectPinnedTabs,
-      });
+      const tabGroups = (options.splitByWindow ? groupTabsByWindow(tabs) : [tabs])
+        .map(windowTabs => createTabGroupFromChromeTabs(windowTabs, {
+          includePinned: collectPinnedTabs,
+          nativeGroups,
+          urlRules: settings.urlRules,
+          pageStates,
+        }))
+        .filter(group => group.tabs.length > 0);
 
-      if (tabGroup.tabs.length === 0) {
+      if (tabGroups.length === 0) {
         await this.showNotification({
           type: 'basic',
           iconUrl: chrome.runtime.getURL('icons/icon128.png'),
           title: 'TabStack',
-          message: '当前窗口里没有可保存的标签页'
+          message: options.emptyMessage ?? '当前窗口里没有可保存的标签页'
         });
-        return;
+        return null;
       }
 
-      const existingGroups = await storage.getGroups();
-      await storage.setGroups([tabGroup, ...existingGroups]);
+      let result: SaveTabsResult;
+      let savedMessage: string;
 
-      await this.showNotification({
-        type: 'basic',
-        iconUrl: chrome.runtime.getURL('icons/icon128.png'),
-        title: 'TabStack',
-        message: `已将 ${tabGroup.tabs.length} 个标签页保存为新会话`
-      });
+      if (options.targetGroupId) {
+        const appended = await this.appendTabsToSession(
+          options.targetGroupId,
+          tabGroups.flatMap(group => group.tabs),
+          settings
+        );
+        savedMessage = getAppendedMessage(appended);
+        result = {
+          sessionCount: 0,
+          tabCount: appended.addedCount,
+          keptOpen: keepOpen,
+          appendedTo: { id: appended.group.id, name: appended.group.name },
+        };
+      } else {
+        const existingGroups = await storage.getGroups();
+        await storage.setGroups([...tabGroups, ...existingGroups]);
 
-      await trackProductEvent('session_saved', {
-        sessionId: tabGroup.id,
-        sessionName: tabGroup.name,
-        tabCount: tabGroup.tabs.length,
-        pinnedCount: tabGroup.tabs.filter(tab => tab.pinned).length,
-      });
+        const savedTabCount = tabGroups.reduce((count, group) => count + group.tabs.length, 0);
+        savedMessage = tabGroups.length > 1
+          ? `已将 ${savedTabCount} 个标签页保存为 ${tabGroups.length} 个会话`
+          : `已将 ${savedTabCount} 个标签页保存为新会话`;
+        result = { sessionCount: tabGroups.length, tabCount: savedTabCount, keptOpen: keepOpen };
 
-      this.notifyTabManagerRefresh();
+        for (const tabGroup of tabGroups) {
+          await trackProductEvent('session_saved', {
+            sessionId: tabGroup.id,
+            sessionName: tabGroup.name,
+            tabCount: tabGroup.tabs.length,
+            pinnedCount: tabGroup.tabs.filter(tab => tab.pinned).length,
+          });
+        }
 
-      const tabsToClose = filterValidTabs(tabs, {
-        includePinned: collectPinnedTabs,
-      });
+        this.notifyTabManagerRefresh();
+      }
+
+      await this.savePageContents(tabs, settings);
+
+      if (!options.silent) {
+        await this.showNotification({
+          type: 'basic',
+          iconUrl: chrome.runtime.getURL('icons/icon128.png'),
+          title: 'TabStack',
+          message: keepOpen ? `${savedMessage}，标签页保持打开` : savedMessage
+        });
+      }
+
+      const tabsToClose = keepOpen
+        ? []
+        : filterValidTabs(tabs, {
+          includePinned: collectPinnedTabs,
+          urlRules: settings.urlRules,
+        });
       const tabIdsToClose = tabsToClose
         .map(tab => tab.id)
         .filter((id): id is number => id !== undefined);
@@ -130,15 +336,19 @@ export class TabManager {
         }
       }
 
+      return result;
+
     } catch (error) {
       console.error('保存标签页失败:', error);
 
-      // 显示错误通知
+      // 显示错误通知；追加到会话失败时说明原因（会话已锁定 / 已删除）
       await this.showNotification({
         type: 'basic',
           iconUrl: chrome.runtime.getURL('icons/icon128.png'),
           title: 'TabStack - 保存失败',
-          message: '保存标签页时发生错误，请重试'
+          message: options.targetGroupId && error instanceof Error
+            ? error.message
+            : '保存标签页时发生错误，请重试'
         });
 
       throw error;
@@ -146,32 +356,234 @@ export class TabManager {
   }
 
   /**
-   * 保存当前标签页
+   * 按保存范围（选中 / 左侧 / 右侧 / 所有窗口 / 域名…）查询并保存标签页。
+   * 查询在这里完成，筛选交给 selectTabsForScope，最终统一走 saveAllTabs。
+   */
+  async saveTabsByScope(
+    scope: SaveScope,
+    request: SaveScopeRequest = {}
+  ): Promise<SaveTabsResult | null> {
+    const windowQuery: chrome.tabs.QueryInfo = request.windowId
+      ? { windowId: request.windowId }
+      : { currentWindow: true };
+
+    const [[activeTab], tabs] = await Promise.all([
+      chrome.tabs.query({ ...windowQuery, active: true }),
+      chrome.tabs.query(isMultiWindowScope(scope) ? { windowType: 'normal' } : windowQuery),
+    ]);
+
+    const domain = scope === 'domain'
+      ? request.domain ?? getTabHostname(activeTab?.url) ?? undefined
+      : undefined;
+
+    const scopedTabs = selectTabsForScope(tabs, scope, { activeTab, domain });
+
+    return await this.saveAllTabs(scopedTabs, {
+      // 追加到已有会话时所有窗口的标签页都进同一个会话
+      splitByWindow: scope === 'all-windows' && !request.targetGroupId,
+      emptyMessage: `没有符合「${SAVE_SCOPE_LABELS[scope]}」的标签页`,
+      keepOpen: request.keepOpen,
+      targetGroupId: request.targetGroupId,
+    });
+  }
+
+  /**
+   * 定时自动快照：把所有普通窗口各保存为一个锁定的 Autosave 会话，不关闭标签页、不弹通知。
+   * 与上一次快照完全相同时跳过；保存后按 autoSnapshotMaxSessions 清理旧快照。
+   * @returns 本次新增的会话数（跳过时为 0）
+   */
+  async saveAutoSnapshot(): Promise<number> {
+    // 后台定时任务：先丢弃缓存，避免覆盖标签管理器页面刚写入的数据
+    const cache = cacheManager.getCache('storage');
+    cache.delete('settings');
+    cache.delete('groups');
+
+    const settings = await storage.getSettings();
+    const tabs = (await chrome.tabs.query({ windowType: 'normal' })).filter(tab => !tab.incognito);
+    const nativeGroups = await this.getNativeTabGroups(tabs);
+    const now = new Date().toISOString();
+
+    const windowGroups = groupTabsByWindow(tabs)
+      .map(windowTabs => createTabGroupFromChromeTabs(windowTabs, {
+        now,
+        includePinned: settings.collectPinnedTabs ?? false,
+        nativeGroups,
+        urlRules: settings.urlRules,
+      }))
+      .filter(group => group.tabs.length > 0);
+    // 去掉没有可保存标签页的窗口后再编号
+    const snapshotGroups = windowGroups.map((group, index) => ({
+      ...group,
+      name: buildAutoSnapshotName(now, index, windowGroups.length),
+      isLocked: true,
+      autoSnapshot: true,
+    }));
+
+    const existingGroups = await storage.getGroups();
+    if (
+      snapshotGroups.length === 0 ||
+      isSameAutoSnapshotRun(getLatestAutoSnapshotRun(existingGroups), snapshotGroups)
+    ) {
+      return 0;
+    }
+
+    await storage.setGroups(applyAutoSnapshotRetention(
+      [...snapshotGroups, ...existingGroups],
+      settings.autoSnapshotMaxSessions,
+      now
+    ));
+
+    this.notifyTabManagerRefresh();
+    return snapshotGroups.length;
+  }
+
+  /**
+   * 把闲置标签页移入「闲置标签页」会话并关闭（由 background/idleArchive 定时调用）。
+   * 会话中已有的 URL 不重复保存，但对应的标签页同样关闭。
+   * @returns 新加入会话的标签页数
+   */
+  async archiveIdleTabs(idleTabs: chrome.tabs.Tab[]): Promise<number> {
+    if (idleTabs.length === 0) {
+      return 0;
+    }
+
+    const cache = cacheManager.getCache('storage');
+    cache.delete('settings');
+    cache.delete('groups');
+
+    const settings = await storage.getSettings();
+    const now = new Date().toISOString();
+    const { tabs } = createTabGroupFromChromeTabs(idleTabs, {
+      now,
+      includePinned: false,
+      nativeGroups: await this.getNativeTabGroups(idleTabs),
+    });
+
+    const { groups, addedCount } = mergeIntoIdleSession(await storage.getGroups(), tabs, {
+      now,
+      allowDuplicateTabs: settings.allowDuplicateTabs,
+    });
+
+    if (addedCount > 0) {
+      await storage.setGroups(groups);
+      this.notifyTabManagerRefresh();
+    }
+
+    const tabIdsToClose = idleTabs
+      .map(tab => tab.id)
+      .filter((id): id is number => id !== undefined);
+    try {
+      await chrome.tabs.remove(tabIdsToClose);
+    } catch (error) {
+      console.warn('关闭闲置标签页时出错:', error);
+    }
+
+    if (addedCount > 0 && settings.showNotifications) {
+      await this.showNotification({
+        type: 'basic',
+        iconUrl: chrome.runtime.getURL('icons/icon128.png'),
+        title: 'TabStack',
+        message: `已将 ${addedCount} 个闲置标签页移入「闲置标签页」会话`
+      });
+    }
+
+    return addedCount;
+  }
+
+  /**
+   * 按保留策略删除 / 归档过期会话（由 background/retention 每天调用）。
+   * 删除为软删除，下次同步时作为墓碑传播到其他设备。
+   */
+  async applyRetentionPolicies(): Promise<{ deleted: number; archived: number }> {
+    const cache = cacheManager.getCache('storage');
+    cache.delete('settings');
+    cache.delete('groups');
+
+    const settings = await storage.getSettings();
+    const now = new Date().toISOString();
+    const { groups, deleted, archived } = applyRetention(
+      await storage.getGroups(),
+      settings.retentionPolicies ?? [],
+      now
+    );
+
+    if (deleted.length + archived.length > 0) {
+      await storage.setGroups(groups);
+      await storage.addDeletedGroups(deleted, now);
+      this.notifyTabManagerRefresh();
+    }
+
+    return { deleted: deleted.length, archived: archived.length };
+  }
+
+  /**
+   * 读取当前打开的普通窗口（不含无痕窗口），整理为浏览会话记录
+   */
+  async captureBrowsingSession(): Promise<BrowsingSessionRecord> {
+    const tabs = (await chrome.tabs.query({ windowType: 'normal' })).filter(tab => !tab.incognito);
+    const settings = await storage.getSettings();
+    return buildBrowsingSessionRecord(
+      tabs,
+      new Date().toISOString(),
+      await this.getNativeTabGroups(tabs),
+      settings.urlRules
+    );
+  }
+
+  /**
+   * 保存当前标签页。
+   * 未指定 targetGroupId 时，若设置了可用的收件箱会话则追加到收件箱，否则新建会话。
    */
-  async saveCurrentTab(tab: chrome.tabs.Tab): Promise<void> {
+  async saveCurrentTab(
+    tab: chrome.tabs.Tab,
+    options: Pick<SaveTabsOptions, 'keepOpen' | 'targetGroupId'> = {}
+  ): Promise<SaveTabsResult | null> {
     console.log('保存当前标签页:', tab.url);
 
     if (!tab.url || tab.url.startsWith('chrome://') || tab.url.startsWith('chrome-extension://')) {
-      return;
+      return null;
     }
 
     try {
       const settings = await storage.getSettings();
       const collectPinnedTabs = settings.collectPinnedTabs ?? false;
+      const keepOpen = this.resolveKeepOpen(options.keepOpen, settings);
 
       if (!collectPinnedTabs && tab.pinned) {
-        return;
+        return null;
       }
 
       const tabGroup = createTabGroupFromChromeTabs([tab], {
         includePinned: collectPinnedTabs,
+        nativeGroups: await this.getNativeTabGroups([tab]),
+        urlRules: settings.urlRules,
+        pageStates: await this.getPageStates([tab], settings),
       });
 
       if (tabGroup.tabs.length === 0) {
-        return;
+        return null;
       }
 
       const existingGroups = await storage.getGroups();
+      const targetGroupId = options.targetGroupId
+        ?? resolveInboxGroup(existingGroups, settings.inboxSessionId)?.id;
+
+      if (targetGroupId) {
+        const appended = await this.appendTabsToSession(targetGroupId, tabGroup.tabs, settings);
+        await this.savePageContents([tab], settings);
+
+        if (tab.id && !keepOpen) {
+          await chrome.tabs.remove(tab.id);
+        }
+
+        return {
+          sessionCount: 0,
+          tabCount: appended.addedCount,
+          keptOpen: keepOpen,
+          appendedTo: { id: appended.group.id, name: appended.group.name },
+        };
+      }
+
       await storage.setGroups([tabGroup, ...existingGroups]);
 
       await trackProductEvent('session_saved', {
@@ -182,11 +594,13 @@ export class TabManager {
       });
 
       this.notifyTabManagerRefresh();
+      await this.savePageContents([tab], settings);
 
-      if (tab.id) {
+      if (tab.id && !keepOpen) {
         await chrome.tabs.remove(tab.id);
       }
 
+      return { sessionCount: 1, tabCount: tabGroup.tabs.length, keptOpen: keepOpen };
     } catch (error) {
       console.error('保存当前标签页失败:', error);
       throw error;
@@ -194,21 +608,148 @@ export class TabManager {
   }
 
   /**
-   * 打开单个标签页，保留标签管理器页面
+   * 保存右键菜单中的链接（不打开链接）。
+   * 单个链接与 saveCurrentTab 一样优先追加到收件箱会话，多个链接保存为一个新会话。
    */
-  async openTab(url: string): Promise<void> {
-    try {
-      const existingTabs = await this.getExistingTabManagerTabs();
-      const tabManagerId = existingTabs.length > 0 ? existingTabs[0].id : null;
+  async saveLinks(
+    links: LinkInput[],
+    options: Pick<SaveTabsOptions, 'targetGroupId'> = {}
+  ): Promise<SaveTabsResult | null> {
+    const settings = await storage.getSettings();
+    const now = new Date().toISOString();
+    const tabs = createTabsFromLinks(links, { now, urlRules: settings.urlRules });
 
-      await chrome.tabs.create({ url, active: false });
+    if (tabs.length === 0) {
+      await this.showNotification({
+        type: 'basic',
+        iconUrl: chrome.runtime.getURL('icons/icon128.png'),
+        title: 'TabStack',
+        message: '没有可保存的链接（仅支持 http / https 链接）'
+      });
+      return null;
+    }
+
+    const existingGroups = await storage.getGroups();
+    const targetGroupId = options.targetGroupId
+      ?? (tabs.length === 1 ? resolveInboxGroup(existingGroups, settings.inboxSessionId)?.id : undefined);
+
+    if (targetGroupId) {
+      const appended = await this.appendTabsToSession(targetGroupId, tabs, settings);
+      await this.showNotification({
+        type: 'basic',
+        iconUrl: chrome.runtime.getURL('icons/icon128.png'),
+        title: 'TabStack',
+        message: getAppendedMessage(appended)
+      });
+      return {
+        sessionCount: 0,
+        tabCount: appended.addedCount,
+        keptOpen: true,
+        appendedTo: { id: appended.group.id, name: appended.group.name },
+      };
+    }
+
+    const linkSession = buildLinkSession(tabs, now);
+    await storage.setGroups([linkSession, ...existingGroups]);
+
+    await trackProductEvent('session_saved', {
+      sessionId: linkSession.id,
+      sessionName: linkSession.name,
+      tabCount: tabs.length,
+      pinnedCount: 0,
+    });
+
+    this.notifyTabManagerRefresh();
+    await this.showNotification({
+      type: 'basic',
+      iconUrl: chrome.runtime.getURL('icons/icon128.png'),
+      title: 'TabStack',
+      message: tabs.length > 1 ? `已将 ${tabs.length} 个链接保存为新会话` : '链接已保存为新会话'
+    });
+
+    return { sessionCount: 1, tabCount: tabs.length, keptOpen: true };
+  }
+
+  /**
+   * 把标签页追加到已有会话并写回 storage。
+   * 会话不存在或已锁定时抛出带说明的错误，不做任何修改。
+   */
+  private async appendTabsToSession(
+    groupId: string,
+    tabs: Tab[],
+    settings: UserSettings
+  ): Promise<AppendedTabsResult> {
+    // 标签管理器页面可能刚改过会话（重命名 / 锁定），先丢弃缓存
+    cacheManager.getCache('storage').delete('groups');
+
+    const result = appendTabsToGroup(await storage.getGroups(), groupId, tabs, {
+      now: new Date().toISOString(),
+      allowDuplicateTabs: settings.allowDuplicateTabs,
+    });
+
+    if (result.status === 'not-found') {
+      throw new Error('目标会话不存在或已被删除');
+    }
+    if (result.status === 'locked') {
+      throw new Error(`会话「${result.group.name}」已锁定，无法追加标签页`);
+    }
+
+    if (result.addedCount > 0) {
+      await storage.setGroups(result.groups);
+      this.notifyTabManagerRefresh();
+    }
+    return result;
+  }
+
+  /**
+   * 在后台打开单个恢复的标签页（不切换过去），同样应用「恢复时固定」规则
+   */
+  async openTabInBackground(tab: RestoreTabInput, windowId?: number): Promise<void> {
+    const settings = await storage.getSettings();
+    const [restoredTab] = applyAlwaysPinRules([tab], settings.urlRules);
+    const created = await chrome.tabs.create({
+      url: restoredTab.url,
+      active: false,
+      pinned: restoredTab.pinned,
+      windowId,
+    });
+    await restorePageState(created.id, restoredTab.pageState);
+  }
+
+  /**
+   * 按恢复位置打开一组标签页：新窗口 / 追加到当前窗口 / 替换当前窗口。
+   * 命中「恢复时固定」规则的标签页以固定标签页打开。
+   */
+  async restoreTabs(
+    inputTabs: RestoreTabInput[],
+    options: RestoreTabsOptions = {}
+  ): Promise<void> {
+    if (inputTabs.length === 0) {
+      return;
+    }
+
+    const settings = await storage.getSettings();
+    const tabs = applyAlwaysPinRules(inputTabs, settings.urlRules);
+    const target = options.target ?? settings.restoreTarget ?? 'new-window';
 
-      if (tabManagerId) {
-        await chrome.tabs.update(tabManagerId, { active: true });
+    if (target === 'new-window') {
+      await this.openTabsInNewWindow(tabs, options);
+      return;
+    }
+
+    try {
+      const windowId = options.windowId ?? (await chrome.windows.getLastFocused({ windowTypes: ['normal'] })).id;
+      if (windowId === undefined) {
+        throw new Error('找不到当前窗口');
       }
 
+      if (target === 'replace-window') {
+        await this.replaceWindowTabs(windowId, tabs, options, settings);
+      } else {
+        await this.openTabsInWindow(windowId, tabs, options, settings);
+      }
     } catch (error) {
-      console.error('打开标签页失败:', error);
+      console.error('在当前窗口恢复会话失败:', error);
       throw error;
     }
   }
@@ -216,7 +757,10 @@ export class TabManager {
   /**
    * 打开多个标签页，保留标签管理器页面
    */
-  async openTabsInNewWindow(tabs: Array<{ url: string; pinned?: boolean }>): Promise<void> {
+  async openTabsInNewWindow(
+    tabs: RestoreTabInput[],
+    options: RestoreTabsOptions = {}
+  ): Promise<void> {
     try {
       if (tabs.length === 0) {
         return;
@@ -235,27 +779,335 @@ export class TabManager {
         await chrome.tabs.update(createdFirstTabId, { pinned: true });
       }
 
-      await Promise.all(
+      const settings = await storage.getSettings();
+      const lazy = options.lazy ?? settings.lazyRestore;
+
+      // 第一个标签页是窗口的活动页，始终正常加载；其余标签页按模式创建
+      const createdTabIds = lazy
+        ? await mapWithConcurrency(
+          remainingTabs,
+          settings.lazyRestoreConcurrency,
+          tab => this.createDiscardedTab(targetWindowId, tab)
+        )
+        : (await Promise.all(
+          remainingTabs.map(tab =>
+            chrome.tabs.create({
+              windowId: targetWindowId,
+              url: tab.url,
+              active: false,
+              pinned: tab.pinned,
+            })
+          )
+        )).map(tab => tab.id);
+
+      await this.applyNativeTabGroups(
+        targetWindowId,
+        tabs,
+        [createdFirstTabId, ...createdTabIds],
+        options,
+        settings
+      );
+      await this.restorePageStates(tabs, [createdFirstTabId, ...createdTabIds]);
+
+    } catch (error) {
+      console.error('在新窗口恢复会话失败:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 把标签页追加到已有窗口的末尾，并切换到第一个恢复的标签页
+   */
+  private async openTabsInWindow(
+    windowId: number,
+    tabs: RestoreTabInput[],
+    options: RestoreTabsOptions,
+    settings: UserSettings
+  ): Promise<void> {
+    const [firstTab, ...remainingTabs] = tabs;
+    const createdFirstTab = await chrome.tabs.create({
+      windowId,
+      url: firstTab.url,
+      active: true,
+      pinned: firstTab.pinned,
+    });
+
+    const lazy = options.lazy ?? settings.lazyRestore;
+    const createdTabIds = lazy
+      ? await mapWithConcurrency(
+        remainingTabs,
+        settings.lazyRestoreConcurrency,
+        tab => this.createDiscardedTab(windowId, tab)
+      )
+      : (await Promise.all(
         remainingTabs.map(tab =>
           chrome.tabs.create({
-            windowId: targetWindowId,
+            windowId,
             url: tab.url,
             active: false,
             pinned: tab.pinned,
           })
         )
-      );
+      )).map(tab => tab.id);
+
+    await chrome.windows.update(windowId, { focused: true });
+
+    await this.applyNativeTabGroups(
+      windowId,
+      tabs,
+      [createdFirstTab.id, ...createdTabIds],
+      options,
+      settings
+    );
+    await this.restorePageStates(tabs, [createdFirstTab.id, ...createdTabIds]);
+  }
+
+  /**
+   * 替换窗口内容：先把窗口里可保存的标签页另存为会话，再打开恢复的标签页，最后关闭原标签页。
+   * 不会被保存的标签页（标签管理器页面、未收集的固定标签页）保持打开；空白新标签页一并关闭。
+   */
+  private async replaceWindowTabs(
+    windowId: number,
+    tabs: RestoreTabInput[],
+    options: RestoreTabsOptions,
+    settings: UserSettings
+  ): Promise<void> {
+    const windowTabs = await chrome.tabs.query({ windowId });
+    const tabsToSave = filterValidTabs(windowTabs, {
+      includePinned: settings.collectPinnedTabs ?? false,
+      urlRules: settings.urlRules,
+    });
+
+    const saved = tabsToSave.length > 0
+      ? await this.saveAllTabs(tabsToSave, { keepOpen: true, silent: true })
+      : null;
+
+    await this.openTabsInWindow(windowId, tabs, options, settings);
+
+    const tabIdsToClose = [
+      ...tabsToSave,
+      ...windowTabs.filter(tab => !tab.pinned && (tab.url === 'chrome://newtab/' || tab.url === 'about:blank')),
+    ]
+      .map(tab => tab.id)
+      .filter((id): id is number => id !== undefined);
+
+    if (tabIdsToClose.length > 0) {
+      try {
+        await chrome.tabs.remove(tabIdsToClose);
+      } catch (error) {
+        console.warn('关闭被替换的标签页时出错:', error);
+      }
+    }
+
+    if (saved) {
+      await this.showNotification({
+        type: 'basic',
+        iconUrl: chrome.runtime.getURL('icons/icon128.png'),
+        title: 'TabStack',
+        message: `已将原窗口的 ${saved.tabCount} 个标签页保存为新会话，并替换为恢复的会话`
+      });
+    }
+  }
+
+  /**
+   * 在后台创建标签页并立即丢弃，激活时由 Chrome 重新加载。
+   * 刚创建的标签页可能还没提交导航、无法丢弃，这时等它加载完成后再试；
+   * 仍然失败就保持加载状态——标签页已经恢复，不应让整个恢复失败。
+   */
+  private async createDiscardedTab(windowId: number, tab: RestoreTabInput): Promise<number | undefined> {
+    const created = await chrome.tabs.create({
+      windowId,
+      url: tab.url,
+      active: false,
+      pinned: tab.pinned,
+    });
+    if (created.id === undefined) {
+      return undefined;
+    }
 
+    try {
+      const discarded = await chrome.tabs.discard(created.id);
+      if (discarded?.id !== undefined) {
+        return discarded.id;
+      }
+    } catch {
+      // 尚未提交导航，等待加载完成后重试
+    }
+
+    await this.waitForTabComplete(created.id, LAZY_RESTORE_LOAD_TIMEOUT_MS);
+
+    try {
+      const discarded = await chrome.tabs.discard(created.id);
+      return discarded?.id ?? created.id;
     } catch (error) {
-      console.error('在新窗口恢复会话失败:', error);
-      throw error;
+      console.warn('丢弃恢复的标签页失败，保持加载状态:', tab.url, error);
+      return created.id;
+    }
+  }
+
+  /**
+   * 等待标签页加载完成（status === 'complete'），超时或标签页已关闭时直接返回
+   */
+  private waitForTabComplete(tabId: number, timeoutMs: number): Promise<void> {
+    return new Promise(resolve => {
+      const finish = () => {
+        clearTimeout(timer);
+        chrome.tabs.onUpdated.removeListener(listener);
+        resolve();
+      };
+      const listener = (updatedTabId: number, changeInfo: chrome.tabs.TabChangeInfo) => {
+        if (updatedTabId === tabId && changeInfo.status === 'complete') {
+          finish();
+        }
+      };
+      const timer = setTimeout(finish, timeoutMs);
+      chrome.tabs.onUpdated.addListener(listener);
+
+      // 监听注册前可能已经加载完成
+      chrome.tabs.get(tabId)
+        .then(current => {
+          if (current.status === 'complete') finish();
+        })
+        .catch(finish);
+    });
+  }
+
+  /**
+   * 开启「记录阅读位置」时读取将要保存的标签页的滚动位置（以 tabId 为键）；
+   * 永不保存的标签页不注入脚本。
+   */
+  private async getPageStates(
+    tabs: chrome.tabs.Tab[],
+    settings: UserSettings
+  ): Promise<Map<number, TabPageState> | undefined> {
+    if (!settings.capturePageState) {
+      return undefined;
+    }
+    return capturePageStates(filterValidTabs(tabs, {
+      includePinned: settings.collectPinnedTabs ?? false,
+      urlRules: settings.urlRules,
+    }));
+  }
+
+  /**
+   * 开启「保存页面全文」时抓取刚保存的标签页的正文（在关闭标签页之前）。
+   * 在会话写入之后保存，清理不再使用的正文时不会误删。抓取失败不影响保存。
+   */
+  private async savePageContents(tabs: chrome.tabs.Tab[], settings: UserSettings): Promise<void> {
+    if (!settings.capturePageContent) {
+      return;
+    }
+    try {
+      const contents = await capturePageContents(filterValidTabs(tabs, {
+        includePinned: settings.collectPinnedTabs ?? false,
+        urlRules: settings.urlRules,
+      }));
+      if (contents.length > 0) {
+        await storage.savePageContents(contents);
+        // 会话列表的刷新通知已先发出，单独通知已打开的页面重新载入正文
+        chrome.runtime.sendMessage({ type: 'REFRESH_PAGE_CONTENTS' }).catch(() => {});
+      }
+    } catch (error) {
+      console.warn('保存页面全文失败:', error);
+    }
+  }
+
+  /**
+   * 恢复的标签页加载完成后滚动到保存时的位置；tabIds 与 tabs 一一对应。
+   * 延迟恢复的标签页在激活加载后才滚动。
+   */
+  private async restorePageStates(tabs: RestoreTabInput[], tabIds: Array<number | undefined>): Promise<void> {
+    await Promise.all(tabs.map((tab, index) => restorePageState(tabIds[index], tab.pageState)));
+  }
+
+  /**
+   * 查询标签页所属的 Chrome 原生标签组（title / color），以 groupId 为键。
+   * tabGroups API 不可用或查询失败时返回空表，不影响保存。
+   */
+  private async getNativeTabGroups(tabs: chrome.tabs.Tab[]): Promise<Map<number, NativeTabGroupInfo>> {
+    const nativeGroups = new Map<number, NativeTabGroupInfo>();
+    if (!chrome.tabGroups) {
+      return nativeGroups;
+    }
+
+    const groupIds = [...new Set(
+      tabs
+        .map(tab => tab.groupId)
+        .filter((groupId): groupId is number => groupId !== undefined && groupId >= 0)
+    )];
+
+    await Promise.all(groupIds.map(async groupId => {
+      try {
+        nativeGroups.set(groupId, toNativeTabGroupInfo(await chrome.tabGroups.get(groupId)));
+      } catch (error) {
+        console.warn('读取原生标签组失败:', groupId, error);
+      }
+    }));
+
+    return nativeGroups;
+  }
+
+  /**
+   * 把恢复出来的标签页放回 Chrome 原生标签组。
+   * 分组失败只记录警告——标签页已经打开，不应让整个恢复失败。
+   */
+  private async applyNativeTabGroups(
+    windowId: number,
+    tabs: RestoreTabInput[],
+    createdTabIds: Array<number | undefined>,
+    options: RestoreTabsOptions,
+    settings: UserSettings
+  ): Promise<void> {
+    if (!chrome.tabGroups) {
+      return;
+    }
+
+    const sessionGroup = settings.restoreAsNativeTabGroup && options.session
+      ? { title: options.session.name, color: options.session.color ?? 'grey' }
+      : undefined;
+
+    for (const entry of planNativeTabGroups(tabs, sessionGroup)) {
+      const tabIds = entry.indices
+        .map(index => createdTabIds[index])
+        .filter((id): id is number => id !== undefined);
+      if (tabIds.length === 0) continue;
+
+      try {
+        const groupId = await chrome.tabs.group({ tabIds, createProperties: { windowId } });
+        await chrome.tabGroups.update(groupId, {
+          title: entry.info.title,
+          color: entry.info.color as chrome.tabGroups.ColorEnum,
+        });
+      } catch (error) {
+        console.warn('恢复原生标签组失败:', entry.info.title, error);
+      }
     }
   }
 
   /**
-   * 通知标签管理器页面刷新数据
+   * 单次调用显式传入的 keepOpen 优先，否则跟随用户设置
+   */
+  private resolveKeepOpen(keepOpen: boolean | undefined, settings: UserSettings): boolean {
+    return keepOpen ?? !(settings.autoCloseTabsAfterSaving ?? true);
+  }
+
+  /**
+   * 记录会话被重新打开（与页面中的 recordTabRestores 一致），用于恢复后保留的会话
+   */
+  private async recordTabRestores(groupId: string): Promise<void> {
+    const now = new Date().toISOString();
+    const groups = await storage.getGroups();
+    await storage.setGroups(groups.map(group =>
+      group.id === groupId ? updateGroupWithVersion(group, markTabsRestored(group, undefined, now)) : group
+    ));
+    this.notifyTabManagerRefresh();
+  }
+
+  /**
+   * 通知标签管理器页面刷新数据，并更新「保存到会话」菜单
    */
   private notifyTabManagerRefresh(): void {
+    scheduleSaveTargetMenuRefresh();
     chrome.runtime.sendMessage({
       type: 'REFRESH_TAB_LIST',
       data: { timestamp: Date.now() }
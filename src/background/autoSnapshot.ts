@@ -0,0 +1,56 @@
+import { tabManager } from '@/background/TabManager';
+import { storage } from '@/utils/storage';
+import { cacheManager } from '@/utils/performance';
+
+export const AUTO_SNAPSHOT_ALARM = 'auto-snapshot';
+
+/** chrome.alarms 的最小周期为 1 分钟 */
+const MIN_INTERVAL_MINUTES = 1;
+
+/**
+ * 按当前设置创建 / 更新 / 清除自动快照闹钟。
+ * 周期未变化时保留已有闹钟，避免每次 service worker 唤醒都把下一次触发时间往后推。
+ */
+export async function scheduleAutoSnapshot(): Promise<void> {
+  cacheManager.getCache('storage').delete('settings');
+  const settings = await storage.getSettings();
+
+  if (!settings.autoSnapshotEnabled) {
+    await chrome.alarms.clear(AUTO_SNAPSHOT_ALARM);
+    return;
+  }
+
+  const periodInMinutes = Math.max(MIN_INTERVAL_MINUTES, settings.autoSnapshotIntervalMinutes);
+  const existing = await chrome.alarms.get(AUTO_SNAPSHOT_ALARM);
+  if (existing?.periodInMinutes === periodInMinutes) {
+    return;
+  }
+
+  await chrome.alarms.create(AUTO_SNAPSHOT_ALARM, {
+    delayInMinutes: periodInMinutes,
+    periodInMinutes,
+  });
+}
+
+/**
+ * 闹钟触发时执行一次快照。设置已关闭（例如闹钟残留）时顺带清除闹钟。
+ */
+export async function handleAutoSnapshotAlarm(alarm: chrome.alarms.Alarm): Promise<void> {
+  if (alarm.name !== AUTO_SNAPSHOT_ALARM) {
+    return;
+  }
+
+  cacheManager.getCache('storage').delete('settings');
+  const settings = await storage.getSettings();
+  if (!settings.autoSnapshotEnabled) {
+    await chrome.alarms.clear(AUTO_SNAPSHOT_ALARM);
+    return;
+  }
+
+  try {
+    const savedCount = await tabManager.saveAutoSnapshot();
+    console.log(`[AutoSnapshot] 已保存 ${savedCount} 个自动快照会话`);
+  } catch (error) {
+    console.error('[AutoSnapshot] 自动快照失败:', error);
+  }
+}
@@ -0,0 +1,127 @@
+import { tabManager } from '@/background/TabManager';
+import { getTabLastActiveAt, selectIdleTabs } from '@/domain/tabGroup';
+import { storage } from '@/utils/storage';
+import { cacheManager } from '@/utils/performance';
+
+export const IDLE_ARCHIVE_ALARM = 'idle-archive';
+
+/** 闲置检查的周期（分钟），与 chrome.alarms 的最小周期一致 */
+const CHECK_INTERVAL_MINUTES = 1;
+
+/**
+ * 标签页最近激活时间（tabId → 毫秒时间戳）。
+ * 存在 chrome.storage.session：service worker 休眠后仍保留，浏览器重启后 tabId 失效，随之清空。
+ */
+const ACTIVITY_KEY = 'tab_last_active_at';
+
+type ActivityMap = Record<number, number>;
+
+// 串行化读写，避免并发事件互相覆盖
+let activityQueue: Promise<unknown> = Promise.resolve();
+
+function updateActivity(mutate: (activity: ActivityMap) => void): Promise<void> {
+  const next = activityQueue.then(async () => {
+    const stored = await chrome.storage.session.get(ACTIVITY_KEY);
+    const activity: ActivityMap = { ...(stored[ACTIVITY_KEY] ?? {}) };
+    mutate(activity);
+    await chrome.storage.session.set({ [ACTIVITY_KEY]: activity });
+  });
+  activityQueue = next.catch(error => {
+    console.warn('[IdleArchive] 更新标签页激活时间失败:', error);
+  });
+  return activityQueue as Promise<void>;
+}
+
+const markActive = (tabId: number | undefined) => {
+  if (tabId === undefined) return;
+  void updateActivity(activity => {
+    activity[tabId] = Date.now();
+  });
+};
+
+/**
+ * 注册激活时间追踪（须在 service worker 顶层同步调用）。
+ */
+export function trackTabActivity(): void {
+  chrome.tabs.onActivated.addListener(({ tabId }) => markActive(tabId));
+  chrome.tabs.onCreated.addListener(tab => markActive(tab.id));
+  chrome.tabs.onRemoved.addListener(tabId => {
+    void updateActivity(activity => {
+      delete activity[tabId];
+    });
+  });
+  // 切换窗口时，新聚焦窗口的活动标签页也视为被激活
+  chrome.windows.onFocusChanged.addListener(windowId => {
+    if (windowId === chrome.windows.WINDOW_ID_NONE) return;
+    chrome.tabs.query({ windowId, active: true })
+      .then(([tab]) => markActive(tab?.id))
+      .catch(() => {});
+  });
+}
+
+/**
+ * 按设置创建或清除闲置检查闹钟。
+ */
+export async function scheduleIdleArchive(): Promise<void> {
+  cacheManager.getCache('storage').delete('settings');
+  const settings = await storage.getSettings();
+
+  if (!settings.idleArchiveEnabled) {
+    await chrome.alarms.clear(IDLE_ARCHIVE_ALARM);
+    return;
+  }
+
+  if (!(await chrome.alarms.get(IDLE_ARCHIVE_ALARM))) {
+    await chrome.alarms.create(IDLE_ARCHIVE_ALARM, {
+      delayInMinutes: CHECK_INTERVAL_MINUTES,
+      periodInMinutes: CHECK_INTERVAL_MINUTES,
+    });
+  }
+}
+
+export async function handleIdleArchiveAlarm(alarm: chrome.alarms.Alarm): Promise<void> {
+  if (alarm.name !== IDLE_ARCHIVE_ALARM) {
+    return;
+  }
+
+  cacheManager.getCache('storage').delete('settings');
+  const settings = await storage.getSettings();
+  if (!settings.idleArchiveEnabled) {
+    await chrome.alarms.clear(IDLE_ARCHIVE_ALARM);
+    return;
+  }
+
+  try {
+    const now = Date.now();
+    const tabs = (await chrome.tabs.query({ windowType: 'normal' })).filter(tab => !tab.incognito);
+    const stored = await chrome.storage.session.get(ACTIVITY_KEY);
+    const activity: ActivityMap = stored[ACTIVITY_KEY] ?? {};
+
+    // 第一次见到、且 Chrome 也没有提供 lastAccessed 的标签页：从现在开始计时
+    const unseenTabIds = tabs
+      .filter(tab => tab.id !== undefined && getTabLastActiveAt(tab, activity) === undefined)
+      .map(tab => tab.id as number);
+    if (unseenTabIds.length > 0) {
+      await updateActivity(current => {
+        unseenTabIds.forEach(tabId => {
+          current[tabId] ??= now;
+        });
+      });
+    }
+
+    const idleTabs = selectIdleTabs(tabs, {
+      now,
+      idleMinutes: settings.idleArchiveMinutes,
+      lastActiveAt: activity,
+      whitelist: settings.idleArchiveWhitelist ?? [],
+      urlRules: settings.urlRules,
+    });
+
+    if (idleTabs.length > 0) {
+      const archivedCount = await tabManager.archiveIdleTabs(idleTabs);
+      console.log(`[IdleArchive] 已归档 ${archivedCount} 个闲置标签页`);
+    }
+  } catch (error) {
+    console.error('[IdleArchive] 闲置标签页归档失败:', error);
+  }
+}
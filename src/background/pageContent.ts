@@ -0,0 +1,102 @@
+import { isSafeUrl, MAX_PAGE_CONTENT_LENGTH, normalizePageText } from '@/domain/tabGroup';
+import { hasPageStatePermission } from '@/background/pageState';
+import { mapWithConcurrency } from '@/utils/performance';
+import type { PageContent } from '@/types/tab';
+
+/**
+ * 页面全文：保存时向页面注入脚本提取正文（去掉导航、页眉页脚等），供 `content:` 搜索。
+ *
+ * 与阅读位置共用访问所有网站的可选权限（设置 →「恢复」中开启时申请）；没有权限时不抓取。
+ */
+
+/** 同时注入读取脚本的标签页数 */
+const CAPTURE_CONCURRENCY = 4;
+
+/**
+ * 在页面中执行：粗略的正文提取。
+ * 优先取 article / main，否则取段落文字最多的容器，都没有时退回 body。
+ * 会被序列化后注入页面，不能引用外部变量。
+ */
+function readPageText(maxLength: number): string {
+  const NOISE_SELECTOR = [
+    'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe',
+    'nav', 'header', 'footer', 'aside', 'form', 'button', 'select',
+    '[hidden]', '[aria-hidden="true"]', '[role="navigation"]', '[role="banner"]',
+    '[role="contentinfo"]', '[role="complementary"]',
+  ].join(',');
+
+  const pickRoot = (): Element => {
+    const candidates = Array.from(document.querySelectorAll('article, main, [role="main"]'));
+    const semantic = candidates.sort((a, b) => (b.textContent?.length ?? 0) - (a.textContent?.length ?? 0))[0];
+    if (semantic && (semantic.textContent?.trim().length ?? 0) > 200) return semantic;
+
+    // 按段落文字长度给父元素计分
+    const scores = new Map<Element, number>();
+    for (const paragraph of Array.from(document.querySelectorAll('p'))) {
+      const parent = paragraph.parentElement;
+      if (!parent) continue;
+      scores.set(parent, (scores.get(parent) ?? 0) + (paragraph.textContent?.trim().length ?? 0));
+    }
+    let best: Element = document.body;
+    let bestScore = 0;
+    for (const [element, score] of scores) {
+      if (score > bestScore) {
+        best = element;
+        bestScore = score;
+      }
+    }
+    return bestScore > 200 ? best : document.body;
+  };
+
+  const clone = pickRoot().cloneNode(true) as Element;
+  clone.querySelectorAll(NOISE_SELECTOR).forEach(element => element.remove());
+
+  // 文本节点之间补空格，避免相邻块级元素的文字粘连
+  const parts: string[] = [];
+  let length = 0;
+  const walker = document.createTreeWalker(clone, NodeFilter.SHOW_TEXT);
+  while (walker.nextNode() && length < maxLength) {
+    const text = walker.currentNode.nodeValue?.trim();
+    if (!text) continue;
+    parts.push(text);
+    length += text.length + 1;
+  }
+  return parts.join(' ');
+}
+
+/**
+ * 抓取标签页的正文（以网址为键，同一网址只抓一次）。
+ * 没有权限、受限页面、休眠中的标签页与正文太短的页面跳过，不影响保存。
+ */
+export async function capturePageContents(tabs: chrome.tabs.Tab[]): Promise<PageContent[]> {
+  if (!(await hasPageStatePermission())) {
+    return [];
+  }
+
+  const seenUrls = new Set<string>();
+  const readableTabs = tabs.filter(tab => {
+    if (tab.id === undefined || tab.discarded || !tab.url || !isSafeUrl(tab.url) || seenUrls.has(tab.url)) {
+      return false;
+    }
+    seenUrls.add(tab.url);
+    return true;
+  });
+
+  const capturedAt = new Date().toISOString();
+  const contents = await mapWithConcurrency(readableTabs, CAPTURE_CONCURRENCY, async tab => {
+    try {
+      const [injection] = await chrome.scripting.executeScript({
+        target: { tabId: tab.id! },
+        func: readPageText,
+        args: [MAX_PAGE_CONTENT_LENGTH],
+      });
+      const text = normalizePageText(injection?.result);
+      return text ? { url: tab.url!, text, capturedAt } : undefined;
+    } catch (error) {
+      console.warn('[PageContent] 读取页面正文失败:', tab.url, error);
+      return undefined;
+    }
+  });
+
+  return contents.filter((content): content is PageContent => content !== undefined);
+}
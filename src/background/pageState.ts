@@ -0,0 +1,192 @@
+import { hasPageStatePosition, isSafeUrl, normalizePageState, PAGE_STATE_ORIGINS } from '@/domain/tabGroup';
+import { mapWithConcurrency } from '@/utils/performance';
+import type { TabPageState } from '@/types/tab';
+
+/**
+ * 阅读位置：保存时向页面注入脚本读取滚动位置，恢复的标签页加载完成后再滚动回去。
+ *
+ * 需要访问所有网站的可选权限（设置 →「恢复」中开启时申请）；没有权限时不读取也不恢复。
+ */
+
+/** 同时注入读取脚本的标签页数 */
+const CAPTURE_CONCURRENCY = 4;
+
+/**
+ * 等待加载完成后恢复滚动位置的标签页（tabId → 页面状态）。
+ * 存在 chrome.storage.session：延迟恢复的标签页可能很久之后才被激活加载，service worker 期间会休眠。
+ */
+const PENDING_KEY = 'pending_page_states';
+
+type PendingMap = Record<number, TabPageState>;
+
+// 串行化读写，避免并发事件互相覆盖
+let pendingQueue: Promise<unknown> = Promise.resolve();
+
+function updatePending<T>(mutate: (pending: PendingMap) => T): Promise<T | undefined> {
+  const next = pendingQueue.then(async () => {
+    const stored = await chrome.storage.session.get(PENDING_KEY);
+    const pending: PendingMap = { ...(stored[PENDING_KEY] ?? {}) };
+    const result = mutate(pending);
+    await chrome.storage.session.set({ [PENDING_KEY]: pending });
+    return result;
+  });
+  pendingQueue = next.catch(error => {
+    console.warn('[PageState] 更新待恢复的阅读位置失败:', error);
+  });
+  return next.catch(() => undefined);
+}
+
+/**
+ * 在页面中执行：读取滚动位置与视口顶部附近最近的锚点。
+ * 会被序列化后注入页面，不能引用外部变量。
+ */
+function readPageState(): TabPageState {
+  const root = document.scrollingElement ?? document.documentElement;
+  const maxScrollY = Math.max(root.scrollHeight - window.innerHeight, 0);
+
+  // 最后一个顶部已滚过视口上沿的带 id 元素
+  let fragment: string | undefined;
+  for (const element of Array.from(document.querySelectorAll<HTMLElement>('[id]'))) {
+    if (element.getBoundingClientRect().top > 1) break;
+    if (element.id && element.offsetHeight > 0) fragment = element.id;
+  }
+
+  return {
+    scrollX: window.scrollX,
+    scrollY: window.scrollY,
+    scrollRatio: maxScrollY > 0 ? window.scrollY / maxScrollY : 0,
+    fragment: window.scrollY > 0 ? fragment : undefined,
+  };
+}
+
+/**
+ * 在页面中执行：滚动到记录的位置；页面变短时优先定位到记录的锚点，没有锚点时按比例定位。
+ * 页面内容可能仍在加载，稍后再校正一次。
+ */
+function applyPageState(state: TabPageState): void {
+  const scroll = () => {
+    const root = document.scrollingElement ?? document.documentElement;
+    const maxScrollY = Math.max(root.scrollHeight - window.innerHeight, 0);
+    if (state.scrollY > maxScrollY && state.fragment) {
+      const anchor = document.getElementById(state.fragment);
+      if (anchor) {
+        anchor.scrollIntoView({ block: 'start', behavior: 'instant' as ScrollBehavior });
+        return;
+      }
+    }
+    const top = state.scrollY <= maxScrollY ? state.scrollY : Math.round(state.scrollRatio * maxScrollY);
+    window.scrollTo({ left: state.scrollX, top, behavior: 'instant' as ScrollBehavior });
+  };
+  scroll();
+  setTimeout(scroll, 800);
+}
+
+export async function hasPageStatePermission(): Promise<boolean> {
+  try {
+    return await chrome.permissions.contains({ origins: PAGE_STATE_ORIGINS });
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 读取标签页的阅读位置（以 tabId 为键）。
+ * 没有权限、受限页面、休眠中的标签页跳过，不影响保存。
+ */
+export async function capturePageStates(tabs: chrome.tabs.Tab[]): Promise<Map<number, TabPageState>> {
+  const pageStates = new Map<number, TabPageState>();
+  if (!(await hasPageStatePermission())) {
+    return pageStates;
+  }
+
+  const readableTabs = tabs.filter(tab =>
+    tab.id !== undefined && !tab.discarded && !!tab.url && isSafeUrl(tab.url)
+  );
+
+  await mapWithConcurrency(readableTabs, CAPTURE_CONCURRENCY, async tab => {
+    try {
+      const [injection] = await chrome.scripting.executeScript({
+        target: { tabId: tab.id! },
+        func: readPageState,
+      });
+      const pageState = normalizePageState(injection?.result);
+      if (pageState) {
+        pageStates.set(tab.id!, pageState);
+      }
+    } catch (error) {
+      console.warn('[PageState] 读取阅读位置失败:', tab.url, error);
+    }
+  });
+
+  return pageStates;
+}
+
+async function applyToTab(tabId: number, state: TabPageState): Promise<void> {
+  try {
+    await chrome.scripting.executeScript({
+      target: { tabId },
+      func: applyPageState,
+      args: [state],
+    });
+  } catch (error) {
+    console.warn('[PageState] 恢复阅读位置失败:', tabId, error);
+  }
+}
+
+/**
+ * 恢复的标签页加载完成后滚动到记录的位置（延迟恢复的标签页在激活加载后才滚动）
+ */
+export async function restorePageState(tabId: number | undefined, state: TabPageState | undefined): Promise<void> {
+  if (tabId === undefined || !hasPageStatePosition(state)) return;
+  if (!(await hasPageStatePermission())) return;
+
+  await updatePending(pending => {
+    pending[tabId] = state;
+  });
+
+  // 注册之前可能已经加载完成
+  try {
+    const tab = await chrome.tabs.get(tabId);
+    if (tab.status === 'complete' && !tab.discarded) {
+      await handleTabComplete(tabId);
+    }
+  } catch {
+    await updatePending(pending => {
+      delete pending[tabId];
+    });
+  }
+}
+
+async function handleTabComplete(tabId: number): Promise<void> {
+  // 绝大多数加载完成事件与阅读位置无关，先只读判断，避免每次都写 storage
+  const stored = await chrome.storage.session.get(PENDING_KEY);
+  if (!stored[PENDING_KEY]?.[tabId]) return;
+
+  const state = await updatePending(pending => {
+    const current = pending[tabId];
+    delete pending[tabId];
+    return current;
+  });
+  if (state) {
+    await applyToTab(tabId, state);
+  }
+}
+
+/**
+ * 监听标签页加载完成 / 关闭（只注册一次，在 service worker 顶层调用）
+ */
+export function trackPageStateRestores(): void {
+  chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+    if (changeInfo.status === 'complete') {
+      void handleTabComplete(tabId);
+    }
+  });
+  chrome.tabs.onRemoved.addListener(tabId => {
+    void chrome.storage.session.get(PENDING_KEY).then(stored => {
+      if (!stored[PENDING_KEY]?.[tabId]) return;
+      return updatePending(pending => {
+        delete pending[tabId];
+      });
+    });
+  });
+}
@@ -0,0 +1,40 @@
+import { tabManager } from '@/background/TabManager';
+import { storage } from '@/utils/storage';
+
+export const RETENTION_ALARM = 'session-retention';
+
+/** 每天检查一次 */
+const CHECK_INTERVAL_MINUTES = 24 * 60;
+
+/**
+ * 保留策略的闹钟始终存在：全局策略关闭时，会话上单独设置的规则仍需执行。
+ * 已有闹钟时保留，避免每次 service worker 唤醒都把下一次检查往后推。
+ */
+export async function scheduleRetention(): Promise<void> {
+  if (await chrome.alarms.get(RETENTION_ALARM)) {
+    return;
+  }
+
+  await chrome.alarms.create(RETENTION_ALARM, {
+    delayInMinutes: 1,
+    periodInMinutes: CHECK_INTERVAL_MINUTES,
+  });
+}
+
+export async function handleRetentionAlarm(alarm: chrome.alarms.Alarm): Promise<void> {
+  if (alarm.name !== RETENTION_ALARM) {
+    return;
+  }
+
+  try {
+    const { deleted, archived } = await tabManager.applyRetentionPolicies();
+    if (deleted + archived > 0) {
+      console.log(`[Retention] 已删除 ${deleted} 个、归档 ${archived} 个过期会话`);
+    }
+  } catch (error) {
+    console.error('[Retention] 执行保留策略失败:', error);
+  }
+
+  // 回收站中超过 30 天的会话与标签页也在这里清理
+  await storage.cleanupDeletedGroups();
+}
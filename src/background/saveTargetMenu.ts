@@ -0,0 +1,97 @@
+import { selectSaveTargetGroups } from '@/domain/tabGroup';
+import { storage } from '@/utils/storage';
+import { cacheManager, debounce } from '@/utils/performance';
+
+/**
+ * 右键菜单「保存当前标签到会话」（扩展图标）/「保存此页面到会话…」（页面）：
+ * 列出收件箱、收藏和最近更新的会话。
+ *
+ * service worker 保存后由 TabManager 重建子菜单；标签管理器页面写入会话或设置时
+ * 发送 LOCAL_DATA_CHANGED 消息（见 utils/storage），service worker 收到后重建。
+ */
+interface SaveTargetMenu {
+  id: string;
+  /** 子菜单项 id 前缀，后接会话 id */
+  prefix: string;
+  title: string;
+  contexts: chrome.contextMenus.ContextType[];
+}
+
+const SAVE_TARGET_MENUS: SaveTargetMenu[] = [
+  { id: 'saveToSessionMenu', prefix: 'saveToSession:', title: '保存当前标签到会话', contexts: ['action'] },
+  { id: 'savePageToSessionMenu', prefix: 'savePageToSession:', title: '保存此页面到会话…', contexts: ['page'] },
+];
+
+const EMPTY_ITEM_SUFFIX = '__empty';
+const REFRESH_DEBOUNCE_MS = 1_000;
+
+let refreshing: Promise<void> = Promise.resolve();
+
+/**
+ * 从菜单项 id 中取出会话 id；不是「保存到会话」菜单项时返回 null
+ */
+export const parseSaveTargetMenuItemId = (menuItemId: string | number): string | null => {
+  if (typeof menuItemId !== 'string') return null;
+  const menu = SAVE_TARGET_MENUS.find(item => menuItemId.startsWith(item.prefix));
+  if (!menu) return null;
+  const groupId = menuItemId.slice(menu.prefix.length);
+  return groupId === EMPTY_ITEM_SUFFIX ? null : groupId;
+};
+
+async function rebuildSaveTargetMenu(): Promise<void> {
+  const cache = cacheManager.getCache('storage');
+  cache.delete('settings');
+  cache.delete('groups');
+
+  const [settings, groups] = await Promise.all([storage.getSettings(), storage.getGroups()]);
+  const targets = selectSaveTargetGroups(groups, { inboxSessionId: settings.inboxSessionId });
+
+  for (const menu of SAVE_TARGET_MENUS) {
+    // 整个父菜单重建：service worker 重启后不知道上次创建了哪些子菜单项
+    try {
+      await chrome.contextMenus.remove(menu.id);
+    } catch {
+      // 菜单可能尚未创建或已随 removeAll 清除
+    }
+    chrome.contextMenus.create({ id: menu.id, title: menu.title, contexts: menu.contexts });
+
+    if (targets.length === 0) {
+      chrome.contextMenus.create({
+        id: `${menu.prefix}${EMPTY_ITEM_SUFFIX}`,
+        parentId: menu.id,
+        title: '没有可追加的会话',
+        enabled: false,
+        contexts: menu.contexts,
+      });
+      continue;
+    }
+
+    targets.forEach(group => {
+      const marker = group.id === settings.inboxSessionId ? '（收件箱）' : group.isFavorite ? ' ★' : '';
+      chrome.contextMenus.create({
+        id: `${menu.prefix}${group.id}`,
+        parentId: menu.id,
+        title: `${group.name}${marker}`,
+        contexts: menu.contexts,
+      });
+    });
+  }
+}
+
+/**
+ * 重建「保存到会话」菜单（在 setupContextMenus 末尾、会话变化后调用）；
+ * 多次调用按顺序执行，避免并发创建重复 id
+ */
+export function refreshSaveTargetMenu(): Promise<void> {
+  refreshing = refreshing
+    .then(rebuildSaveTargetMenu)
+    .catch(error => {
+      console.warn('[SaveTargetMenu] 更新「保存到会话」菜单失败:', error);
+    });
+  return refreshing;
+}
+
+/** 防抖的 refreshSaveTargetMenu，供频繁触发的场景使用 */
+export const scheduleSaveTargetMenuRefresh = debounce(() => {
+  void refreshSaveTargetMenu();
+}, REFRESH_DEBOUNCE_MS);
@@ -0,0 +1,59 @@
+import { extractUrlsFromText, type LinkInput } from '@/domain/tabGroup';
+
+/**
+ * 在页面中执行：收集与当前选区相交的 <a href>，以及包住选区的链接。
+ * 会被序列化后注入页面，不能引用外部变量。
+ */
+function collectLinksInSelection(): LinkInput[] {
+  const selection = window.getSelection();
+  if (!selection) return [];
+
+  const links: LinkInput[] = [];
+  for (let index = 0; index < selection.rangeCount; index += 1) {
+    const range = selection.getRangeAt(index);
+    const container = range.commonAncestorContainer;
+    const root = container.nodeType === Node.ELEMENT_NODE
+      ? (container as Element)
+      : container.parentElement;
+    if (!root) continue;
+
+    const enclosing = root.closest('a[href]') as HTMLAnchorElement | null;
+    if (enclosing) {
+      links.push({ url: enclosing.href, text: enclosing.innerText || enclosing.title });
+    }
+    root.querySelectorAll<HTMLAnchorElement>('a[href]').forEach(anchor => {
+      if (range.intersectsNode(anchor)) {
+        links.push({ url: anchor.href, text: anchor.innerText || anchor.title });
+      }
+    });
+  }
+  return links;
+}
+
+/**
+ * 取右键菜单选区中的所有链接。
+ * 优先读取页面 DOM（右键菜单点击授予 activeTab）；受限页面无法注入脚本时，
+ * 退回从选中的纯文本中提取 URL。
+ */
+export async function getSelectionLinks(
+  tabId: number | undefined,
+  frameId: number | undefined,
+  selectionText: string | undefined
+): Promise<LinkInput[]> {
+  if (tabId !== undefined) {
+    try {
+      const [injection] = await chrome.scripting.executeScript({
+        target: { tabId, frameIds: [frameId ?? 0] },
+        func: collectLinksInSelection,
+      });
+      const links = (injection?.result ?? []) as LinkInput[];
+      if (links.length > 0) {
+        return links;
+      }
+    } catch (error) {
+      console.warn('[SelectionLinks] 读取选区链接失败，改为从选中文本提取:', error);
+    }
+  }
+
+  return extractUrlsFromText(selectionText ?? '').map(url => ({ url }));
+}
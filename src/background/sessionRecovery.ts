@@ -0,0 +1,95 @@
+import { tabManager } from '@/background/TabManager';
+import { pruneReopenedWindows } from '@/domain/tabGroup';
+import { storage } from '@/utils/storage';
+import { debounce } from '@/utils/performance';
+
+/**
+ * 崩溃 / 关闭恢复：
+ * - 浏览器运行期间随标签页、窗口事件把当前窗口写入 live_windows；
+ * - 每个浏览器会话第一次启动 service worker 时，把上一次的 live_windows 转为「上次浏览会话」，
+ *   由标签管理器页面提示恢复。
+ *
+ * 用 chrome.storage.session（浏览器重启后清空）判断「本次浏览器会话是否已处理过」，
+ * 不依赖 onStartup 与标签页事件的先后顺序。
+ */
+const SESSION_FLAG_KEY = 'session_recovery_initialized';
+
+const RECORD_DEBOUNCE_MS = 2_000;
+
+let trackingReady = false;
+let initializing: Promise<void> | null = null;
+
+async function recordLiveWindows(): Promise<void> {
+  try {
+    await storage.setLiveWindows(await tabManager.captureBrowsingSession());
+  } catch (error) {
+    console.warn('[SessionRecovery] 记录当前窗口失败:', error);
+  }
+}
+
+const scheduleRecord = debounce(() => {
+  if (trackingReady) void recordLiveWindows();
+}, RECORD_DEBOUNCE_MS);
+
+async function promotePreviousSession(): Promise<void> {
+  const liveWindows = await storage.getLiveWindows();
+  if (!liveWindows) return;
+
+  const openTabs = await chrome.tabs.query({});
+  const openUrls = new Set(
+    openTabs
+      .map(tab => tab.pendingUrl || tab.url)
+      .filter((url): url is string => !!url)
+  );
+
+  const previous = pruneReopenedWindows(liveWindows, openUrls);
+  if (previous) {
+    await storage.setPreviousSession(previous);
+    console.log(`[SessionRecovery] 检测到上次浏览会话：${previous.windows.length} 个窗口`);
+  }
+}
+
+/**
+ * 幂等：service worker 每次激活和 onStartup 都可以调用。
+ */
+export function initSessionRecovery(): Promise<void> {
+  if (!initializing) {
+    initializing = (async () => {
+      try {
+        const flags = await chrome.storage.session.get(SESSION_FLAG_KEY);
+        if (!flags[SESSION_FLAG_KEY]) {
+          await promotePreviousSession();
+          await chrome.storage.session.set({ [SESSION_FLAG_KEY]: true });
+        }
+      } catch (error) {
+        console.warn('[SessionRecovery] 初始化失败:', error);
+      } finally {
+        trackingReady = true;
+        await recordLiveWindows();
+      }
+    })();
+  }
+  return initializing;
+}
+
+/**
+ * 注册标签页 / 窗口事件监听（须在 service worker 顶层同步调用）。
+ * 关闭窗口引起的标签页移除（isWindowClosing）和窗口关闭本身不触发记录：
+ * 浏览器退出时窗口逐个关闭，若记录这些事件，live_windows 会在退出前被清空。
+ * 运行期间主动关闭的窗口会在下一次标签页事件时从记录中移除。
+ */
+export function trackLiveWindows(): void {
+  chrome.tabs.onCreated.addListener(() => scheduleRecord());
+  chrome.tabs.onUpdated.addListener((_tabId, changeInfo) => {
+    if (changeInfo.url || changeInfo.pinned !== undefined || changeInfo.status === 'complete') {
+      scheduleRecord();
+    }
+  });
+  chrome.tabs.onRemoved.addListener((_tabId, removeInfo) => {
+    if (!removeInfo.isWindowClosing) scheduleRecord();
+  });
+  chrome.tabs.onMoved.addListener(() => scheduleRecord());
+  chrome.tabs.onAttached.addListener(() => scheduleRecord());
+  chrome.tabs.onDetached.addListener(() => scheduleRecord());
+  chrome.windows.onCreated.addListener(() => scheduleRecord());
+}
@@ -8,6 +8,8 @@ import { useAppSelector } from '@/store/hooks';
 import { formatLastSync } from '@/utils/sessionPresentation';
 import { storage, type LastSyncStatus } from '@/utils/storage';
 import { NetworkBanner } from '@/components/common/NetworkBanner';
+import { PreviousSessionBanner } from '@/components/tabs/PreviousSessionBanner';
+import { WorkspaceLauncher } from '@/components/tabs/WorkspaceLauncher';
 
 // 使用动态导入懒加载拖放功能
 const DndProvider = lazy(() =>
@@ -158,6 +160,7 @@ export const MainApp: React.FC = () => {
             <>
               <Header onSearch={setSearchQuery} onOpenSettings={() => setShowSettings(true)} />
               <main className={`flex-1 w-full py-2 layout-double-width`}>
+                <PreviousSessionBanner />
                 <Suspense fallback={<div className="p-4 text-center">加载标签列表...</div>}>
                   <TabList searchQuery={deferredSearchQuery} />
                 </Suspense>
@@ -204,6 +207,9 @@ export const MainApp: React.FC = () => {
         </div>
       </DndProvider>
 
+      {/* 快捷键 launch_workspace 的模板选择 */}
+      <WorkspaceLauncher />
+
       {/* 用户引导弹窗 */}
       {showOnboarding && (
         <OnboardingGuide onComplete={() => setShowOnboarding(false)} />
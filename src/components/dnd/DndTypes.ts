@@ -27,7 +27,8 @@ export interface TabDragData extends DragData {
 // 为了兼容旧代码，保留旧的类型定义
 export const ItemTypes = {
   TAB_GROUP: 'tabGroup',
-  TAB: 'tab'
+  TAB: 'tab',
+  FOLDER: 'folder'
 };
 
 export interface DragItem {
@@ -45,3 +46,9 @@ export interface TabDragItem extends DragItem {
   type: typeof ItemTypes.TAB;
   groupId: string;
 }
+
+// 会话文件夹拖拽数据（拖到其他文件夹下或顶层）
+export interface FolderDragItem {
+  type: typeof ItemTypes.FOLDER;
+  id: string;
+}
@@ -6,6 +6,9 @@ import { throttle } from 'lodash';
 import { SafeFavicon } from '@/components/common/SafeFavicon';
 import { useAppDispatch } from '@/store/hooks';
 import { moveTabLocal, persistGroupsDebounced } from '@/store/slices/tabSlice';
+import { formatRestoreHistory } from '@/utils/sessionPresentation';
+import { formatTagInput, parseTagInput } from '@/domain/tabGroup';
+import { TagChips } from '@/components/tabs/TagChips';
 
 interface DraggableTabProps {
   tab: Tab;
@@ -13,6 +16,8 @@ interface DraggableTabProps {
   index: number;
   handleOpenTab: (tab: Tab) => void;
   handleDeleteTab: (tabId: string) => void;
+  /** 修改标签页自身的标签；不传时不显示编辑按钮 */
+  handleUpdateTabTags?: (tab: Tab, tags: string[]) => void;
   isCollapsed?: boolean;
   isLocked?: boolean;
 }
@@ -24,6 +29,13 @@ const PinIcon = () => (
   </svg>
 );
 
+// 标签图标
+const TagIcon = () => (
+  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+  </svg>
+);
+
 // 删除图标
 const CloseIcon = () => (
   <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
@@ -41,6 +53,7 @@ export const DraggableTab: React.FC<DraggableTabProps> = React.memo(({
   index,
   handleOpenTab,
   handleDeleteTab,
+  handleUpdateTabTags,
   isCollapsed = false,
   isLocked = false
 }) => {
@@ -48,6 +61,7 @@ export const DraggableTab: React.FC<DraggableTabProps> = React.memo(({
   const ref = useRef<HTMLDivElement>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [isShaking, setIsShaking] = useState(false);
+  const [tagsDraft, setTagsDraft] = useState<string | null>(null);
 
   const throttledMoveTab = useMemo(
     () => throttle((targetGroupId: string, tabId: string, toIndex: number) => {
@@ -141,6 +155,17 @@ export const DraggableTab: React.FC<DraggableTabProps> = React.memo(({
     }
   }, [tab.url]);
 
+  const restoreHistory = formatRestoreHistory(tab);
+
+  const handleSaveTags = useCallback(() => {
+    const tags = tagsDraft === null ? null : parseTagInput(tagsDraft);
+    // 没有改动时不写入，避免无谓地递增版本号
+    if (tags && formatTagInput(tags) !== formatTagInput(tab.tags)) {
+      handleUpdateTabTags?.(tab, tags);
+    }
+    setTagsDraft(null);
+  }, [handleUpdateTabTags, tab, tagsDraft]);
+
   return (
     <div
       ref={ref}
@@ -157,35 +182,75 @@ export const DraggableTab: React.FC<DraggableTabProps> = React.memo(({
       {/* Favicon */}
       <SafeFavicon src={tab.favicon} alt={`${tab.title} 网站图标`} className="tab-item-favicon transition-transform duration-100 hover:scale-125 hover:shadow-sm" />
 
-      {/* 标题和 URL */}
-      <div className="flex-1 min-w-0 flex items-center gap-3">
-        <a
-          href="#"
-          className="tab-item-title tab-item-title-hover transition-colors flex items-center gap-1 min-w-0 truncate focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
-          onClick={handleTabClick}
-          title={tabTitle}
-          aria-label={`打开标签页: ${tabTitle}${tab.pinned ? ' (固定)' : ''}`}
-          tabIndex={0}
-          onKeyDown={(e) => {
-            if (e.key === 'Enter' || e.key === ' ') {
-              e.preventDefault();
-              handleTabClick(e as any);
-            }
+      {/* 标题和 URL（编辑标签时替换为输入框） */}
+      {tagsDraft !== null ? (
+        <input
+          value={tagsDraft}
+          onChange={event => setTagsDraft(event.target.value)}
+          onKeyDown={event => {
+            if (event.key === 'Enter') event.currentTarget.blur();
+            if (event.key === 'Escape') setTagsDraft(null);
           }}
-        >
-          {tabTitle}
-          {tab.pinned && <PinIcon />}
-        </a>
-        <span 
-          className="tab-item-url block truncate max-w-[45%] text-xs"
-          aria-label={`网址: ${tab.url}`}
-        >
-          {displayUrl}
-        </span>
-      </div>
+          // 失焦即保存（回车也走失焦），Esc 直接放弃
+          onBlur={handleSaveTags}
+          placeholder="标签，用逗号或空格分隔"
+          className="flex-1 min-w-0 rounded border border-gray-300 bg-white px-2 py-0.5 text-xs text-gray-900 focus:border-primary-500 focus:outline-none dark:border-gray-600 dark:bg-gray-900 dark:text-gray-100"
+          aria-label={`编辑标签页标签: ${tabTitle}`}
+          autoFocus
+        />
+      ) : (
+        <div className="flex-1 min-w-0 flex items-center gap-3">
+          <a
+            href="#"
+            className="tab-item-title tab-item-title-hover transition-colors flex items-center gap-1 min-w-0 truncate focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
+            onClick={handleTabClick}
+            title={tabTitle}
+            aria-label={`打开标签页: ${tabTitle}${tab.pinned ? ' (固定)' : ''}`}
+            tabIndex={0}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') {
+                e.preventDefault();
+                handleTabClick(e as any);
+              }
+            }}
+          >
+            {tabTitle}
+            {tab.pinned && <PinIcon />}
+          </a>
+          <span 
+            className="tab-item-url block truncate max-w-[45%] text-xs"
+            aria-label={`网址: ${tab.url}`}
+          >
+            {displayUrl}
+          </span>
+          {restoreHistory && (
+            <span
+              className="tab-item-url hidden shrink-0 text-xs sm:block"
+              title={tab.lastRestoredAt ? `上次打开：${new Date(tab.lastRestoredAt).toLocaleString('zh-CN')}` : undefined}
+              data-testid="tab-restore-history"
+            >
+              {restoreHistory}
+            </span>
+          )}
+          <TagChips tags={tab.tags} size="xs" className="shrink-0" />
+        </div>
+      )}
 
       {/* 操作按钮 */}
       <div className="tab-item-actions">
+        {handleUpdateTabTags && !isLocked && tagsDraft === null && (
+          <button
+            onClick={event => {
+              event.stopPropagation();
+              setTagsDraft(formatTagInput(tab.tags));
+            }}
+            className="btn-icon p-1 transition-all duration-200 ease-out focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
+            title="编辑标签页标签"
+            aria-label={`编辑标签页标签: ${tabTitle}`}
+          >
+            <TagIcon />
+          </button>
+        )}
         <button
           onClick={handleDelete}
           className="btn-icon p-1 tab-item-delete-btn hover:scale-90 hover:bg-red-100 dark:hover:bg-red-900/50 transition-all duration-200 ease-out focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
@@ -210,13 +275,18 @@ export const DraggableTab: React.FC<DraggableTabProps> = React.memo(({
     prevProps.tab.url === nextProps.tab.url &&
     prevProps.tab.favicon === nextProps.tab.favicon &&
     prevProps.tab.lastAccessed === nextProps.tab.lastAccessed &&
+    prevProps.tab.restoreCount === nextProps.tab.restoreCount &&
+    prevProps.tab.lastRestoredAt === nextProps.tab.lastRestoredAt &&
+    prevProps.tab.tags === nextProps.tab.tags &&
     prevProps.tab.pinned === nextProps.tab.pinned;
 
   if (!tabContentEqual) return false;
 
   const callbacksEqual =
     prevProps.handleOpenTab === nextProps.handleOpenTab &&
-    prevProps.handleDeleteTab === nextProps.handleDeleteTab;
+    prevProps.handleDeleteTab === nextProps.handleDeleteTab &&
+    prevProps.handleUpdateTabTags === nextProps.handleUpdateTabTags &&
+    prevProps.isLocked === nextProps.isLocked;
 
   return callbacksEqual;
 });
@@ -1,6 +1,8 @@
 import React, { useRef } from 'react';
+import { useDrag } from 'react-dnd';
 import { TabGroup as TabGroupType } from '@/types/tab';
 import { TabGroup } from '@/components/tabs/TabGroup';
+import { ItemTypes, TabGroupDragItem } from './DndTypes';
 
 interface DraggableTabGroupProps {
   group: TabGroupType;
@@ -8,16 +10,25 @@ interface DraggableTabGroupProps {
   moveGroup: (dragIndex: number, hoverIndex: number) => void;
 }
 
-export const DraggableTabGroup: React.FC<DraggableTabGroupProps> = ({ group }) => {
+export const DraggableTabGroup: React.FC<DraggableTabGroupProps> = ({ group, index }) => {
   const ref = useRef<HTMLDivElement>(null);
 
-  // 禁用标签组拖拽功能 - 标签组应该保持固定位置
+  // 标签组在列表中的位置保持固定；拖拽只用于把会话放进文件夹（FolderTree 中的放置目标）
+  const [{ isDragging }, drag] = useDrag({
+    type: ItemTypes.TAB_GROUP,
+    item: { type: ItemTypes.TAB_GROUP, id: group.id, index } as TabGroupDragItem,
+    collect: monitor => ({
+      isDragging: monitor.isDragging(),
+    }),
+  });
+
+  drag(ref);
 
   return (
     <div
       ref={ref}
       style={{
-        opacity: 1,
+        opacity: isDragging ? 0.5 : 1,
         cursor: 'default',
         contentVisibility: 'auto',
         containIntrinsicSize: '320px',
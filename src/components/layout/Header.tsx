@@ -6,6 +6,7 @@ import { TabCounter } from './TabCounter';
 import { SyncStatusInline } from './SyncStatusInline';
 import { useDebouncedSearch } from '@/hooks/useDebouncedSearch';
 import { useKeyboardShortcuts, COMMON_SHORTCUTS } from '@/hooks/useKeyboardShortcuts';
+import { useUndoRedo } from '@/hooks/useUndoRedo';
 import { Tooltip } from '@/components/common/Tooltip';
 import { TabStackLogo } from '@/components/common/TabStackIcon';
 
@@ -59,8 +60,12 @@ export const Header: React.FC<HeaderProps> = ({ onSearch, onOpenSettings }) => {
     });
   };
 
+  const { undo, redo } = useUndoRedo();
+
   useKeyboardShortcuts([
     { ...COMMON_SHORTCUTS.SAVE_TABS, action: handleSaveAllTabs },
+    { ...COMMON_SHORTCUTS.UNDO, action: () => void undo() },
+    { ...COMMON_SHORTCUTS.REDO, action: () => void redo() },
     { ...COMMON_SHORTCUTS.SEARCH, action: () => searchInputRef.current?.focus() },
     { ...COMMON_SHORTCUTS.CLEAR_SEARCH, action: () => { if (searchValue) clearSearch(); } },
   ]);
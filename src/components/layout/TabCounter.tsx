@@ -1,8 +1,10 @@
 import React from 'react';
 import { useAppSelector } from '@/store/hooks';
+import { selectUnarchivedGroups } from '@/store/selectors/tabSelectors';
 
 export const TabCounter: React.FC = () => {
-  const { groups } = useAppSelector(state => state.tabs);
+  // 与会话列表一致，不计入归档的会话（归档数量见统计面板）
+  const groups = useAppSelector(selectUnarchivedGroups);
 
   const groupCount = groups.length;
   const tabCount = groups.reduce((total, group) => total + group.tabs.length, 0);
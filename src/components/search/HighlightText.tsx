@@ -1,40 +1,74 @@
 import React, { useMemo } from 'react';
+import type { TextRange } from '@/utils/fuzzyMatch';
 
 interface HighlightTextProps {
   text: string;
-  highlight: string;
+  /** 一个关键词，或查询语法中解析出的多个词 */
+  highlight: string | string[];
+  /** 搜索结果给出的命中范围（已合并、按位置排序）；有范围时按范围高亮，拼写容错的命中也能标出 */
+  ranges?: TextRange[];
 }
 
 /**
  * 高亮文本组件
  * 将文本中匹配搜索关键词的部分高亮显示
- * 
+ *
  * @param text 原始文本
- * @param highlight 需要高亮的关键词
+ * @param highlight 需要高亮的关键词（可以是多个）
+ * @param ranges 命中范围，优先于关键词
  */
-export const HighlightText: React.FC<HighlightTextProps> = ({ text, highlight }) => {
-  const normalizedHighlight = highlight.trim();
+export const HighlightText: React.FC<HighlightTextProps> = ({ text, highlight, ranges }) => {
+  const terms = useMemo(
+    () =>
+      (Array.isArray(highlight) ? highlight : [highlight])
+        .map(term => term.trim())
+        .filter(Boolean)
+        // 长词优先，避免短词把长词拆开
+        .sort((left, right) => right.length - left.length),
+    [highlight]
+  );
 
   // 使用useMemo缓存计算结果，避免不必要的重新计算
   const parts = useMemo(() => {
-    if (!normalizedHighlight) {
+    if (terms.length === 0) {
       return [text];
     }
 
     // 转义正则表达式中的特殊字符
-    const escapedHighlight = normalizedHighlight.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const escapedTerms = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
     // 创建不区分大小写的正则表达式
-    const regex = new RegExp(`(${escapedHighlight})`, 'gi');
+    const regex = new RegExp(`(${escapedTerms.join('|')})`, 'gi');
     // 分割文本
     return text.split(regex);
-  }, [normalizedHighlight, text]);
+  }, [terms, text]);
+
+  const lowerTerms = useMemo(() => new Set(terms.map(term => term.toLowerCase())), [terms]);
+
+  if (ranges && ranges.length > 0) {
+    const segments: React.ReactNode[] = [];
+    let cursor = 0;
+    ranges.forEach((range, i) => {
+      const start = Math.max(range.start, cursor);
+      const end = Math.min(range.end, text.length);
+      if (end <= start) return;
+      if (start > cursor) segments.push(<span key={`text-${i}`}>{text.slice(cursor, start)}</span>);
+      segments.push(
+        <span key={`match-${i}`} className="search-highlight">
+          {text.slice(start, end)}
+        </span>
+      );
+      cursor = end;
+    });
+    if (cursor < text.length) segments.push(<span key="text-end">{text.slice(cursor)}</span>);
+    return <span>{segments}</span>;
+  }
 
   // 渲染高亮文本
   return (
     <span>
       {parts.map((part, i) => {
         // 检查当前部分是否匹配高亮关键词（不区分大小写）
-        const isHighlight = part.toLowerCase() === normalizedHighlight.toLowerCase();
+        const isHighlight = lowerTerms.has(part.toLowerCase());
         return isHighlight ? (
           <span key={i} className="search-highlight">
             {part}
@@ -1,24 +1,56 @@
 import React, { useDeferredValue, useEffect, useMemo, useState, useTransition } from 'react';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
 import { Tab, TabGroup } from '@/types/tab';
-import { deleteGroup, updateGroup } from '@/store/slices/tabSlice';
+import {
+  applyTagEditAndSync,
+  deleteGroup,
+  recordTabRestores,
+  removeEmptiedGroup,
+  trashTabs,
+  updateGroup,
+} from '@/store/slices/tabSlice';
 import { selectGroups, selectSearchQuery } from '@/store/selectors/tabSelectors';
 import { shouldAutoDeleteAfterMultipleTabRemoval, shouldAutoDeleteAfterTabRemoval } from '@/utils/tabGroupUtils';
 import { useToast } from '@/contexts/ToastContext';
 import { useEnhancedToast } from '@/utils/toastHelper';
 import { trackProductEvent } from '@/utils/productEvents';
 import {
-  AdvancedSearch,
   SearchFilters,
+  SearchSortOrder,
   SessionSearchResult,
-  applySearchFilters,
-  buildSessionSearchResults,
+  getMatchRanges,
+  parseSearchExpression,
+  searchSessions,
+  type MatchDetail,
 } from '@/utils/search';
 import HighlightText from './HighlightText';
 import { SafeFavicon } from '@/components/common/SafeFavicon';
 import { EmptyState } from '@/components/common/EmptyState';
 import { buildSessionRestoreMessage, getSessionResultSummary } from '@/utils/sessionPresentation';
 import { useListVirtualizer } from '@/hooks/useVirtualizer';
+import { useWorkspaceLaunch } from '@/hooks/useWorkspaceLaunch';
+import { useSavedSearches } from '@/hooks/useSavedSearches';
+import { pageContentStore } from '@/utils/pageContentStore';
+import { WorkspaceLaunchDialog } from '@/components/tabs/WorkspaceLaunchDialog';
+import {
+  getContentSnippet,
+  getEffectiveTabTags,
+  GROUP_SORT_ORDER_LABELS,
+  isConsumedOnRestore,
+  parseTagInput,
+  RESTORE_HISTORY_FILTER_LABELS,
+  RESTORE_HISTORY_FILTERS,
+  setGroupArchived,
+} from '@/domain/tabGroup';
+import {
+  buildOpenSessionMessage,
+  buildRestoreTabsPayload,
+  resolveRestoreTarget,
+  RESTORE_MODIFIER_HINT,
+  RESTORE_TARGET_ACTIONS,
+  type RestoreModifierEvent,
+} from '@/utils/sessionRestore';
+import type { RestoreTarget } from '@/types/tab';
 
 const PinIcon = () => (
   <svg className="w-3 h-3 text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
@@ -26,6 +58,23 @@ const PinIcon = () => (
   </svg>
 );
 
+/** 查询语法错误：显示错误信息并标出出错位置 */
+const QueryErrorNotice: React.FC<{ query: string; message: string; index: number }> = ({ query, message, index }) => (
+  <div
+    role="alert"
+    className="mb-3 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700 dark:border-red-900/60 dark:bg-red-950/30 dark:text-red-300"
+  >
+    <p className="font-medium">{message}</p>
+    <code className="mt-1 block whitespace-pre-wrap break-all font-mono text-gray-700 dark:text-gray-300">
+      {query.slice(0, index)}
+      <span className="rounded-sm bg-red-200 text-red-800 underline decoration-wavy dark:bg-red-900/60 dark:text-red-200">
+        {query.slice(index, index + 1) || ' '}
+      </span>
+      {query.slice(index + 1)}
+    </code>
+  </div>
+);
+
 interface SearchResultListProps {
   searchQuery: string;
   onClearSearch?: () => void;
@@ -36,6 +85,7 @@ export const SearchResultList: React.FC<SearchResultListProps> = ({ searchQuery,
   const groups = useAppSelector(selectGroups);
   const storedQuery = useAppSelector(selectSearchQuery);
   const confirmBeforeDelete = useAppSelector(state => state.settings.confirmBeforeDelete);
+  const restoreTarget = useAppSelector(state => state.settings.restoreTarget);
   const { showConfirm, showToast } = useToast();
   const { showDeleteSuccess, showDeleteError, showRestoreSuccess, showRestoreError } = useEnhancedToast();
   const [filters, setFilters] = useState<SearchFilters>({});
@@ -43,23 +93,24 @@ export const SearchResultList: React.FC<SearchResultListProps> = ({ searchQuery,
   const [isFilterPending, startFilterTransition] = useTransition();
   const deferredSearchQuery = useDeferredValue(searchQuery);
   const normalizedSearchQuery = deferredSearchQuery.trim();
-
-  // 把搜索计算 + 筛选 + 分组打包到一个 useMemo 里，避免每次 render 重算。
+  // 字段、状态等条件只用于筛选，高亮时只用普通词以及 title: / group: 的取值
+  const parsedQuery = useMemo(() => parseSearchExpression(searchQuery.trim()), [searchQuery]);
+  const highlightQuery = parsedQuery.highlightTerms;
+  const queryError = parsedQuery.error;
+  const [tagDraft, setTagDraft] = useState<string | null>(null);
+  const [savedSearchDraft, setSavedSearchDraft] = useState<string | null>(null);
+  const { saveSearch } = useSavedSearches();
+
+  // 把搜索计算 + 筛选 + 分组打包到一个 useMemo 里（searchSessions，与智能会话共用），避免每次 render 重算。
   // deps 选 [groups, storedQuery, normalizedSearchQuery, filters]：
   // - groups 来自 selectGroups 切片
   // - storedQuery 保留以便未来切换 query 来源
   // - normalizedSearchQuery 是实际驱动 AdvancedSearch.search 的字符串
   // - filters 变化（用户调整筛选）需要重算搜索结果
-  const sessionResults = useMemo(() => {
-    const baseResults = normalizedSearchQuery
-      ? AdvancedSearch.search(groups, {
-          query: normalizedSearchQuery,
-          searchPinned: true,
-        })
-      : [];
-    const searchResults = applySearchFilters(baseResults, filters);
-    return buildSessionSearchResults(searchResults);
-  }, [groups, storedQuery, normalizedSearchQuery, filters]);
+  const sessionResults = useMemo(
+    () => searchSessions(groups, normalizedSearchQuery, filters),
+    [groups, storedQuery, normalizedSearchQuery, filters]
+  );
   const matchingTabs = useMemo(
     () => sessionResults.flatMap(session => session.matches),
     [sessionResults]
@@ -68,6 +119,7 @@ export const SearchResultList: React.FC<SearchResultListProps> = ({ searchQuery,
     !!filters.domain?.trim(),
     !!filters.groupName?.trim(),
     !!filters.savedWithin,
+    !!filters.restored,
     filters.pinned === 'only' || filters.pinned === 'exclude',
   ].filter(Boolean).length;
 
@@ -91,13 +143,14 @@ export const SearchResultList: React.FC<SearchResultListProps> = ({ searchQuery,
       hasSavedWithinFilter: !!filters.savedWithin,
     });
 
-    if (filters.domain || filters.groupName || filters.pinned !== undefined || filters.savedWithin) {
+    if (filters.domain || filters.groupName || filters.pinned !== undefined || filters.savedWithin || filters.restored) {
       void trackProductEvent('search_filtered', {
         query: normalizedSearchQuery,
         domain: filters.domain || null,
         groupName: filters.groupName || null,
         pinned: filters.pinned || 'all',
         savedWithin: filters.savedWithin || null,
+        restored: filters.restored || null,
         resultCount: matchingTabs.length,
       });
     }
@@ -123,11 +176,23 @@ export const SearchResultList: React.FC<SearchResultListProps> = ({ searchQuery,
     }
   };
 
-  const restoreSession = (group: TabGroup) => {
-    const tabsPayload = group.tabs.map(tab => ({
-      url: tab.url,
-      pinned: !!tab.pinned,
-    }));
+  // 工作区模板先填写变量再打开；打开单个标签页时会话视图中只含该标签页，sourceGroup 为原会话
+  const { launch, dialogProps: launchDialogProps } = useWorkspaceLaunch(
+    (group: TabGroup, context: { target: RestoreTarget; sourceGroup?: TabGroup }) => {
+      if (context.sourceGroup) {
+        openSingleTab(group.tabs[0], context.sourceGroup, context.target);
+      } else {
+        openSession(group, context.target);
+      }
+    }
+  );
+
+  const restoreSession = (group: TabGroup, event?: RestoreModifierEvent) => {
+    launch(group, { target: resolveRestoreTarget(event, restoreTarget) });
+  };
+
+  const openSession = (group: TabGroup, target: RestoreTarget) => {
+    const openMessage = buildOpenSessionMessage(group, { target });
 
     void trackProductEvent('session_restored', {
       sessionId: group.id,
@@ -136,7 +201,7 @@ export const SearchResultList: React.FC<SearchResultListProps> = ({ searchQuery,
       tabCount: group.tabs.length,
     });
 
-    if (!group.isLocked) {
+    if (isConsumedOnRestore(group)) {
       dispatch({ type: 'tabs/deleteGroup/fulfilled', payload: group.id });
       dispatch(deleteGroup(group.id))
         .unwrap()
@@ -144,26 +209,30 @@ export const SearchResultList: React.FC<SearchResultListProps> = ({ searchQuery,
           console.error('恢复会话后清理原会话失败:', error);
           showDeleteError(`恢复会话后清理原会话失败: ${error.message || '未知错误'}`);
         });
+    } else {
+      dispatch(recordTabRestores({ groupId: group.id }));
     }
 
-    showToast(buildSessionRestoreMessage(group), 'success', 4500);
+    showToast(buildSessionRestoreMessage(group, target), 'success', 4500);
 
     setTimeout(() => {
-      chrome.runtime.sendMessage({
-        type: 'OPEN_TABS',
-        data: { tabs: tabsPayload },
-      });
+      chrome.runtime.sendMessage(openMessage);
     }, 100);
   };
 
-  const handleOpenTab = (tab: Tab, group: TabGroup) => {
-    if (!group.isLocked) {
+  const handleOpenTab = (tab: Tab, group: TabGroup, event?: RestoreModifierEvent) => {
+    // 单个标签页默认在当前窗口后台打开，修饰键可改为新窗口 / 替换当前窗口
+    launch({ ...group, tabs: [tab] }, { target: resolveRestoreTarget(event, 'current-window'), sourceGroup: group });
+  };
+
+  const openSingleTab = (tab: Tab, group: TabGroup, target: RestoreTarget) => {
+    if (isConsumedOnRestore(group)) {
       if (shouldAutoDeleteAfterTabRemoval(group, tab.id)) {
         dispatch({ type: 'tabs/deleteGroup/fulfilled', payload: group.id });
-        dispatch(deleteGroup(group.id))
+        dispatch(removeEmptiedGroup(group.id))
           .unwrap()
-          .then(() => {
-            showDeleteSuccess(`已恢复标签页并自动删除空会话 "${group.name}"`);
+          .then(({ archived }) => {
+            showDeleteSuccess(`已恢复标签页并自动${archived ? '归档' : '删除'}空会话 "${group.name}"`);
           })
           .catch(error => {
             console.error('删除会话失败:', error);
@@ -189,23 +258,25 @@ export const SearchResultList: React.FC<SearchResultListProps> = ({ searchQuery,
           });
       }
     } else {
+      dispatch(recordTabRestores({ groupId: group.id, tabIds: [tab.id] }));
       showRestoreSuccess(1);
     }
 
     setTimeout(() => {
       chrome.runtime.sendMessage({
         type: 'OPEN_TAB',
-        data: { url: tab.url, pinned: !!tab.pinned },
+        data: { url: tab.url, pinned: !!tab.pinned, pageState: tab.pageState, target },
       });
     }, 50);
   };
 
   const handleDeleteTab = (tab: Tab, group: TabGroup) => {
+    dispatch(trashTabs({ group, tabIds: [tab.id] }));
     if (shouldAutoDeleteAfterTabRemoval(group, tab.id)) {
-      dispatch(deleteGroup(group.id))
+      dispatch(removeEmptiedGroup(group.id))
         .unwrap()
-        .then(() => {
-          showDeleteSuccess(`已删除会话 "${group.name}"（最后一个标签页已删除）`);
+        .then(({ archived }) => {
+          showDeleteSuccess(`已${archived ? '归档' : '删除'}会话 "${group.name}"（最后一个标签页已删除）`);
         })
         .catch(error => {
           showDeleteError(`删除会话失败: ${error.message || '未知错误'}`);
@@ -230,18 +301,17 @@ export const SearchResultList: React.FC<SearchResultListProps> = ({ searchQuery,
       });
   };
 
-  const handleRestoreAllSearchResults = () => {
+  const handleRestoreAllSearchResults = (event?: RestoreModifierEvent) => {
     if (matchingTabs.length === 0) {
       return;
     }
 
-    const tabsPayload = matchingTabs.map(({ tab }) => ({
-      url: tab.url,
-      pinned: !!tab.pinned,
-    }));
+    const target = resolveRestoreTarget(event, restoreTarget);
+
+    const tabsPayload = buildRestoreTabsPayload(matchingTabs.map(({ tab }) => tab));
 
     const groupsToUpdate = matchingTabs.reduce((accumulator, { tab, group }) => {
-      if (group.isLocked) {
+      if (!isConsumedOnRestore(group)) {
         return accumulator;
       }
 
@@ -272,7 +342,7 @@ export const SearchResultList: React.FC<SearchResultListProps> = ({ searchQuery,
     setTimeout(() => {
       Object.values(groupsToUpdate).forEach(({ group, tabsToRemove }) => {
         if (tabsToRemove.length === group.tabs.length) {
-          dispatch(deleteGroup(group.id))
+          dispatch(removeEmptiedGroup(group.id))
             .unwrap()
             .catch(error => {
               console.error('批量恢复后删除会话失败:', error);
@@ -292,11 +362,11 @@ export const SearchResultList: React.FC<SearchResultListProps> = ({ searchQuery,
         });
       });
 
-      showToast(`已在新窗口恢复 ${matchingTabs.length} 个匹配标签，涉及 ${sessionResults.length} 个会话`, 'success', 4500);
+      showToast(`已${RESTORE_TARGET_ACTIONS[target]} ${matchingTabs.length} 个匹配标签，涉及 ${sessionResults.length} 个会话`, 'success', 4500);
 
       chrome.runtime.sendMessage({
         type: 'OPEN_TABS',
-        data: { tabs: tabsPayload },
+        data: { tabs: tabsPayload, target },
       });
     }, 100);
   };
@@ -321,8 +391,9 @@ export const SearchResultList: React.FC<SearchResultListProps> = ({ searchQuery,
 
     try {
       for (const { group, tabsToRemove } of Object.values(groupsToUpdate)) {
+        await dispatch(trashTabs({ group, tabIds: tabsToRemove })).unwrap();
         if (shouldAutoDeleteAfterMultipleTabRemoval(group, tabsToRemove)) {
-          await dispatch(deleteGroup(group.id)).unwrap();
+          await dispatch(removeEmptiedGroup(group.id)).unwrap();
           continue;
         }
 
@@ -341,6 +412,40 @@ export const SearchResultList: React.FC<SearchResultListProps> = ({ searchQuery,
     }
   };
 
+  // 批量为所有命中的标签页添加标签（标签页自身的标签，不改动会话标签）
+  const handleTagAllSearchResults = async () => {
+    const tags = parseTagInput(tagDraft ?? '');
+    setTagDraft(null);
+    if (tags.length === 0 || matchingTabs.length === 0) {
+      return;
+    }
+
+    const targets = matchingTabs.reduce((accumulator, { tab, group }) => {
+      (accumulator[group.id] ??= []).push(tab.id);
+      return accumulator;
+    }, {} as Record<string, string[]>);
+
+    try {
+      await dispatch(applyTagEditAndSync({ type: 'add-to-tabs', targets, tags })).unwrap();
+      showToast(`已为 ${matchingTabs.length} 个匹配标签页添加 ${tags.map(tag => `#${tag}`).join(' ')}`, 'success');
+    } catch (error) {
+      console.error('批量添加标签失败:', error);
+      showToast('添加标签失败，请重试', 'error');
+    }
+  };
+
+  // 把当前查询与筛选条件保存为智能会话（名称为空时使用查询本身）
+  const handleSaveSearch = () => {
+    const name = savedSearchDraft ?? '';
+    setSavedSearchDraft(null);
+    if (!normalizedSearchQuery || queryError) {
+      return;
+    }
+
+    const search = saveSearch(name, normalizedSearchQuery, filters);
+    showToast(`已保存智能会话“${search.name}”，可在会话列表顶部打开`, 'success');
+  };
+
   const handleRequestDeleteAllSearchResults = () => {
     if (!confirmBeforeDelete) {
       void handleDeleteAllSearchResults();
@@ -358,6 +463,12 @@ export const SearchResultList: React.FC<SearchResultListProps> = ({ searchQuery,
     });
   };
 
+  const unarchiveSession = (group: TabGroup) => {
+    const now = new Date().toISOString();
+    dispatch(updateGroup({ ...setGroupArchived(group, false, now), updatedAt: now }));
+    showToast(`已取消归档 "${group.name}"`, 'success');
+  };
+
   const renderSessionCard = (session: SessionSearchResult) => (
     <div
       className="rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900/40 p-3"
@@ -374,6 +485,11 @@ export const SearchResultList: React.FC<SearchResultListProps> = ({ searchQuery,
                 收藏
               </span>
             )}
+            {session.group.isArchived && (
+              <span className="rounded-full bg-gray-100 dark:bg-gray-800 px-2 py-0.5 text-[11px] text-gray-600 dark:text-gray-300">
+                已归档
+              </span>
+            )}
             <span className="rounded-full bg-gray-100 dark:bg-gray-800 px-2 py-0.5 text-xs text-gray-600 dark:text-gray-300">
               命中 {session.matches.length}
             </span>
@@ -383,30 +499,60 @@ export const SearchResultList: React.FC<SearchResultListProps> = ({ searchQuery,
           </p>
           {session.group.notes && (
             <p className="mt-2 text-xs text-gray-600 dark:text-gray-300 line-clamp-2">
-              <HighlightText text={session.group.notes} highlight={searchQuery} />
+              <HighlightText
+                text={session.group.notes}
+                highlight={highlightQuery}
+                ranges={getMatchRanges(session.matches.flatMap(result => result.matches), 'notes')}
+              />
             </p>
           )}
         </div>
 
-        <button
-          onClick={() => restoreSession(session.group)}
-          className="self-start rounded-lg bg-primary-600 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-primary-700"
-        >
-          恢复整个会话
-        </button>
+        <div className="flex items-center gap-2 self-start">
+          {session.group.isArchived && (
+            <button
+              onClick={() => unarchiveSession(session.group)}
+              className="rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-600 transition-colors hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+            >
+              取消归档
+            </button>
+          )}
+          <button
+            onClick={event => restoreSession(session.group, event)}
+            title={`${RESTORE_TARGET_ACTIONS[restoreTarget]}整个会话\n${RESTORE_MODIFIER_HINT}`}
+            className="rounded-lg bg-primary-600 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-primary-700"
+          >
+            恢复整个会话
+          </button>
+        </div>
       </div>
 
       <div className="mt-3 space-y-1 border-t border-gray-100 dark:border-gray-800 pt-3">
         {session.matches.map(result => (
           <React.Fragment key={`${result.group.id}-${result.tab.id}`}>
-            {renderTabItem({ tab: result.tab, group: result.group })}
+            {renderTabItem({ tab: result.tab, group: result.group, matches: result.matches })}
+            {renderContentSnippet(result.tab, result.matches)}
           </React.Fragment>
         ))}
       </div>
     </div>
   );
 
-  const renderTabItem = ({ tab, group }: { tab: Tab; group: TabGroup }) => (
+  // content: 命中时在标签页下方显示正文片段
+  const renderContentSnippet = (tab: Tab, matches: MatchDetail[]) => {
+    const ranges = getMatchRanges(matches, 'content');
+    const content = ranges.length > 0 ? pageContentStore.get(tab.url) : undefined;
+    const snippet = content ? getContentSnippet(content.text, ranges) : null;
+    if (!snippet) return null;
+
+    return (
+      <p className="-mt-0.5 mb-1 pl-9 pr-2 text-xs text-gray-500 dark:text-gray-400 line-clamp-2">
+        <HighlightText text={snippet.text} highlight={[]} ranges={snippet.ranges} />
+      </p>
+    );
+  };
+
+  const renderTabItem = ({ tab, group, matches }: { tab: Tab; group: TabGroup; matches: MatchDetail[] }) => (
     <div className="tab-item group/tab hover:scale-[1.02] hover:bg-primary/5 active:scale-[0.98] transition-all duration-150 ease-out">
       <SafeFavicon src={tab.favicon} alt="" className="tab-item-favicon" />
 
@@ -416,14 +562,17 @@ export const SearchResultList: React.FC<SearchResultListProps> = ({ searchQuery,
           className="tab-item-title tab-item-title-hover transition-colors flex items-center gap-1"
           onClick={event => {
             event.preventDefault();
-            handleOpenTab(tab, group);
+            handleOpenTab(tab, group, event);
           }}
-          title={tab.title}
+          title={`${tab.title}\n${RESTORE_MODIFIER_HINT}`}
         >
-          <HighlightText text={tab.title} highlight={searchQuery} />
+          <HighlightText text={tab.title} highlight={highlightQuery} ranges={getMatchRanges(matches, 'title')} />
           {tab.pinned && <PinIcon />}
         </a>
         <span className="tab-item-url hidden sm:block">{getDisplayUrl(tab.url)}</span>
+        {getEffectiveTabTags(tab, group).map(tag => (
+          <span key={tag} className="hidden shrink-0 text-[10px] text-gray-400 sm:inline">#{tag}</span>
+        ))}
       </div>
 
       <div className="tab-item-actions">
@@ -477,7 +626,7 @@ export const SearchResultList: React.FC<SearchResultListProps> = ({ searchQuery,
 
       {showFilters && (
         <div className={`bg-gray-50 dark:bg-gray-700 rounded-lg p-3 mb-3 ${withOuterMargin ? 'mx-2' : ''}`}>
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
             <div>
               <label className="block text-xs text-gray-600 dark:text-gray-300 mb-1">固定标签页</label>
               <select
@@ -551,6 +700,45 @@ export const SearchResultList: React.FC<SearchResultListProps> = ({ searchQuery,
                 <option value="older">30 天前</option>
               </select>
             </div>
+
+            <div>
+              <label className="block text-xs text-gray-600 dark:text-gray-300 mb-1">打开记录</label>
+              <select
+                value={filters.restored || ''}
+                onChange={event => {
+                  const nextValue = event.target.value as SearchFilters['restored'] | '';
+                  updateFilters(current => ({
+                    ...current,
+                    restored: nextValue || undefined,
+                  }));
+                }}
+                className="w-full text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-600 text-gray-900 dark:text-gray-100"
+              >
+                <option value="">全部</option>
+                {RESTORE_HISTORY_FILTERS.filter(value => value !== 'all').map(value => (
+                  <option key={value} value={value}>{RESTORE_HISTORY_FILTER_LABELS[value]}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-xs text-gray-600 dark:text-gray-300 mb-1">排序</label>
+              <select
+                value={filters.sortBy || 'relevance'}
+                onChange={event => {
+                  const nextSortBy = event.target.value as SearchSortOrder;
+                  updateFilters(current => ({
+                    ...current,
+                    sortBy: nextSortBy === 'relevance' ? undefined : nextSortBy,
+                  }));
+                }}
+                className="w-full text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-600 text-gray-900 dark:text-gray-100"
+              >
+                <option value="relevance">相关度</option>
+                <option value="last-restored">{GROUP_SORT_ORDER_LABELS['last-restored']}</option>
+                <option value="most-restored">{GROUP_SORT_ORDER_LABELS['most-restored']}</option>
+              </select>
+            </div>
           </div>
         </div>
       )}
@@ -561,15 +749,22 @@ export const SearchResultList: React.FC<SearchResultListProps> = ({ searchQuery,
     return (
       <div>
         <FiltersPanel />
+        {queryError && (
+          <QueryErrorNotice query={searchQuery.trim()} message={queryError.message} index={queryError.index} />
+        )}
         <EmptyState
-          tone="search"
+          tone={queryError ? 'warning' : 'search'}
           icon={
             <svg xmlns="http://www.w3.org/2000/svg" className="h-12 w-12 empty-state-default-icon" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
             </svg>
           }
-          title="没有找到可找回的会话"
-          description={`没有找到与"${searchQuery}"相关的会话或标签，请尝试其他关键词。`}
+          title={queryError ? '搜索语法有误' : '没有找到可找回的会话'}
+          description={
+            queryError
+              ? '修改上面标出的位置后会自动重新搜索。'
+              : `没有找到与"${searchQuery}"相关的会话或标签，请尝试其他关键词。`
+          }
           action={
             <div className="text-xs theme-text-muted space-y-3">
               {activeFilterCount > 0 && (
@@ -592,7 +787,12 @@ export const SearchResultList: React.FC<SearchResultListProps> = ({ searchQuery,
                 <div>小提示：</div>
                 <ul className="list-disc list-inside space-y-0.5 text-left">
                   <li>支持搜索会话名称、备注、标签标题或 URL</li>
-                  <li>可结合域名、保存时间和固定标签筛选</li>
+                  <li>输入 tag:标签名 只看带该标签的标签页，可与关键词组合</li>
+                  <li>支持 site:github.com、title:&quot;发布说明&quot;、group:工作、is:pinned、is:favorite、saved:&lt;7d</li>
+                  <li>开启「保存页面全文」后，输入 content:关键词 搜索页面正文</li>
+                  <li>用 OR 表示任一满足，-site:youtube.com 排除，括号分组，如 (site:a.com OR site:b.com) -is:pinned</li>
+                  <li>归档的会话默认不参与搜索，输入 archived: 只看归档的会话，archived:all 一起搜索</li>
+                  <li>可结合域名、保存时间、打开记录和固定标签筛选</li>
                   <li>如果刚换设备，可先登录后手动同步一次</li>
                 </ul>
               </div>
@@ -624,14 +824,37 @@ export const SearchResultList: React.FC<SearchResultListProps> = ({ searchQuery,
             <button
               onClick={handleRestoreAllSearchResults}
               className="btn-icon p-1.5 tab-group-action-accent flat-interaction focus-visible:ring-2 focus-visible:ring-primary-500 focus-visible:ring-offset-2"
-              title="在新窗口恢复所有匹配标签"
-              aria-label="在新窗口恢复所有匹配标签"
+              title={`${RESTORE_TARGET_ACTIONS[restoreTarget]}所有匹配标签\n${RESTORE_MODIFIER_HINT}`}
+              aria-label={`${RESTORE_TARGET_ACTIONS[restoreTarget]}所有匹配标签`}
             >
               <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
                 <path strokeLinecap="round" strokeLinejoin="round" d="M13.5 6H5.25A2.25 2.25 0 003 8.25v10.5A2.25 2.25 0 005.25 21h10.5A2.25 2.25 0 0018 18.75V10.5m-10.5 6L21 3m0 0h-5.25M21 3v5.25" />
               </svg>
             </button>
 
+            <button
+              onClick={() => setTagDraft(current => (current === null ? '' : null))}
+              className="btn-icon p-1.5 flat-interaction focus-visible:ring-2 focus-visible:ring-primary-500 focus-visible:ring-offset-2"
+              title="为所有匹配标签页添加标签"
+              aria-label="为所有匹配标签页添加标签"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M9.568 3H5.25A2.25 2.25 0 003 5.25v4.318c0 .597.237 1.17.659 1.591l9.581 9.581c.699.699 1.78.872 2.607.33a18.095 18.095 0 005.223-5.223c.542-.827.369-1.908-.33-2.607L11.16 3.66A2.25 2.25 0 009.568 3z" />
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 6h.008v.008H6V6z" />
+              </svg>
+            </button>
+
+            <button
+              onClick={() => setSavedSearchDraft(current => (current === null ? '' : null))}
+              className="btn-icon p-1.5 flat-interaction focus-visible:ring-2 focus-visible:ring-primary-500 focus-visible:ring-offset-2"
+              title="保存为智能会话（保存查询与筛选条件，会话列表中实时显示命中的标签页）"
+              aria-label="保存为智能会话"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M17.593 3.322c1.1.128 1.907 1.077 1.907 2.185V21L12 17.25 4.5 21V5.507c0-1.108.806-2.057 1.907-2.185a48.507 48.507 0 0111.186 0z" />
+              </svg>
+            </button>
+
             <button
               onClick={handleRequestDeleteAllSearchResults}
               className="btn-icon p-1.5 tab-group-action-danger flat-interaction focus-visible:ring-2 focus-visible:ring-primary-500 focus-visible:ring-offset-2"
@@ -646,6 +869,52 @@ export const SearchResultList: React.FC<SearchResultListProps> = ({ searchQuery,
         )}
       </div>
 
+      {tagDraft !== null && (
+        <div className="mx-2 mb-3 flex items-center gap-2 rounded-lg bg-gray-50 p-2 dark:bg-gray-700">
+          <input
+            value={tagDraft}
+            onChange={event => setTagDraft(event.target.value)}
+            onKeyDown={event => {
+              if (event.key === 'Enter') void handleTagAllSearchResults();
+              if (event.key === 'Escape') setTagDraft(null);
+            }}
+            placeholder={`为 ${matchingTabs.length} 个匹配标签页添加标签，用逗号或空格分隔`}
+            className="flex-1 min-w-0 text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-600 text-gray-900 dark:text-gray-100"
+            aria-label="批量添加标签"
+            autoFocus
+          />
+          <button
+            onClick={() => void handleTagAllSearchResults()}
+            className="rounded-lg bg-primary-600 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-primary-700"
+          >
+            添加标签
+          </button>
+        </div>
+      )}
+
+      {savedSearchDraft !== null && (
+        <div className="mx-2 mb-3 flex items-center gap-2 rounded-lg bg-gray-50 p-2 dark:bg-gray-700">
+          <input
+            value={savedSearchDraft}
+            onChange={event => setSavedSearchDraft(event.target.value)}
+            onKeyDown={event => {
+              if (event.key === 'Enter') handleSaveSearch();
+              if (event.key === 'Escape') setSavedSearchDraft(null);
+            }}
+            placeholder={`智能会话名称，留空则使用“${normalizedSearchQuery}”`}
+            className="flex-1 min-w-0 text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-600 text-gray-900 dark:text-gray-100"
+            aria-label="智能会话名称"
+            autoFocus
+          />
+          <button
+            onClick={handleSaveSearch}
+            className="rounded-lg bg-primary-600 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-primary-700"
+          >
+            保存搜索
+          </button>
+        </div>
+      )}
+
       <FiltersPanel withOuterMargin />
 
       <div className="px-2 pb-2">
@@ -689,6 +958,8 @@ export const SearchResultList: React.FC<SearchResultListProps> = ({ searchQuery,
           </div>
         )}
       </div>
+
+      <WorkspaceLaunchDialog {...launchDialogProps} />
     </div>
   );
 };
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { updateSettings, saveSettings } from '@/store/slices/settingsSlice';
+import type { UserSettings } from '@/types/tab';
+import { cn } from '@/lib/utils';
+import { parseDomainList } from '@/domain/tabGroup';
+import { ToggleRow } from './ToggleRow';
+import { RetentionSection } from './RetentionSection';
+
+const INTERVAL_OPTIONS = [5, 15, 30, 60];
+const MAX_SESSIONS_OPTIONS = [5, 10, 20, 50];
+const IDLE_MINUTES_OPTIONS = [15, 30, 60, 120];
+
+interface OptionGroupProps {
+  label: string;
+  options: number[];
+  value: number;
+  format: (value: number) => string;
+  disabled?: boolean;
+  onSelect: (value: number) => void;
+}
+
+const OptionGroup: React.FC<OptionGroupProps> = ({ label, options, value, format, disabled, onSelect }) => (
+  <div className="mt-4">
+    <div className="text-sm font-medium text-gray-900 dark:text-gray-100">{label}</div>
+    <div className="mt-2 grid grid-cols-4 gap-2" role="group" aria-label={label}>
+      {options.map(option => (
+        <button
+          key={option}
+          onClick={() => onSelect(option)}
+          disabled={disabled}
+          className={cn(
+            'rounded-md border px-3 py-2 text-sm flat-interaction disabled:cursor-not-allowed disabled:opacity-50',
+            value === option
+              ? 'border-primary-500 bg-primary-50 text-primary-700 dark:bg-primary-900/30 dark:text-primary-200'
+              : 'border-gray-200 bg-white text-gray-700 hover:bg-gray-50 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700'
+          )}
+          aria-pressed={value === option}
+        >
+          {format(option)}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+/**
+ * Automation tab. 由 service worker 在后台定时执行的任务：定时快照、闲置标签页归档、会话保留策略。
+ */
+export const AutomationTab: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const settings = useAppSelector(state => state.settings);
+  const [whitelistText, setWhitelistText] = useState(() => settings.idleArchiveWhitelist.join('\n'));
+
+  useEffect(() => {
+    setWhitelistText(settings.idleArchiveWhitelist.join('\n'));
+  }, [settings.idleArchiveWhitelist]);
+
+  const update = async (patch: Partial<UserSettings>) => {
+    dispatch(updateSettings(patch));
+    await dispatch(saveSettings() as any);
+  };
+
+  // 开关与间隔由 service worker 的 chrome.alarms 执行，保存后通知其重新校准
+  const updateSchedule = async (patch: Partial<UserSettings>) => {
+    await update(patch);
+    void chrome.runtime.sendMessage({ type: 'UPDATE_AUTOMATION_SCHEDULE' });
+  };
+
+  return (
+    <div className="max-w-xl space-y-6">
+      <section className="rounded-lg border border-gray-200 bg-white p-5 dark:border-gray-700 dark:bg-gray-800">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+          定时快照
+        </h3>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          定时把所有窗口另存为锁定的 Autosave 会话，标签页保持打开。浏览器意外退出后可以从这里找回工作现场。
+        </p>
+        <div className="mt-3 divide-y divide-gray-100 dark:divide-gray-700">
+          <ToggleRow
+            label="自动快照"
+            description="与上一次快照相同时自动跳过；收藏的快照不会被清理。"
+            checked={settings.autoSnapshotEnabled}
+            onToggle={() => updateSchedule({ autoSnapshotEnabled: !settings.autoSnapshotEnabled })}
+          />
+        </div>
+        <OptionGroup
+          label="快照间隔"
+          options={INTERVAL_OPTIONS}
+          value={settings.autoSnapshotIntervalMinutes}
+          format={value => `${value} 分钟`}
+          disabled={!settings.autoSnapshotEnabled}
+          onSelect={value => updateSchedule({ autoSnapshotIntervalMinutes: value })}
+        />
+        <OptionGroup
+          label="最多保留的快照会话"
+          options={MAX_SESSIONS_OPTIONS}
+          value={settings.autoSnapshotMaxSessions}
+          format={value => `${value} 个`}
+          disabled={!settings.autoSnapshotEnabled}
+          onSelect={value => update({ autoSnapshotMaxSessions: value })}
+        />
+      </section>
+
+      <section className="rounded-lg border border-gray-200 bg-white p-5 dark:border-gray-700 dark:bg-gray-800">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+          闲置标签页归档
+        </h3>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          长时间没有切换到的标签页会被自动关闭并移入「闲置标签页」会话。固定、正在播放声音和当前显示的标签页不会被归档。
+        </p>
+        <div className="mt-3 divide-y divide-gray-100 dark:divide-gray-700">
+          <ToggleRow
+            label="自动归档闲置标签页"
+            description="每分钟检查一次，超过设定时间未激活的标签页会被归档。"
+            checked={settings.idleArchiveEnabled}
+            onToggle={() => updateSchedule({ idleArchiveEnabled: !settings.idleArchiveEnabled })}
+          />
+        </div>
+        <OptionGroup
+          label="闲置多久后归档"
+          options={IDLE_MINUTES_OPTIONS}
+          value={settings.idleArchiveMinutes}
+          format={value => `${value} 分钟`}
+          disabled={!settings.idleArchiveEnabled}
+          onSelect={value => update({ idleArchiveMinutes: value })}
+        />
+        <div className="mt-4">
+          <label htmlFor="idle-archive-whitelist" className="text-sm font-medium text-gray-900 dark:text-gray-100">
+            域名白名单
+          </label>
+          <p className="mt-0.5 text-xs text-gray-500 dark:text-gray-400">
+            每行一个域名，包含其子域名，例如 mail.google.com 或 github.com。
+          </p>
+          <textarea
+            id="idle-archive-whitelist"
+            rows={4}
+            value={whitelistText}
+            disabled={!settings.idleArchiveEnabled}
+            onChange={event => setWhitelistText(event.target.value)}
+            onBlur={() => update({ idleArchiveWhitelist: parseDomainList(whitelistText) })}
+            className="mt-2 w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 disabled:cursor-not-allowed disabled:opacity-50 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
+            placeholder="github.com"
+          />
+        </div>
+      </section>
+
+      <RetentionSection />
+    </div>
+  );
+};
+
+export default AutomationTab;
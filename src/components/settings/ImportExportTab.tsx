@@ -3,10 +3,14 @@ import { storage } from '@/utils/storage';
 import { useToast } from '@/contexts/ToastContext';
 import { trackProductEvent } from '@/utils/productEvents';
 import { exportRawBackup, rawBackupFilename } from '@/utils/backupUtils';
+import { nanoid } from '@reduxjs/toolkit';
 import { useAppDispatch } from '@/store/hooks';
 import { cleanDuplicateTabs } from '@/store/slices/tabSlice';
+import { loadHistory, recordChange } from '@/store/slices/historySlice';
+import { diffGroups } from '@/domain/tabGroup/history';
+import type { TabGroup } from '@/types/tab';
 
-const todayFilename = (prefix: string, ext: string): string => {
+export const todayFilename = (prefix: string, ext: string): string => {
   const d = new Date();
   const yyyy = d.getFullYear();
   const mm = String(d.getMonth() + 1).padStart(2, '0');
@@ -14,7 +18,7 @@ const todayFilename = (prefix: string, ext: string): string => {
   return `${prefix}-${yyyy}-${mm}-${dd}.${ext}`;
 };
 
-const triggerDownload = (blob: Blob, filename: string) => {
+export const triggerDownload = (blob: Blob, filename: string) => {
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
@@ -127,13 +131,22 @@ export const ImportExportTab: React.FC = () => {
     }
   };
 
+  // 导入直接写入存储后刷新页面；比较导入前后的会话记入撤销历史，刷新后仍可撤销
+  const recordImport = async (before: TabGroup[]) => {
+    const changes = diffGroups(before, await storage.getGroups());
+    await dispatch(loadHistory());
+    dispatch(recordChange({ id: nanoid(), label: '导入会话', at: new Date().toISOString(), changes }));
+  };
+
   const handleImportJson = (file: File) => {
     const reader = new FileReader();
     reader.onload = async event => {
       try {
         const data = JSON.parse(event.target?.result as string);
+        const before = await storage.getGroups();
         const success = await storage.importData(data);
         if (success) {
+          await recordImport(before);
           showAlert({
             title: '导入成功',
             message: '数据导入成功',
@@ -168,8 +181,10 @@ export const ImportExportTab: React.FC = () => {
     reader.onload = async event => {
       try {
         const text = event.target?.result as string;
+        const before = await storage.getGroups();
         const success = await storage.importFromOneTabFormat(text);
         if (success) {
+          await recordImport(before);
           void trackProductEvent('onetab_import_completed', {
             importSource: 'onetab',
             importedSessions: text.split('\n\n').filter(Boolean).length,
@@ -4,43 +4,13 @@ import {
   toggleShowNotifications,
   toggleConfirmBeforeDelete,
   toggleCollectPinnedTabs,
+  toggleAutoCloseTabsAfterSaving,
+  updateSettings,
   saveSettings,
 } from '@/store/slices/settingsSlice';
-import { cn } from '@/lib/utils';
-
-interface ToggleRowProps {
-  label: string;
-  description: string;
-  checked: boolean;
-  onToggle: () => void;
-}
-
-const ToggleRow: React.FC<ToggleRowProps> = ({ label, description, checked, onToggle }) => {
-  return (
-    <div className="flex items-center justify-between gap-4 py-3">
-      <div>
-        <p className="text-sm font-medium text-gray-900 dark:text-gray-100">{label}</p>
-        <p className="mt-0.5 text-xs text-gray-500 dark:text-gray-400">{description}</p>
-      </div>
-      <button
-        role="switch"
-        aria-checked={checked}
-        onClick={onToggle}
-        className={cn(
-          'relative inline-flex h-6 w-11 shrink-0 items-center rounded-full transition-colors flat-interaction',
-          checked ? 'bg-primary-600' : 'bg-gray-200 dark:bg-gray-600'
-        )}
-      >
-        <span
-          className={cn(
-            'inline-block h-4 w-4 transform rounded-full bg-white transition-transform',
-            checked ? 'translate-x-6' : 'translate-x-1'
-          )}
-        />
-      </button>
-    </div>
-  );
-};
+import { selectGroups } from '@/store/selectors/tabSelectors';
+import { canSaveIntoGroup, resolveInboxGroup } from '@/domain/tabGroup';
+import { ToggleRow } from './ToggleRow';
 
 /**
  * Notifications tab. Migrated the three toggle rows from
@@ -49,6 +19,19 @@ const ToggleRow: React.FC<ToggleRowProps> = ({ label, description, checked, onTo
 export const NotificationsTab: React.FC = () => {
   const dispatch = useAppDispatch();
   const settings = useAppSelector(state => state.settings);
+  const groups = useAppSelector(selectGroups);
+  const inboxCandidates = groups.filter(canSaveIntoGroup);
+  const inboxUnavailable = !!settings.inboxSessionId && !resolveInboxGroup(groups, settings.inboxSessionId);
+
+  const setInboxSession = async (inboxSessionId: string | null) => {
+    dispatch(updateSettings({ inboxSessionId }));
+    await dispatch(saveSettings() as any);
+  };
+
+  const setArchiveEmptiedGroups = async (archiveEmptiedGroups: boolean) => {
+    dispatch(updateSettings({ archiveEmptiedGroups }));
+    await dispatch(saveSettings() as any);
+  };
 
   const toggle = (action: () => void) => async () => {
     action();
@@ -85,7 +68,7 @@ export const NotificationsTab: React.FC = () => {
           标签页设置
         </h3>
         <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-          决定保存会话时是否一并收集已固定的标签页。
+          决定保存会话时收集哪些标签页、保存后是否关闭它们。
         </p>
         <div className="mt-3 divide-y divide-gray-100 dark:divide-gray-700">
           <ToggleRow
@@ -94,8 +77,53 @@ export const NotificationsTab: React.FC = () => {
             checked={settings.collectPinnedTabs}
             onToggle={toggle(() => dispatch(toggleCollectPinnedTabs()))}
           />
+          <ToggleRow
+            label="保存后保留标签页"
+            description="只做快照：保存会话后不关闭原标签页。"
+            checked={!settings.autoCloseTabsAfterSaving}
+            onToggle={toggle(() => dispatch(toggleAutoCloseTabsAfterSaving()))}
+          />
+          <ToggleRow
+            label="清空的会话改为归档"
+            description="打开或删除会话的最后一个标签页后，保留会话并移到「已归档」，而不是删除。"
+            checked={!!settings.archiveEmptiedGroups}
+            onToggle={() => setArchiveEmptiedGroups(!settings.archiveEmptiedGroups)}
+          />
         </div>
       </section>
+
+      <section className="rounded-lg border border-gray-200 bg-white p-5 dark:border-gray-700 dark:bg-gray-800">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+          收件箱会话
+        </h3>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          保存单个标签页（Alt+S、右键菜单「保存当前标签」）时追加到这个会话，而不是每次新建一个会话。
+          右键菜单「保存当前标签到会话」可以临时选择其他会话。
+        </p>
+        <select
+          value={settings.inboxSessionId ?? ''}
+          onChange={event => setInboxSession(event.target.value || null)}
+          aria-label="收件箱会话"
+          className="mt-3 w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
+        >
+          <option value="">不使用（每次新建会话）</option>
+          {inboxCandidates.map(group => (
+            <option key={group.id} value={group.id}>
+              {group.name}
+            </option>
+          ))}
+          {inboxUnavailable && (
+            <option value={settings.inboxSessionId ?? ''} disabled>
+              （已锁定或已删除的会话）
+            </option>
+          )}
+        </select>
+        {inboxUnavailable && (
+          <p className="mt-2 text-xs text-amber-600 dark:text-amber-400">
+            收件箱会话已锁定或已删除，保存单个标签页时会暂时改为新建会话。
+          </p>
+        )}
+      </section>
     </div>
   );
 };
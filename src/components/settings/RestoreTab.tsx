@@ -0,0 +1,193 @@
+import React from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { updateSettings, saveSettings } from '@/store/slices/settingsSlice';
+import { PAGE_STATE_ORIGINS } from '@/domain/tabGroup';
+import { useToast } from '@/contexts/ToastContext';
+import { storage } from '@/utils/storage';
+import type { UserSettings } from '@/types/tab';
+import { cn } from '@/lib/utils';
+import { RESTORE_MODIFIER_HINT, RESTORE_TARGETS, RESTORE_TARGET_LABELS } from '@/utils/sessionRestore';
+import { ToggleRow } from './ToggleRow';
+
+const CONCURRENCY_OPTIONS = [1, 2, 4, 8];
+
+/**
+ * Restore tab. 恢复会话时的窗口 / 分组行为。
+ */
+export const RestoreTab: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const settings = useAppSelector(state => state.settings);
+  const { showToast } = useToast();
+
+  const update = (patch: Partial<UserSettings>) => async () => {
+    dispatch(updateSettings(patch));
+    await dispatch(saveSettings() as any);
+  };
+
+  // 读取阅读位置 / 页面全文需要访问页面：开启时申请可选主机权限，用户拒绝则保持关闭；
+  // 两者共用同一权限，都关闭后才撤销
+  const togglePagePermission = async (key: 'capturePageState' | 'capturePageContent') => {
+    if (settings[key]) {
+      const otherKey = key === 'capturePageState' ? 'capturePageContent' : 'capturePageState';
+      if (!settings[otherKey]) {
+        await chrome.permissions.remove({ origins: PAGE_STATE_ORIGINS }).catch(() => false);
+      }
+      await update({ [key]: false })();
+      return;
+    }
+
+    const granted = await chrome.permissions.request({ origins: PAGE_STATE_ORIGINS }).catch(() => false);
+    if (granted) {
+      await update({ [key]: true })();
+    }
+  };
+
+  const handleClearPageContents = async () => {
+    try {
+      await storage.clearPageContents();
+      showToast('已清除保存的页面全文', 'success');
+    } catch (error) {
+      showToast(`清除页面全文失败：${(error as Error).message || '未知错误'}`, 'error');
+    }
+  };
+
+  return (
+    <div className="max-w-xl space-y-6">
+      <section className="rounded-lg border border-gray-200 bg-white p-5 dark:border-gray-700 dark:bg-gray-800">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+          恢复位置
+        </h3>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          恢复整个会话时默认打开到哪里。「替换当前窗口」会先把当前窗口的标签页自动保存为新会话再关闭。
+        </p>
+        <div className="mt-4 grid grid-cols-3 gap-2" role="group" aria-label="恢复位置">
+          {RESTORE_TARGETS.map(target => (
+            <button
+              key={target}
+              onClick={update({ restoreTarget: target })}
+              className={cn(
+                'rounded-md border px-3 py-2 text-sm flat-interaction',
+                settings.restoreTarget === target
+                  ? 'border-primary-500 bg-primary-50 text-primary-700 dark:bg-primary-900/30 dark:text-primary-200'
+                  : 'border-gray-200 bg-white text-gray-700 hover:bg-gray-50 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700'
+              )}
+              aria-pressed={settings.restoreTarget === target}
+            >
+              {RESTORE_TARGET_LABELS[target]}
+            </button>
+          ))}
+        </div>
+        <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+          点击恢复时可用修饰键临时覆盖：{RESTORE_MODIFIER_HINT}
+        </p>
+      </section>
+
+      <section className="rounded-lg border border-gray-200 bg-white p-5 dark:border-gray-700 dark:bg-gray-800">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+          原生标签组
+        </h3>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          保存时会记录标签页所在的 Chrome 标签组，恢复时自动重建。
+        </p>
+        <div className="mt-3 divide-y divide-gray-100 dark:divide-gray-700">
+          <ToggleRow
+            label="恢复为标签组"
+            description="把没有原生分组的会话放进一个以会话命名、使用会话颜色的标签组。"
+            checked={settings.restoreAsNativeTabGroup}
+            onToggle={update({ restoreAsNativeTabGroup: !settings.restoreAsNativeTabGroup })}
+          />
+        </div>
+      </section>
+
+      <section className="rounded-lg border border-gray-200 bg-white p-5 dark:border-gray-700 dark:bg-gray-800">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+          阅读位置
+        </h3>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          手动保存时记录每个标签页的滚动位置和最近的锚点，重新打开后自动滚动回去。不会读取表单或页面内容。
+        </p>
+        <div className="mt-3 divide-y divide-gray-100 dark:divide-gray-700">
+          <ToggleRow
+            label="记录并恢复阅读位置"
+            description="需要授予访问网站的权限；休眠中的标签页无法读取，只保留 URL。"
+            checked={settings.capturePageState}
+            onToggle={() => void togglePagePermission('capturePageState')}
+          />
+        </div>
+      </section>
+
+      <section className="rounded-lg border border-gray-200 bg-white p-5 dark:border-gray-700 dark:bg-gray-800">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+          页面全文
+        </h3>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          手动保存时提取每个页面的正文（去掉导航、页眉页脚，最多 2 万字），搜索时用 content:关键词 查找页面内容。正文加密保存在本机。
+        </p>
+        <div className="mt-3 divide-y divide-gray-100 dark:divide-gray-700">
+          <ToggleRow
+            label="保存页面全文"
+            description="需要授予访问网站的权限；休眠中的标签页与受限页面无法读取。"
+            checked={settings.capturePageContent}
+            onToggle={() => void togglePagePermission('capturePageContent')}
+          />
+          {settings.capturePageContent && (
+            <ToggleRow
+              label="同步页面全文"
+              description="随会话上传到云端并在其他设备上可搜索。正文可能包含敏感内容，默认只保存在本机。"
+              checked={settings.syncPageContent}
+              onToggle={update({ syncPageContent: !settings.syncPageContent })}
+            />
+          )}
+        </div>
+        <button
+          onClick={() => void handleClearPageContents()}
+          className="mt-3 rounded-md border border-gray-200 px-3 py-1.5 text-xs text-gray-700 hover:bg-gray-50 flat-interaction dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-700"
+        >
+          清除已保存的页面全文
+        </button>
+      </section>
+
+      <section className="rounded-lg border border-gray-200 bg-white p-5 dark:border-gray-700 dark:bg-gray-800">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+          延迟加载
+        </h3>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          恢复大型会话时先创建休眠的标签页，切换到标签页时才加载。点击恢复时按住 Alt 可临时切换。
+        </p>
+        <div className="mt-3 divide-y divide-gray-100 dark:divide-gray-700">
+          <ToggleRow
+            label="延迟加载恢复的标签页"
+            description="除第一个标签页外，其余标签页创建后立即休眠，节省内存与网络。"
+            checked={settings.lazyRestore}
+            onToggle={update({ lazyRestore: !settings.lazyRestore })}
+          />
+        </div>
+        <div className="mt-4">
+          <div className="text-sm font-medium text-gray-900 dark:text-gray-100">
+            同时加载的标签页数量
+          </div>
+          <div className="mt-2 grid grid-cols-4 gap-2" role="group" aria-label="同时加载的标签页数量">
+            {CONCURRENCY_OPTIONS.map(value => (
+              <button
+                key={value}
+                onClick={update({ lazyRestoreConcurrency: value })}
+                disabled={!settings.lazyRestore}
+                className={cn(
+                  'rounded-md border px-3 py-2 text-sm flat-interaction disabled:cursor-not-allowed disabled:opacity-50',
+                  settings.lazyRestoreConcurrency === value
+                    ? 'border-primary-500 bg-primary-50 text-primary-700 dark:bg-primary-900/30 dark:text-primary-200'
+                    : 'border-gray-200 bg-white text-gray-700 hover:bg-gray-50 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700'
+                )}
+                aria-pressed={settings.lazyRestoreConcurrency === value}
+              >
+                {value}
+              </button>
+            ))}
+          </div>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default RestoreTab;
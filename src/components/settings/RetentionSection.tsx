@@ -0,0 +1,152 @@
+import React, { useMemo, useState } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { updateSettings, saveSettings } from '@/store/slices/settingsSlice';
+import { applyRetentionAndSync } from '@/store/slices/tabSlice';
+import { selectGroups } from '@/store/selectors/tabSelectors';
+import {
+  describeRetentionRule,
+  previewRetention,
+  RETENTION_ACTION_LABELS,
+  RETENTION_DAY_OPTIONS,
+} from '@/domain/tabGroup';
+import type { RetentionPolicy } from '@/types/tab';
+import { cn } from '@/lib/utils';
+import { ConfirmDialog } from '@/components/common/ConfirmDialog';
+import { useToast } from '@/contexts/ToastContext';
+import { ToggleRow } from './ToggleRow';
+
+/** 预览中最多列出的会话数 */
+const PREVIEW_LIMIT = 20;
+
+const POLICY_DESCRIPTIONS: Record<RetentionPolicy['action'], string> = {
+  delete: '锁定和收藏的会话不会被删除。删除的会话会同步删除到其他设备，30 天内可在回收站中恢复。',
+  archive: '收藏的会话不会被归档。归档的会话可以随时取消归档。',
+};
+
+/**
+ * 会话保留策略：全局策略开关与期限、按当前策略会被处理的会话预览，以及立即执行。
+ * 单个会话可以在会话卡片上设置「永久保留」或自己的规则。
+ */
+export const RetentionSection: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const { showToast } = useToast();
+  const policies = useAppSelector(state => state.settings.retentionPolicies);
+  const groups = useAppSelector(selectGroups);
+  const [showPreview, setShowPreview] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+
+  const candidates = useMemo(
+    () => previewRetention(groups, policies, new Date().toISOString()),
+    [groups, policies]
+  );
+
+  const updatePolicy = async (id: string, patch: Partial<RetentionPolicy>) => {
+    dispatch(updateSettings({
+      retentionPolicies: policies.map(policy => (policy.id === id ? { ...policy, ...patch } : policy)),
+    }));
+    await dispatch(saveSettings() as any);
+  };
+
+  const handleApply = async () => {
+    setConfirming(false);
+    try {
+      const { deletedIds, archived } = await dispatch(applyRetentionAndSync(policies)).unwrap();
+      showToast(`已删除 ${deletedIds.length} 个、归档 ${archived.length} 个会话`, 'success');
+    } catch (error) {
+      showToast(`执行保留策略失败：${(error as Error).message || '未知错误'}`, 'error');
+    }
+  };
+
+  return (
+    <section className="rounded-lg border border-gray-200 bg-white p-5 dark:border-gray-700 dark:bg-gray-800">
+      <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+        会话保留策略
+      </h3>
+      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+        每天自动检查一次。会话上单独设置的保留规则优先于这里的策略。
+      </p>
+
+      {policies.map(policy => (
+        <div key={policy.id} className="mt-3 border-t border-gray-100 pt-1 dark:border-gray-700">
+          <ToggleRow
+            label={describeRetentionRule(policy)}
+            description={POLICY_DESCRIPTIONS[policy.action]}
+            checked={policy.enabled}
+            onToggle={() => updatePolicy(policy.id, { enabled: !policy.enabled })}
+          />
+          <div className="grid grid-cols-4 gap-2" role="group" aria-label={`${RETENTION_ACTION_LABELS[policy.action]}期限`}>
+            {RETENTION_DAY_OPTIONS.map(days => (
+              <button
+                key={days}
+                onClick={() => updatePolicy(policy.id, { days })}
+                disabled={!policy.enabled}
+                className={cn(
+                  'rounded-md border px-3 py-2 text-sm flat-interaction disabled:cursor-not-allowed disabled:opacity-50',
+                  policy.days === days
+                    ? 'border-primary-500 bg-primary-50 text-primary-700 dark:bg-primary-900/30 dark:text-primary-200'
+                    : 'border-gray-200 bg-white text-gray-700 hover:bg-gray-50 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700'
+                )}
+                aria-pressed={policy.days === days}
+              >
+                {days} 天
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <div className="mt-4 flex items-center justify-between gap-2 border-t border-gray-100 pt-4 dark:border-gray-700">
+        <button
+          onClick={() => setShowPreview(current => !current)}
+          className="text-sm text-primary-600 hover:underline dark:text-primary-400"
+          aria-expanded={showPreview}
+        >
+          {candidates.length > 0 ? `预览：${candidates.length} 个会话将被处理` : '预览：当前没有需要处理的会话'}
+        </button>
+        <button
+          onClick={() => setConfirming(true)}
+          disabled={candidates.length === 0}
+          className="rounded-md border border-gray-300 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-gray-600 dark:text-gray-200 dark:hover:bg-gray-700"
+        >
+          立即执行
+        </button>
+      </div>
+
+      {showPreview && candidates.length > 0 && (
+        <ul className="mt-3 space-y-1 text-sm" aria-label="保留策略预览">
+          {candidates.slice(0, PREVIEW_LIMIT).map(({ group, action, rule, source, ageDays }) => (
+            <li key={group.id} className="flex items-center justify-between gap-3">
+              <span className="min-w-0 truncate text-gray-800 dark:text-gray-100">{group.name}</span>
+              <span
+                className={cn(
+                  'flex-shrink-0 text-xs',
+                  action === 'delete' ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'
+                )}
+                title={`${source === 'session' ? '会话规则' : '全局策略'}：${describeRetentionRule(rule)}`}
+              >
+                {RETENTION_ACTION_LABELS[action]} · {ageDays} 天
+              </span>
+            </li>
+          ))}
+          {candidates.length > PREVIEW_LIMIT && (
+            <li className="text-xs text-gray-500 dark:text-gray-400">
+              还有 {candidates.length - PREVIEW_LIMIT} 个会话
+            </li>
+          )}
+        </ul>
+      )}
+
+      <ConfirmDialog
+        visible={confirming}
+        title="立即执行保留策略"
+        message={`将删除 ${candidates.filter(c => c.action === 'delete').length} 个、归档 ${candidates.filter(c => c.action === 'archive').length} 个会话。`}
+        confirmText="执行"
+        type="warning"
+        onConfirm={() => void handleApply()}
+        onCancel={() => setConfirming(false)}
+      />
+    </section>
+  );
+};
+
+export default RetentionSection;
@@ -4,6 +4,10 @@ import { SyncTab } from './SyncTab';
 import { AppearanceTab } from './AppearanceTab';
 import { ImportExportTab } from './ImportExportTab';
 import { NotificationsTab } from './NotificationsTab';
+import { RestoreTab } from './RestoreTab';
+import { AutomationTab } from './AutomationTab';
+import { UrlRulesTab } from './UrlRulesTab';
+import { TrashTab } from './TrashTab';
 import { DangerZoneTab } from './DangerZoneTab';
 import { cn } from '@/lib/utils';
 
@@ -18,6 +22,10 @@ type TabId =
   | 'appearance'
   | 'import-export'
   | 'notifications'
+  | 'restore'
+  | 'automation'
+  | 'url-rules'
+  | 'trash'
   | 'danger'
   | 'stats';
 
@@ -44,6 +52,30 @@ const TABS: TabMeta[] = [
     description: '通知提醒 / 确认 / 收集固定页',
     component: NotificationsTab,
   },
+  {
+    id: 'restore',
+    label: '恢复',
+    description: '恢复会话时的窗口与分组方式',
+    component: RestoreTab,
+  },
+  {
+    id: 'automation',
+    label: '自动化',
+    description: '定时快照与闲置标签页归档',
+    component: AutomationTab,
+  },
+  {
+    id: 'url-rules',
+    label: 'URL 规则',
+    description: '永不保存 / 恢复时固定 / 不自动收集',
+    component: UrlRulesTab,
+  },
+  {
+    id: 'trash',
+    label: '回收站',
+    description: '30 天内删除的会话与标签页',
+    component: TrashTab,
+  },
   { id: 'danger', label: '危险区', description: '清空所有本地会话', component: DangerZoneTab },
   {
     id: 'stats',
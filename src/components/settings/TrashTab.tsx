@@ -0,0 +1,186 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAppDispatch } from '@/store/hooks';
+import { restoreGroupFromTrash, restoreTabsFromTrash } from '@/store/slices/tabSlice';
+import { storage } from '@/utils/storage';
+import { formatDeletedAt } from '@/utils/sessionPresentation';
+import { TRASH_RETENTION_DAYS } from '@/domain/tabGroup';
+import type { DeletedGroupEntry, DeletedTabEntry } from '@/types/tab';
+import { ConfirmDialog } from '@/components/common/ConfirmDialog';
+import { SafeFavicon } from '@/components/common/SafeFavicon';
+import { useToast } from '@/contexts/ToastContext';
+
+const SECTION_CLASS =
+  'rounded-lg border border-gray-200 bg-white p-5 dark:border-gray-700 dark:bg-gray-800';
+
+const ROW_BUTTON_CLASS =
+  'rounded px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 hover:text-gray-900 dark:text-gray-300 dark:hover:bg-gray-700 dark:hover:text-gray-100';
+
+const DeletedAt: React.FC<{ deletedAt: string }> = ({ deletedAt }) => (
+  <span title={new Date(deletedAt).toLocaleString()}>{formatDeletedAt(deletedAt)}</span>
+);
+
+/**
+ * 回收站：列出本设备 30 天内删除的会话与标签页。
+ * 恢复会话会同步恢复到其他设备；标签页放回原会话的原位置。
+ * 彻底删除只清除本设备的回收站记录（会话的删除早已同步）。
+ */
+export const TrashTab: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const { showToast } = useToast();
+  const [deletedGroups, setDeletedGroups] = useState<DeletedGroupEntry[]>([]);
+  const [deletedTabs, setDeletedTabs] = useState<DeletedTabEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [confirmingEmpty, setConfirmingEmpty] = useState(false);
+
+  const load = useCallback(async () => {
+    await storage.cleanupDeletedGroups();
+    const [groups, tabs] = await Promise.all([storage.getDeletedGroups(), storage.getDeletedTabs()]);
+    setDeletedGroups(groups);
+    setDeletedTabs(tabs);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const handleRestoreGroup = async ({ group }: DeletedGroupEntry) => {
+    try {
+      await dispatch(restoreGroupFromTrash(group.id)).unwrap();
+      showToast(`已恢复会话「${group.name}」`, 'success');
+    } catch (error) {
+      showToast(`恢复会话失败：${(error as Error).message || '未知错误'}`, 'error');
+    }
+    await load();
+  };
+
+  const handleRestoreTab = async ({ tab, groupName }: DeletedTabEntry) => {
+    try {
+      await dispatch(restoreTabsFromTrash([tab.id])).unwrap();
+      showToast(`已将「${tab.title}」恢复到「${groupName}」`, 'success');
+    } catch (error) {
+      showToast(`恢复标签页失败：${(error as Error).message || '未知错误'}`, 'error');
+    }
+    await load();
+  };
+
+  const handlePurgeGroup = async (groupId: string) => {
+    const entries = await storage.getDeletedGroups();
+    await storage.setDeletedGroups(entries.filter(entry => entry.group.id !== groupId));
+    await load();
+  };
+
+  const handlePurgeTab = async (tabId: string) => {
+    const entries = await storage.getDeletedTabs();
+    await storage.setDeletedTabs(entries.filter(entry => entry.tab.id !== tabId));
+    await load();
+  };
+
+  const handleEmpty = async () => {
+    setConfirmingEmpty(false);
+    await Promise.all([storage.setDeletedGroups([]), storage.setDeletedTabs([])]);
+    await load();
+    showToast('回收站已清空', 'success');
+  };
+
+  if (isLoading) {
+    return <div className="py-10 text-center text-sm text-gray-500 dark:text-gray-400">加载中...</div>;
+  }
+
+  const isEmpty = deletedGroups.length === 0 && deletedTabs.length === 0;
+
+  return (
+    <div className="max-w-xl space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          删除的会话和标签页在本设备保留 {TRASH_RETENTION_DAYS} 天。恢复的会话会同步到其他设备，
+          标签页会放回原来的会话和位置。
+        </p>
+        <button
+          onClick={() => setConfirmingEmpty(true)}
+          disabled={isEmpty}
+          className="flex-shrink-0 rounded-md border border-red-200 px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-red-900 dark:text-red-400 dark:hover:bg-red-900/20"
+        >
+          清空回收站
+        </button>
+      </div>
+
+      {isEmpty && (
+        <p className="py-10 text-center text-sm text-gray-500 dark:text-gray-400">回收站是空的</p>
+      )}
+
+      {deletedGroups.length > 0 && (
+        <section className={SECTION_CLASS}>
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+            会话（{deletedGroups.length}）
+          </h3>
+          <ul className="mt-3 divide-y divide-gray-100 dark:divide-gray-700" aria-label="已删除的会话">
+            {deletedGroups.map(entry => (
+              <li key={entry.group.id} className="flex items-center gap-3 py-2">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm text-gray-800 dark:text-gray-100">{entry.group.name}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {entry.group.tabs.length} 个标签页 · <DeletedAt deletedAt={entry.deletedAt} />
+                  </p>
+                </div>
+                <button onClick={() => handleRestoreGroup(entry)} className={ROW_BUTTON_CLASS}>
+                  恢复
+                </button>
+                <button
+                  onClick={() => handlePurgeGroup(entry.group.id)}
+                  className={`${ROW_BUTTON_CLASS} hover:text-red-600 dark:hover:text-red-400`}
+                >
+                  彻底删除
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {deletedTabs.length > 0 && (
+        <section className={SECTION_CLASS}>
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+            标签页（{deletedTabs.length}）
+          </h3>
+          <ul className="mt-3 divide-y divide-gray-100 dark:divide-gray-700" aria-label="已删除的标签页">
+            {deletedTabs.map(entry => (
+              <li key={entry.tab.id} className="flex items-center gap-3 py-2">
+                <SafeFavicon src={entry.tab.favicon} className="h-4 w-4 flex-shrink-0" />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm text-gray-800 dark:text-gray-100" title={entry.tab.url}>
+                    {entry.tab.title}
+                  </p>
+                  <p className="truncate text-xs text-gray-500 dark:text-gray-400">
+                    来自「{entry.groupName}」 · <DeletedAt deletedAt={entry.deletedAt} />
+                  </p>
+                </div>
+                <button onClick={() => handleRestoreTab(entry)} className={ROW_BUTTON_CLASS}>
+                  恢复
+                </button>
+                <button
+                  onClick={() => handlePurgeTab(entry.tab.id)}
+                  className={`${ROW_BUTTON_CLASS} hover:text-red-600 dark:hover:text-red-400`}
+                >
+                  彻底删除
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <ConfirmDialog
+        visible={confirmingEmpty}
+        title="清空回收站"
+        message={`将彻底删除回收站中的 ${deletedGroups.length} 个会话和 ${deletedTabs.length} 个标签页，之后无法恢复。`}
+        confirmText="清空"
+        type="danger"
+        onConfirm={handleEmpty}
+        onCancel={() => setConfirmingEmpty(false)}
+      />
+    </div>
+  );
+};
+
+export default TrashTab;
@@ -0,0 +1,246 @@
+import React, { useRef, useState } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { updateSettings, saveSettings } from '@/store/slices/settingsSlice';
+import { useToast } from '@/contexts/ToastContext';
+import type { UrlRule, UrlRuleAction, UrlRulePatternType } from '@/types/tab';
+import { cn } from '@/lib/utils';
+import {
+  buildUrlRulesExport,
+  createUrlRule,
+  mergeUrlRules,
+  parseUrlRulesImport,
+  validateUrlRulePattern,
+  URL_RULE_ACTIONS,
+  URL_RULE_ACTION_LABELS,
+  URL_RULE_PATTERN_TYPES,
+  URL_RULE_PATTERN_TYPE_LABELS,
+} from '@/domain/tabGroup';
+import { todayFilename, triggerDownload } from './ImportExportTab';
+
+const segmentClass = (active: boolean) =>
+  cn(
+    'rounded-md border px-3 py-2 text-sm flat-interaction',
+    active
+      ? 'border-primary-500 bg-primary-50 text-primary-700 dark:bg-primary-900/30 dark:text-primary-200'
+      : 'border-gray-200 bg-white text-gray-700 hover:bg-gray-50 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700'
+  );
+
+/**
+ * URL rules tab. 用通配符或正则描述 URL：永不保存 / 恢复时固定 / 不自动收集。
+ */
+export const UrlRulesTab: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const rules = useAppSelector(state => state.settings.urlRules);
+  const { showAlert } = useToast();
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const [pattern, setPattern] = useState('');
+  const [patternType, setPatternType] = useState<UrlRulePatternType>('glob');
+  const [action, setAction] = useState<UrlRuleAction>('never-save');
+  const [error, setError] = useState<string | null>(null);
+
+  const saveRules = async (nextRules: UrlRule[]) => {
+    dispatch(updateSettings({ urlRules: nextRules }));
+    await dispatch(saveSettings() as any);
+  };
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const validationError = validateUrlRulePattern(pattern, patternType);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    await saveRules([...rules, createUrlRule({ pattern, patternType, action })]);
+    setPattern('');
+    setError(null);
+  };
+
+  const handleToggle = (ruleId: string) =>
+    saveRules(rules.map(rule => (rule.id === ruleId ? { ...rule, enabled: !rule.enabled } : rule)));
+
+  const handleRemove = (ruleId: string) => saveRules(rules.filter(rule => rule.id !== ruleId));
+
+  const handleExport = () => {
+    const data = buildUrlRulesExport(rules, new Date().toISOString());
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    triggerDownload(blob, todayFilename('tabstack-url-rules', 'json'));
+  };
+
+  const handleImport = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = async event => {
+      try {
+        const parsed = parseUrlRulesImport(JSON.parse(event.target?.result as string));
+        const merged = mergeUrlRules(rules, parsed.rules);
+        await saveRules(merged.rules);
+        const duplicateCount = parsed.rules.length - merged.addedCount;
+        const details = [
+          duplicateCount > 0 ? `${duplicateCount} 条已存在` : '',
+          parsed.skipped > 0 ? `${parsed.skipped} 条无效已跳过` : '',
+        ].filter(Boolean).join('，');
+        showAlert({
+          title: '导入成功',
+          message: `已导入 ${merged.addedCount} 条规则${details ? `（${details}）` : ''}`,
+          type: 'success',
+          onClose: () => {},
+        });
+      } catch (importError) {
+        console.error('导入 URL 规则失败:', importError);
+        showAlert({
+          title: '导入失败',
+          message: '解析规则文件失败，请确保文件格式正确',
+          type: 'error',
+          onClose: () => {},
+        });
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className="max-w-3xl space-y-6">
+      <section className="rounded-lg border border-gray-200 bg-white p-5 dark:border-gray-700 dark:bg-gray-800">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+          URL 规则
+        </h3>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          通配符中 * 匹配任意字符、? 匹配单个字符；不写协议时同时匹配 http 和 https，例如 *.example.com/*。
+          正则在完整 URL 中查找，不区分大小写。
+        </p>
+
+        <form onSubmit={handleAdd} className="mt-4 space-y-3">
+          <div className="flex gap-2">
+            <input
+              value={pattern}
+              onChange={event => {
+                setPattern(event.target.value);
+                setError(null);
+              }}
+              placeholder={patternType === 'glob' ? '*.example.com/*' : '^https://(www\\.)?example\\.com/'}
+              aria-label="匹配模式"
+              aria-invalid={!!error}
+              className="min-w-0 flex-1 rounded-md border border-gray-300 bg-white px-3 py-2 font-mono text-sm text-gray-900 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
+            />
+            <button
+              type="submit"
+              disabled={!pattern.trim()}
+              className="inline-flex items-center justify-center rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:cursor-not-allowed disabled:opacity-60 flat-interaction"
+            >
+              添加规则
+            </button>
+          </div>
+          {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+          <div className="flex flex-wrap gap-4">
+            <div className="grid grid-cols-2 gap-2" role="group" aria-label="匹配方式">
+              {URL_RULE_PATTERN_TYPES.map(type => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => {
+                    setPatternType(type);
+                    setError(null);
+                  }}
+                  className={segmentClass(patternType === type)}
+                  aria-pressed={patternType === type}
+                >
+                  {URL_RULE_PATTERN_TYPE_LABELS[type]}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-2" role="group" aria-label="规则动作">
+              {URL_RULE_ACTIONS.map(ruleAction => (
+                <button
+                  key={ruleAction}
+                  type="button"
+                  onClick={() => setAction(ruleAction)}
+                  className={segmentClass(action === ruleAction)}
+                  aria-pressed={action === ruleAction}
+                >
+                  {URL_RULE_ACTION_LABELS[ruleAction]}
+                </button>
+              ))}
+            </div>
+          </div>
+        </form>
+
+        {rules.length === 0 ? (
+          <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">还没有规则。</p>
+        ) : (
+          <ul className="mt-4 divide-y divide-gray-100 dark:divide-gray-700">
+            {rules.map(rule => (
+              <li key={rule.id} className="flex items-center gap-3 py-2">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={() => handleToggle(rule.id)}
+                  aria-label={`启用规则 ${rule.pattern}`}
+                  className="h-4 w-4 rounded border-gray-300 text-primary-600"
+                />
+                <code
+                  className={cn(
+                    'min-w-0 flex-1 truncate text-sm',
+                    rule.enabled ? 'text-gray-900 dark:text-gray-100' : 'text-gray-400 line-through dark:text-gray-500'
+                  )}
+                  title={rule.pattern}
+                >
+                  {rule.pattern}
+                </code>
+                <span className="shrink-0 rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-600 dark:bg-gray-700 dark:text-gray-300">
+                  {URL_RULE_PATTERN_TYPE_LABELS[rule.patternType]}
+                </span>
+                <span className="shrink-0 rounded bg-primary-50 px-1.5 py-0.5 text-xs text-primary-700 dark:bg-primary-900/30 dark:text-primary-200">
+                  {URL_RULE_ACTION_LABELS[rule.action]}
+                </span>
+                <button
+                  onClick={() => handleRemove(rule.id)}
+                  className="shrink-0 text-xs text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 flat-interaction"
+                  aria-label={`删除规则 ${rule.pattern}`}
+                >
+                  删除
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="rounded-lg border border-gray-200 bg-white p-5 dark:border-gray-700 dark:bg-gray-800">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+          导入 / 导出规则
+        </h3>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          把规则集导出为 JSON 分享给团队成员；导入时与现有规则合并，重复的规则会跳过。
+        </p>
+        <div className="mt-4 grid grid-cols-1 gap-2 sm:grid-cols-2">
+          <button
+            onClick={handleExport}
+            disabled={rules.length === 0}
+            className="inline-flex items-center justify-center rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 disabled:cursor-not-allowed disabled:opacity-60 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-200 dark:hover:bg-gray-700 flat-interaction"
+          >
+            导出规则
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="inline-flex items-center justify-center rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-200 dark:hover:bg-gray-700 flat-interaction"
+          >
+            导入规则
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json"
+            className="hidden"
+            onChange={event => {
+              const file = event.target.files?.[0];
+              if (file) handleImport(file);
+              event.target.value = '';
+            }}
+          />
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default UrlRulesTab;
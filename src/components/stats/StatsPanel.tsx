@@ -5,6 +5,8 @@ import { storage } from '@/utils/storage';
 interface StatsData {
   totalSessions: number;
   totalTabs: number;
+  archivedSessions: number;
+  archivedTabs: number;
   totalDomains: number;
   savedThisWeek: number;
   restoredThisWeek: number;
@@ -94,7 +96,9 @@ export const StatsPanel: React.FC<{ onClose?: () => void }> = ({ onClose }) => {
   }, []);
 
   const stats = useMemo((): StatsData => {
-    const activeGroups = groups.filter(g => !g.isDeleted);
+    // 归档的会话单独计数，不计入其余统计
+    const activeGroups = groups.filter(g => !g.isDeleted && !g.isArchived);
+    const archivedGroups = groups.filter(g => !g.isDeleted && g.isArchived);
     const weekStart = getWeekStart();
 
     const allTabs = activeGroups.flatMap(g => g.tabs);
@@ -126,6 +130,8 @@ export const StatsPanel: React.FC<{ onClose?: () => void }> = ({ onClose }) => {
     return {
       totalSessions: activeGroups.length,
       totalTabs: allTabs.length,
+      archivedSessions: archivedGroups.length,
+      archivedTabs: archivedGroups.reduce((sum, g) => sum + g.tabs.length, 0),
       totalDomains: domains.size,
       savedThisWeek,
       restoredThisWeek,
@@ -162,7 +168,16 @@ export const StatsPanel: React.FC<{ onClose?: () => void }> = ({ onClose }) => {
       </div>
 
       <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
-        <StatCard label="会话总数" value={stats.totalSessions} icon={<FolderIcon />} />
+        <StatCard
+          label="会话总数"
+          value={stats.totalSessions}
+          icon={<FolderIcon />}
+          subtitle={
+            stats.archivedSessions > 0
+              ? `已归档 ${stats.archivedSessions} 个（${stats.archivedTabs} 个标签页）`
+              : undefined
+          }
+        />
         <StatCard label="标签总数" value={stats.totalTabs} icon={<BookmarkIcon />} />
         <StatCard label="唯一域名" value={stats.totalDomains} icon={<GlobeIcon />} />
         <StatCard
@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { useAppSelector } from '@/store/hooks';
+import { selectArchivedGroups } from '@/store/selectors/tabSelectors';
+import { TabGroup } from '@/components/tabs/TabGroup';
+
+/**
+ * 会话列表底部的「已归档」区：默认折叠，展开后列出归档的会话，
+ * 点击会话上的「已归档」标记或归档按钮即可取消归档。
+ */
+export const ArchivedSection: React.FC = () => {
+  const archivedGroups = useAppSelector(selectArchivedGroups);
+  const [expanded, setExpanded] = useState(false);
+
+  if (archivedGroups.length === 0) return null;
+
+  return (
+    <section className="pt-2" aria-label="已归档的会话">
+      <button
+        type="button"
+        onClick={() => setExpanded(current => !current)}
+        className="flex items-center gap-1.5 text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+        aria-expanded={expanded}
+      >
+        <svg
+          className={`w-3.5 h-3.5 transition-transform duration-200 ${expanded ? '' : '-rotate-90'}`}
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+          strokeWidth={2}
+          aria-hidden="true"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+        </svg>
+        已归档（{archivedGroups.length}）
+      </button>
+
+      {expanded && (
+        <div className="mt-2 space-y-2 opacity-90">
+          {archivedGroups.map(group => (
+            <TabGroup key={group.id} group={group} />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ArchivedSection;
@@ -1,15 +1,26 @@
 import React, { useCallback } from 'react';
-import { useAppDispatch } from '@/store/hooks';
-import { deleteGroup } from '@/store/slices/tabSlice';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { deleteGroup, recordTabRestores } from '@/store/slices/tabSlice';
 import { SafeFavicon } from '@/components/common/SafeFavicon';
 import { useToast } from '@/contexts/ToastContext';
 import { useEnhancedToast } from '@/utils/toastHelper';
 import { trackProductEvent } from '@/utils/productEvents';
 import { buildSessionRestoreMessage } from '@/utils/sessionPresentation';
+import { buildOpenSessionMessage, resolveLazyRestore } from '@/utils/sessionRestore';
+import { isConsumedOnRestore, type SmartSession } from '@/domain/tabGroup';
+import { useWorkspaceLaunch } from '@/hooks/useWorkspaceLaunch';
+import { WorkspaceLaunchDialog } from '@/components/tabs/WorkspaceLaunchDialog';
 import type { TabGroup as TabGroupType } from '@/types/tab';
 
 interface FavoriteStripProps {
   groups: TabGroupType[];
+  /** 工作区模板：点击即启动，不会被消耗；URL 含变量时先弹出填写对话框 */
+  templates?: TabGroupType[];
+  /** 智能会话（保存的搜索）：数量实时计算，打开时打开所有命中的标签页，原会话保留 */
+  smartSessions?: SmartSession[];
+  /** 智能会话打开后回调（记录原会话的打开次数） */
+  onSmartSessionRestored?: (session: SmartSession) => void;
+  onDeleteSmartSession?: (searchId: string) => void;
   /**
    * 关闭/卸载回调（可选）。FavoriteStrip 自身不做弹层关闭，但保持签名
    * 兼容后续可能的弹层封装。
@@ -26,33 +37,40 @@ interface FavoriteStripProps {
  * - 点击卡片 → 复用 TabGroup 的恢复逻辑（dispatch deleteGroup + chrome.runtime.sendMessage
  *   OPEN_TABS + buildSessionRestoreMessage toast）。
  * - 0 个收藏时返回 null（spec §3.2 行为）。
+ * - 工作区模板在收藏下方单独成区，启动后模板保留。
+ * - 智能会话（保存的搜索）在最下方单独成区，显示当前命中的标签页数量。
  *
  * 视觉规范（spec §3.2）：
  *   `rounded-lg border border-primary/20 bg-primary/5 dark:bg-primary-900/20 p-3`
  *
  * 无障碍：外层 region + aria-label；卡片为 button 元素（语义可激活）。
  */
-export const FavoriteStrip: React.FC<FavoriteStripProps> = ({ groups, onClose }) => {
+export const FavoriteStrip: React.FC<FavoriteStripProps> = ({
+  groups,
+  templates = [],
+  smartSessions = [],
+  onSmartSessionRestored,
+  onDeleteSmartSession,
+  onClose,
+}) => {
   const dispatch = useAppDispatch();
+  const lazyRestore = useAppSelector(state => state.settings.lazyRestore);
   const { showToast } = useToast();
   const { showDeleteError } = useEnhancedToast();
 
-  const handleOpenGroup = useCallback(
-    (group: TabGroupType) => {
-      const tabsPayload = group.tabs.map((tab) => ({
-        url: tab.url,
-        pinned: !!tab.pinned,
-      }));
+  const restoreGroup = useCallback(
+    (group: TabGroupType, lazy: boolean) => {
+      const openMessage = buildOpenSessionMessage(group, { lazy });
 
       void trackProductEvent('session_restored', {
         sessionId: group.id,
         sessionName: group.name,
-        source: 'favorites_strip',
+        source: group.isTemplate ? 'workspace_template' : 'favorites_strip',
         tabCount: group.tabs.length,
       });
 
-      // 复制 TabGroup.handleOpenAllTabs 行为：未锁定 → 通过软删清理原会话；锁定 → 保留。
-      if (!group.isLocked) {
+      // 复制 TabGroup.handleOpenAllTabs 行为：未锁定 → 通过软删清理原会话；锁定 / 模板 → 保留。
+      if (isConsumedOnRestore(group)) {
         dispatch({ type: 'tabs/deleteGroup/fulfilled', payload: group.id });
         dispatch(deleteGroup(group.id))
           .unwrap()
@@ -64,14 +82,12 @@ export const FavoriteStrip: React.FC<FavoriteStripProps> = ({ groups, onClose })
             showDeleteError(`恢复收藏会话后清理失败: ${error?.message || '未知错误'}`);
           });
       } else {
+        dispatch(recordTabRestores({ groupId: group.id }));
         showToast(buildSessionRestoreMessage(group), 'success', 4500);
       }
 
       setTimeout(() => {
-        chrome.runtime.sendMessage({
-          type: 'OPEN_TABS',
-          data: { tabs: tabsPayload },
-        });
+        chrome.runtime.sendMessage(openMessage);
 
         onClose?.();
       }, 50);
@@ -79,68 +95,222 @@ export const FavoriteStrip: React.FC<FavoriteStripProps> = ({ groups, onClose })
     [dispatch, onClose, showToast, showDeleteError]
   );
 
-  // 0 收藏不渲染（spec §3.2 + spec §3.2 "仅当有 favorite"）
+  const { launch, dialogProps } = useWorkspaceLaunch(restoreGroup);
+
+  const handleOpenGroup = useCallback(
+    (group: TabGroupType, event?: React.MouseEvent) => {
+      launch(group, resolveLazyRestore(event, lazyRestore));
+    },
+    [launch, lazyRestore]
+  );
+
+  const handleOpenSmartSession = useCallback(
+    (session: SmartSession, event: React.MouseEvent) => {
+      const { group } = session;
+      if (group.tabs.length === 0) {
+        showToast(`当前没有符合“${group.name}”的标签页`, 'info');
+        return;
+      }
+
+      const openMessage = buildOpenSessionMessage(group, { lazy: resolveLazyRestore(event, lazyRestore) });
+
+      void trackProductEvent('session_restored', {
+        sessionId: group.id,
+        sessionName: group.name,
+        source: 'smart_session',
+        tabCount: group.tabs.length,
+      });
+
+      onSmartSessionRestored?.(session);
+      showToast(buildSessionRestoreMessage(group), 'success', 4500);
+
+      setTimeout(() => {
+        chrome.runtime.sendMessage(openMessage);
+
+        onClose?.();
+      }, 50);
+    },
+    [lazyRestore, onClose, onSmartSessionRestored, showToast]
+  );
+
+  // 0 收藏、0 模板、0 智能会话不渲染（spec §3.2 + spec §3.2 "仅当有 favorite"）
   // 必须在所有 hooks 之后 —— 见上方 useCallback 先于 early-return 的修复。
-  if (groups.length === 0) {
+  if (groups.length === 0 && templates.length === 0 && smartSessions.length === 0) {
     return null;
   }
 
   return (
-    <section
-      aria-label="收藏会话"
-      data-testid="favorite-strip"
-      className="rounded-lg border border-primary/20 bg-primary/5 dark:bg-primary-900/20 p-3"
-    >
-      <header className="flex items-center justify-between mb-2 px-1">
-        <h3 className="text-xs font-semibold uppercase tracking-wide text-primary-700 dark:text-primary-300">
-          ⭐ 收藏
-        </h3>
-        <span className="text-[11px] text-gray-500 dark:text-gray-400">
-          {groups.length} 个
-        </span>
-      </header>
-
-      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
-        {groups.map((group) => {
-          const firstTab = group.tabs[0];
-          return (
-            <button
-              key={group.id}
-              type="button"
-              onClick={() => handleOpenGroup(group)}
-              data-testid="favorite-card"
-              data-group-id={group.id}
-              className="flex items-center gap-2 rounded-lg border border-primary/15 bg-white/80 dark:bg-gray-900/40
-                         px-3 py-2 text-left text-sm font-medium text-gray-800 dark:text-gray-100
-                         transition-all duration-150 hover:bg-primary/10 hover:border-primary/40
-                         focus-visible:ring-2 focus-visible:ring-primary-500 focus-visible:ring-offset-2
-                         active:scale-[0.98]"
-              aria-label={`打开收藏会话 ${group.name}（${group.tabs.length} 个标签页）`}
-            >
-              <span className="text-amber-500" aria-hidden="true">⭐</span>
-              {firstTab ? (
-                <SafeFavicon
-                  src={firstTab.favicon}
-                  alt=""
-                  className="w-4 h-4 flex-shrink-0"
-                />
-              ) : (
-                <span className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
-              )}
-              <span className="flex-1 min-w-0 truncate" title={group.name}>
-                {group.name}
-              </span>
-              <span
-                className="rounded-full bg-gray-100 dark:bg-gray-700 px-1.5 py-0.5 text-[11px] font-medium text-gray-600 dark:text-gray-300 flex-shrink-0"
-                aria-label={`${group.tabs.length} 个标签页`}
+    <>
+      {groups.length > 0 && (
+        <section
+          aria-label="收藏会话"
+          data-testid="favorite-strip"
+          className="rounded-lg border border-primary/20 bg-primary/5 dark:bg-primary-900/20 p-3"
+        >
+          <header className="flex items-center justify-between mb-2 px-1">
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-primary-700 dark:text-primary-300">
+              ⭐ 收藏
+            </h3>
+            <span className="text-[11px] text-gray-500 dark:text-gray-400">
+              {groups.length} 个
+            </span>
+          </header>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {groups.map((group) => {
+              const firstTab = group.tabs[0];
+              return (
+                <button
+                  key={group.id}
+                  type="button"
+                  onClick={event => handleOpenGroup(group, event)}
+                  title={lazyRestore ? '按住 Alt 点击可全部加载' : '按住 Alt 点击可延迟加载'}
+                  data-testid="favorite-card"
+                  data-group-id={group.id}
+                  className="flex items-center gap-2 rounded-lg border border-primary/15 bg-white/80 dark:bg-gray-900/40
+                             px-3 py-2 text-left text-sm font-medium text-gray-800 dark:text-gray-100
+                             transition-all duration-150 hover:bg-primary/10 hover:border-primary/40
+                             focus-visible:ring-2 focus-visible:ring-primary-500 focus-visible:ring-offset-2
+                             active:scale-[0.98]"
+                  aria-label={`打开收藏会话 ${group.name}（${group.tabs.length} 个标签页）`}
+                >
+                  <span className="text-amber-500" aria-hidden="true">⭐</span>
+                  {firstTab ? (
+                    <SafeFavicon
+                      src={firstTab.favicon}
+                      alt=""
+                      className="w-4 h-4 flex-shrink-0"
+                    />
+                  ) : (
+                    <span className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+                  )}
+                  <span className="flex-1 min-w-0 truncate" title={group.name}>
+                    {group.name}
+                  </span>
+                  <span
+                    className="rounded-full bg-gray-100 dark:bg-gray-700 px-1.5 py-0.5 text-[11px] font-medium text-gray-600 dark:text-gray-300 flex-shrink-0"
+                    aria-label={`${group.tabs.length} 个标签页`}
+                  >
+                    {group.tabs.length}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </section>
+      )}
+      {templates.length > 0 && (
+        <section
+          aria-label="工作区模板"
+          data-testid="template-strip"
+          className="rounded-lg border border-gray-200 bg-gray-50 dark:border-gray-700 dark:bg-gray-800/60 p-3"
+        >
+          <header className="flex items-center justify-between mb-2 px-1">
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-700 dark:text-gray-300">
+              🧩 工作区模板
+            </h3>
+            <span className="text-[11px] text-gray-500 dark:text-gray-400">
+              {templates.length} 个
+            </span>
+          </header>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {templates.map((template) => (
+              <button
+                key={template.id}
+                type="button"
+                onClick={event => handleOpenGroup(template, event)}
+                title="启动工作区，模板会保留"
+                data-testid="template-card"
+                data-group-id={template.id}
+                className="flex items-center gap-2 rounded-lg border border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-900/40
+                           px-3 py-2 text-left text-sm font-medium text-gray-800 dark:text-gray-100
+                           transition-all duration-150 hover:bg-primary/10 hover:border-primary/40
+                           focus-visible:ring-2 focus-visible:ring-primary-500 focus-visible:ring-offset-2
+                           active:scale-[0.98]"
+                aria-label={`启动工作区模板 ${template.name}（${template.tabs.length} 个标签页）`}
               >
-                {group.tabs.length}
-              </span>
-            </button>
-          );
-        })}
-      </div>
-    </section>
+                <span aria-hidden="true">🧩</span>
+                <span className="flex-1 min-w-0 truncate" title={template.name}>
+                  {template.name}
+                </span>
+                <span
+                  className="rounded-full bg-gray-100 dark:bg-gray-700 px-1.5 py-0.5 text-[11px] font-medium text-gray-600 dark:text-gray-300 flex-shrink-0"
+                  aria-label={`${template.tabs.length} 个标签页`}
+                >
+                  {template.tabs.length}
+                </span>
+              </button>
+            ))}
+          </div>
+        </section>
+      )}
+      {smartSessions.length > 0 && (
+        <section
+          aria-label="智能会话"
+          data-testid="smart-session-strip"
+          className="rounded-lg border border-gray-200 bg-gray-50 dark:border-gray-700 dark:bg-gray-800/60 p-3"
+        >
+          <header className="flex items-center justify-between mb-2 px-1">
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-700 dark:text-gray-300">
+              🔎 智能会话
+            </h3>
+            <span className="text-[11px] text-gray-500 dark:text-gray-400">
+              {smartSessions.length} 个
+            </span>
+          </header>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {smartSessions.map((session) => {
+              const { search, group } = session;
+              return (
+                <div
+                  key={search.id}
+                  data-testid="smart-session-card"
+                  className="group/smart flex items-center rounded-lg border border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-900/40
+                             transition-all duration-150 hover:bg-primary/10 hover:border-primary/40"
+                >
+                  <button
+                    type="button"
+                    onClick={event => handleOpenSmartSession(session, event)}
+                    title={`搜索：${search.query}\n打开所有命中的标签页，原会话保留`}
+                    className="flex flex-1 min-w-0 items-center gap-2 rounded-lg px-3 py-2 text-left text-sm font-medium text-gray-800 dark:text-gray-100
+                               focus-visible:ring-2 focus-visible:ring-primary-500 focus-visible:ring-offset-2
+                               active:scale-[0.98]"
+                    aria-label={`打开智能会话 ${search.name}（${group.tabs.length} 个标签页）`}
+                  >
+                    <span aria-hidden="true">🔎</span>
+                    <span className="flex-1 min-w-0 truncate" title={search.name}>
+                      {search.name}
+                    </span>
+                    <span
+                      className="rounded-full bg-gray-100 dark:bg-gray-700 px-1.5 py-0.5 text-[11px] font-medium text-gray-600 dark:text-gray-300 flex-shrink-0"
+                      aria-label={`${group.tabs.length} 个标签页`}
+                    >
+                      {group.tabs.length}
+                    </span>
+                  </button>
+                  {onDeleteSmartSession && (
+                    <button
+                      type="button"
+                      onClick={() => onDeleteSmartSession(search.id)}
+                      className="btn-icon mr-1 p-1 opacity-0 group-hover/smart:opacity-100 focus-visible:opacity-100 flat-interaction"
+                      title="删除智能会话（不影响其中的标签页）"
+                      aria-label={`删除智能会话 ${search.name}`}
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      )}
+      <WorkspaceLaunchDialog {...dialogProps} />
+    </>
   );
 };
 
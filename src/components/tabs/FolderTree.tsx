@@ -0,0 +1,307 @@
+import React, { useRef, useState } from 'react';
+import { useDrag, useDragLayer, useDrop } from 'react-dnd';
+import { FolderDragItem, ItemTypes, TabGroupDragItem } from '@/components/dnd/DndTypes';
+import { DraggableTabGroup } from '@/components/dnd/DraggableTabGroup';
+import { ConfirmDialog } from '@/components/common/ConfirmDialog';
+import { useSessionFolders } from '@/hooks/useSessionFolders';
+import { canMoveFolder, MAX_FOLDER_DEPTH, type FolderNode } from '@/domain/tabGroup';
+import type { SessionFolder } from '@/types/tab';
+
+type FolderDropItem = TabGroupDragItem | FolderDragItem;
+
+type SessionFolders = ReturnType<typeof useSessionFolders>;
+
+const FolderIcon = ({ open }: { open: boolean }) => (
+  <svg className="w-4 h-4 text-amber-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+    {open ? (
+      <path strokeLinecap="round" strokeLinejoin="round" d="M3.75 9.776c.112-.017.227-.026.344-.026h15.812c.117 0 .232.009.344.026m-16.5 0a2.25 2.25 0 00-1.883 2.542l.857 6a2.25 2.25 0 002.227 1.932H19.05a2.25 2.25 0 002.227-1.932l.857-6a2.25 2.25 0 00-1.883-2.542m-16.5 0V6A2.25 2.25 0 016 3.75h3.879a1.5 1.5 0 011.06.44l2.122 2.12a1.5 1.5 0 001.06.44H18A2.25 2.25 0 0120.25 9v.776" />
+    ) : (
+      <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 12.75V12A2.25 2.25 0 014.5 9.75h15A2.25 2.25 0 0121.75 12v.75m-8.69-6.44l-2.12-2.12a1.5 1.5 0 00-1.061-.44H4.5A2.25 2.25 0 002.25 6v12a2.25 2.25 0 002.25 2.25h15A2.25 2.25 0 0021.75 18V9a2.25 2.25 0 00-2.25-2.25h-5.379a1.5 1.5 0 01-1.06-.44z" />
+    )}
+  </svg>
+);
+
+const ChevronIcon = ({ collapsed }: { collapsed: boolean }) => (
+  <svg
+    className={`w-3.5 h-3.5 transition-transform duration-200 ${collapsed ? '-rotate-90' : ''}`}
+    fill="none"
+    viewBox="0 0 24 24"
+    stroke="currentColor"
+    strokeWidth={2}
+  >
+    <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+  </svg>
+);
+
+const ACTION_CLASS =
+  'rounded px-1.5 py-0.5 text-xs text-gray-500 hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-gray-800 dark:hover:text-gray-200';
+
+const NAME_INPUT_CLASS =
+  'min-w-0 flex-1 rounded border border-primary-500 bg-white px-2 py-0.5 text-sm text-gray-900 focus:outline-none dark:bg-gray-900 dark:text-gray-100';
+
+/**
+ * 放置目标：接受拖来的会话（移入文件夹）和文件夹（移到其下级）。
+ * folderId 为 undefined 时表示顶层。
+ */
+function useFolderDrop(folderId: string | undefined, ops: SessionFolders) {
+  return useDrop<FolderDropItem, void, { isOver: boolean; canDrop: boolean }>({
+    accept: [ItemTypes.TAB_GROUP, ItemTypes.FOLDER],
+    canDrop: item =>
+      item.type === ItemTypes.FOLDER ? canMoveFolder(ops.folders, item.id, folderId) : true,
+    drop: (item, monitor) => {
+      // 嵌套的文件夹各自是放置目标，只处理最内层
+      if (monitor.didDrop()) return;
+      if (item.type === ItemTypes.FOLDER) {
+        ops.moveFolder(item.id, folderId);
+      } else {
+        void ops.moveGroup(item.id, folderId);
+      }
+    },
+    collect: monitor => ({
+      isOver: monitor.isOver({ shallow: true }),
+      canDrop: monitor.canDrop(),
+    }),
+  });
+}
+
+interface NameInputProps {
+  initialValue: string;
+  placeholder?: string;
+  label: string;
+  onSubmit: (name: string) => void;
+  onCancel: () => void;
+}
+
+const NameInput: React.FC<NameInputProps> = ({ initialValue, placeholder, label, onSubmit, onCancel }) => {
+  const [value, setValue] = useState(initialValue);
+  return (
+    <input
+      value={value}
+      onChange={event => setValue(event.target.value)}
+      onKeyDown={event => {
+        if (event.key === 'Enter') {
+          if (value.trim()) onSubmit(value);
+          else onCancel();
+        }
+        if (event.key === 'Escape') onCancel();
+      }}
+      onBlur={onCancel}
+      placeholder={placeholder}
+      className={NAME_INPUT_CLASS}
+      aria-label={label}
+      autoFocus
+    />
+  );
+};
+
+interface FolderSectionProps {
+  node: FolderNode;
+  depth: number;
+  ops: SessionFolders;
+  onRequestDelete: (folder: SessionFolder) => void;
+}
+
+const FolderSection: React.FC<FolderSectionProps> = ({ node, depth, ops, onRequestDelete }) => {
+  const { folder } = node;
+  const headerRef = useRef<HTMLDivElement>(null);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [isCreatingChild, setIsCreatingChild] = useState(false);
+  const collapsed = ops.collapsedFolderIds.includes(folder.id);
+
+  const [{ isDragging }, drag] = useDrag({
+    type: ItemTypes.FOLDER,
+    item: { type: ItemTypes.FOLDER, id: folder.id } as FolderDragItem,
+    collect: monitor => ({ isDragging: monitor.isDragging() }),
+  });
+  const [{ isOver, canDrop }, drop] = useFolderDrop(folder.id, ops);
+  drag(drop(headerRef));
+
+  return (
+    <div className={isDragging ? 'opacity-50' : undefined} data-testid="session-folder">
+      <div
+        ref={headerRef}
+        className={`group/folder flex items-center gap-2 rounded-lg px-2 py-1.5 transition-colors ${
+          isOver && canDrop
+            ? 'bg-primary-100/70 ring-2 ring-primary dark:bg-primary-800/40'
+            : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+        }`}
+      >
+        <button
+          type="button"
+          onClick={() => ops.toggleCollapsed(folder.id)}
+          className="flex items-center gap-1.5 text-gray-500 dark:text-gray-400"
+          aria-expanded={!collapsed}
+          aria-label={collapsed ? `展开文件夹 ${folder.name}` : `折叠文件夹 ${folder.name}`}
+        >
+          <ChevronIcon collapsed={collapsed} />
+          <FolderIcon open={!collapsed} />
+        </button>
+
+        {isRenaming ? (
+          <NameInput
+            initialValue={folder.name}
+            label="重命名文件夹"
+            onSubmit={name => {
+              ops.renameFolder(folder.id, name);
+              setIsRenaming(false);
+            }}
+            onCancel={() => setIsRenaming(false)}
+          />
+        ) : (
+          <span
+            className="min-w-0 flex-1 truncate text-sm font-medium text-gray-800 dark:text-gray-100"
+            onDoubleClick={() => setIsRenaming(true)}
+            title="双击重命名；可把会话或其他文件夹拖到这里"
+          >
+            {folder.name}
+          </span>
+        )}
+
+        <span className="tab-group-count flex-shrink-0" aria-label={`包含 ${node.totalGroups} 个会话`}>
+          {node.totalGroups}
+        </span>
+
+        <div className="flex items-center gap-0.5 opacity-0 transition-opacity group-hover/folder:opacity-100 group-focus-within/folder:opacity-100">
+          {depth < MAX_FOLDER_DEPTH && (
+            <button
+              type="button"
+              onClick={() => {
+                if (collapsed) ops.toggleCollapsed(folder.id);
+                setIsCreatingChild(true);
+              }}
+              className={ACTION_CLASS}
+            >
+              新建子文件夹
+            </button>
+          )}
+          <button type="button" onClick={() => setIsRenaming(true)} className={ACTION_CLASS}>
+            重命名
+          </button>
+          <button
+            type="button"
+            onClick={() => onRequestDelete(folder)}
+            className={`${ACTION_CLASS} hover:text-red-600 dark:hover:text-red-400`}
+          >
+            删除
+          </button>
+        </div>
+      </div>
+
+      {!collapsed && (
+        <div className="ml-4 space-y-2 border-l border-gray-200 pl-3 pt-1 dark:border-gray-700">
+          {isCreatingChild && (
+            <div className="flex items-center gap-2 px-2">
+              <FolderIcon open={false} />
+              <NameInput
+                initialValue=""
+                placeholder="文件夹名称"
+                label="新建子文件夹"
+                onSubmit={name => {
+                  ops.createFolder(name, folder.id);
+                  setIsCreatingChild(false);
+                }}
+                onCancel={() => setIsCreatingChild(false)}
+              />
+            </div>
+          )}
+          {node.children.map(child => (
+            <FolderSection
+              key={child.folder.id}
+              node={child}
+              depth={depth + 1}
+              ops={ops}
+              onRequestDelete={onRequestDelete}
+            />
+          ))}
+          {node.groups.map((group, index) => (
+            <DraggableTabGroup key={group.id} group={group} index={index} moveGroup={() => {}} />
+          ))}
+          {node.totalGroups === 0 && node.children.length === 0 && !isCreatingChild && (
+            <p className="px-2 py-1 text-xs text-gray-400 dark:text-gray-500">把会话拖到文件夹标题上即可放进来</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface FolderTreeProps {
+  nodes: FolderNode[];
+}
+
+/**
+ * 会话文件夹树：显示在会话列表顶部，顶层会话仍按原方式（虚拟化 / 双栏）渲染在下方。
+ * 拖动会话或文件夹时出现「移到顶层」的放置区。
+ */
+export const FolderTree: React.FC<FolderTreeProps> = ({ nodes }) => {
+  const ops = useSessionFolders();
+  const [isCreating, setIsCreating] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<SessionFolder | null>(null);
+  const rootDropRef = useRef<HTMLDivElement>(null);
+
+  const isDraggingFolderItem = useDragLayer(monitor => {
+    const type = monitor.getItemType();
+    return monitor.isDragging() && (type === ItemTypes.TAB_GROUP || type === ItemTypes.FOLDER);
+  });
+  const [{ isOver, canDrop }, drop] = useFolderDrop(undefined, ops);
+  drop(rootDropRef);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        {isCreating ? (
+          <NameInput
+            initialValue=""
+            placeholder="文件夹名称"
+            label="新建文件夹"
+            onSubmit={name => {
+              ops.createFolder(name);
+              setIsCreating(false);
+            }}
+            onCancel={() => setIsCreating(false)}
+          />
+        ) : (
+          <button
+            type="button"
+            onClick={() => setIsCreating(true)}
+            className="text-xs text-gray-500 hover:text-primary-600 dark:text-gray-400"
+          >
+            + 新建文件夹
+          </button>
+        )}
+      </div>
+
+      {nodes.map(node => (
+        <FolderSection key={node.folder.id} node={node} depth={1} ops={ops} onRequestDelete={setPendingDelete} />
+      ))}
+
+      <div
+        ref={rootDropRef}
+        className={`rounded-lg border-2 border-dashed px-3 py-2 text-center text-xs transition-colors ${
+          isDraggingFolderItem ? 'block' : 'hidden'
+        } ${
+          isOver && canDrop
+            ? 'border-primary bg-primary-50 text-primary-700 dark:bg-primary-900/30 dark:text-primary-200'
+            : 'border-gray-300 text-gray-400 dark:border-gray-600'
+        }`}
+      >
+        拖到这里移到顶层
+      </div>
+
+      <ConfirmDialog
+        visible={pendingDelete !== null}
+        title="删除文件夹"
+        message={`删除「${pendingDelete?.name ?? ''}」后，其中的会话和子文件夹会移到上一级，会话本身不会被删除。`}
+        confirmText="删除文件夹"
+        type="warning"
+        onConfirm={() => {
+          if (pendingDelete) void ops.deleteFolder(pendingDelete.id);
+          setPendingDelete(null);
+        }}
+        onCancel={() => setPendingDelete(null)}
+      />
+    </div>
+  );
+};
+
+export default FolderTree;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { saveSettings, updateSettings } from '@/store/slices/settingsSlice';
+import { selectGroupRestoreFilter, selectGroupSortOrder } from '@/store/selectors/tabSelectors';
+import {
+  GROUP_SORT_ORDER_LABELS,
+  GROUP_SORT_ORDERS,
+  RESTORE_HISTORY_FILTER_LABELS,
+  RESTORE_HISTORY_FILTERS,
+} from '@/domain/tabGroup';
+import type { GroupSortOrder, RestoreHistoryFilter, UserSettings } from '@/types/tab';
+
+const SELECT_CLASS =
+  'rounded border border-gray-300 bg-white px-2 py-1 text-xs text-gray-700 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-200';
+
+/**
+ * 会话列表上方的排序 / 打开记录筛选，选择会保存在设置中（selectSortedGroups 读取）。
+ */
+export const GroupSortBar: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const sortOrder = useAppSelector(selectGroupSortOrder) ?? 'created';
+  const restoreFilter = useAppSelector(selectGroupRestoreFilter) ?? 'all';
+
+  const update = (patch: Partial<UserSettings>) => {
+    dispatch(updateSettings(patch));
+    void dispatch(saveSettings() as any);
+  };
+
+  return (
+    <div className="flex items-center justify-end gap-2 text-xs text-gray-500 dark:text-gray-400">
+      <label className="flex items-center gap-1">
+        排序
+        <select
+          value={sortOrder}
+          onChange={event => update({ groupSortOrder: event.target.value as GroupSortOrder })}
+          className={SELECT_CLASS}
+          aria-label="会话排序"
+        >
+          {GROUP_SORT_ORDERS.map(value => (
+            <option key={value} value={value}>{GROUP_SORT_ORDER_LABELS[value]}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-1">
+        打开记录
+        <select
+          value={restoreFilter}
+          onChange={event => update({ groupRestoreFilter: event.target.value as RestoreHistoryFilter })}
+          className={SELECT_CLASS}
+          aria-label="按打开记录筛选"
+        >
+          {RESTORE_HISTORY_FILTERS.map(value => (
+            <option key={value} value={value}>{RESTORE_HISTORY_FILTER_LABELS[value]}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default GroupSortBar;
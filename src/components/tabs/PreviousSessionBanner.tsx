@@ -0,0 +1,166 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { nanoid } from '@reduxjs/toolkit';
+import { useAppDispatch } from '@/store/hooks';
+import { saveGroup } from '@/store/slices/tabSlice';
+import { TabPreview } from '@/components/tabs/TabPreview';
+import { useToast } from '@/contexts/ToastContext';
+import { storage } from '@/utils/storage';
+import { buildRestoreTabsPayload } from '@/utils/sessionRestore';
+import { formatLastSync } from '@/utils/sessionPresentation';
+import type { BrowsingSessionRecord, TabGroup } from '@/types/tab';
+
+/**
+ * 「恢复上次浏览会话」提示卡（崩溃 / 关闭恢复）。
+ *
+ * - 自包含：挂载时读取 storage.getPreviousSession()，没有记录时渲染 null
+ * - 每个窗口一行，悬停 / 聚焦时用 TabPreview 预览该窗口的标签页
+ * - 恢复：每个窗口在新窗口中打开；另存为会话：写入会话列表；两者都会从记录中移除对应窗口
+ */
+export const PreviousSessionBanner: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const { showToast } = useToast();
+  const [record, setRecord] = useState<BrowsingSessionRecord | null>(null);
+  const [previewWindowId, setPreviewWindowId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    storage.getPreviousSession().then(previous => {
+      if (!cancelled) setRecord(previous);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const removeWindows = useCallback(async (windowIds: string[]) => {
+    if (!record) return;
+    const windows = record.windows.filter(savedWindow => !windowIds.includes(savedWindow.id));
+    if (windows.length === 0) {
+      setRecord(null);
+      await storage.clearPreviousSession();
+    } else {
+      const next = { ...record, windows };
+      setRecord(next);
+      await storage.setPreviousSession(next);
+    }
+  }, [record]);
+
+  const restoreWindows = useCallback(async (windows: TabGroup[]) => {
+    windows.forEach(savedWindow => {
+      chrome.runtime.sendMessage({
+        type: 'OPEN_TABS',
+        data: { tabs: buildRestoreTabsPayload(savedWindow.tabs), target: 'new-window' },
+      });
+    });
+    const tabCount = windows.reduce((count, savedWindow) => count + savedWindow.tabs.length, 0);
+    showToast(`已恢复 ${windows.length} 个窗口，共 ${tabCount} 个标签页`, 'success');
+    await removeWindows(windows.map(savedWindow => savedWindow.id));
+  }, [removeWindows, showToast]);
+
+  const saveWindows = useCallback(async (windows: TabGroup[]) => {
+    if (!record) return;
+    const now = new Date().toISOString();
+    const capturedAt = new Date(record.capturedAt).toLocaleString();
+    for (const savedWindow of windows) {
+      await dispatch(saveGroup({
+        ...savedWindow,
+        id: nanoid(),
+        name: `上次浏览会话 ${capturedAt} · ${savedWindow.name}`,
+        createdAt: now,
+        updatedAt: now,
+      })).unwrap();
+    }
+    showToast(`已将 ${windows.length} 个窗口另存为会话`, 'success');
+    await removeWindows(windows.map(savedWindow => savedWindow.id));
+  }, [dispatch, record, removeWindows, showToast]);
+
+  const dismiss = useCallback(async () => {
+    setRecord(null);
+    await storage.clearPreviousSession();
+  }, []);
+
+  if (!record || record.windows.length === 0) {
+    return null;
+  }
+
+  const totalTabs = record.windows.reduce((count, savedWindow) => count + savedWindow.tabs.length, 0);
+
+  return (
+    <section
+      aria-label="恢复上次浏览会话"
+      data-testid="previous-session-banner"
+      className="mb-3 rounded-lg border border-primary/20 bg-primary/5 p-3 dark:bg-primary-900/20"
+    >
+      <header className="flex flex-wrap items-center justify-between gap-2 px-1">
+        <div className="min-w-0">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">恢复上次浏览会话</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            浏览器上次退出前打开了 {record.windows.length} 个窗口、{totalTabs} 个标签页（记录于 {formatLastSync(record.capturedAt)}）
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => restoreWindows(record.windows)}
+            className="rounded-md bg-primary-600 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-primary-700"
+          >
+            全部恢复
+          </button>
+          <button
+            type="button"
+            onClick={() => saveWindows(record.windows)}
+            className="rounded-md border border-gray-200 px-3 py-1.5 text-xs text-gray-700 hover:bg-gray-50 dark:border-gray-700 dark:text-gray-200 dark:hover:bg-gray-700"
+          >
+            另存为会话
+          </button>
+          <button
+            type="button"
+            onClick={dismiss}
+            className="rounded-md px-2 py-1.5 text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            忽略
+          </button>
+        </div>
+      </header>
+
+      <ul className="mt-2 space-y-1">
+        {record.windows.map(savedWindow => (
+          <li
+            key={savedWindow.id}
+            className="relative flex items-center justify-between gap-2 rounded-md bg-white/80 px-3 py-1.5 text-sm dark:bg-gray-900/40"
+            onMouseEnter={() => setPreviewWindowId(savedWindow.id)}
+            onMouseLeave={() => setPreviewWindowId(null)}
+            onFocus={() => setPreviewWindowId(savedWindow.id)}
+            onBlur={() => setPreviewWindowId(null)}
+          >
+            <span className="min-w-0 truncate text-gray-800 dark:text-gray-100">
+              {savedWindow.name}
+              <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{savedWindow.tabs.length} 个标签页</span>
+            </span>
+            <span className="flex flex-shrink-0 items-center gap-2">
+              <button
+                type="button"
+                onClick={() => restoreWindows([savedWindow])}
+                className="text-xs text-primary-600 hover:underline dark:text-primary-300"
+                aria-label={`恢复${savedWindow.name}`}
+              >
+                恢复
+              </button>
+              <button
+                type="button"
+                onClick={() => saveWindows([savedWindow])}
+                className="text-xs text-gray-500 hover:underline dark:text-gray-400"
+                aria-label={`将${savedWindow.name}另存为会话`}
+              >
+                另存
+              </button>
+            </span>
+            {previewWindowId === savedWindow.id && <TabPreview group={savedWindow} />}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default PreviousSessionBanner;
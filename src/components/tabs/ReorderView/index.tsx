@@ -1,7 +1,7 @@
 import React, { useMemo, useState } from 'react';
 import { useAppSelector, useAppDispatch } from '@/store/hooks';
 import { Tab, TabGroup } from '@/types/tab';
-import { updateGroup, deleteGroup } from '@/store/slices/tabSlice';
+import { updateGroup, removeEmptiedGroup, trashTabs } from '@/store/slices/tabSlice';
 import { selectGroups } from '@/store/selectors/tabSelectors';
 import { shouldAutoDeleteAfterTabRemoval } from '@/utils/tabGroupUtils';
 import { SafeFavicon } from '@/components/common/SafeFavicon';
@@ -101,10 +101,12 @@ const ReorderView: React.FC = () => {
     // 如果标签组被锁定，不允许删除
     if (group.isLocked) return;
 
+    dispatch(trashTabs({ group, tabIds: [tab.id] }));
+
     // 使用工具函数检查是否应该自动删除标签组
     if (shouldAutoDeleteAfterTabRemoval(group, tab.id)) {
-      dispatch(deleteGroup(group.id));
-      console.log(`自动删除空标签组: ${group.name} (ID: ${group.id})`);
+      dispatch(removeEmptiedGroup(group.id));
+      console.log(`自动处理空标签组: ${group.name} (ID: ${group.id})`);
     } else {
       // 更新标签组，移除该标签页
       const updatedTabs = group.tabs.filter(t => t.id !== tab.id);
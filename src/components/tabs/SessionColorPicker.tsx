@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { TAB_GROUP_COLORS } from '@/domain/tabGroup/nativeGroups';
+import type { TabGroupColor } from '@/types/tab';
+import { cn } from '@/lib/utils';
+
+const COLOR_CLASSES: Record<TabGroupColor, string> = {
+  grey: 'bg-gray-400',
+  blue: 'bg-blue-500',
+  red: 'bg-red-500',
+  yellow: 'bg-yellow-400',
+  green: 'bg-green-500',
+  pink: 'bg-pink-500',
+  purple: 'bg-purple-500',
+  cyan: 'bg-cyan-500',
+  orange: 'bg-orange-500',
+};
+
+const COLOR_LABELS: Record<TabGroupColor, string> = {
+  grey: '灰色',
+  blue: '蓝色',
+  red: '红色',
+  yellow: '黄色',
+  green: '绿色',
+  pink: '粉色',
+  purple: '紫色',
+  cyan: '青色',
+  orange: '橙色',
+};
+
+interface SessionColorPickerProps {
+  color?: TabGroupColor;
+  disabled?: boolean;
+  onChange: (color: TabGroupColor | undefined) => void;
+}
+
+/**
+ * 会话颜色：卡片标题前的色点，点击展开 Chrome 标签组的 9 种颜色。
+ * 颜色用于「恢复为原生标签组」。
+ */
+export const SessionColorPicker: React.FC<SessionColorPickerProps> = ({ color, disabled, onChange }) => {
+  const [open, setOpen] = useState(false);
+
+  const select = (next: TabGroupColor | undefined) => {
+    setOpen(false);
+    if (next !== color) onChange(next);
+  };
+
+  return (
+    <div className="relative flex-shrink-0">
+      <button
+        type="button"
+        onClick={() => !disabled && setOpen(current => !current)}
+        disabled={disabled}
+        className={cn(
+          'block h-3 w-3 rounded-full focus-visible:ring-2 focus-visible:ring-primary-500 focus-visible:ring-offset-2',
+          color ? COLOR_CLASSES[color] : 'border border-dashed border-gray-400 dark:border-gray-500',
+          disabled ? 'cursor-default' : 'cursor-pointer'
+        )}
+        title={color ? `会话颜色：${COLOR_LABELS[color]}` : '设置会话颜色'}
+        aria-label={color ? `会话颜色：${COLOR_LABELS[color]}` : '设置会话颜色'}
+        aria-expanded={open}
+      />
+      {open && (
+        <div
+          role="listbox"
+          aria-label="选择会话颜色"
+          className="absolute left-0 top-5 z-20 flex items-center gap-1.5 rounded-lg border border-gray-200 bg-white p-2 shadow-md dark:border-gray-700 dark:bg-gray-800"
+          onKeyDown={event => {
+            if (event.key === 'Escape') {
+              event.stopPropagation();
+              setOpen(false);
+            }
+          }}
+        >
+          {TAB_GROUP_COLORS.map(option => (
+            <button
+              key={option}
+              type="button"
+              role="option"
+              aria-selected={option === color}
+              onClick={() => select(option)}
+              className={cn(
+                'h-4 w-4 rounded-full focus-visible:ring-2 focus-visible:ring-primary-500',
+                COLOR_CLASSES[option],
+                option === color && 'ring-2 ring-offset-1 ring-gray-700 dark:ring-gray-200'
+              )}
+              title={COLOR_LABELS[option]}
+              aria-label={COLOR_LABELS[option]}
+            />
+          ))}
+          <button
+            type="button"
+            role="option"
+            aria-selected={!color}
+            onClick={() => select(undefined)}
+            className="ml-1 text-[11px] text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            无
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionColorPicker;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import type { RetentionAction, RetentionTrigger, SessionRetention } from '@/types/tab';
+import { RETENTION_ACTION_LABELS, RETENTION_TRIGGER_LABELS } from '@/domain/tabGroup';
+
+type Mode = 'global' | SessionRetention['mode'];
+
+interface SessionRetentionEditorProps {
+  retention: SessionRetention | undefined;
+  onSave: (retention: SessionRetention | undefined) => void;
+  onCancel: () => void;
+}
+
+const SELECT_CLASS =
+  'rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm text-gray-900 focus:border-primary-500 focus:outline-none dark:border-gray-600 dark:bg-gray-900 dark:text-gray-100';
+
+/**
+ * 单个会话的保留设置：跟随全局策略 / 永久保留 / 自定义规则（代替全局策略）。
+ */
+export const SessionRetentionEditor: React.FC<SessionRetentionEditorProps> = ({ retention, onSave, onCancel }) => {
+  const custom = retention?.mode === 'custom' ? retention : undefined;
+  const [mode, setMode] = useState<Mode>(retention?.mode ?? 'global');
+  const [action, setAction] = useState<RetentionAction>(custom?.action ?? 'archive');
+  const [trigger, setTrigger] = useState<RetentionTrigger>(custom?.trigger ?? 'not-restored');
+  const [days, setDays] = useState(String(custom?.days ?? 30));
+
+  const parsedDays = Math.floor(Number(days));
+  const isValid = mode !== 'custom' || (Number.isFinite(parsedDays) && parsedDays > 0);
+
+  const handleSave = () => {
+    if (!isValid) return;
+    if (mode === 'global') onSave(undefined);
+    else if (mode === 'keep') onSave({ mode: 'keep' });
+    else onSave({ mode: 'custom', action, trigger, days: parsedDays });
+  };
+
+  return (
+    <div className="space-y-2 rounded-lg border border-gray-200 bg-gray-50 p-3 dark:border-gray-700 dark:bg-gray-800/60">
+      <label className="block text-xs font-medium text-gray-600 dark:text-gray-300" htmlFor="session-retention-mode">
+        保留设置（收藏的会话不会被清理，锁定的会话不会被删除）
+      </label>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          id="session-retention-mode"
+          value={mode}
+          onChange={event => setMode(event.target.value as Mode)}
+          className={SELECT_CLASS}
+        >
+          <option value="global">跟随全局保留策略</option>
+          <option value="keep">永久保留</option>
+          <option value="custom">自定义</option>
+        </select>
+        {mode === 'custom' && (
+          <>
+            <select
+              value={trigger}
+              onChange={event => setTrigger(event.target.value as RetentionTrigger)}
+              className={SELECT_CLASS}
+              aria-label="计时方式"
+            >
+              {(Object.keys(RETENTION_TRIGGER_LABELS) as RetentionTrigger[]).map(value => (
+                <option key={value} value={value}>{RETENTION_TRIGGER_LABELS[value]}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={1}
+              value={days}
+              onChange={event => setDays(event.target.value)}
+              className={`${SELECT_CLASS} w-20`}
+              aria-label="天数"
+              aria-invalid={!isValid}
+            />
+            <span className="text-sm text-gray-600 dark:text-gray-300">天后</span>
+            <select
+              value={action}
+              onChange={event => setAction(event.target.value as RetentionAction)}
+              className={SELECT_CLASS}
+              aria-label="处理方式"
+            >
+              {(Object.keys(RETENTION_ACTION_LABELS) as RetentionAction[]).map(value => (
+                <option key={value} value={value}>{RETENTION_ACTION_LABELS[value]}</option>
+              ))}
+            </select>
+          </>
+        )}
+      </div>
+      <div className="flex items-center justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-600 transition-colors hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+        >
+          取消
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!isValid}
+          className="rounded-lg bg-primary-600 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-primary-700 disabled:opacity-50"
+        >
+          保存
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SessionRetentionEditor;
@@ -1,15 +1,47 @@
 import React, { useEffect, useState, useCallback, useRef } from 'react';
-import { useAppDispatch } from '@/store/hooks';
-import { updateGroupNameAndSync, toggleGroupLockAndSync, deleteGroup, updateGroup } from '@/store/slices/tabSlice';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import {
+  updateGroupNameAndSync,
+  toggleGroupLockAndSync,
+  deleteGroup,
+  trashGroup,
+  trashTabs,
+  recordTabRestores,
+  removeEmptiedGroup,
+  updateGroup,
+} from '@/store/slices/tabSlice';
 import { DraggableTab } from '@/components/dnd/DraggableTab';
 import { TabPreview } from '@/components/tabs/TabPreview';
-import { TabGroup as TabGroupType, Tab } from '@/types/tab';
+import { SessionColorPicker } from '@/components/tabs/SessionColorPicker';
+import { WorkspaceLaunchDialog } from '@/components/tabs/WorkspaceLaunchDialog';
+import { TabGroup as TabGroupType, Tab, TabGroupColor, RestoreTarget, SessionRetention } from '@/types/tab';
 import { shouldAutoDeleteAfterTabRemoval } from '@/utils/tabGroupUtils';
 import { useToast } from '@/contexts/ToastContext';
 import { useEnhancedToast } from '@/utils/toastHelper';
 import { useDeferredDelete } from '@/hooks/useDeferredDelete';
+import { useWorkspaceLaunch } from '@/hooks/useWorkspaceLaunch';
+import {
+  describeRetentionRule,
+  formatTagInput,
+  formatTemplateUrlList,
+  isConsumedOnRestore,
+  parseTagInput,
+  parseTemplateUrlList,
+  setGroupArchived,
+  setGroupTags,
+  setTabTags,
+} from '@/domain/tabGroup';
+import { TagChips } from '@/components/tabs/TagChips';
+import { SessionRetentionEditor } from '@/components/tabs/SessionRetentionEditor';
 import { trackProductEvent } from '@/utils/productEvents';
 import { buildSessionRestoreMessage } from '@/utils/sessionPresentation';
+import {
+  buildOpenSessionMessage,
+  resolveLazyRestore,
+  resolveRestoreTarget,
+  RESTORE_MODIFIER_HINT,
+  RESTORE_TARGET_ACTIONS,
+} from '@/utils/sessionRestore';
 
 // S3 §1：hover-to-preview 延迟 250ms（防误触）
 const PREVIEW_HOVER_DELAY_MS = 250;
@@ -21,6 +53,14 @@ interface TabGroupProps {
   group: TabGroupType;
 }
 
+/** 恢复参数在点击时确定；模板需要先填写变量时原样带到启动时 */
+interface RestoreContext {
+  target: RestoreTarget;
+  lazy: boolean;
+  /** 只打开这一个标签页（会话视图中只含该标签页） */
+  singleTab?: boolean;
+}
+
 // 图标组件
 const EditIcon = () => (
   <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
@@ -56,6 +96,31 @@ const FavoriteIcon = ({ filled }: { filled: boolean }) => (
   </svg>
 );
 
+const TemplateIcon = ({ active }: { active: boolean }) => (
+  <svg className="w-4 h-4" fill={active ? 'currentColor' : 'none'} viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M3.75 6A2.25 2.25 0 016 3.75h2.25A2.25 2.25 0 0110.5 6v2.25a2.25 2.25 0 01-2.25 2.25H6a2.25 2.25 0 01-2.25-2.25V6zM3.75 15.75A2.25 2.25 0 016 13.5h2.25a2.25 2.25 0 012.25 2.25V18a2.25 2.25 0 01-2.25 2.25H6A2.25 2.25 0 013.75 18v-2.25zM13.5 6a2.25 2.25 0 012.25-2.25H18A2.25 2.25 0 0120.25 6v2.25A2.25 2.25 0 0118 10.5h-2.25a2.25 2.25 0 01-2.25-2.25V6zM13.5 15.75a2.25 2.25 0 012.25-2.25H18a2.25 2.25 0 012.25 2.25V18A2.25 2.25 0 0118 20.25h-2.25A2.25 2.25 0 0113.5 18v-2.25z" />
+  </svg>
+);
+
+const TagIcon = () => (
+  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M9.568 3H5.25A2.25 2.25 0 003 5.25v4.318c0 .597.237 1.17.659 1.591l9.581 9.581c.699.699 1.78.872 2.607.33a18.095 18.095 0 005.223-5.223c.542-.827.369-1.908-.33-2.607L11.16 3.66A2.25 2.25 0 009.568 3z" />
+    <path strokeLinecap="round" strokeLinejoin="round" d="M6 6h.008v.008H6V6z" />
+  </svg>
+);
+
+const ArchiveIcon = () => (
+  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M20.25 7.5l-.625 10.632a2.25 2.25 0 01-2.247 2.118H6.622a2.25 2.25 0 01-2.247-2.118L3.75 7.5M10 11.25h4M3.375 7.5h17.25c.621 0 1.125-.504 1.125-1.125v-1.5c0-.621-.504-1.125-1.125-1.125H3.375c-.621 0-1.125.504-1.125 1.125v1.5c0 .621.504 1.125 1.125 1.125z" />
+  </svg>
+);
+
+const RetentionIcon = () => (
+  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z" />
+  </svg>
+);
+
 const NotesIcon = () => (
   <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
     <path strokeLinecap="round" strokeLinejoin="round" d="M16.862 3.487a2.625 2.625 0 113.712 3.712L7.5 20.273 3 21l.727-4.5L16.862 3.487z" />
@@ -64,6 +129,8 @@ const NotesIcon = () => (
 
 export const TabGroup: React.FC<TabGroupProps> = React.memo(({ group }) => {
   const dispatch = useAppDispatch();
+  const lazyRestore = useAppSelector(state => state.settings.lazyRestore);
+  const restoreTarget = useAppSelector(state => state.settings.restoreTarget);
   const { showToast } = useToast();
   const { showDeleteSuccess, showDeleteError, showRestoreSuccess, showRestoreError } = useEnhancedToast();
 
@@ -72,7 +139,13 @@ export const TabGroup: React.FC<TabGroupProps> = React.memo(({ group }) => {
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [isEditingNotes, setIsEditingNotes] = useState(false);
   const [notesDraft, setNotesDraft] = useState(group.notes || '');
+  const [isEditingTags, setIsEditingTags] = useState(false);
+  const [tagsDraft, setTagsDraft] = useState('');
+  const [isEditingRetention, setIsEditingRetention] = useState(false);
   const [favoriteAnimating, setFavoriteAnimating] = useState(false);
+  const [isEditingTemplate, setIsEditingTemplate] = useState(false);
+  const [templateDraft, setTemplateDraft] = useState('');
+  const [templateErrors, setTemplateErrors] = useState<string[]>([]);
 
   // S3 §1：hover-to-preview 状态 + 250ms 延迟定时器 ref
   const [previewOpen, setPreviewOpen] = useState(false);
@@ -132,27 +205,28 @@ export const TabGroup: React.FC<TabGroupProps> = React.memo(({ group }) => {
   // S3 §4: 软删 + 10s 撤销 toast —— 取代旧 confirm modal 流程。
   // Hook 必须在组件顶层调用（rules-of-hooks），不能放在 useCallback 内部。
   // 用 ref 锁住 onCommit 让最新的 dispatch/toast 闭包参与。
-  const deferredDeleteArgsRef = useRef<{ id: string; name: string; tabCount: number }>({
-    id: group.id,
+  const deferredDeleteArgsRef = useRef<{ group: TabGroupType; name: string; tabCount: number }>({
+    group,
     name: group.name,
     tabCount: group.tabs.length,
   });
   useEffect(() => {
     deferredDeleteArgsRef.current = {
-      id: group.id,
+      group,
       name: group.name,
       tabCount: group.tabs.length,
     };
-  }, [group.id, group.name, group.tabs.length]);
+  }, [group]);
 
   const deferredDelete = useDeferredDelete({
     delayMs: DELETE_DEFER_MS,
     onCommit: () => {
-      const { id, name, tabCount } = deferredDeleteArgsRef.current;
-      dispatch(deleteGroup(id))
+      const { group: deleted, name, tabCount } = deferredDeleteArgsRef.current;
+      // 用户删除的会话进入回收站，30 天内可在设置「回收站」中恢复
+      dispatch(trashGroup(deleted))
         .unwrap()
         .then(() => {
-          showDeleteSuccess(`已删除会话 "${name}" (${tabCount} 个标签页)`);
+          showDeleteSuccess(`已删除会话 "${name}" (${tabCount} 个标签页)，可在回收站中恢复`);
         })
         .catch(error => {
           showDeleteError(`删除会话失败: ${error.message || '未知错误'}`);
@@ -163,7 +237,7 @@ export const TabGroup: React.FC<TabGroupProps> = React.memo(({ group }) => {
   const handleDelete = useCallback(() => {
     // - 删除按钮点击后立即显示 toast "已删除 + 撤销" 按钮；
     // - 10s 内点撤销 → cancel() 取消未触发的 commit；
-    // - 10s 后自动 dispatch(deleteGroup) → 真正删除；
+    // - 10s 后自动 dispatch(trashGroup) → 放进回收站并软删除；
     // - 锁定组的删除按钮仍然不显示（UI 守护），保留 confirmBeforeDelete 仅
     //   影响单标签页删除（参见 handleDeleteTab）。
     showToast({
@@ -193,6 +267,42 @@ export const TabGroup: React.FC<TabGroupProps> = React.memo(({ group }) => {
     });
   }, [dispatch, group]);
 
+  const handleToggleTemplate = useCallback(() => {
+    dispatch(updateGroup({
+      ...group,
+      isTemplate: !group.isTemplate,
+      updatedAt: new Date().toISOString(),
+    }));
+    if (group.isTemplate) {
+      setIsEditingTemplate(false);
+    }
+  }, [dispatch, group]);
+
+  const handleEditTemplate = useCallback(() => {
+    setTemplateDraft(formatTemplateUrlList(group.tabs));
+    setTemplateErrors([]);
+    setIsEditingTemplate(current => !current);
+  }, [group.tabs]);
+
+  const handleSaveTemplate = useCallback(() => {
+    const now = new Date().toISOString();
+    const { tabs, errors } = parseTemplateUrlList(templateDraft, group.tabs, now);
+    if (errors.length > 0 || tabs.length === 0) {
+      setTemplateErrors(errors.length > 0 ? errors : ['模板至少需要一个链接']);
+      return;
+    }
+    dispatch(updateGroup({ ...group, tabs, updatedAt: now }));
+    setIsEditingTemplate(false);
+  }, [dispatch, group, templateDraft]);
+
+  const handleColorChange = useCallback((color: TabGroupColor | undefined) => {
+    dispatch(updateGroup({
+      ...group,
+      color,
+      updatedAt: new Date().toISOString(),
+    }));
+  }, [dispatch, group]);
+
   const handleSaveNotes = useCallback(() => {
     dispatch(updateGroup({
       ...group,
@@ -208,11 +318,77 @@ export const TabGroup: React.FC<TabGroupProps> = React.memo(({ group }) => {
     });
   }, [dispatch, group, notesDraft]);
 
-  const handleOpenAllTabs = useCallback(() => {
-    const tabsPayload = group.tabs.map(tab => ({
-      url: tab.url,
-      pinned: !!tab.pinned,
+  const handleSaveTags = useCallback(() => {
+    dispatch(updateGroup({
+      ...setGroupTags(group, parseTagInput(tagsDraft)),
+      updatedAt: new Date().toISOString(),
     }));
+    setIsEditingTags(false);
+  }, [dispatch, group, tagsDraft]);
+
+  const handleSaveRetention = useCallback((retention: SessionRetention | undefined) => {
+    dispatch(updateGroup({
+      ...group,
+      retention,
+      updatedAt: new Date().toISOString(),
+    }));
+    setIsEditingRetention(false);
+  }, [dispatch, group]);
+
+  const handleToggleArchived = useCallback(() => {
+    const now = new Date().toISOString();
+    dispatch(updateGroup({ ...setGroupArchived(group, !group.isArchived, now), updatedAt: now }));
+    showToast(group.isArchived ? `已取消归档 "${group.name}"` : `已归档 "${group.name}"，可在列表底部的「已归档」中找回`, 'success');
+  }, [dispatch, group, showToast]);
+
+  const handleUpdateTabTags = useCallback((tab: Tab, tags: string[]) => {
+    dispatch(updateGroup({
+      ...group,
+      tabs: group.tabs.map(t => (t.id === tab.id ? setTabTags(t, tags) : t)),
+      updatedAt: new Date().toISOString(),
+    }));
+  }, [dispatch, group]);
+
+  // 工作区模板：恢复时不消耗，直接打开代入变量后的副本
+  const handleLaunchTemplate = useCallback((launched: TabGroupType, context: RestoreContext) => {
+    if (context.singleTab) {
+      const [tab] = launched.tabs;
+      dispatch(recordTabRestores({ groupId: launched.id, tabIds: [tab.id] }));
+      showRestoreSuccess(1);
+      setTimeout(() => {
+        chrome.runtime.sendMessage({
+          type: 'OPEN_TAB',
+          data: { url: tab.url, pinned: !!tab.pinned, pageState: tab.pageState }
+        });
+      }, 50);
+      return;
+    }
+
+    void trackProductEvent('session_restored', {
+      sessionId: launched.id,
+      sessionName: launched.name,
+      source: 'workspace_template',
+      tabCount: launched.tabs.length,
+    });
+    dispatch(recordTabRestores({ groupId: launched.id }));
+    showToast(buildSessionRestoreMessage(launched, context.target), 'success', 4500);
+
+    setTimeout(() => {
+      chrome.runtime.sendMessage(buildOpenSessionMessage(launched, context));
+    }, 50);
+  }, [dispatch, showRestoreSuccess, showToast]);
+
+  const { launch: launchTemplate, dialogProps: launchDialogProps } = useWorkspaceLaunch(handleLaunchTemplate);
+
+  const handleOpenAllTabs = useCallback((event?: React.MouseEvent) => {
+    const target = resolveRestoreTarget(event, restoreTarget);
+    const lazy = resolveLazyRestore(event, lazyRestore);
+    if (group.isTemplate) {
+      launchTemplate(group, { target, lazy });
+      return;
+    }
+
+    const openMessage = buildOpenSessionMessage(group, { lazy, target });
 
     void trackProductEvent('session_restored', {
       sessionId: group.id,
@@ -221,37 +397,40 @@ export const TabGroup: React.FC<TabGroupProps> = React.memo(({ group }) => {
       tabCount: group.tabs.length,
     });
 
-    if (!group.isLocked) {
+    if (isConsumedOnRestore(group)) {
       dispatch({ type: 'tabs/deleteGroup/fulfilled', payload: group.id });
       dispatch(deleteGroup(group.id))
         .unwrap()
         .then(() => {
-          showToast(buildSessionRestoreMessage(group), 'success', 4500);
+          showToast(buildSessionRestoreMessage(group, target), 'success', 4500);
         })
         .catch(error => {
           console.error('恢复会话后删除原会话失败:', error);
           showDeleteError(`恢复会话后清理原会话失败: ${error.message || '未知错误'}`);
         });
     } else {
-      showToast(buildSessionRestoreMessage(group), 'success', 4500);
+      dispatch(recordTabRestores({ groupId: group.id }));
+      showToast(buildSessionRestoreMessage(group, target), 'success', 4500);
     }
 
     setTimeout(() => {
-      chrome.runtime.sendMessage({
-        type: 'OPEN_TABS',
-        data: { tabs: tabsPayload }
-      });
+      chrome.runtime.sendMessage(openMessage);
     }, 50);
-  }, [dispatch, group, showDeleteError, showToast]);
+  }, [dispatch, group, launchTemplate, lazyRestore, restoreTarget, showDeleteError, showToast]);
 
   const handleOpenTab = useCallback((tab: Tab) => {
+    if (group.isTemplate) {
+      launchTemplate({ ...group, tabs: [tab] }, { target: 'current-window', lazy: false, singleTab: true });
+      return;
+    }
+
     if (!group.isLocked) {
       if (shouldAutoDeleteAfterTabRemoval(group, tab.id)) {
         dispatch({ type: 'tabs/deleteGroup/fulfilled', payload: group.id });
-        dispatch(deleteGroup(group.id))
+        dispatch(removeEmptiedGroup(group.id))
           .unwrap()
-          .then(() => {
-            showDeleteSuccess(`已恢复标签页并自动删除空会话 "${group.name}"`);
+          .then(({ archived }) => {
+            showDeleteSuccess(`已恢复标签页并自动${archived ? '归档' : '删除'}空会话 "${group.name}"`);
           })
           .catch(error => {
             console.error('删除会话失败:', error);
@@ -276,23 +455,25 @@ export const TabGroup: React.FC<TabGroupProps> = React.memo(({ group }) => {
           });
       }
     } else {
+      dispatch(recordTabRestores({ groupId: group.id, tabIds: [tab.id] }));
       showRestoreSuccess(1);
     }
 
     setTimeout(() => {
       chrome.runtime.sendMessage({
         type: 'OPEN_TAB',
-        data: { url: tab.url, pinned: !!tab.pinned }
+        data: { url: tab.url, pinned: !!tab.pinned, pageState: tab.pageState }
       });
     }, 50);
-  }, [dispatch, group, showDeleteSuccess, showDeleteError, showRestoreSuccess, showRestoreError]);
+  }, [dispatch, group, launchTemplate, showDeleteSuccess, showDeleteError, showRestoreSuccess, showRestoreError]);
 
   const handleDeleteTab = useCallback((tabId: string) => {
+    dispatch(trashTabs({ group, tabIds: [tabId] }));
     if (shouldAutoDeleteAfterTabRemoval(group, tabId)) {
-      dispatch(deleteGroup(group.id))
+      dispatch(removeEmptiedGroup(group.id))
         .unwrap()
-        .then(() => {
-          showDeleteSuccess(`已删除会话 "${group.name}"（最后一个标签页已删除）`);
+        .then(({ archived }) => {
+          showDeleteSuccess(`已${archived ? '归档' : '删除'}会话 "${group.name}"（最后一个标签页已删除）`);
         })
         .catch(error => {
           showDeleteError(`删除会话失败: ${error.message || '未知错误'}`);
@@ -371,6 +552,12 @@ export const TabGroup: React.FC<TabGroupProps> = React.memo(({ group }) => {
             </svg>
           </button>
 
+          <SessionColorPicker
+            color={group.color}
+            disabled={group.isLocked}
+            onChange={handleColorChange}
+          />
+
           {/* 标题 */}
           {isEditing ? (
             <input
@@ -408,6 +595,31 @@ export const TabGroup: React.FC<TabGroupProps> = React.memo(({ group }) => {
                   已收藏
                 </span>
               )}
+              {group.isTemplate && (
+                <span
+                  className="rounded-full bg-primary-100 px-2 py-0.5 text-[11px] font-medium text-primary-700 dark:bg-primary-900/40 dark:text-primary-300"
+                  title="工作区模板：恢复时不会从列表移除"
+                >
+                  模板
+                </span>
+              )}
+              {group.isArchived && (
+                <button
+                  onClick={handleToggleArchived}
+                  className="rounded-full bg-gray-100 px-2 py-0.5 text-[11px] font-medium text-gray-600 hover:bg-gray-200 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700"
+                  title="已归档，点击取消归档"
+                >
+                  已归档
+                </button>
+              )}
+              {group.retention && (
+                <span
+                  className="rounded-full bg-gray-100 px-2 py-0.5 text-[11px] font-medium text-gray-600 dark:bg-gray-800 dark:text-gray-300"
+                  title="此会话的保留设置（优先于全局保留策略）"
+                >
+                  {group.retention.mode === 'keep' ? '永久保留' : describeRetentionRule(group.retention)}
+                </span>
+              )}
             </div>
           )}
 
@@ -442,7 +654,7 @@ export const TabGroup: React.FC<TabGroupProps> = React.memo(({ group }) => {
           <button
             onClick={handleOpenAllTabs}
             className="btn-icon p-1.5 tab-group-action-accent  focus-visible:ring-2 focus-visible:ring-primary-500 focus-visible:ring-offset-2"
-            title="恢复整个会话"
+            title={`${RESTORE_TARGET_ACTIONS[restoreTarget]}整个会话${lazyRestore ? '（延迟加载）' : ''}\n${RESTORE_MODIFIER_HINT} · Alt：${lazyRestore ? '全部加载' : '延迟加载'}`}
             aria-label={`恢复整个会话，共 ${group.tabs.length} 个标签页`}
           >
             <OpenAllIcon />
@@ -469,6 +681,41 @@ export const TabGroup: React.FC<TabGroupProps> = React.memo(({ group }) => {
             <FavoriteIcon filled={!!group.isFavorite} />
           </button>
 
+          <button
+            onClick={handleToggleTemplate}
+            className={`btn-icon p-1.5  focus-visible:ring-2 focus-visible:ring-primary-500 focus-visible:ring-offset-2 ${group.isTemplate ? 'text-primary-600' : ''}`}
+            title={group.isTemplate ? '取消工作区模板' : '设为工作区模板（恢复时保留，链接可含 {变量}）'}
+            aria-label={group.isTemplate ? '取消工作区模板' : '设为工作区模板'}
+            aria-pressed={!!group.isTemplate}
+          >
+            <TemplateIcon active={!!group.isTemplate} />
+          </button>
+
+          {group.isTemplate && !group.isLocked && (
+            <button
+              onClick={handleEditTemplate}
+              className="btn-icon p-1.5  focus-visible:ring-2 focus-visible:ring-primary-500 focus-visible:ring-offset-2"
+              title="编辑模板链接"
+              aria-label="编辑模板链接"
+            >
+              <EditIcon />
+            </button>
+          )}
+
+          {!group.isLocked && (
+            <button
+              onClick={() => {
+                setTagsDraft(formatTagInput(group.tags));
+                setIsEditingTags(current => !current);
+              }}
+              className="btn-icon p-1.5  focus-visible:ring-2 focus-visible:ring-primary-500 focus-visible:ring-offset-2"
+              title={group.tags?.length ? '编辑会话标签' : '添加会话标签'}
+              aria-label={group.tags?.length ? '编辑会话标签' : '添加会话标签'}
+            >
+              <TagIcon />
+            </button>
+          )}
+
           {!group.isLocked && (
             <button
               onClick={() => setIsEditingNotes(current => !current)}
@@ -480,6 +727,24 @@ export const TabGroup: React.FC<TabGroupProps> = React.memo(({ group }) => {
             </button>
           )}
 
+          <button
+            onClick={handleToggleArchived}
+            className="btn-icon p-1.5  focus-visible:ring-2 focus-visible:ring-primary-500 focus-visible:ring-offset-2"
+            title={group.isArchived ? '取消归档' : '归档会话（从列表中隐藏，可随时找回）'}
+            aria-label={group.isArchived ? '取消归档' : '归档会话'}
+          >
+            <ArchiveIcon />
+          </button>
+
+          <button
+            onClick={() => setIsEditingRetention(current => !current)}
+            className="btn-icon p-1.5  focus-visible:ring-2 focus-visible:ring-primary-500 focus-visible:ring-offset-2"
+            title="保留设置"
+            aria-label="保留设置"
+          >
+            <RetentionIcon />
+          </button>
+
           {/* 锁定/解锁 */}
           <button
             onClick={() => {
@@ -511,6 +776,92 @@ export const TabGroup: React.FC<TabGroupProps> = React.memo(({ group }) => {
         </div>
       </div>
 
+      {isEditingTemplate && (
+        <div className="px-4 pb-3">
+          <div className="space-y-2 rounded-lg border border-gray-200 bg-gray-50 p-3 dark:border-gray-700 dark:bg-gray-800/60">
+            <label className="block text-xs font-medium text-gray-600 dark:text-gray-300">
+              模板链接（每行一个，可用 {'{ticket}'} 这样的变量，启动时填写）
+            </label>
+            <textarea
+              value={templateDraft}
+              onChange={event => {
+                setTemplateDraft(event.target.value);
+                setTemplateErrors([]);
+              }}
+              placeholder={'https://jira.example.com/browse/{ticket}\nhttps://grafana.example.com/d/{dashboard}'}
+              className="w-full rounded-lg border border-gray-300 bg-white px-3 py-2 font-mono text-xs text-gray-900 focus:border-primary-500 focus:outline-none dark:border-gray-600 dark:bg-gray-900 dark:text-gray-100"
+              rows={Math.min(Math.max(group.tabs.length + 1, 3), 10)}
+              aria-invalid={templateErrors.length > 0}
+            />
+            {templateErrors.map(error => (
+              <p key={error} className="text-xs text-red-600 dark:text-red-400">{error}</p>
+            ))}
+            <div className="flex items-center justify-end gap-2">
+              <button
+                onClick={() => setIsEditingTemplate(false)}
+                className="rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-600 transition-colors hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+              >
+                取消
+              </button>
+              <button
+                onClick={handleSaveTemplate}
+                className="rounded-lg bg-primary-600 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-primary-700"
+              >
+                保存链接
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isEditingRetention && (
+        <div className="px-4 pb-3">
+          <SessionRetentionEditor
+            retention={group.retention}
+            onSave={handleSaveRetention}
+            onCancel={() => setIsEditingRetention(false)}
+          />
+        </div>
+      )}
+
+      {(group.tags?.length || isEditingTags) && (
+        <div className="px-4 pb-3">
+          {isEditingTags ? (
+            <div className="space-y-2 rounded-lg border border-gray-200 bg-gray-50 p-3 dark:border-gray-700 dark:bg-gray-800/60">
+              <label className="block text-xs font-medium text-gray-600 dark:text-gray-300">
+                会话标签（用逗号或空格分隔，会话中的标签页同时带有这些标签）
+              </label>
+              <input
+                value={tagsDraft}
+                onChange={event => setTagsDraft(event.target.value)}
+                onKeyDown={event => {
+                  if (event.key === 'Enter') handleSaveTags();
+                }}
+                placeholder="例如：工作, 调研, 待读"
+                className="w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:border-primary-500 focus:outline-none dark:border-gray-600 dark:bg-gray-900 dark:text-gray-100"
+                autoFocus
+              />
+              <div className="flex items-center justify-end gap-2">
+                <button
+                  onClick={() => setIsEditingTags(false)}
+                  className="rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-600 transition-colors hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+                >
+                  取消
+                </button>
+                <button
+                  onClick={handleSaveTags}
+                  className="rounded-lg bg-primary-600 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-primary-700"
+                >
+                  保存标签
+                </button>
+              </div>
+            </div>
+          ) : (
+            <TagChips tags={group.tags} />
+          )}
+        </div>
+      )}
+
       {(group.notes || isEditingNotes) && (
         <div className="px-4 pb-3">
           {isEditingNotes ? (
@@ -567,6 +918,7 @@ export const TabGroup: React.FC<TabGroupProps> = React.memo(({ group }) => {
               index={index}
               handleOpenTab={handleOpenTab}
               handleDeleteTab={handleDeleteTab}
+              handleUpdateTabTags={handleUpdateTabTags}
               isCollapsed={isCollapsed}
               isLocked={group.isLocked}
             />
@@ -576,6 +928,8 @@ export const TabGroup: React.FC<TabGroupProps> = React.memo(({ group }) => {
 
       {/* S3 §1：hover/focus 触发的会话预览浮层（absolute 定位在卡片内） */}
       {previewOpen && <TabPreview group={group} />}
+
+      <WorkspaceLaunchDialog {...launchDialogProps} />
     </div>
   );
 }, (prevProps, nextProps) => {
@@ -583,7 +937,12 @@ export const TabGroup: React.FC<TabGroupProps> = React.memo(({ group }) => {
     prevProps.group.id === nextProps.group.id &&
     prevProps.group.name === nextProps.group.name &&
     prevProps.group.notes === nextProps.group.notes &&
+    prevProps.group.tags === nextProps.group.tags &&
     prevProps.group.isFavorite === nextProps.group.isFavorite &&
+    prevProps.group.isTemplate === nextProps.group.isTemplate &&
+    prevProps.group.isArchived === nextProps.group.isArchived &&
+    prevProps.group.retention === nextProps.group.retention &&
+    prevProps.group.color === nextProps.group.color &&
     prevProps.group.isLocked === nextProps.group.isLocked &&
     prevProps.group.tabs.length === nextProps.group.tabs.length &&
     prevProps.group.updatedAt === nextProps.group.updatedAt &&
@@ -600,7 +959,8 @@ export const TabGroup: React.FC<TabGroupProps> = React.memo(({ group }) => {
         prevTab.id !== nextTab.id ||
         prevTab.title !== nextTab.title ||
         prevTab.url !== nextTab.url ||
-        prevTab.favicon !== nextTab.favicon
+        prevTab.favicon !== nextTab.favicon ||
+        prevTab.tags !== nextTab.tags
       ) {
         return false;
       }
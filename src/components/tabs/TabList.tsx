@@ -1,17 +1,23 @@
-import React, { useEffect, lazy } from 'react';
+import React, { useEffect, useMemo, lazy } from 'react';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
-import { loadGroups, moveGroupAndSync, setSearchQuery } from '@/store/slices/tabSlice';
+import { loadGroups, moveGroupAndSync, setActiveTag, setSearchQuery } from '@/store/slices/tabSlice';
 import {
-  selectSortedGroups,
+  selectTagFilteredGroups,
   selectIsLoading,
   selectLastLoadedAt,
   selectError,
   selectLayoutMode,
   selectReorderMode,
   selectFavoriteGroups,
+  selectTemplateGroups,
   selectSearchQuery,
+  selectGroupRestoreFilter,
+  selectActiveTag,
+  selectSessionFolders,
+  selectArchivedGroups,
 } from '@/store/selectors/tabSelectors';
-import { invalidateGroupsCache } from '@/utils/storage';
+import { saveSettings, updateSettings } from '@/store/slices/settingsSlice';
+import { invalidateGroupsCache, storage } from '@/utils/storage';
 import { runMigrations } from '@/utils/migrationUtils';
 import { DraggableTabGroup } from '@/components/dnd/DraggableTabGroup';
 import { SearchResultList } from '@/components/search/SearchResultList';
@@ -19,7 +25,13 @@ import { EmptyState } from '@/components/common/EmptyState';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import { PersonalizedWelcome, QuickActionTips } from '@/components/common/PersonalizedWelcome';
 import { FavoriteStrip } from '@/components/tabs/FavoriteStrip';
+import { GroupSortBar } from '@/components/tabs/GroupSortBar';
+import { TagBrowser } from '@/components/tabs/TagBrowser';
+import { FolderTree } from '@/components/tabs/FolderTree';
+import { ArchivedSection } from '@/components/tabs/ArchivedSection';
+import { buildFolderTree } from '@/domain/tabGroup';
 import { useListVirtualizer } from '@/hooks/useVirtualizer';
+import { useSmartSessions } from '@/hooks/useSavedSearches';
 import type { TabGroup } from '@/types/tab';
 
 interface TabListProps {
@@ -38,10 +50,24 @@ export const TabList: React.FC<TabListProps> = ({ searchQuery }) => {
   const error = useAppSelector(selectError);
   const layoutMode = useAppSelector(selectLayoutMode);
   const reorderMode = useAppSelector(selectReorderMode);
-  const sortedGroups = useAppSelector(selectSortedGroups);
+  const sortedGroups = useAppSelector(selectTagFilteredGroups);
   // S3 §3: 收藏会话独立区（仅在非搜索模式 + 有收藏时显示）
   const selectStoredSearchQuery = useAppSelector(selectSearchQuery);
   const favoriteGroups = useAppSelector(selectFavoriteGroups);
+  const templateGroups = useAppSelector(selectTemplateGroups);
+  const { smartSessions, deleteSearch, recordSmartSessionRestore } = useSmartSessions();
+  // 打开记录 / 标签筛选后可能一个会话都不剩，此时不能显示首次使用的欢迎页
+  const restoreFilter = useAppSelector(selectGroupRestoreFilter);
+  const activeTag = useAppSelector(selectActiveTag);
+  const isFiltered = (!!restoreFilter && restoreFilter !== 'all') || !!activeTag;
+  // 文件夹中的会话在文件夹树里渲染，下方列表只放顶层会话；筛选时隐藏没有命中的文件夹
+  const sessionFolders = useAppSelector(selectSessionFolders);
+  // 归档的会话不在列表中显示，只在底部的「已归档」区
+  const archivedCount = useAppSelector(selectArchivedGroups).length;
+  const folderTree = useMemo(
+    () => buildFolderTree(sessionFolders, sortedGroups, { hideEmpty: isFiltered }),
+    [sessionFolders, sortedGroups, isFiltered]
+  );
 
   useEffect(() => {
     // popup 入口已经把 local 数据塞进 preloadedState（lastLoadedAt !== null），
@@ -66,6 +92,9 @@ export const TabList: React.FC<TabListProps> = ({ searchQuery }) => {
         invalidateGroupsCache();
         dispatch(loadGroups());
       }
+      if (message.type === 'REFRESH_PAGE_CONTENTS') {
+        void storage.loadPageContents(true);
+      }
       return true;
     };
 
@@ -79,7 +108,7 @@ export const TabList: React.FC<TabListProps> = ({ searchQuery }) => {
   // Virtualize long lists so the popup stays responsive. Reorder and search
   // paths bypass this and render via their own components. Must be called
   // unconditionally — never after an early `return`.
-  const { virtualizer, parentRef, enabled } = useListVirtualizer(sortedGroups, {
+  const { virtualizer, parentRef, enabled } = useListVirtualizer(folderTree.rootGroups, {
     itemHeight: 220,
     overscan: 3,
     threshold: 30,
@@ -115,10 +144,16 @@ export const TabList: React.FC<TabListProps> = ({ searchQuery }) => {
     );
   }
 
-  const filteredGroups = sortedGroups;
-  const totalTabCount = filteredGroups.reduce((count, group) => count + group.tabs.length, 0);
+  const filteredGroups = folderTree.rootGroups;
+  const totalTabCount = sortedGroups.reduce((count, group) => count + group.tabs.length, 0);
 
-  if (filteredGroups.length === 0 && !searchQuery) {
+  if (
+    sortedGroups.length === 0 &&
+    !searchQuery &&
+    !isFiltered &&
+    folderTree.folders.length === 0 &&
+    archivedCount === 0
+  ) {
     return (
       <div className="space-y-4">
         <PersonalizedWelcome tabCount={totalTabCount} className="flat-card p-6" />
@@ -159,12 +194,41 @@ export const TabList: React.FC<TabListProps> = ({ searchQuery }) => {
 
   return (
     <div className="space-y-3 micro-interaction-container">
-      {/* S3 §3: 收藏会话独立区 — 必须在虚拟化列表之外，且仅在非搜索模式显示 */}
-      {!searchQuery && !selectStoredSearchQuery && favoriteGroups.length > 0 && (
-        <FavoriteStrip groups={favoriteGroups} />
+      {/* S3 §3: 收藏会话 / 工作区模板 / 智能会话独立区 — 必须在虚拟化列表之外，且仅在非搜索模式显示 */}
+      {!searchQuery && !selectStoredSearchQuery && (favoriteGroups.length > 0 || templateGroups.length > 0 || smartSessions.length > 0) && (
+        <FavoriteStrip
+          groups={favoriteGroups}
+          templates={templateGroups}
+          smartSessions={smartSessions}
+          onSmartSessionRestored={recordSmartSessionRestore}
+          onDeleteSmartSession={deleteSearch}
+        />
       )}
+      {!searchQuery && <TagBrowser />}
+      {!searchQuery && <GroupSortBar />}
+      {!searchQuery && <FolderTree nodes={folderTree.folders} />}
       {searchQuery ? (
         <SearchResultList searchQuery={searchQuery} onClearSearch={() => dispatch(setSearchQuery(''))} />
+      ) : sortedGroups.length === 0 && isFiltered ? (
+        <EmptyState
+          tone="search"
+          title="没有符合筛选的会话"
+          description={activeTag ? `没有同时带 #${activeTag} 且符合打开记录筛选的会话。` : '当前的打开记录筛选下没有会话。'}
+          action={
+            <button
+              type="button"
+              onClick={() => {
+                dispatch(setActiveTag(null));
+                dispatch(updateSettings({ groupRestoreFilter: 'all' }));
+                void dispatch(saveSettings() as any);
+              }}
+              className="rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-600 transition-colors hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-800"
+            >
+              显示全部会话
+            </button>
+          }
+          className="h-40"
+        />
       ) : layoutMode === 'double' ? (
         (() => {
           // Single-pass split: each column gets a (group, index) pair so we can
@@ -258,6 +322,7 @@ export const TabList: React.FC<TabListProps> = ({ searchQuery }) => {
           ))}
         </div>
       )}
+      {!searchQuery && <ArchivedSection />}
     </div>
   );
 };
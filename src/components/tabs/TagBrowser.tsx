@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { applyTagEditAndSync, setActiveTag } from '@/store/slices/tabSlice';
+import { selectActiveTag, selectTagCounts } from '@/store/selectors/tabSelectors';
+import { isSameTag, normalizeTag } from '@/domain/tabGroup';
+import { ConfirmDialog } from '@/components/common/ConfirmDialog';
+import { useToast } from '@/contexts/ToastContext';
+
+const CHIP_CLASS = 'rounded-full border px-2 py-0.5 text-xs transition-colors';
+const CHIP_IDLE_CLASS =
+  'border-gray-200 bg-white text-gray-600 hover:bg-gray-100 dark:border-gray-700 dark:bg-gray-900 dark:text-gray-300 dark:hover:bg-gray-800';
+const CHIP_ACTIVE_CLASS =
+  'border-primary-500 bg-primary-50 text-primary-700 dark:border-primary-400 dark:bg-primary-900/40 dark:text-primary-200';
+
+/**
+ * 会话列表上方的标签浏览器：列出全部标签及会话数，点击按标签筛选；
+ * 管理模式下可以对所有会话批量改名 / 删除标签。
+ */
+export const TagBrowser: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const { showToast } = useToast();
+  const tagCounts = useAppSelector(selectTagCounts);
+  const activeTag = useAppSelector(selectActiveTag);
+
+  const [isManaging, setIsManaging] = useState(false);
+  const [renaming, setRenaming] = useState<{ from: string; draft: string } | null>(null);
+  const [pendingRemove, setPendingRemove] = useState<string | null>(null);
+
+  if (tagCounts.length === 0) return null;
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    const to = normalizeTag(renaming.draft);
+    setRenaming(null);
+    if (!to || to === renaming.from) return;
+
+    const changed = await dispatch(applyTagEditAndSync({ type: 'rename', from: renaming.from, to })).unwrap();
+    if (activeTag && isSameTag(activeTag, renaming.from)) {
+      dispatch(setActiveTag(to));
+    }
+    showToast(`已将 #${renaming.from} 改名为 #${to}（${changed.length} 个会话）`, 'success');
+  };
+
+  const handleRemove = async (tag: string) => {
+    setPendingRemove(null);
+    const changed = await dispatch(applyTagEditAndSync({ type: 'remove', tag })).unwrap();
+    if (activeTag && isSameTag(activeTag, tag)) {
+      dispatch(setActiveTag(null));
+    }
+    showToast(`已从 ${changed.length} 个会话中移除 #${tag}`, 'success');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5" aria-label="按标签筛选">
+      {tagCounts.map(({ tag, count }) => {
+        const active = !!activeTag && isSameTag(activeTag, tag);
+
+        if (renaming && isSameTag(renaming.from, tag)) {
+          return (
+            <input
+              key={tag}
+              value={renaming.draft}
+              onChange={event => setRenaming({ ...renaming, draft: event.target.value })}
+              onKeyDown={event => {
+                if (event.key === 'Enter') void handleRename();
+                if (event.key === 'Escape') setRenaming(null);
+              }}
+              className="w-28 rounded-full border border-primary-500 bg-white px-2 py-0.5 text-xs text-gray-900 focus:outline-none dark:bg-gray-900 dark:text-gray-100"
+              aria-label={`重命名标签 ${tag}`}
+              autoFocus
+            />
+          );
+        }
+
+        return (
+          <span key={tag} className="inline-flex items-center">
+            <button
+              type="button"
+              onClick={() =>
+                isManaging
+                  ? setRenaming({ from: tag, draft: tag })
+                  : dispatch(setActiveTag(active ? null : tag))
+              }
+              className={`${CHIP_CLASS} ${active ? CHIP_ACTIVE_CLASS : CHIP_IDLE_CLASS}`}
+              title={isManaging ? '点击重命名（所有会话同步修改）' : active ? '取消筛选' : `只显示带 #${tag} 的会话`}
+              aria-pressed={isManaging ? undefined : active}
+            >
+              #{tag}
+              <span className="ml-1 text-gray-400">{count}</span>
+            </button>
+            {isManaging && (
+              <button
+                type="button"
+                onClick={() => setPendingRemove(tag)}
+                className="ml-0.5 rounded-full px-1 text-xs text-gray-400 hover:text-red-600"
+                title={`从所有会话中删除 #${tag}`}
+                aria-label={`删除标签 ${tag}`}
+              >
+                ×
+              </button>
+            )}
+          </span>
+        );
+      })}
+
+      <button
+        type="button"
+        onClick={() => {
+          setIsManaging(current => !current);
+          setRenaming(null);
+        }}
+        className="ml-auto text-xs text-gray-500 hover:text-primary-600 dark:text-gray-400"
+      >
+        {isManaging ? '完成' : '管理标签'}
+      </button>
+
+      <ConfirmDialog
+        visible={pendingRemove !== null}
+        title="删除标签"
+        message={`将从所有会话和标签页中移除 #${pendingRemove ?? ''}，会话本身不会被删除。`}
+        confirmText="删除标签"
+        type="danger"
+        onConfirm={() => pendingRemove && void handleRemove(pendingRemove)}
+        onCancel={() => setPendingRemove(null)}
+      />
+    </div>
+  );
+};
+
+export default TagBrowser;
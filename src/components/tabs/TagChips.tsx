@@ -0,0 +1,50 @@
+import React from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { setActiveTag } from '@/store/slices/tabSlice';
+import { selectActiveTag } from '@/store/selectors/tabSelectors';
+import { isSameTag } from '@/domain/tabGroup';
+
+interface TagChipsProps {
+  tags: string[] | undefined;
+  size?: 'sm' | 'xs';
+  className?: string;
+}
+
+/**
+ * 会话 / 标签页上的标签，点击后在会话列表中按该标签筛选（再次点击取消）。
+ */
+export const TagChips: React.FC<TagChipsProps> = ({ tags, size = 'sm', className = '' }) => {
+  const dispatch = useAppDispatch();
+  const activeTag = useAppSelector(selectActiveTag);
+
+  if (!tags?.length) return null;
+
+  return (
+    <span className={`flex flex-wrap items-center gap-1 ${className}`}>
+      {tags.map(tag => {
+        const active = !!activeTag && isSameTag(activeTag, tag);
+        return (
+          <button
+            key={tag}
+            type="button"
+            onClick={event => {
+              event.stopPropagation();
+              dispatch(setActiveTag(active ? null : tag));
+            }}
+            className={`rounded-full border ${size === 'xs' ? 'px-1.5 text-[10px]' : 'px-2 py-0.5 text-xs'} transition-colors ${
+              active
+                ? 'border-primary-500 bg-primary-50 text-primary-700 dark:border-primary-400 dark:bg-primary-900/40 dark:text-primary-200'
+                : 'border-gray-200 bg-gray-50 text-gray-600 hover:bg-gray-100 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700'
+            }`}
+            title={active ? '取消按此标签筛选' : `只显示带 #${tag} 的会话`}
+            aria-pressed={active}
+          >
+            #{tag}
+          </button>
+        );
+      })}
+    </span>
+  );
+};
+
+export default TagChips;
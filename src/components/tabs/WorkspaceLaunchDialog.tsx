@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { ModalFrame } from '@/components/common/ModalFrame';
+import { findMissingTemplateValues } from '@/domain/tabGroup';
+import type { WorkspaceLaunchDialogProps } from '@/hooks/useWorkspaceLaunch';
+
+/**
+ * 工作区模板变量填写对话框，配合 useWorkspaceLaunch 使用。
+ * 每个 `{变量}` 一个输入框，全部填写后才能启动；回车直接启动。
+ */
+export const WorkspaceLaunchDialog: React.FC<WorkspaceLaunchDialogProps> = ({ request, onConfirm, onCancel }) => {
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setValues({});
+  }, [request]);
+
+  if (!request) {
+    return null;
+  }
+
+  const missing = findMissingTemplateValues(request.variables, values);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (missing.length > 0) return;
+    onConfirm(values);
+  };
+
+  return (
+    <ModalFrame
+      visible
+      title={`启动工作区「${request.group.name}」`}
+      description={`填写链接中的变量后打开 ${request.group.tabs.length} 个标签页。`}
+      onClose={onCancel}
+    >
+      <form onSubmit={handleSubmit} className="space-y-3">
+        {request.variables.map((name, index) => (
+          <label key={name} className="block">
+            <span className="block text-xs font-medium text-gray-600 dark:text-gray-300">{name}</span>
+            <input
+              value={values[name] ?? ''}
+              onChange={event => setValues(current => ({ ...current, [name]: event.target.value }))}
+              autoFocus={index === 0}
+              className="mt-1 w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
+            />
+          </label>
+        ))}
+        <div className="flex justify-end gap-3 pt-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-200 dark:hover:bg-gray-700 flat-interaction"
+          >
+            取消
+          </button>
+          <button
+            type="submit"
+            disabled={missing.length > 0}
+            className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:cursor-not-allowed disabled:opacity-60 flat-interaction"
+          >
+            启动
+          </button>
+        </div>
+      </form>
+    </ModalFrame>
+  );
+};
+
+export default WorkspaceLaunchDialog;
@@ -0,0 +1,108 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { recordTabRestores } from '@/store/slices/tabSlice';
+import { selectTemplateGroups } from '@/store/selectors/tabSelectors';
+import { ModalFrame } from '@/components/common/ModalFrame';
+import { WorkspaceLaunchDialog } from '@/components/tabs/WorkspaceLaunchDialog';
+import { useToast } from '@/contexts/ToastContext';
+import { useWorkspaceLaunch } from '@/hooks/useWorkspaceLaunch';
+import { trackProductEvent } from '@/utils/productEvents';
+import { buildSessionRestoreMessage } from '@/utils/sessionPresentation';
+import { buildOpenSessionMessage, WORKSPACE_LAUNCHER_QUERY } from '@/utils/sessionRestore';
+import type { TabGroup } from '@/types/tab';
+
+/**
+ * 快捷键 launch_workspace 的模板选择对话框。
+ *
+ * service worker 在标签管理器页面已打开时发送 OPEN_WORKSPACE_LAUNCHER，
+ * 否则带 `?launcher=workspace` 打开页面；两种情况都在这里弹出。
+ */
+export const WorkspaceLauncher: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const templates = useAppSelector(selectTemplateGroups);
+  const lazyRestore = useAppSelector(state => state.settings.lazyRestore);
+  const restoreTarget = useAppSelector(state => state.settings.restoreTarget);
+  const { showToast } = useToast();
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    const [param] = WORKSPACE_LAUNCHER_QUERY.split('=');
+    const params = new URLSearchParams(window.location.search);
+    if (params.has(param)) {
+      setOpen(true);
+      // 去掉参数，刷新页面时不再弹出
+      params.delete(param);
+      const search = params.toString();
+      window.history.replaceState(null, '', `${window.location.pathname}${search ? `?${search}` : ''}`);
+    }
+
+    const messageListener = (message: { type?: string }) => {
+      if (message.type === 'OPEN_WORKSPACE_LAUNCHER') {
+        setOpen(true);
+      }
+    };
+
+    chrome.runtime.onMessage.addListener(messageListener);
+    return () => {
+      chrome.runtime.onMessage.removeListener(messageListener);
+    };
+  }, []);
+
+  const handleLaunch = useCallback((group: TabGroup) => {
+    void trackProductEvent('session_restored', {
+      sessionId: group.id,
+      sessionName: group.name,
+      source: 'workspace_launcher',
+      tabCount: group.tabs.length,
+    });
+    dispatch(recordTabRestores({ groupId: group.id }));
+    showToast(buildSessionRestoreMessage(group, restoreTarget), 'success', 4500);
+
+    setTimeout(() => {
+      chrome.runtime.sendMessage(buildOpenSessionMessage(group, { lazy: lazyRestore, target: restoreTarget }));
+    }, 50);
+  }, [dispatch, lazyRestore, restoreTarget, showToast]);
+
+  const { launch, dialogProps } = useWorkspaceLaunch<void>(handleLaunch);
+  const handleClose = useCallback(() => setOpen(false), []);
+
+  return (
+    <>
+      <ModalFrame
+        visible={open}
+        title="启动工作区"
+        description={templates.length > 0
+          ? '选择一个工作区模板，模板本身会保留。'
+          : '还没有工作区模板。在会话操作中点击「设为工作区模板」后即可在这里一键启动。'}
+        onClose={handleClose}
+      >
+        {templates.length > 0 && (
+          <ul className="max-h-80 space-y-2 overflow-y-auto">
+            {templates.map((template, index) => (
+              <li key={template.id}>
+                <button
+                  type="button"
+                  autoFocus={index === 0}
+                  onClick={() => {
+                    setOpen(false);
+                    launch(template);
+                  }}
+                  className="flex w-full items-center gap-2 rounded-lg border border-gray-200 bg-white px-3 py-2 text-left text-sm font-medium text-gray-800 hover:bg-primary/10 hover:border-primary/40 focus-visible:ring-2 focus-visible:ring-primary-500 dark:border-gray-700 dark:bg-gray-900/40 dark:text-gray-100 flat-interaction"
+                >
+                  <span aria-hidden="true">🧩</span>
+                  <span className="min-w-0 flex-1 truncate">{template.name}</span>
+                  <span className="shrink-0 text-xs text-gray-500 dark:text-gray-400">
+                    {template.tabs.length} 个标签页
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </ModalFrame>
+      <WorkspaceLaunchDialog {...dialogProps} />
+    </>
+  );
+};
+
+export default WorkspaceLauncher;
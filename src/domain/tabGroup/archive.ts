@@ -0,0 +1,24 @@
+import type { TabGroup } from '@/types/tab';
+
+/**
+ * 归档：介于保留与删除之间的状态。归档的会话不在会话列表、收藏栏中显示，
+ * 仍可通过 `archived:` 搜索找到，随时一键取消归档；状态随会话同步。
+ */
+
+export const isArchivedGroup = (group: Pick<TabGroup, 'isArchived'>): boolean => !!group.isArchived;
+
+/** 取消归档时把字段置为 undefined（而不是删掉），保证按字段合并的更新能覆盖旧值 */
+export const setGroupArchived = (group: TabGroup, archived: boolean, now: string): TabGroup =>
+  archived
+    ? { ...group, isArchived: true, archivedAt: now }
+    : { ...group, isArchived: undefined, archivedAt: undefined };
+
+/** 未归档的会话（会话列表、收藏栏、标签浏览器使用） */
+export const getUnarchivedGroups = (groups: readonly TabGroup[]): TabGroup[] =>
+  groups.filter(group => !group.isArchived);
+
+/** 归档的会话，最近归档的在前 */
+export const getArchivedGroups = (groups: readonly TabGroup[]): TabGroup[] =>
+  groups
+    .filter(group => group.isArchived && !group.isDeleted)
+    .sort((left, right) => (right.archivedAt ?? '').localeCompare(left.archivedAt ?? ''));
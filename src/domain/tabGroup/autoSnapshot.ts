@@ -0,0 +1,76 @@
+import type { TabGroup } from '@/types/tab';
+
+/**
+ * 自动快照（Autosave）：service worker 按 chrome.alarms 定时把所有窗口另存为锁定会话，
+ * 浏览器崩溃后仍能找回最近的工作现场。
+ *
+ * 这里只放纯函数：命名、判断是否与上一次快照相同、按保留上限清理旧快照。
+ */
+export const AUTO_SNAPSHOT_NAME_PREFIX = 'Autosave';
+
+export const buildAutoSnapshotName = (
+  now: string,
+  windowIndex: number,
+  windowCount: number
+): string => {
+  const base = `${AUTO_SNAPSHOT_NAME_PREFIX} ${new Date(now).toLocaleString()}`;
+  return windowCount > 1 ? `${base} · 窗口 ${windowIndex + 1}` : base;
+};
+
+const isLiveAutoSnapshot = (group: TabGroup): boolean =>
+  !!group.autoSnapshot && !group.isDeleted;
+
+/**
+ * 最近一次快照产生的会话（同一次快照的会话共享 createdAt）。
+ */
+export const getLatestAutoSnapshotRun = (groups: TabGroup[]): TabGroup[] => {
+  const snapshots = groups.filter(isLiveAutoSnapshot);
+  if (snapshots.length === 0) return [];
+
+  const latest = snapshots.reduce(
+    (max, group) => (group.createdAt > max ? group.createdAt : max),
+    snapshots[0].createdAt
+  );
+  return snapshots.filter(group => group.createdAt === latest);
+};
+
+const getRunSignature = (groups: Pick<TabGroup, 'tabs'>[]): string =>
+  groups
+    .map(group => group.tabs.map(tab => tab.url).join('\n'))
+    .sort()
+    .join('\n\n');
+
+/**
+ * 两次快照的窗口与标签页 URL（含顺序）完全一致时视为相同，用于跳过无变化的快照。
+ */
+export const isSameAutoSnapshotRun = (
+  previous: Pick<TabGroup, 'tabs'>[],
+  next: Pick<TabGroup, 'tabs'>[]
+): boolean =>
+  previous.length === next.length && getRunSignature(previous) === getRunSignature(next);
+
+/**
+ * 按保留上限清理旧快照：保留最新的 maxSessions 个自动快照会话，其余软删除（走同步墓碑）。
+ * 被收藏的快照视为用户主动保留，不计入上限也不会被清理。
+ */
+export const applyAutoSnapshotRetention = (
+  groups: TabGroup[],
+  maxSessions: number,
+  now: string
+): TabGroup[] => {
+  const expiredIds = new Set(
+    groups
+      .filter(group => isLiveAutoSnapshot(group) && !group.isFavorite)
+      .sort((left, right) => right.createdAt.localeCompare(left.createdAt))
+      .slice(Math.max(0, Math.floor(maxSessions)))
+      .map(group => group.id)
+  );
+
+  if (expiredIds.size === 0) return groups;
+
+  return groups.map(group =>
+    expiredIds.has(group.id)
+      ? { ...group, isDeleted: true, version: (group.version || 1) + 1, updatedAt: now }
+      : group
+  );
+};
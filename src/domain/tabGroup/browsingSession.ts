@@ -0,0 +1,43 @@
+import type { BrowsingSessionRecord, NativeTabGroupInfo, UrlRule } from '@/types/tab';
+import { createTabGroupFromChromeTabs } from './factory';
+import { groupTabsByWindow } from './saveScope';
+
+export const buildBrowsingWindowName = (windowIndex: number): string => `窗口 ${windowIndex + 1}`;
+
+/**
+ * 把当前打开的标签页整理为浏览会话记录：每个窗口一个 TabGroup，固定标签页也一并记录。
+ * 命中「永不保存」规则的标签页不记录。
+ */
+export const buildBrowsingSessionRecord = (
+  tabs: chrome.tabs.Tab[],
+  now: string,
+  nativeGroups?: Map<number, NativeTabGroupInfo>,
+  urlRules?: UrlRule[]
+): BrowsingSessionRecord => ({
+  capturedAt: now,
+  windows: groupTabsByWindow(tabs)
+    .map(windowTabs =>
+      createTabGroupFromChromeTabs(windowTabs, {
+        now,
+        includePinned: true,
+        nativeGroups,
+        urlRules,
+      })
+    )
+    // 先去掉只有内部页面的窗口再编号，保证窗口序号连续
+    .filter(group => group.tabs.length > 0)
+    .map((group, index) => ({ ...group, name: buildBrowsingWindowName(index) })),
+});
+
+/**
+ * 去掉已经重新打开的窗口（其所有 URL 都在当前标签页中），
+ * 例如 Chrome 的「继续浏览上次打开的网页」已经恢复过，或只是扩展被重新加载。
+ * 没有需要恢复的窗口时返回 null。
+ */
+export const pruneReopenedWindows = (
+  record: BrowsingSessionRecord,
+  openUrls: ReadonlySet<string>
+): BrowsingSessionRecord | null => {
+  const windows = record.windows.filter(window => !window.tabs.every(tab => openUrls.has(tab.url)));
+  return windows.length > 0 ? { ...record, windows } : null;
+};
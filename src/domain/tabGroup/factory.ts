@@ -1,8 +1,10 @@
 import { nanoid } from '@reduxjs/toolkit';
-import { Tab, TabGroup } from '@/types/tab';
+import { NativeTabGroupInfo, Tab, TabGroup, TabPageState, UrlRule } from '@/types/tab';
 import { sanitizeFaviconUrl } from '@/utils/faviconUtils';
 import { filterValidTabs } from './filters';
 import { deriveSessionNameFromChromeTabs } from './sessionName';
+import { deriveSessionColor } from './nativeGroups';
+import { hasPageStatePosition } from './pageState';
 
 export interface CreateTabGroupOptions {
   name?: string;
@@ -12,6 +14,18 @@ export interface CreateTabGroupOptions {
    * 默认 false，调用方可按用户设置传入 true
    */
   includePinned?: boolean;
+  /**
+   * Chrome 原生标签组信息（以 chrome groupId 为键），由调用方通过 chrome.tabGroups 查询后传入。
+   * 命中的标签页会记录 nativeGroup，恢复时据此重建分组。
+   */
+  nativeGroups?: Map<number, NativeTabGroupInfo>;
+  /** 用户定义的 URL 规则，见 filterValidTabs */
+  urlRules?: UrlRule[];
+  /**
+   * 页面阅读位置（以 chrome tabId 为键），开启「记录阅读位置」时由调用方注入脚本读取后传入。
+   * 停在页面顶部的标签页不记录。
+   */
+  pageStates?: Map<number, TabPageState>;
 }
 
 export function createTabGroupFromChromeTabs(
@@ -20,20 +34,32 @@ export function createTabGroupFromChromeTabs(
 ): TabGroup {
   const validTabs = filterValidTabs(tabs, {
     includePinned: options.includePinned ?? false,
+    urlRules: options.urlRules,
   });
   const now = options.now ?? new Date().toISOString();
   const name = options.name ?? deriveSessionNameFromChromeTabs(validTabs, now);
 
-  const formattedTabs: Tab[] = validTabs.map(tab => ({
-    id: nanoid(),
-    url: tab.url || 'about:blank',
-    title: tab.title || '未命名标签页',
-    favicon: sanitizeFaviconUrl(tab.favIconUrl),
-    createdAt: now,
-    lastAccessed: now,
-    // 将 Chrome 标签页的固定状态持久化到应用数据中
-    pinned: !!tab.pinned,
-  }));
+  const formattedTabs: Tab[] = validTabs.map(tab => {
+    const nativeGroup = tab.groupId !== undefined && tab.groupId >= 0
+      ? options.nativeGroups?.get(tab.groupId)
+      : undefined;
+    const pageState = tab.id !== undefined ? options.pageStates?.get(tab.id) : undefined;
+
+    return {
+      id: nanoid(),
+      url: tab.url || 'about:blank',
+      title: tab.title || '未命名标签页',
+      favicon: sanitizeFaviconUrl(tab.favIconUrl),
+      createdAt: now,
+      lastAccessed: now,
+      // 将 Chrome 标签页的固定状态持久化到应用数据中
+      pinned: !!tab.pinned,
+      ...(nativeGroup ? { nativeGroup } : {}),
+      ...(hasPageStatePosition(pageState) ? { pageState } : {}),
+    };
+  });
+
+  const color = deriveSessionColor(formattedTabs);
 
   return {
     id: nanoid(),
@@ -42,5 +68,6 @@ export function createTabGroupFromChromeTabs(
     createdAt: now,
     updatedAt: now,
     isLocked: false,
+    ...(color ? { color } : {}),
   };
 }
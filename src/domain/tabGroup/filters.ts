@@ -1,8 +1,23 @@
+import type { UrlRule } from '@/types/tab';
+import { hasUrlRuleAction } from './urlRules';
+
 const INTERNAL_URL_PREFIXES = ['chrome://', 'chrome-extension://', 'edge://', 'about:'];
 
 export const isInternalUrl = (url: string): boolean =>
   INTERNAL_URL_PREFIXES.some(prefix => url.startsWith(prefix));
 
+/**
+ * 从页面外部接收的 URL（消息、右键菜单中的链接）只允许 http / https
+ */
+export const isSafeUrl = (url: string): boolean => {
+  try {
+    const parsed = new URL(url);
+    return ['http:', 'https:'].includes(parsed.protocol);
+  } catch {
+    return false;
+  }
+};
+
 export const isValidTab = (tab: chrome.tabs.Tab): boolean => {
   if (tab.url) {
     return !isInternalUrl(tab.url);
@@ -17,6 +32,8 @@ export interface FilterTabsOptions {
    * - false：排除所有 pinned 标签页（默认）
    */
   includePinned?: boolean;
+  /** 用户定义的 URL 规则；命中「永不保存」的标签页会被排除 */
+  urlRules?: UrlRule[];
 }
 
 export const filterValidTabs = (
@@ -28,6 +45,7 @@ export const filterValidTabs = (
   return tabs.filter(tab => {
     if (!isValidTab(tab)) return false;
     if (!includePinned && tab.pinned) return false;
+    if (hasUrlRuleAction(tab.url, options.urlRules, 'never-save')) return false;
     return true;
   });
 };
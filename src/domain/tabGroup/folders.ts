@@ -0,0 +1,235 @@
+import { nanoid } from '@reduxjs/toolkit';
+import type { SessionFolder, TabGroup } from '@/types/tab';
+
+/**
+ * 会话文件夹：文件夹可以嵌套，结构保存在设置中（随设置同步），
+ * 会话通过 TabGroup.folderId 归属。
+ *
+ * 同步合并后可能出现指向已删除文件夹的 folderId，或两台设备互相移动造成的父级环，
+ * 这里统一按「上级无效就放到顶层」处理，不改写数据。
+ */
+
+/** 嵌套层数上限（顶层文件夹为第 1 层） */
+export const MAX_FOLDER_DEPTH = 4;
+
+export const MAX_FOLDER_NAME_LENGTH = 60;
+
+export const normalizeFolderName = (name: string): string =>
+  name.trim().replace(/\s+/g, ' ').slice(0, MAX_FOLDER_NAME_LENGTH);
+
+export const createSessionFolder = (
+  name: string,
+  parentId?: string,
+  now: string = new Date().toISOString()
+): SessionFolder => ({
+  id: nanoid(),
+  name: normalizeFolderName(name) || '新建文件夹',
+  ...(parentId ? { parentId } : {}),
+  createdAt: now,
+  updatedAt: now,
+});
+
+export const getActiveFolders = (folders: readonly SessionFolder[] | undefined): SessionFolder[] =>
+  (folders ?? []).filter(folder => !folder.isDeleted);
+
+/**
+ * 每个有效文件夹的实际上级：上级不存在、已删除或形成环时为 undefined（放到顶层）
+ */
+const resolveParents = (folders: readonly SessionFolder[]): Map<string, string | undefined> => {
+  const active = new Map(getActiveFolders(folders).map(folder => [folder.id, folder]));
+  const parents = new Map<string, string | undefined>();
+
+  for (const folder of active.values()) {
+    let parentId = folder.parentId && active.has(folder.parentId) ? folder.parentId : undefined;
+    // 沿上级链向上走，回到自身说明有环
+    const seen = new Set([folder.id]);
+    for (let current = parentId; current; current = active.get(current)?.parentId) {
+      if (seen.has(current)) {
+        parentId = undefined;
+        break;
+      }
+      seen.add(current);
+    }
+    parents.set(folder.id, parentId);
+  }
+  return parents;
+};
+
+/** 会话所在的有效文件夹；文件夹已删除或不存在时为 undefined（顶层） */
+export const resolveGroupFolderId = (
+  group: Pick<TabGroup, 'folderId'>,
+  folders: readonly SessionFolder[]
+): string | undefined =>
+  group.folderId && folders.some(folder => folder.id === group.folderId && !folder.isDeleted)
+    ? group.folderId
+    : undefined;
+
+/** 文件夹自身及所有下级文件夹的 id */
+export const getFolderSubtreeIds = (folders: readonly SessionFolder[], folderId: string): Set<string> => {
+  const parents = resolveParents(folders);
+  const ids = new Set([folderId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const [id, parentId] of parents) {
+      if (parentId && ids.has(parentId) && !ids.has(id)) {
+        ids.add(id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+};
+
+/** 文件夹所在层数（顶层为 1）；不存在时为 0 */
+export const getFolderDepth = (folders: readonly SessionFolder[], folderId: string | undefined): number => {
+  const parents = resolveParents(folders);
+  let depth = 0;
+  for (let current = folderId; current && parents.has(current); current = parents.get(current)) {
+    depth += 1;
+  }
+  return depth;
+};
+
+const getSubtreeHeight = (folders: readonly SessionFolder[], folderId: string): number => {
+  const subtree = getFolderSubtreeIds(folders, folderId);
+  const base = getFolderDepth(folders, folderId);
+  return Math.max(...[...subtree].map(id => getFolderDepth(folders, id) - base + 1));
+};
+
+/**
+ * 文件夹能否移到 targetParentId 下（undefined 为顶层）：
+ * 不能移到自身或下级里，移动后不能超过层数上限
+ */
+export const canMoveFolder = (
+  folders: readonly SessionFolder[],
+  folderId: string,
+  targetParentId: string | undefined
+): boolean => {
+  if (targetParentId && getFolderSubtreeIds(folders, folderId).has(targetParentId)) {
+    return false;
+  }
+  return getFolderDepth(folders, targetParentId) + getSubtreeHeight(folders, folderId) <= MAX_FOLDER_DEPTH;
+};
+
+const updateFolder = (
+  folders: readonly SessionFolder[],
+  folderId: string,
+  patch: Partial<SessionFolder>,
+  now: string
+): SessionFolder[] =>
+  folders.map(folder => (folder.id === folderId ? { ...folder, ...patch, updatedAt: now } : folder));
+
+export const renameSessionFolder = (
+  folders: readonly SessionFolder[],
+  folderId: string,
+  name: string,
+  now: string = new Date().toISOString()
+): SessionFolder[] => {
+  const normalized = normalizeFolderName(name);
+  return normalized ? updateFolder(folders, folderId, { name: normalized }, now) : [...folders];
+};
+
+export const moveSessionFolder = (
+  folders: readonly SessionFolder[],
+  folderId: string,
+  parentId: string | undefined,
+  now: string = new Date().toISOString()
+): SessionFolder[] =>
+  canMoveFolder(folders, folderId, parentId)
+    ? updateFolder(folders, folderId, { parentId }, now)
+    : [...folders];
+
+/**
+ * 删除文件夹（软删除）：下级文件夹移到被删文件夹的上级。
+ * 其中的会话由调用方移到 `parentId`（见 getGroupsInFolder）。
+ */
+export const removeSessionFolder = (
+  folders: readonly SessionFolder[],
+  folderId: string,
+  now: string = new Date().toISOString()
+): { folders: SessionFolder[]; parentId: string | undefined } => {
+  const parentId = resolveParents(folders).get(folderId);
+  return {
+    parentId,
+    folders: folders.map(folder => {
+      if (folder.id === folderId) return { ...folder, isDeleted: true, updatedAt: now };
+      if (folder.parentId === folderId && !folder.isDeleted) return { ...folder, parentId, updatedAt: now };
+      return folder;
+    }),
+  };
+};
+
+/** 直接放在该文件夹中的会话（不含下级文件夹） */
+export const getGroupsInFolder = (groups: readonly TabGroup[], folderId: string): TabGroup[] =>
+  groups.filter(group => group.folderId === folderId);
+
+export interface FolderNode {
+  folder: SessionFolder;
+  children: FolderNode[];
+  /** 直接放在该文件夹中的会话，保持传入的顺序 */
+  groups: TabGroup[];
+  /** 包括下级文件夹在内的会话总数 */
+  totalGroups: number;
+}
+
+export interface FolderTree {
+  folders: FolderNode[];
+  /** 不在任何（有效）文件夹中的会话 */
+  rootGroups: TabGroup[];
+}
+
+/**
+ * 把文件夹与会话组织成树。会话顺序沿用传入数组（已排序 / 筛选过的列表），
+ * 文件夹按名称排序。hideEmpty 时去掉没有会话的文件夹（列表处于筛选状态时使用）。
+ */
+export const buildFolderTree = (
+  folders: readonly SessionFolder[] | undefined,
+  groups: readonly TabGroup[],
+  options: { hideEmpty?: boolean } = {}
+): FolderTree => {
+  const active = getActiveFolders(folders);
+  const parents = resolveParents(active);
+  const nodes = new Map<string, FolderNode>(
+    active.map(folder => [folder.id, { folder, children: [], groups: [], totalGroups: 0 }])
+  );
+
+  const rootGroups: TabGroup[] = [];
+  for (const group of groups) {
+    const node = group.folderId ? nodes.get(group.folderId) : undefined;
+    if (node) {
+      node.groups.push(group);
+    } else {
+      rootGroups.push(group);
+    }
+  }
+
+  const roots: FolderNode[] = [];
+  for (const node of nodes.values()) {
+    const parentId = parents.get(node.folder.id);
+    (parentId ? nodes.get(parentId)!.children : roots).push(node);
+  }
+
+  const finalize = (list: FolderNode[]): FolderNode[] => {
+    for (const node of list) {
+      node.children = finalize(node.children);
+      node.totalGroups = node.groups.length + node.children.reduce((sum, child) => sum + child.totalGroups, 0);
+    }
+    return list
+      .filter(node => !options.hideEmpty || node.totalGroups > 0)
+      .sort((left, right) => left.folder.name.localeCompare(right.folder.name, 'zh-CN'));
+  };
+
+  return { folders: finalize(roots), rootGroups };
+};
+
+/** 文件夹路径（顶层在前），用于「移动到」菜单 */
+export const getFolderPath = (folders: readonly SessionFolder[], folderId: string): SessionFolder[] => {
+  const parents = resolveParents(folders);
+  const byId = new Map(folders.map(folder => [folder.id, folder]));
+  const path: SessionFolder[] = [];
+  for (let current: string | undefined = folderId; current && parents.has(current); current = parents.get(current)) {
+    path.unshift(byId.get(current)!);
+  }
+  return path;
+};
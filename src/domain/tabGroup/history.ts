@@ -0,0 +1,135 @@
+import type { HistoryChange, HistoryEntry, TabGroup, UndoHistory } from '@/types/tab';
+
+/**
+ * 撤销 / 重做：记录每次编辑中改动过的会话前后快照，按快照把会话改回去或改回来。
+ *
+ * - 软删除的会话视为不存在，撤销删除即恢复会话，重做则再次软删除（回收站随之移出、放回）；
+ * - 写回的快照版本号高于当前版本，同步合并时不会被旧数据覆盖；
+ * - 短时间内连续的改动（乐观更新 + 写盘、拖拽过程）合并为一步。
+ */
+
+export const HISTORY_LIMIT = 30;
+
+export const HISTORY_COALESCE_MS = 1000;
+
+export const EMPTY_HISTORY: UndoHistory = { past: [], future: [] };
+
+const isSameGroup = (left: TabGroup | null, right: TabGroup | null): boolean =>
+  left === right || (!!left && !!right && JSON.stringify(left) === JSON.stringify(right));
+
+const indexActiveGroups = (groups: readonly TabGroup[]): Map<string, TabGroup> =>
+  new Map(groups.filter(group => !group.isDeleted).map(group => [group.id, group]));
+
+/** 比较两份会话列表，返回有改动的会话（未改动的会话通常保持原引用，比较开销很小） */
+export const diffGroups = (
+  before: readonly TabGroup[],
+  after: readonly TabGroup[]
+): HistoryChange[] => {
+  const beforeById = indexActiveGroups(before);
+  const afterById = indexActiveGroups(after);
+  const changes: HistoryChange[] = [];
+
+  for (const [groupId, group] of beforeById) {
+    const next = afterById.get(groupId) ?? null;
+    if (!isSameGroup(group, next)) changes.push({ groupId, before: group, after: next });
+  }
+  for (const [groupId, group] of afterById) {
+    if (!beforeById.has(groupId)) changes.push({ groupId, before: null, after: group });
+  }
+  return changes;
+};
+
+/** 合并连续两步的改动：同一会话取前一步的 before、后一步的 after，改回原样的会话去掉 */
+export const mergeHistoryChanges = (
+  earlier: readonly HistoryChange[],
+  later: readonly HistoryChange[]
+): HistoryChange[] => {
+  const merged = new Map(earlier.map(change => [change.groupId, change]));
+  for (const change of later) {
+    const previous = merged.get(change.groupId);
+    merged.set(change.groupId, previous ? { ...previous, after: change.after } : change);
+  }
+  return [...merged.values()].filter(change => !isSameGroup(change.before, change.after));
+};
+
+/**
+ * 记录一步操作：与上一步间隔不超过 coalesceMs 时合并，否则追加（超出上限丢弃最早的）。
+ * 记录新操作后清空重做栈。
+ */
+export const recordHistoryEntry = (
+  history: UndoHistory,
+  entry: HistoryEntry,
+  coalesceMs: number = HISTORY_COALESCE_MS
+): UndoHistory => {
+  const last = history.past[history.past.length - 1];
+  if (last && new Date(entry.at).getTime() - new Date(last.at).getTime() <= coalesceMs) {
+    const changes = mergeHistoryChanges(last.changes, entry.changes);
+    const past = history.past.slice(0, -1);
+    return {
+      past: changes.length > 0 ? [...past, { ...last, at: entry.at, changes }] : past,
+      future: [],
+    };
+  }
+
+  if (entry.changes.length === 0) return history;
+  return { past: [...history.past, entry].slice(-HISTORY_LIMIT), future: [] };
+};
+
+/**
+ * 把会话列表（可以包含软删除的会话）改成一步操作之前（undo）或之后（redo）的样子。
+ * 返回新的列表、需要显示的会话、需要从界面移除的会话、重新出现的会话
+ * （本地墓碑可能已在合并时清除，一律交给 SyncEngine 撤销云端的删除标记），
+ * 以及重做删除时删除前的快照（放回回收站）。
+ */
+export const applyHistoryEntry = (
+  groups: readonly TabGroup[],
+  entry: HistoryEntry,
+  direction: 'undo' | 'redo',
+  now: string
+): {
+  groups: TabGroup[];
+  updated: TabGroup[];
+  removedIds: string[];
+  revivedIds: string[];
+  trashed: TabGroup[];
+} => {
+  let next = [...groups];
+  const updated: TabGroup[] = [];
+  const removedIds: string[] = [];
+  const revivedIds: string[] = [];
+  const trashed: TabGroup[] = [];
+
+  for (const change of entry.changes) {
+    const target = direction === 'undo' ? change.before : change.after;
+    const current = next.find(group => group.id === change.groupId);
+
+    if (!target) {
+      if (!current || current.isDeleted) continue;
+      const deleted: TabGroup = {
+        ...current,
+        isDeleted: true,
+        version: (current.version || 1) + 1,
+        updatedAt: now,
+      };
+      next = next.map(group => (group.id === deleted.id ? deleted : group));
+      removedIds.push(deleted.id);
+      // 撤销新建不算删除，只有重做删除才放回回收站
+      if (direction === 'redo') trashed.push(current);
+      continue;
+    }
+
+    const restored: TabGroup = {
+      ...target,
+      isDeleted: false,
+      version: Math.max(target.version || 1, current?.version || 1) + 1,
+      updatedAt: now,
+    };
+    if (!current || current.isDeleted) revivedIds.push(restored.id);
+    next = current
+      ? next.map(group => (group.id === restored.id ? restored : group))
+      : [...next, restored];
+    updated.push(restored);
+  }
+
+  return { groups: next, updated, removedIds, revivedIds, trashed };
+};
@@ -0,0 +1,115 @@
+import { nanoid } from '@reduxjs/toolkit';
+import type { Tab, TabGroup, UrlRule } from '@/types/tab';
+import { filterValidTabs } from './filters';
+import { matchesDomain } from './saveScope';
+import { hasUrlRuleAction } from './urlRules';
+import { canSaveIntoGroup, dedupeIncomingTabs } from './saveTarget';
+
+/**
+ * 闲置标签页自动归档（OneTab 式自动收集）：
+ * 超过 N 分钟未激活的标签页由 service worker 移入「闲置标签页」会话。
+ *
+ * 这里只放纯函数——激活时间的记录和 chrome.tabs 操作在 background/idleArchive 与 TabManager 中完成。
+ */
+export const IDLE_SESSION_NAME = '闲置标签页';
+
+/**
+ * 标签页最近一次激活时间：取扩展记录与 Chrome 提供的 tab.lastAccessed 中较新的一个。
+ */
+export const getTabLastActiveAt = (
+  tab: chrome.tabs.Tab,
+  lastActiveAt: Readonly<Record<number, number>>
+): number | undefined => {
+  const recorded = tab.id !== undefined ? lastActiveAt[tab.id] : undefined;
+  const candidates = [recorded, tab.lastAccessed].filter((value): value is number => typeof value === 'number');
+  return candidates.length > 0 ? Math.max(...candidates) : undefined;
+};
+
+export interface SelectIdleTabsOptions {
+  now: number;
+  idleMinutes: number;
+  /** 扩展记录的最近激活时间（tabId → 毫秒时间戳） */
+  lastActiveAt: Readonly<Record<number, number>>;
+  /** 白名单域名（含子域名），这些站点的标签页永不归档 */
+  whitelist: string[];
+  /** 用户定义的 URL 规则：「永不保存」与「不自动收集」的标签页都不归档 */
+  urlRules?: UrlRule[];
+}
+
+/**
+ * 选出可以归档的闲置标签页。
+ * 始终跳过：内部页面、固定标签页、各窗口的活动标签页、正在播放声音的标签页、白名单域名、URL 规则排除的标签页，
+ * 以及还不知道激活时间的标签页（等下一次检查）。
+ */
+export const selectIdleTabs = (
+  tabs: chrome.tabs.Tab[],
+  options: SelectIdleTabsOptions
+): chrome.tabs.Tab[] => {
+  const idleMs = options.idleMinutes * 60_000;
+
+  return filterValidTabs(tabs, { includePinned: false, urlRules: options.urlRules }).filter(tab => {
+    if (tab.active || tab.audible) return false;
+    if (options.whitelist.some(domain => matchesDomain(tab.url, domain))) return false;
+    if (hasUrlRuleAction(tab.url, options.urlRules, 'skip-auto-collect')) return false;
+    const lastActive = getTabLastActiveAt(tab, options.lastActiveAt);
+    return lastActive !== undefined && options.now - lastActive >= idleMs;
+  });
+};
+
+/**
+ * 把归档的标签页放进「闲置标签页」会话：
+ * 已有可写入（未删除、未锁定、未归档）的闲置会话时追加到最前面，否则新建一个。
+ * 归档的闲置会话不在列表中显示，写进去的标签页用户看不到。
+ * 不允许重复标签页时跳过会话中已有的 URL。
+ */
+export const mergeIntoIdleSession = (
+  groups: TabGroup[],
+  tabs: Tab[],
+  options: { now: string; allowDuplicateTabs: boolean }
+): { groups: TabGroup[]; addedCount: number } => {
+  const target = groups.find(group => group.idleArchive && canSaveIntoGroup(group));
+  const newTabs = dedupeIncomingTabs(target?.tabs ?? [], tabs, options.allowDuplicateTabs);
+
+  if (newTabs.length === 0) {
+    return { groups, addedCount: 0 };
+  }
+
+  if (!target) {
+    const idleGroup: TabGroup = {
+      id: nanoid(),
+      name: IDLE_SESSION_NAME,
+      tabs: newTabs,
+      createdAt: options.now,
+      updatedAt: options.now,
+      isLocked: false,
+      idleArchive: true,
+    };
+    return { groups: [idleGroup, ...groups], addedCount: newTabs.length };
+  }
+
+  return {
+    groups: groups.map(group =>
+      group.id === target.id
+        ? {
+          ...group,
+          tabs: [...newTabs, ...group.tabs],
+          updatedAt: options.now,
+          version: (group.version || 1) + 1,
+        }
+        : group
+    ),
+    addedCount: newTabs.length,
+  };
+};
+
+/**
+ * 解析白名单输入：每行或逗号分隔一个域名，去掉协议、路径与前导 www.
+ */
+export const parseDomainList = (input: string): string[] => {
+  const domains = input
+    .split(/[\n,，\s]+/)
+    .map(item => item.trim().toLowerCase())
+    .map(item => item.replace(/^[a-z]+:\/\//, '').replace(/[/?#].*$/, '').replace(/^www\./, ''))
+    .filter(Boolean);
+  return [...new Set(domains)];
+};
@@ -1,2 +1,21 @@
 export * from './filters';
 export * from './factory';
+export * from './saveScope';
+export * from './nativeGroups';
+export * from './autoSnapshot';
+export * from './browsingSession';
+export * from './idleTabs';
+export * from './urlRules';
+export * from './saveTarget';
+export * from './linkCapture';
+export * from './workspaceTemplate';
+export * from './pageState';
+export * from './restoreHistory';
+export * from './tags';
+export * from './folders';
+export * from './retention';
+export * from './archive';
+export * from './trash';
+export * from './history';
+export * from './savedSearches';
+export * from './pageContent';
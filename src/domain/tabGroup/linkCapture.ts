@@ -0,0 +1,87 @@
+import { nanoid } from '@reduxjs/toolkit';
+import type { Tab, TabGroup, UrlRule } from '@/types/tab';
+import { isSafeUrl } from './filters';
+import { buildTimestampSessionName } from './sessionName';
+import { hasUrlRuleAction } from './urlRules';
+
+/**
+ * 右键菜单保存链接：不打开链接，直接把 URL 整理成会话中的 Tab 记录。
+ */
+export interface LinkInput {
+  url: string;
+  /** 链接文字（选区中 <a> 的文本）；没有时从 URL 推导标题 */
+  text?: string;
+}
+
+const MAX_TITLE_LENGTH = 200;
+
+/** 纯文本中的 http(s) 链接；结尾的标点（句号、括号等）不算链接的一部分 */
+const TEXT_URL_PATTERN = /https?:\/\/[^\s<>"'`，。；！？、）】》]+/gi;
+const TRAILING_PUNCTUATION = /[.,;:!?)\]}]+$/;
+
+/**
+ * 从选中的纯文本里提取链接（无法读取页面 DOM 时的回退方案）
+ */
+export const extractUrlsFromText = (text: string): string[] =>
+  (text.match(TEXT_URL_PATTERN) ?? []).map(url => url.replace(TRAILING_PUNCTUATION, ''));
+
+/**
+ * 链接的标题：优先使用链接文字，否则用「域名 + 路径」，都拿不到时退回完整 URL。
+ */
+export const deriveLinkTitle = (url: string, text?: string): string => {
+  const normalized = text?.replace(/\s+/g, ' ').trim();
+  if (normalized) {
+    return normalized.length > MAX_TITLE_LENGTH ? `${normalized.slice(0, MAX_TITLE_LENGTH - 1)}…` : normalized;
+  }
+
+  try {
+    const parsed = new URL(url);
+    const hostname = parsed.hostname.replace(/^www\./, '');
+    let pathname = parsed.pathname.replace(/\/$/, '');
+    try {
+      pathname = decodeURIComponent(pathname);
+    } catch {
+      // 保留原始编码
+    }
+    return `${hostname}${pathname}` || url;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * 把链接整理成 Tab 记录：只保留 http(s) 链接，跳过「永不保存」规则命中的链接，按 URL 去重。
+ */
+export const createTabsFromLinks = (
+  links: LinkInput[],
+  options: { now: string; urlRules?: UrlRule[] }
+): Tab[] => {
+  const seen = new Set<string>();
+  return links.flatMap(link => {
+    const url = link.url.trim();
+    if (!isSafeUrl(url) || seen.has(url) || hasUrlRuleAction(url, options.urlRules, 'never-save')) {
+      return [];
+    }
+    seen.add(url);
+    return [{
+      id: nanoid(),
+      url,
+      title: deriveLinkTitle(url, link.text),
+      createdAt: options.now,
+      lastAccessed: options.now,
+      pinned: false,
+    }];
+  });
+};
+
+/**
+ * 用保存的链接新建会话（名称与普通保存一致，按时间命名）
+ */
+export const buildLinkSession = (tabs: Tab[], now: string): TabGroup => ({
+  id: nanoid(),
+  name: buildTimestampSessionName(now),
+  tabs,
+  createdAt: now,
+  updatedAt: now,
+  isLocked: false,
+});
@@ -0,0 +1,86 @@
+import type { NativeTabGroupInfo, TabGroupColor } from '@/types/tab';
+
+export const TAB_GROUP_COLORS: TabGroupColor[] = [
+  'grey',
+  'blue',
+  'red',
+  'yellow',
+  'green',
+  'pink',
+  'purple',
+  'cyan',
+  'orange',
+];
+
+export const isTabGroupColor = (value: unknown): value is TabGroupColor =>
+  typeof value === 'string' && (TAB_GROUP_COLORS as string[]).includes(value);
+
+/**
+ * 把 chrome.tabGroups.TabGroup 转成持久化用的 NativeTabGroupInfo。
+ */
+export const toNativeTabGroupInfo = (group: Pick<chrome.tabGroups.TabGroup, 'title' | 'color'>): NativeTabGroupInfo => ({
+  title: group.title ?? '',
+  color: isTabGroupColor(group.color) ? group.color : 'grey',
+});
+
+export interface NativeGroupPlanTab {
+  pinned?: boolean;
+  nativeGroup?: NativeTabGroupInfo;
+}
+
+export interface NativeGroupPlanEntry {
+  info: NativeTabGroupInfo;
+  /** 需要放进该分组的标签页在输入数组中的下标 */
+  indices: number[];
+}
+
+/**
+ * 规划恢复时要创建的原生标签组。
+ *
+ * - 有任一标签页记录了 nativeGroup：按记录的 title + color 重建，未分组的标签页保持未分组；
+ * - 否则若传入 sessionGroup：把全部标签页放进以会话命名的单个分组；
+ * - 固定标签页不能进入标签组（Chrome 会自动移出），一律跳过。
+ */
+export const planNativeTabGroups = (
+  tabs: NativeGroupPlanTab[],
+  sessionGroup?: NativeTabGroupInfo
+): NativeGroupPlanEntry[] => {
+  const hasRecordedGroups = tabs.some(tab => !tab.pinned && tab.nativeGroup);
+
+  if (hasRecordedGroups) {
+    const entries = new Map<string, NativeGroupPlanEntry>();
+    tabs.forEach((tab, index) => {
+      if (tab.pinned || !tab.nativeGroup) return;
+      const key = `${tab.nativeGroup.color}\u0000${tab.nativeGroup.title}`;
+      const entry = entries.get(key);
+      if (entry) {
+        entry.indices.push(index);
+      } else {
+        entries.set(key, { info: tab.nativeGroup, indices: [index] });
+      }
+    });
+    return [...entries.values()];
+  }
+
+  if (!sessionGroup) return [];
+
+  const indices = tabs
+    .map((tab, index) => (tab.pinned ? -1 : index))
+    .filter(index => index >= 0);
+  return indices.length > 0 ? [{ info: sessionGroup, indices }] : [];
+};
+
+/**
+ * 若所有标签页都来自同一个原生分组，返回该分组颜色，作为会话的默认颜色。
+ */
+export const deriveSessionColor = (tabs: NativeGroupPlanTab[]): TabGroupColor | undefined => {
+  if (tabs.length === 0) return undefined;
+  const [first] = tabs;
+  if (!first.nativeGroup) return undefined;
+  const sameGroup = tabs.every(
+    tab =>
+      tab.nativeGroup?.color === first.nativeGroup?.color &&
+      tab.nativeGroup?.title === first.nativeGroup?.title
+  );
+  return sameGroup ? first.nativeGroup.color : undefined;
+};
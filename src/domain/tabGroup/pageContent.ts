@@ -0,0 +1,96 @@
+import type { PageContent, TabGroup } from '@/types/tab';
+
+/**
+ * 页面全文：保存时抓取正文（background/pageContent），供 `content:` 搜索并在结果中显示片段。
+ *
+ * 正文按网址保存（同一网址出现在多个会话中只存一份），与会话列表分开加密保存在本机；
+ * 只有开启「同步页面全文」时才随会话上传。这里只放校验、合并与片段等纯函数。
+ */
+
+/** 每个页面保存的正文长度上限（字符） */
+export const MAX_PAGE_CONTENT_LENGTH = 20000;
+
+/** 正文太短（登录页、空白页）时不保存 */
+export const MIN_PAGE_CONTENT_LENGTH = 40;
+
+/** 搜索结果中片段两侧保留的字符数 */
+const SNIPPET_RADIUS = 60;
+
+/**
+ * 规整抓取到的正文：合并空白、截断到上限；无效或太短时返回 undefined
+ */
+export const normalizePageText = (raw: unknown): string | undefined => {
+  if (typeof raw !== 'string') return undefined;
+  const text = raw.replace(/\s+/g, ' ').trim();
+  if (text.length < MIN_PAGE_CONTENT_LENGTH) return undefined;
+  return text.length > MAX_PAGE_CONTENT_LENGTH ? text.slice(0, MAX_PAGE_CONTENT_LENGTH) : text;
+};
+
+const isPageContent = (value: unknown): value is PageContent => {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Partial<PageContent>;
+  return typeof candidate.url === 'string'
+    && typeof candidate.text === 'string'
+    && typeof candidate.capturedAt === 'string';
+};
+
+/**
+ * 合并正文记录：同一网址保留较新抓取的一份。输入可能来自存储或云端，先校验
+ */
+export const mergePageContents = (
+  existing: readonly PageContent[],
+  incoming: readonly unknown[]
+): PageContent[] => {
+  const merged = new Map(existing.map(content => [content.url, content]));
+  for (const content of incoming) {
+    if (!isPageContent(content)) continue;
+    const text = normalizePageText(content.text);
+    if (!text) continue;
+    const current = merged.get(content.url);
+    if (!current || new Date(content.capturedAt).getTime() > new Date(current.capturedAt).getTime()) {
+      merged.set(content.url, { url: content.url, text, capturedAt: content.capturedAt });
+    }
+  }
+  return [...merged.values()];
+};
+
+/** 会话中用到的所有网址（清理不再使用的正文时保留这些） */
+export const collectGroupUrls = (groups: ReadonlyArray<Pick<TabGroup, 'tabs'>>): Set<string> => {
+  const urls = new Set<string>();
+  for (const group of groups) {
+    for (const tab of group.tabs) urls.add(tab.url);
+  }
+  return urls;
+};
+
+export interface ContentSnippet {
+  text: string;
+  /** 命中范围在片段中的下标 */
+  ranges: Array<{ start: number; end: number }>;
+}
+
+/**
+ * 以第一处命中为中心截取片段，两侧用省略号表示被截断；同在片段内的其他命中一并标出。
+ * ranges 为正文中的下标（已排序）。
+ */
+export const getContentSnippet = (
+  text: string,
+  ranges: ReadonlyArray<{ start: number; end: number }>,
+  radius: number = SNIPPET_RADIUS
+): ContentSnippet | null => {
+  const first = ranges[0];
+  if (!first) return null;
+
+  const start = Math.max(0, first.start - radius);
+  const end = Math.min(text.length, first.end + radius);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const offset = prefix.length - start;
+
+  return {
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    ranges: ranges
+      .filter(range => range.start >= start && range.end <= end)
+      .map(range => ({ start: range.start + offset, end: range.end + offset })),
+  };
+};
@@ -0,0 +1,45 @@
+import type { TabPageState } from '@/types/tab';
+
+/**
+ * 阅读位置：保存时记录滚动位置与最近的锚点，恢复时滚动回去。
+ *
+ * 读取 / 应用页面状态需要向页面注入脚本（background/pageState），
+ * 这里只放校验等纯函数。恢复时打开保存的原 URL，不附加锚点，
+ * 否则再次保存时网址不同，去重与重复标签页清理会把它当成新页面。
+ */
+
+/** 读取 / 恢复阅读位置需要的可选主机权限（manifest optional_host_permissions） */
+export const PAGE_STATE_ORIGINS = ['<all_urls>'];
+
+/** 锚点 id 的长度上限，过长的 id 多半是自动生成的，没有定位价值 */
+const MAX_FRAGMENT_LENGTH = 200;
+
+const isFiniteNonNegative = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/**
+ * 校验并规整页面状态（来自注入脚本的返回值或扩展页面消息）；无效时返回 undefined
+ */
+export const normalizePageState = (raw: unknown): TabPageState | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const candidate = raw as Partial<TabPageState>;
+  if (!isFiniteNonNegative(candidate.scrollX) || !isFiniteNonNegative(candidate.scrollY)) {
+    return undefined;
+  }
+
+  const scrollRatio = isFiniteNonNegative(candidate.scrollRatio) ? Math.min(candidate.scrollRatio, 1) : 0;
+  const fragment = typeof candidate.fragment === 'string' ? candidate.fragment.trim() : '';
+
+  return {
+    scrollX: Math.round(candidate.scrollX),
+    scrollY: Math.round(candidate.scrollY),
+    scrollRatio,
+    ...(fragment && fragment.length <= MAX_FRAGMENT_LENGTH ? { fragment } : {}),
+  };
+};
+
+/**
+ * 页面状态是否值得保存 / 恢复：停在页面顶部且没有锚点时没有意义
+ */
+export const hasPageStatePosition = (state: TabPageState | undefined): state is TabPageState =>
+  !!state && (state.scrollY > 0 || state.scrollX > 0 || !!state.fragment);
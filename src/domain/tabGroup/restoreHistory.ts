@@ -0,0 +1,137 @@
+import type { GroupSortOrder, RestoreHistoryFilter, Tab, TabGroup } from '@/types/tab';
+
+/**
+ * 打开记录：标签页从会话中重新打开的次数与最近一次时间。
+ *
+ * 会被消耗的会话恢复后直接删除，记录主要积累在锁定会话与工作区模板上；
+ * 这里只放记录、统计、排序与筛选的纯函数。
+ */
+
+/** 「最近打开过」的时间窗口 */
+export const RECENT_RESTORE_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const GROUP_SORT_ORDERS: GroupSortOrder[] = ['created', 'last-restored', 'most-restored'];
+
+export const GROUP_SORT_ORDER_LABELS: Record<GroupSortOrder, string> = {
+  created: '最近保存',
+  'last-restored': '最近打开',
+  'most-restored': '打开次数',
+};
+
+export const RESTORE_HISTORY_FILTERS: RestoreHistoryFilter[] = ['all', 'recent', 'restored', 'never'];
+
+export const RESTORE_HISTORY_FILTER_LABELS: Record<RestoreHistoryFilter, string> = {
+  all: '全部',
+  recent: `${RECENT_RESTORE_DAYS} 天内打开过`,
+  restored: '打开过',
+  never: '从未打开',
+};
+
+export interface RestoreStats {
+  restoreCount: number;
+  lastRestoredAt?: string;
+}
+
+/**
+ * 记录一次打开：tabIds 为空时表示整个会话都被打开。
+ * 返回新的会话对象（未改动的标签页保持原引用），版本号由调用方递增。
+ */
+export const markTabsRestored = (group: TabGroup, tabIds: string[] | undefined, now: string): TabGroup => {
+  const restoredIds = tabIds ? new Set(tabIds) : null;
+  return {
+    ...group,
+    tabs: group.tabs.map(tab =>
+      !restoredIds || restoredIds.has(tab.id)
+        ? { ...tab, restoreCount: (tab.restoreCount ?? 0) + 1, lastRestoredAt: now }
+        : tab
+    ),
+  };
+};
+
+export const getTabRestoreStats = (tab: Tab): RestoreStats => ({
+  restoreCount: tab.restoreCount ?? 0,
+  ...(tab.lastRestoredAt ? { lastRestoredAt: tab.lastRestoredAt } : {}),
+});
+
+/**
+ * 会话的打开记录：次数取打开最多的标签页（整组恢复时每个标签页各记一次，不能相加），
+ * 时间取最近的一次。
+ */
+export const getGroupRestoreStats = (group: TabGroup): RestoreStats => {
+  let restoreCount = 0;
+  let lastRestoredAt: string | undefined;
+  for (const tab of group.tabs) {
+    restoreCount = Math.max(restoreCount, tab.restoreCount ?? 0);
+    if (tab.lastRestoredAt && (!lastRestoredAt || tab.lastRestoredAt > lastRestoredAt)) {
+      lastRestoredAt = tab.lastRestoredAt;
+    }
+  }
+  return { restoreCount, ...(lastRestoredAt ? { lastRestoredAt } : {}) };
+};
+
+const toTime = (value: string | undefined): number => {
+  const time = value ? new Date(value).getTime() : Number.NaN;
+  return Number.isNaN(time) ? 0 : time;
+};
+
+export const matchesRestoreHistoryFilter = (
+  stats: RestoreStats,
+  filter: RestoreHistoryFilter | undefined,
+  now: number
+): boolean => {
+  switch (filter) {
+    case 'recent':
+      return stats.restoreCount > 0 && now - toTime(stats.lastRestoredAt) <= RECENT_RESTORE_DAYS * DAY_MS;
+    case 'restored':
+      return stats.restoreCount > 0;
+    case 'never':
+      return stats.restoreCount === 0;
+    default:
+      return true;
+  }
+};
+
+/**
+ * 按打开记录比较（降序）；两者相同或按保存时间排序时返回 0，由调用方继续比较。
+ */
+export const compareRestoreStats = (
+  left: RestoreStats,
+  right: RestoreStats,
+  order: GroupSortOrder | undefined
+): number => {
+  if (order === 'last-restored') {
+    return toTime(right.lastRestoredAt) - toTime(left.lastRestoredAt)
+      || right.restoreCount - left.restoreCount;
+  }
+  if (order === 'most-restored') {
+    return right.restoreCount - left.restoreCount
+      || toTime(right.lastRestoredAt) - toTime(left.lastRestoredAt);
+  }
+  return 0;
+};
+
+export interface SortGroupsOptions {
+  sortOrder?: GroupSortOrder;
+  restoreFilter?: RestoreHistoryFilter;
+  now?: number;
+}
+
+/**
+ * 会话列表的排序与筛选：收藏在前，再按所选方式排序，相同时按保存时间倒序。
+ */
+export const sortAndFilterGroups = (groups: TabGroup[], options: SortGroupsOptions = {}): TabGroup[] => {
+  const { sortOrder = 'created', restoreFilter = 'all', now = Date.now() } = options;
+  const stats = new Map(groups.map(group => [group.id, getGroupRestoreStats(group)]));
+
+  return groups
+    .filter(group => matchesRestoreHistoryFilter(stats.get(group.id)!, restoreFilter, now))
+    .sort((l, r) => {
+      const favL = !!l.isFavorite;
+      const favR = !!r.isFavorite;
+      if (favL !== favR) return favL ? -1 : 1;
+      return compareRestoreStats(stats.get(l.id)!, stats.get(r.id)!, sortOrder)
+        || new Date(r.createdAt).getTime() - new Date(l.createdAt).getTime();
+    });
+};
@@ -0,0 +1,148 @@
+import type {
+  RetentionAction,
+  RetentionPolicy,
+  RetentionRule,
+  RetentionTrigger,
+  TabGroup,
+} from '@/types/tab';
+import { getGroupRestoreStats } from './restoreHistory';
+import { setGroupArchived } from './archive';
+
+/**
+ * 会话保留策略：service worker 每天检查一次，把超过期限的会话删除或归档。
+ *
+ * - 删除走软删除（isDeleted + 版本递增），与手动删除一样通过同步墓碑传播；
+ * - 收藏的会话永远不受影响，锁定的会话不会被删除（仍可归档），工作区模板不受影响；
+ * - 会话上的 retention 优先于全局策略：keep 表示永久保留，custom 代替全部全局策略。
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const RETENTION_DAY_OPTIONS = [30, 90, 180, 365];
+
+export const RETENTION_ACTION_LABELS: Record<RetentionAction, string> = {
+  delete: '删除',
+  archive: '归档',
+};
+
+export const RETENTION_TRIGGER_LABELS: Record<RetentionTrigger, string> = {
+  saved: '保存超过',
+  'not-restored': '未打开超过',
+};
+
+/** 默认提供的两条全局策略，均未启用 */
+export const DEFAULT_RETENTION_POLICIES: RetentionPolicy[] = [
+  { id: 'delete-old-sessions', enabled: false, action: 'delete', trigger: 'saved', days: 90 },
+  { id: 'archive-unused-sessions', enabled: false, action: 'archive', trigger: 'not-restored', days: 30 },
+];
+
+export const describeRetentionRule = (rule: RetentionRule): string =>
+  `${RETENTION_TRIGGER_LABELS[rule.trigger]} ${rule.days} 天后${RETENTION_ACTION_LABELS[rule.action]}`;
+
+export interface RetentionCandidate {
+  group: TabGroup;
+  action: RetentionAction;
+  rule: RetentionRule;
+  /** 规则来自会话自身的设置还是全局策略 */
+  source: 'session' | 'global';
+  /** 距计时起点的整天数 */
+  ageDays: number;
+}
+
+const toTime = (value: string | undefined): number => {
+  const time = value ? new Date(value).getTime() : Number.NaN;
+  return Number.isNaN(time) ? 0 : time;
+};
+
+/** 规则的计时起点：保存时间，或最近一次打开时间（从未打开时按保存时间） */
+export const getRetentionStartTime = (group: TabGroup, trigger: RetentionTrigger): number => {
+  const savedAt = toTime(group.createdAt);
+  if (trigger === 'saved') return savedAt;
+  return Math.max(savedAt, toTime(getGroupRestoreStats(group).lastRestoredAt));
+};
+
+const isRuleApplicable = (group: TabGroup, rule: RetentionRule): boolean =>
+  rule.days > 0 &&
+  (rule.action === 'delete' ? !group.isLocked : !group.isArchived);
+
+/** 当前对该会话生效的规则（删除优先于归档） */
+const getEffectiveRules = (
+  group: TabGroup,
+  policies: readonly RetentionPolicy[]
+): { rules: RetentionRule[]; source: RetentionCandidate['source'] } => {
+  if (group.retention?.mode === 'keep') return { rules: [], source: 'session' };
+  if (group.retention?.mode === 'custom') {
+    const { action, trigger, days } = group.retention;
+    return { rules: [{ action, trigger, days }], source: 'session' };
+  }
+  return {
+    rules: policies
+      .filter(policy => policy.enabled)
+      .sort((left, right) => (left.action === right.action ? 0 : left.action === 'delete' ? -1 : 1)),
+    source: 'global',
+  };
+};
+
+/**
+ * 预览：按当前策略会被删除 / 归档的会话（不改动数据）
+ */
+export const previewRetention = (
+  groups: readonly TabGroup[],
+  policies: readonly RetentionPolicy[],
+  now: string
+): RetentionCandidate[] => {
+  const nowTime = toTime(now);
+  const candidates: RetentionCandidate[] = [];
+
+  for (const group of groups) {
+    if (group.isDeleted || group.isFavorite || group.isTemplate) continue;
+
+    const { rules, source } = getEffectiveRules(group, policies);
+    for (const rule of rules) {
+      if (!isRuleApplicable(group, rule)) continue;
+      const age = nowTime - getRetentionStartTime(group, rule.trigger);
+      if (age >= rule.days * DAY_MS) {
+        candidates.push({
+          group,
+          action: rule.action,
+          rule: { action: rule.action, trigger: rule.trigger, days: rule.days },
+          source,
+          ageDays: Math.floor(age / DAY_MS),
+        });
+        break;
+      }
+    }
+  }
+  return candidates;
+};
+
+/**
+ * 执行保留策略：返回新的会话列表（未改动的会话保持原引用）以及被删除 / 归档的会话。
+ */
+export const applyRetention = (
+  groups: TabGroup[],
+  policies: readonly RetentionPolicy[],
+  now: string
+): { groups: TabGroup[]; deleted: TabGroup[]; archived: TabGroup[] } => {
+  const actions = new Map(
+    previewRetention(groups, policies, now).map(candidate => [candidate.group.id, candidate.action])
+  );
+  if (actions.size === 0) return { groups, deleted: [], archived: [] };
+
+  const deleted: TabGroup[] = [];
+  const archived: TabGroup[] = [];
+  const next = groups.map(group => {
+    const action = actions.get(group.id);
+    if (!action) return group;
+
+    const updated: TabGroup = {
+      ...(action === 'delete' ? { ...group, isDeleted: true } : setGroupArchived(group, true, now)),
+      version: (group.version || 1) + 1,
+      updatedAt: now,
+    };
+    (action === 'delete' ? deleted : archived).push(updated);
+    return updated;
+  });
+
+  return { groups: next, deleted, archived };
+};
@@ -0,0 +1,114 @@
+/**
+ * 保存范围（save scope）：决定一次保存动作从哪些 Chrome 标签页里取数据。
+ *
+ * 这里只放纯函数——查询 chrome.tabs 的部分在 TabManager 中完成，
+ * 查询结果再交给 selectTabsForScope 做二次筛选，便于单测。
+ */
+export type SaveScope =
+  | 'current-window'
+  | 'other-tabs'
+  | 'highlighted'
+  | 'right-of-active'
+  | 'left-of-active'
+  | 'all-windows'
+  | 'all-windows-merged'
+  | 'domain';
+
+export const SAVE_SCOPE_LABELS: Record<SaveScope, string> = {
+  'current-window': '保存当前窗口的所有标签',
+  'other-tabs': '保存除当前标签以外的所有标签',
+  highlighted: '保存选中的标签',
+  'right-of-active': '保存右侧的标签',
+  'left-of-active': '保存左侧的标签',
+  'all-windows': '保存所有窗口（每个窗口一个会话）',
+  'all-windows-merged': '保存所有窗口（合并为一个会话）',
+  domain: '保存当前域名下的所有标签',
+};
+
+/**
+ * 跨窗口的保存范围：需要查询所有普通窗口，而不是只查当前窗口。
+ */
+export const isMultiWindowScope = (scope: SaveScope): boolean =>
+  scope === 'all-windows' || scope === 'all-windows-merged' || scope === 'domain';
+
+export interface SelectTabsForScopeOptions {
+  /** 当前窗口的活动标签页；other-tabs / left / right 依赖它定位 */
+  activeTab?: chrome.tabs.Tab;
+  /** domain 范围使用的域名（不含协议），如 github.com */
+  domain?: string;
+}
+
+/**
+ * 取 URL 的 hostname，并去掉前导 `www.`；无效 URL 返回 null。
+ */
+export const getTabHostname = (url?: string): string | null => {
+  if (!url) return null;
+  try {
+    const hostname = new URL(url).hostname.toLowerCase();
+    return hostname.replace(/^www\./, '') || null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 判断 URL 是否属于给定域名（含子域名：docs.github.com 属于 github.com）。
+ */
+export const matchesDomain = (url: string | undefined, domain: string): boolean => {
+  const hostname = getTabHostname(url);
+  const target = domain.trim().toLowerCase().replace(/^www\./, '');
+  if (!hostname || !target) return false;
+  return hostname === target || hostname.endsWith(`.${target}`);
+};
+
+export const selectTabsForScope = (
+  tabs: chrome.tabs.Tab[],
+  scope: SaveScope,
+  options: SelectTabsForScopeOptions = {}
+): chrome.tabs.Tab[] => {
+  const { activeTab, domain } = options;
+
+  switch (scope) {
+    case 'current-window':
+    case 'all-windows':
+    case 'all-windows-merged':
+      return tabs;
+
+    case 'other-tabs':
+      return activeTab?.id !== undefined ? tabs.filter(tab => tab.id !== activeTab.id) : tabs;
+
+    case 'highlighted':
+      return tabs.filter(tab => tab.highlighted);
+
+    case 'right-of-active':
+    case 'left-of-active': {
+      if (!activeTab) return [];
+      const sameWindow = tabs.filter(tab => tab.windowId === activeTab.windowId);
+      return scope === 'right-of-active'
+        ? sameWindow.filter(tab => tab.index > activeTab.index)
+        : sameWindow.filter(tab => tab.index < activeTab.index);
+    }
+
+    case 'domain':
+      return domain ? tabs.filter(tab => matchesDomain(tab.url, domain)) : [];
+
+    default:
+      return tabs;
+  }
+};
+
+/**
+ * 按窗口拆分标签页，保持窗口首次出现的顺序和窗口内的 index 顺序。
+ */
+export const groupTabsByWindow = (tabs: chrome.tabs.Tab[]): chrome.tabs.Tab[][] => {
+  const byWindow = new Map<number, chrome.tabs.Tab[]>();
+  tabs.forEach(tab => {
+    const bucket = byWindow.get(tab.windowId);
+    if (bucket) {
+      bucket.push(tab);
+    } else {
+      byWindow.set(tab.windowId, [tab]);
+    }
+  });
+  return [...byWindow.values()].map(bucket => [...bucket].sort((l, r) => l.index - r.index));
+};
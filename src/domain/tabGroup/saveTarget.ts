@@ -0,0 +1,114 @@
+import type { Tab, TabGroup } from '@/types/tab';
+
+/**
+ * 保存目标：把标签页追加到已有会话，而不是每次新建一个会话。
+ *
+ * 这里只放纯函数——读写 storage 与关闭标签页在 TabManager 中完成。
+ */
+
+/** 右键菜单「保存到会话」子菜单最多列出的会话数 */
+export const SAVE_TARGET_MENU_LIMIT = 10;
+
+/**
+ * 会话能否作为保存目标：已删除、已锁定或已归档的会话不接受新标签页
+ */
+export const canSaveIntoGroup = (group: TabGroup): boolean =>
+  !group.isDeleted && !group.isLocked && !group.isArchived;
+
+/**
+ * 解析收件箱会话：设置中记录的会话已被删除或锁定时视为未设置，回退到新建会话。
+ */
+export const resolveInboxGroup = (
+  groups: readonly TabGroup[],
+  inboxSessionId: string | null | undefined
+): TabGroup | undefined => {
+  if (!inboxSessionId) return undefined;
+  const group = groups.find(item => item.id === inboxSessionId);
+  return group && canSaveIntoGroup(group) ? group : undefined;
+};
+
+/**
+ * 列出可以追加的会话：收件箱排第一，其次是收藏，其余按最近更新时间倒序。
+ */
+export const selectSaveTargetGroups = (
+  groups: readonly TabGroup[],
+  options: { inboxSessionId?: string | null; limit?: number } = {}
+): TabGroup[] => {
+  const rank = (group: TabGroup) => {
+    if (group.id === options.inboxSessionId) return 0;
+    return group.isFavorite ? 1 : 2;
+  };
+
+  return groups
+    .filter(canSaveIntoGroup)
+    .sort((left, right) =>
+      rank(left) - rank(right) ||
+      Date.parse(right.updatedAt) - Date.parse(left.updatedAt)
+    )
+    .slice(0, options.limit ?? SAVE_TARGET_MENU_LIMIT);
+};
+
+/**
+ * 过滤掉会话中已有的 URL（以及本次输入里重复的 URL）；允许重复标签页时原样返回。
+ */
+export const dedupeIncomingTabs = (
+  existingTabs: readonly Tab[],
+  tabs: Tab[],
+  allowDuplicateTabs: boolean
+): Tab[] => {
+  if (allowDuplicateTabs) return tabs;
+  const seen = new Set(existingTabs.map(tab => tab.url));
+  return tabs.filter(tab => {
+    if (seen.has(tab.url)) return false;
+    seen.add(tab.url);
+    return true;
+  });
+};
+
+export type AppendTabsResult =
+  | {
+    status: 'appended';
+    groups: TabGroup[];
+    group: TabGroup;
+    addedCount: number;
+    /** 因会话中已存在而跳过的标签页数 */
+    duplicateCount: number;
+  }
+  | { status: 'not-found' }
+  | { status: 'locked'; group: TabGroup };
+
+/**
+ * 把标签页追加到指定会话末尾。
+ * 会话不存在（或已删除）、已锁定时不做修改，由调用方提示用户。
+ */
+export const appendTabsToGroup = (
+  groups: TabGroup[],
+  groupId: string,
+  tabs: Tab[],
+  options: { now: string; allowDuplicateTabs: boolean }
+): AppendTabsResult => {
+  const target = groups.find(group => group.id === groupId && !group.isDeleted);
+  if (!target) return { status: 'not-found' };
+  if (target.isLocked) return { status: 'locked', group: target };
+
+  const newTabs = dedupeIncomingTabs(target.tabs, tabs, options.allowDuplicateTabs);
+  const duplicateCount = tabs.length - newTabs.length;
+  if (newTabs.length === 0) {
+    return { status: 'appended', groups, group: target, addedCount: 0, duplicateCount };
+  }
+
+  const updated: TabGroup = {
+    ...target,
+    tabs: [...target.tabs, ...newTabs],
+    updatedAt: options.now,
+    version: (target.version || 1) + 1,
+  };
+
+  return {
+    status: 'appended',
+    groups: groups.map(group => (group.id === target.id ? updated : group)),
+    group: updated,
+    addedCount: newTabs.length,
+    duplicateCount,
+  };
+};
@@ -0,0 +1,106 @@
+import { nanoid } from '@reduxjs/toolkit';
+import type { SavedSearch, SearchFilters, Tab, TabGroup } from '@/types/tab';
+
+/**
+ * 保存的搜索（智能会话）：保存查询与筛选条件，列表中作为虚拟会话显示。
+ * 命中的标签页不复制，每次显示或打开时按当前会话重新搜索（由 utils/search 求值），
+ * 打开时只打开标签页，原会话保留（视同锁定会话）。结构保存在设置中，随设置同步。
+ */
+
+export const MAX_SAVED_SEARCH_NAME_LENGTH = 60;
+
+/** 智能会话的虚拟会话 id 前缀，避免与真实会话混淆 */
+export const SMART_SESSION_ID_PREFIX = 'smart:';
+
+export interface SmartSessionSource {
+  groupId: string;
+  tabIds: string[];
+}
+
+export interface SmartSession {
+  search: SavedSearch;
+  /** 由命中标签页组成的虚拟会话，可直接交给恢复逻辑打开 */
+  group: TabGroup;
+  /** 命中标签页所在的原会话，用于记录打开次数 */
+  sources: SmartSessionSource[];
+}
+
+export const normalizeSavedSearchName = (name: string): string =>
+  name.trim().replace(/\s+/g, ' ').slice(0, MAX_SAVED_SEARCH_NAME_LENGTH);
+
+// 去掉未设置的筛选项，避免同步后出现 "" / "all" 等等价值
+const compactSearchFilters = (filters: SearchFilters): SearchFilters => {
+  const compacted: SearchFilters = {};
+  if (filters.domain?.trim()) compacted.domain = filters.domain.trim();
+  if (filters.groupName?.trim()) compacted.groupName = filters.groupName.trim();
+  if (filters.pinned && filters.pinned !== 'all') compacted.pinned = filters.pinned;
+  if (filters.savedWithin) compacted.savedWithin = filters.savedWithin;
+  if (filters.restored) compacted.restored = filters.restored;
+  if (filters.sortBy && filters.sortBy !== 'relevance') compacted.sortBy = filters.sortBy;
+  return compacted;
+};
+
+/** 名称为空时用查询本身作为名称 */
+export const createSavedSearch = (
+  name: string,
+  query: string,
+  filters: SearchFilters = {},
+  now: string = new Date().toISOString()
+): SavedSearch => ({
+  id: nanoid(),
+  name: normalizeSavedSearchName(name) || normalizeSavedSearchName(query),
+  query: query.trim(),
+  filters: compactSearchFilters(filters),
+  createdAt: now,
+  updatedAt: now,
+});
+
+export const getActiveSavedSearches = (searches: readonly SavedSearch[] | undefined): SavedSearch[] =>
+  (searches ?? []).filter(search => !search.isDeleted);
+
+/** 软删除：保留记录，合并时避免另一台设备上的旧数据把它复活 */
+export const removeSavedSearch = (
+  searches: readonly SavedSearch[],
+  searchId: string,
+  now: string = new Date().toISOString()
+): SavedSearch[] =>
+  searches.map(search =>
+    search.id === searchId ? { ...search, isDeleted: true, updatedAt: now } : search
+  );
+
+/**
+ * 按搜索结果（已排序）组装智能会话。同一网址出现在多个会话中时只打开一次。
+ */
+export const buildSmartSession = (
+  search: SavedSearch,
+  matches: ReadonlyArray<{ tab: Tab; group: TabGroup }>
+): SmartSession => {
+  const seenUrls = new Set<string>();
+  const tabs: Tab[] = [];
+  const sources = new Map<string, string[]>();
+
+  for (const { tab, group } of matches) {
+    if (seenUrls.has(tab.url)) continue;
+    seenUrls.add(tab.url);
+    tabs.push(tab);
+    const tabIds = sources.get(group.id);
+    if (tabIds) {
+      tabIds.push(tab.id);
+    } else {
+      sources.set(group.id, [tab.id]);
+    }
+  }
+
+  return {
+    search,
+    group: {
+      id: `${SMART_SESSION_ID_PREFIX}${search.id}`,
+      name: search.name,
+      tabs,
+      createdAt: search.createdAt,
+      updatedAt: search.updatedAt,
+      isLocked: true,
+    },
+    sources: [...sources].map(([groupId, tabIds]) => ({ groupId, tabIds })),
+  };
+};
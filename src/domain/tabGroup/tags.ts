@@ -0,0 +1,161 @@
+import type { Tab, TabGroup } from '@/types/tab';
+
+/**
+ * 标签（tag）：会话和标签页都可以打上自由标签，标签页同时继承所在会话的标签。
+ *
+ * 标签不含空白与逗号（输入时空白转为 `-`），比较时不区分大小写，保存时保留首次输入的写法。
+ */
+
+/** 单个标签的长度上限 */
+export const MAX_TAG_LENGTH = 32;
+
+/**
+ * 规整单个标签：去掉首尾空白和开头的 `#`，中间空白转为 `-`；无效时返回空字符串
+ */
+export const normalizeTag = (raw: string): string =>
+  raw
+    .trim()
+    .replace(/^#+/, '')
+    .replace(/[\s,，、]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_TAG_LENGTH);
+
+export const isSameTag = (left: string, right: string): boolean =>
+  left.toLowerCase() === right.toLowerCase();
+
+export const hasTag = (tags: readonly string[] | undefined, tag: string): boolean =>
+  !!tags?.some(item => isSameTag(item, tag));
+
+/**
+ * 合并标签列表：规整、去重（不区分大小写，保留先出现的写法）
+ */
+export const mergeTags = (...lists: Array<readonly string[] | undefined>): string[] => {
+  const merged: string[] = [];
+  for (const list of lists) {
+    for (const raw of list ?? []) {
+      const tag = normalizeTag(raw);
+      if (tag && !hasTag(merged, tag)) {
+        merged.push(tag);
+      }
+    }
+  }
+  return merged;
+};
+
+/**
+ * 解析标签输入框：逗号（中英文）、顿号或空白分隔
+ */
+export const parseTagInput = (text: string): string[] => mergeTags(text.split(/[\s,，、]+/));
+
+export const formatTagInput = (tags: readonly string[] | undefined): string => (tags ?? []).join(', ');
+
+/**
+ * 校验导入 / 同步得到的标签字段；不是字符串数组或规整后为空时返回 undefined
+ */
+export const sanitizeTags = (raw: unknown): string[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  const tags = mergeTags(raw.filter((item): item is string => typeof item === 'string'));
+  return tags.length > 0 ? tags : undefined;
+};
+
+/**
+ * 空列表写为 undefined 而不是 `tags: []`：序列化时字段会被省略，
+ * 同时仍能在 `{ ...group, ...updates }` 式的合并中覆盖掉旧标签。
+ */
+const withTags = <T extends { tags?: string[] }>(item: T, tags: string[]): T => ({
+  ...item,
+  tags: tags.length > 0 ? tags : undefined,
+});
+
+export const setGroupTags = (group: TabGroup, tags: readonly string[]): TabGroup =>
+  withTags(group, mergeTags(tags));
+
+export const setTabTags = (tab: Tab, tags: readonly string[]): Tab =>
+  withTags(tab, mergeTags(tags));
+
+/** 标签页的有效标签：自身标签 + 继承自会话的标签 */
+export const getEffectiveTabTags = (tab: Tab, group: TabGroup): string[] => mergeTags(tab.tags, group.tags);
+
+export const tabHasTag = (tab: Tab, group: TabGroup, tag: string): boolean =>
+  hasTag(tab.tags, tag) || hasTag(group.tags, tag);
+
+/** 会话本身或其中任一标签页带有该标签 */
+export const groupHasTag = (group: TabGroup, tag: string): boolean =>
+  hasTag(group.tags, tag) || group.tabs.some(tab => hasTag(tab.tags, tag));
+
+export const filterGroupsByTag = (groups: TabGroup[], tag: string | null | undefined): TabGroup[] =>
+  tag ? groups.filter(group => groupHasTag(group, tag)) : groups;
+
+export interface TagCount {
+  tag: string;
+  /** 含有该标签的会话数 */
+  count: number;
+}
+
+/**
+ * 统计所有标签及其出现的会话数，按数量降序、名称升序
+ */
+export const collectTagCounts = (groups: TabGroup[]): TagCount[] => {
+  const counts = new Map<string, TagCount>();
+  for (const group of groups) {
+    if (group.isDeleted) continue;
+    for (const tag of mergeTags(group.tags, ...group.tabs.map(tab => tab.tags))) {
+      const key = tag.toLowerCase();
+      const existing = counts.get(key);
+      if (existing) {
+        existing.count += 1;
+      } else {
+        counts.set(key, { tag, count: 1 });
+      }
+    }
+  }
+  return [...counts.values()].sort((left, right) =>
+    right.count - left.count || left.tag.localeCompare(right.tag)
+  );
+};
+
+/**
+ * 批量标签编辑：
+ * - rename：所有会话与标签页中的标签改名（与已有标签重名时合并）
+ * - remove：从所有会话与标签页中移除标签
+ * - add-to-tabs：为指定的标签页（groupId → tabIds）添加标签
+ */
+export type TagEdit =
+  | { type: 'rename'; from: string; to: string }
+  | { type: 'remove'; tag: string }
+  | { type: 'add-to-tabs'; targets: Record<string, string[]>; tags: string[] };
+
+const replaceTag = (tags: string[] | undefined, edit: Extract<TagEdit, { type: 'rename' | 'remove' }>): string[] | null => {
+  const target = edit.type === 'rename' ? edit.from : edit.tag;
+  if (!tags || !hasTag(tags, target)) return null;
+  return edit.type === 'rename'
+    ? mergeTags(tags.map(tag => (isSameTag(tag, target) ? edit.to : tag)))
+    : tags.filter(tag => !isSameTag(tag, target));
+};
+
+const editTab = (tab: Tab, groupId: string, edit: TagEdit): Tab => {
+  if (edit.type === 'add-to-tabs') {
+    if (!edit.targets[groupId]?.includes(tab.id)) return tab;
+    const tags = mergeTags(tab.tags, edit.tags);
+    return tags.length === (tab.tags?.length ?? 0) ? tab : setTabTags(tab, tags);
+  }
+  const tags = replaceTag(tab.tags, edit);
+  return tags ? setTabTags(tab, tags) : tab;
+};
+
+/**
+ * 应用批量标签编辑。返回与输入等长的数组：未改动的会话保持原引用，
+ * 调用方据此只为改动的会话递增版本号。已删除的会话不处理。
+ */
+export const applyTagEdit = (groups: TabGroup[], edit: TagEdit): TabGroup[] =>
+  groups.map(group => {
+    if (group.isDeleted) return group;
+
+    const groupTags = edit.type === 'add-to-tabs' ? null : replaceTag(group.tags, edit);
+    const tabs = group.tabs.map(tab => editTab(tab, group.id, edit));
+    const tabsChanged = tabs.some((tab, index) => tab !== group.tabs[index]);
+
+    if (!groupTags && !tabsChanged) return group;
+    const updated = tabsChanged ? { ...group, tabs } : group;
+    return groupTags ? setGroupTags(updated, groupTags) : updated;
+  });
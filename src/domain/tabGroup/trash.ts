@@ -0,0 +1,152 @@
+import { nanoid } from '@reduxjs/toolkit';
+import type { DeletedGroupEntry, DeletedTabEntry, Tab, TabGroup } from '@/types/tab';
+
+/**
+ * 回收站：用户删除的会话与标签页在本设备保留 30 天，可以恢复到原来的会话和位置。
+ *
+ * 会话的软删除标记（isDeleted）在同步下载合并后就会从本地消失，
+ * 所以回收站单独保存删除前的快照，不依赖本地是否还留着墓碑。
+ * 恢复的会话版本号高于墓碑，并由 SyncEngine 撤销云端的 pending_delete，其他设备才能重新下载到。
+ */
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 去掉超过保留期限的项 */
+export const purgeExpiredTrash = <T extends { deletedAt: string }>(
+  entries: readonly T[],
+  now: string,
+  days: number = TRASH_RETENTION_DAYS
+): T[] => {
+  const cutoff = new Date(now).getTime() - days * DAY_MS;
+  return entries.filter(entry => {
+    const deletedAt = new Date(entry.deletedAt).getTime();
+    return Number.isNaN(deletedAt) || deletedAt > cutoff;
+  });
+};
+
+/** 把删除的会话放进回收站（最近删除的在前；同一会话只保留最新的快照） */
+export const addGroupsToTrash = (
+  entries: readonly DeletedGroupEntry[],
+  groups: readonly TabGroup[],
+  now: string
+): DeletedGroupEntry[] => {
+  const ids = new Set(groups.map(group => group.id));
+  return [
+    ...groups.map(group => ({ group, deletedAt: now })),
+    ...purgeExpiredTrash(entries, now).filter(entry => !ids.has(entry.group.id)),
+  ];
+};
+
+/** 把会话中删除的标签页放进回收站，记录各自的原位置 */
+export const addTabsToTrash = (
+  entries: readonly DeletedTabEntry[],
+  group: TabGroup,
+  tabIds: readonly string[],
+  now: string
+): DeletedTabEntry[] => {
+  const removed = new Set(tabIds);
+  const added: DeletedTabEntry[] = [];
+  group.tabs.forEach((tab, index) => {
+    if (removed.has(tab.id)) {
+      added.push({ tab, groupId: group.id, groupName: group.name, index, deletedAt: now });
+    }
+  });
+  return [
+    ...added,
+    ...purgeExpiredTrash(entries, now).filter(entry => !removed.has(entry.tab.id)),
+  ];
+};
+
+/**
+ * 恢复回收站中的会话：本地还有墓碑时原地替换，否则追加。
+ * 版本号取快照与墓碑中较大者再加 1，合并时不会被云端的删除覆盖。
+ * 同 id 的会话已经存在（例如其他设备先恢复了）时不改动。
+ */
+export const restoreTrashedGroup = (
+  groups: readonly TabGroup[],
+  entry: DeletedGroupEntry,
+  now: string
+): { groups: TabGroup[]; restored: TabGroup } => {
+  const existing = groups.find(group => group.id === entry.group.id);
+  if (existing && !existing.isDeleted) {
+    return { groups: [...groups], restored: existing };
+  }
+
+  const restored: TabGroup = {
+    ...entry.group,
+    isDeleted: false,
+    version: Math.max(entry.group.version || 1, existing?.version || 1) + 1,
+    updatedAt: now,
+  };
+  return {
+    groups: existing
+      ? groups.map(group => (group.id === restored.id ? restored : group))
+      : [...groups, restored],
+    restored,
+  };
+};
+
+/** 按原位置把标签页插回（位置超出时放到末尾，已存在的标签页跳过） */
+const insertTabs = (tabs: readonly Tab[], entries: readonly DeletedTabEntry[]): Tab[] => {
+  const next = [...tabs];
+  const existingIds = new Set(tabs.map(tab => tab.id));
+  [...entries]
+    .sort((left, right) => left.index - right.index)
+    .forEach(entry => {
+      if (existingIds.has(entry.tab.id)) return;
+      next.splice(Math.min(entry.index, next.length), 0, entry.tab);
+      existingIds.add(entry.tab.id);
+    });
+  return next;
+};
+
+/**
+ * 恢复回收站中的标签页，放回原会话的原位置。
+ * 原会话只剩本地墓碑时一并恢复（revivedIds）；墓碑也不在了则按原名称新建会话。
+ */
+export const restoreTrashedTabs = (
+  groups: readonly TabGroup[],
+  entries: readonly DeletedTabEntry[],
+  now: string
+): { groups: TabGroup[]; updated: TabGroup[]; revivedIds: string[] } => {
+  const byGroup = new Map<string, DeletedTabEntry[]>();
+  for (const entry of entries) {
+    byGroup.set(entry.groupId, [...(byGroup.get(entry.groupId) ?? []), entry]);
+  }
+
+  let next = [...groups];
+  const updated: TabGroup[] = [];
+  const revivedIds: string[] = [];
+
+  for (const [groupId, groupEntries] of byGroup) {
+    const target = next.find(group => group.id === groupId);
+    if (target) {
+      const group: TabGroup = {
+        ...target,
+        tabs: insertTabs(target.tabs, groupEntries),
+        isDeleted: false,
+        version: (target.version || 1) + 1,
+        updatedAt: now,
+      };
+      if (target.isDeleted) revivedIds.push(groupId);
+      next = next.map(item => (item.id === groupId ? group : item));
+      updated.push(group);
+    } else {
+      const group: TabGroup = {
+        id: nanoid(),
+        name: groupEntries[0].groupName,
+        tabs: insertTabs([], groupEntries),
+        createdAt: now,
+        updatedAt: now,
+        isLocked: false,
+        version: 1,
+      };
+      next = [group, ...next];
+      updated.push(group);
+    }
+  }
+
+  return { groups: next, updated, revivedIds };
+};
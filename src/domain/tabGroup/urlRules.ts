@@ -0,0 +1,205 @@
+import { nanoid } from '@reduxjs/toolkit';
+import type { UrlRule, UrlRuleAction, UrlRulePatternType } from '@/types/tab';
+
+/**
+ * URL 规则引擎：用户用 glob 或正则描述一类 URL，并指定处理方式。
+ *
+ * - never-save：保存时跳过（标签页保持打开），定时快照与浏览会话记录也不包含；
+ * - always-pin：恢复时一律作为固定标签页打开；
+ * - skip-auto-collect：闲置标签页归档不会收集它。
+ *
+ * 这里只放纯函数，规则由 filterValidTabs / createTabGroupFromChromeTabs / TabManager 消费。
+ */
+export const URL_RULE_ACTIONS: UrlRuleAction[] = ['never-save', 'always-pin', 'skip-auto-collect'];
+
+export const URL_RULE_ACTION_LABELS: Record<UrlRuleAction, string> = {
+  'never-save': '永不保存',
+  'always-pin': '恢复时固定',
+  'skip-auto-collect': '不自动收集',
+};
+
+export const URL_RULE_PATTERN_TYPES: UrlRulePatternType[] = ['glob', 'regex'];
+
+export const URL_RULE_PATTERN_TYPE_LABELS: Record<UrlRulePatternType, string> = {
+  glob: '通配符',
+  regex: '正则',
+};
+
+export const isUrlRuleAction = (value: unknown): value is UrlRuleAction =>
+  typeof value === 'string' && (URL_RULE_ACTIONS as string[]).includes(value);
+
+export const isUrlRulePatternType = (value: unknown): value is UrlRulePatternType =>
+  typeof value === 'string' && (URL_RULE_PATTERN_TYPES as string[]).includes(value);
+
+/**
+ * glob 转正则：`*` 匹配任意字符，`?` 匹配单个字符，其余按字面匹配，不区分大小写。
+ */
+export const globToRegExp = (glob: string): RegExp => {
+  const source = glob
+    .split('')
+    .map(char => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\/]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+};
+
+const compiledPatterns = new Map<string, RegExp | null>();
+
+const compilePattern = (pattern: string, patternType: UrlRulePatternType): RegExp | null => {
+  const key = `${patternType}\u0000${pattern}`;
+  if (!compiledPatterns.has(key)) {
+    let compiled: RegExp | null;
+    try {
+      compiled = patternType === 'regex' ? new RegExp(pattern, 'i') : globToRegExp(pattern);
+    } catch {
+      compiled = null;
+    }
+    compiledPatterns.set(key, compiled);
+  }
+  return compiledPatterns.get(key) ?? null;
+};
+
+/**
+ * 校验规则的匹配模式，返回错误说明；合法时返回 null。
+ */
+export const validateUrlRulePattern = (pattern: string, patternType: UrlRulePatternType): string | null => {
+  if (!pattern.trim()) {
+    return '匹配模式不能为空';
+  }
+  if (patternType === 'regex') {
+    try {
+      new RegExp(pattern, 'i');
+    } catch (error) {
+      return `正则表达式无效：${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+  return null;
+};
+
+/**
+ * 判断 URL 是否命中规则。
+ * 不含 `://` 的 glob（如 `*.example.com/*`）匹配去掉协议后的部分，便于同时覆盖 http 与 https；
+ * 正则在完整 URL 上查找，需要整串匹配时自行加 `^` / `$`。
+ */
+export const matchesUrlRule = (url: string | undefined, rule: Pick<UrlRule, 'pattern' | 'patternType'>): boolean => {
+  if (!url) return false;
+  const pattern = rule.pattern.trim();
+  const compiled = compilePattern(pattern, rule.patternType);
+  if (!compiled) return false;
+
+  if (rule.patternType === 'glob' && !pattern.includes('://')) {
+    return compiled.test(url.replace(/^[a-z][a-z0-9+.-]*:\/\//i, ''));
+  }
+  return compiled.test(url);
+};
+
+/**
+ * URL 是否命中任一启用中、动作为 action 的规则
+ */
+export const hasUrlRuleAction = (
+  url: string | undefined,
+  rules: readonly UrlRule[] | undefined,
+  action: UrlRuleAction
+): boolean =>
+  !!rules?.some(rule => rule.enabled && rule.action === action && matchesUrlRule(url, rule));
+
+/**
+ * 恢复前应用 always-pin 规则：命中的标签页改为固定打开，其余保持原样。
+ */
+export const applyAlwaysPinRules = <T extends { url: string; pinned?: boolean }>(
+  tabs: T[],
+  rules: readonly UrlRule[] | undefined
+): T[] =>
+  tabs.map(tab =>
+    !tab.pinned && hasUrlRuleAction(tab.url, rules, 'always-pin') ? { ...tab, pinned: true } : tab
+  );
+
+export const createUrlRule = (
+  input: Pick<UrlRule, 'pattern' | 'patternType' | 'action'> & { enabled?: boolean }
+): UrlRule => ({
+  id: nanoid(),
+  pattern: input.pattern.trim(),
+  patternType: input.patternType,
+  action: input.action,
+  enabled: input.enabled ?? true,
+});
+
+export const URL_RULES_EXPORT_FORMAT = 'tabstack-url-rules';
+
+export interface UrlRulesExport {
+  format: typeof URL_RULES_EXPORT_FORMAT;
+  version: 1;
+  exportedAt: string;
+  rules: Array<Omit<UrlRule, 'id'>>;
+}
+
+/**
+ * 导出规则集（不含本地 id），供团队成员导入共享
+ */
+export const buildUrlRulesExport = (rules: readonly UrlRule[], now: string): UrlRulesExport => ({
+  format: URL_RULES_EXPORT_FORMAT,
+  version: 1,
+  exportedAt: now,
+  rules: rules.map(({ pattern, patternType, action, enabled }) => ({ pattern, patternType, action, enabled })),
+});
+
+/**
+ * 解析导入的规则集：接受导出文件或直接的规则数组，无效条目计入 skipped。
+ * 非对象 / 缺少 rules 数组时抛出错误。
+ */
+export const parseUrlRulesImport = (data: unknown): { rules: UrlRule[]; skipped: number } => {
+  const entries = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' && Array.isArray((data as { rules?: unknown }).rules)
+      ? (data as { rules: unknown[] }).rules
+      : null;
+
+  if (!entries) {
+    throw new Error('文件中没有找到规则列表');
+  }
+
+  const rules: UrlRule[] = [];
+  let skipped = 0;
+  entries.forEach(entry => {
+    const candidate = (entry ?? {}) as Partial<UrlRule>;
+    const patternType = candidate.patternType ?? 'glob';
+    if (
+      typeof candidate.pattern !== 'string' ||
+      !isUrlRulePatternType(patternType) ||
+      !isUrlRuleAction(candidate.action) ||
+      validateUrlRulePattern(candidate.pattern, patternType) !== null
+    ) {
+      skipped += 1;
+      return;
+    }
+    rules.push(createUrlRule({
+      pattern: candidate.pattern,
+      patternType,
+      action: candidate.action,
+      enabled: candidate.enabled !== false,
+    }));
+  });
+
+  return { rules, skipped };
+};
+
+/**
+ * 把导入的规则合并进现有规则：模式、类型、动作都相同的视为重复并跳过。
+ */
+export const mergeUrlRules = (
+  existing: readonly UrlRule[],
+  incoming: readonly UrlRule[]
+): { rules: UrlRule[]; addedCount: number } => {
+  const keyOf = (rule: UrlRule) => `${rule.patternType}\u0000${rule.action}\u0000${rule.pattern}`;
+  const keys = new Set(existing.map(keyOf));
+  const added = incoming.filter(rule => {
+    const key = keyOf(rule);
+    if (keys.has(key)) return false;
+    keys.add(key);
+    return true;
+  });
+  return { rules: [...existing, ...added], addedCount: added.length };
+};
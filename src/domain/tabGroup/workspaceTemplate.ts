@@ -0,0 +1,122 @@
+import { nanoid } from '@reduxjs/toolkit';
+import type { Tab, TabGroup } from '@/types/tab';
+import { isSafeUrl } from './filters';
+import { deriveLinkTitle } from './linkCapture';
+
+/**
+ * 工作区模板：标记为模板的会话恢复时不会被消耗（不删除会话、不移除标签页），
+ * URL 中可以写 `{ticket}` 这样的占位变量，启动时由用户填写。
+ *
+ * 从浏览器保存的标签页里，花括号会被编码成 `%7B` / `%7D`，同样视为占位变量。
+ */
+const TEMPLATE_VARIABLE_PATTERN = /(?:\{|%7B)([\p{L}\p{N}_-]+)(?:\}|%7D)/giu;
+
+/** 校验模板 URL 时代入的示例值 */
+const SAMPLE_VARIABLE_VALUE = 'value';
+
+/**
+ * 会话在恢复后是否应被移除：锁定的会话和工作区模板都保留
+ */
+export const isConsumedOnRestore = (group: Pick<TabGroup, 'isLocked' | 'isTemplate'>): boolean =>
+  !group.isLocked && !group.isTemplate;
+
+/**
+ * 按出现顺序列出 URL 中的占位变量（去重）
+ */
+export const extractTemplateVariables = (urls: readonly string[]): string[] => {
+  const names = new Set<string>();
+  urls.forEach(url => {
+    for (const match of url.matchAll(TEMPLATE_VARIABLE_PATTERN)) {
+      names.add(match[1]);
+    }
+  });
+  return [...names];
+};
+
+export const extractGroupTemplateVariables = (group: Pick<TabGroup, 'tabs'>): string[] =>
+  extractTemplateVariables(group.tabs.map(tab => tab.url));
+
+/**
+ * 把占位变量替换为填写的值（按 URL 组件编码）；没有提供值的变量保持原样
+ */
+export const fillTemplateUrl = (url: string, values: Readonly<Record<string, string>>): string =>
+  url.replace(TEMPLATE_VARIABLE_PATTERN, (placeholder, name: string) => {
+    const value = values[name]?.trim();
+    return value ? encodeURIComponent(value) : placeholder;
+  });
+
+/**
+ * 还没有填写的变量名
+ */
+export const findMissingTemplateValues = (
+  variables: readonly string[],
+  values: Readonly<Record<string, string>>
+): string[] => variables.filter(name => !values[name]?.trim());
+
+/**
+ * 代入变量值后得到要打开的会话副本；模板本身不做修改。
+ */
+export const fillWorkspaceTemplate = <T extends Pick<TabGroup, 'tabs'>>(
+  group: T,
+  values: Readonly<Record<string, string>>
+): T => ({
+  ...group,
+  tabs: group.tabs.map(tab => ({ ...tab, url: fillTemplateUrl(tab.url, values) })),
+});
+
+/**
+ * 可启动的工作区模板，按名称排序
+ */
+export const selectWorkspaceTemplates = (groups: readonly TabGroup[]): TabGroup[] =>
+  groups
+    .filter(group => group.isTemplate && !group.isDeleted && !group.isArchived && group.tabs.length > 0)
+    .sort((left, right) => left.name.localeCompare(right.name, 'zh-CN'));
+
+/**
+ * 校验模板 URL：代入示例值后必须是 http(s) 链接。返回错误说明，合法时返回 null。
+ */
+export const validateTemplateUrl = (url: string): string | null => {
+  const sample = Object.fromEntries(
+    extractTemplateVariables([url]).map(name => [name, SAMPLE_VARIABLE_VALUE])
+  );
+  return isSafeUrl(fillTemplateUrl(url, sample)) ? null : `不是有效的 http(s) 链接：${url}`;
+};
+
+/**
+ * 模板链接编辑器的文本：每行一个 URL
+ */
+export const formatTemplateUrlList = (tabs: readonly Tab[]): string =>
+  tabs.map(tab => tab.url).join('\n');
+
+/**
+ * 解析编辑后的链接列表（每行一个 URL，空行忽略）。
+ * 未改动的 URL 沿用原标签页（保留标题、图标），新增的 URL 生成新标签页。
+ */
+export const parseTemplateUrlList = (
+  text: string,
+  existingTabs: readonly Tab[],
+  now: string
+): { tabs: Tab[]; errors: string[] } => {
+  const urls = text.split('\n').map(line => line.trim()).filter(Boolean);
+  const errors = urls.map(validateTemplateUrl).filter((error): error is string => error !== null);
+  if (errors.length > 0) {
+    return { tabs: [], errors };
+  }
+
+  const existingByUrl = new Map(existingTabs.map(tab => [tab.url, tab]));
+  const seen = new Set<string>();
+  const tabs = urls.flatMap(url => {
+    if (seen.has(url)) return [];
+    seen.add(url);
+    return [existingByUrl.get(url) ?? {
+      id: nanoid(),
+      url,
+      title: deriveLinkTitle(url),
+      createdAt: now,
+      lastAccessed: now,
+      pinned: false,
+    }];
+  });
+
+  return { tabs, errors: [] };
+};
@@ -101,5 +101,16 @@ export const COMMON_SHORTCUTS = {
     key: 'd',
     ctrlKey: true,
     description: '清理重复标签'
+  },
+  UNDO: {
+    key: 'z',
+    ctrlKey: true,
+    description: '撤销上一步会话编辑'
+  },
+  REDO: {
+    key: 'z',
+    ctrlKey: true,
+    shiftKey: true,
+    description: '重做'
   }
 } as const;
@@ -0,0 +1,76 @@
+import { useCallback, useMemo } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { saveSettings, syncSettingsToCloud, updateSettings } from '@/store/slices/settingsSlice';
+import { recordTabRestores } from '@/store/slices/tabSlice';
+import { selectGroups, selectSavedSearches } from '@/store/selectors/tabSelectors';
+import {
+  buildSmartSession,
+  createSavedSearch,
+  getActiveSavedSearches,
+  removeSavedSearch,
+  type SmartSession,
+} from '@/domain/tabGroup';
+import { searchSessions } from '@/utils/search';
+import type { SavedSearch, SearchFilters } from '@/types/tab';
+
+const NO_SAVED_SEARCHES: SavedSearch[] = [];
+
+/**
+ * 保存的搜索 Hook：搜索条件写入设置并同步到云端。
+ */
+export function useSavedSearches() {
+  const dispatch = useAppDispatch();
+  const savedSearches = useAppSelector(selectSavedSearches) ?? NO_SAVED_SEARCHES;
+
+  const activeSearches = useMemo(() => getActiveSavedSearches(savedSearches), [savedSearches]);
+
+  const saveSearches = useCallback((nextSearches: SavedSearch[]) => {
+    dispatch(updateSettings({ savedSearches: nextSearches }));
+    void dispatch(saveSettings() as any).then(() => dispatch(syncSettingsToCloud() as any));
+  }, [dispatch]);
+
+  const saveSearch = useCallback((name: string, query: string, filters: SearchFilters): SavedSearch => {
+    const search = createSavedSearch(name, query, filters);
+    saveSearches([...savedSearches, search]);
+    return search;
+  }, [savedSearches, saveSearches]);
+
+  const deleteSearch = useCallback((searchId: string) => {
+    saveSearches(removeSavedSearch(savedSearches, searchId));
+  }, [savedSearches, saveSearches]);
+
+  return {
+    savedSearches: activeSearches,
+    saveSearch,
+    deleteSearch,
+  };
+}
+
+/**
+ * 智能会话：每个保存的搜索随会话变化实时重新搜索，数量即打开时会打开的标签页数。
+ */
+export function useSmartSessions() {
+  const dispatch = useAppDispatch();
+  const groups = useAppSelector(selectGroups);
+  const { savedSearches, deleteSearch } = useSavedSearches();
+
+  const smartSessions = useMemo<SmartSession[]>(
+    () =>
+      savedSearches.map(search =>
+        buildSmartSession(
+          search,
+          searchSessions(groups, search.query, search.filters).flatMap(session => session.matches)
+        )
+      ),
+    [savedSearches, groups]
+  );
+
+  // 打开智能会话后，在各个原会话上记录打开次数（原会话不会被移除）
+  const recordSmartSessionRestore = useCallback((session: SmartSession) => {
+    session.sources.forEach(({ groupId, tabIds }) => {
+      void dispatch(recordTabRestores({ groupId, tabIds }));
+    });
+  }, [dispatch]);
+
+  return { smartSessions, deleteSearch, recordSmartSessionRestore };
+}
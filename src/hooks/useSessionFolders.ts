@@ -0,0 +1,83 @@
+import { useCallback } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { saveSettings, syncSettingsToCloud, updateSettings } from '@/store/slices/settingsSlice';
+import { moveGroupsToFolder } from '@/store/slices/tabSlice';
+import { selectCollapsedFolderIds, selectGroups, selectSessionFolders } from '@/store/selectors/tabSelectors';
+import {
+  canMoveFolder,
+  createSessionFolder,
+  getFolderDepth,
+  getGroupsInFolder,
+  MAX_FOLDER_DEPTH,
+  moveSessionFolder,
+  removeSessionFolder,
+  renameSessionFolder,
+} from '@/domain/tabGroup';
+import type { SessionFolder } from '@/types/tab';
+
+/**
+ * 会话文件夹操作 Hook：文件夹结构写入设置并同步到云端，
+ * 会话的归属通过 moveGroupsToFolder 写入会话本身（随会话同步）。
+ * 折叠状态只保存在本设备。
+ */
+export function useSessionFolders() {
+  const dispatch = useAppDispatch();
+  const folders = useAppSelector(selectSessionFolders) ?? [];
+  const collapsedFolderIds = useAppSelector(selectCollapsedFolderIds) ?? [];
+  const groups = useAppSelector(selectGroups);
+
+  const saveFolders = useCallback((sessionFolders: SessionFolder[]) => {
+    dispatch(updateSettings({ sessionFolders }));
+    void dispatch(saveSettings() as any).then(() => dispatch(syncSettingsToCloud() as any));
+  }, [dispatch]);
+
+  const createFolder = useCallback((name: string, parentId?: string): SessionFolder | null => {
+    if (getFolderDepth(folders, parentId) >= MAX_FOLDER_DEPTH) return null;
+    const folder = createSessionFolder(name, parentId);
+    saveFolders([...folders, folder]);
+    return folder;
+  }, [folders, saveFolders]);
+
+  const renameFolder = useCallback((folderId: string, name: string) => {
+    saveFolders(renameSessionFolder(folders, folderId, name));
+  }, [folders, saveFolders]);
+
+  const moveFolder = useCallback((folderId: string, parentId: string | undefined): boolean => {
+    if (!canMoveFolder(folders, folderId, parentId)) return false;
+    saveFolders(moveSessionFolder(folders, folderId, parentId));
+    return true;
+  }, [folders, saveFolders]);
+
+  // 删除文件夹：其中的会话和下级文件夹移到上一级，会话本身不删除
+  const deleteFolder = useCallback(async (folderId: string) => {
+    const { folders: nextFolders, parentId } = removeSessionFolder(folders, folderId);
+    const groupIds = getGroupsInFolder(groups, folderId).map(group => group.id);
+    if (groupIds.length > 0) {
+      await dispatch(moveGroupsToFolder({ groupIds, folderId: parentId }));
+    }
+    saveFolders(nextFolders);
+  }, [dispatch, folders, groups, saveFolders]);
+
+  const moveGroup = useCallback((groupId: string, folderId: string | undefined) => {
+    return dispatch(moveGroupsToFolder({ groupIds: [groupId], folderId }));
+  }, [dispatch]);
+
+  const toggleCollapsed = useCallback((folderId: string) => {
+    const next = collapsedFolderIds.includes(folderId)
+      ? collapsedFolderIds.filter(id => id !== folderId)
+      : [...collapsedFolderIds, folderId];
+    dispatch(updateSettings({ collapsedFolderIds: next }));
+    void dispatch(saveSettings() as any);
+  }, [collapsedFolderIds, dispatch]);
+
+  return {
+    folders,
+    collapsedFolderIds,
+    createFolder,
+    renameFolder,
+    moveFolder,
+    deleteFolder,
+    moveGroup,
+    toggleCollapsed,
+  };
+}
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { loadHistory, redoChange, undoChange } from '@/store/slices/historySlice';
+import { useToast } from '@/contexts/ToastContext';
+
+/**
+ * 撤销 / 重做 Hook：挂载时加载保存的历史，执行后用 toast 提示撤销了哪一步，
+ * toast 上可以直接重做 / 再次撤销。同一时间只执行一步。
+ */
+export function useUndoRedo() {
+  const dispatch = useAppDispatch();
+  const { showToast } = useToast();
+  const canUndo = useAppSelector(state => state.history.past.length > 0);
+  const canRedo = useAppSelector(state => state.history.future.length > 0);
+  const busyRef = useRef(false);
+
+  useEffect(() => {
+    void dispatch(loadHistory());
+  }, [dispatch]);
+
+  const run = useCallback(async (direction: 'undo' | 'redo'): Promise<void> => {
+    if (busyRef.current) return;
+    busyRef.current = true;
+    const isUndo = direction === 'undo';
+    try {
+      const result = await dispatch(isUndo ? undoChange() : redoChange()).unwrap();
+      if (!result) {
+        showToast(isUndo ? '没有可撤销的操作' : '没有可重做的操作', 'info');
+        return;
+      }
+      showToast({
+        message: `${isUndo ? '已撤销' : '已重做'}：${result.entry.label}`,
+        type: 'success',
+        action: {
+          label: isUndo ? '重做' : '撤销',
+          onClick: () => void run(isUndo ? 'redo' : 'undo'),
+        },
+      });
+    } catch (error) {
+      showToast(`${isUndo ? '撤销' : '重做'}失败：${(error as Error).message || '未知错误'}`, 'error');
+    } finally {
+      busyRef.current = false;
+    }
+  }, [dispatch, showToast]);
+
+  const undo = useCallback(() => run('undo'), [run]);
+  const redo = useCallback(() => run('redo'), [run]);
+
+  return { undo, redo, canUndo, canRedo };
+}
@@ -0,0 +1,55 @@
+import { useCallback, useState } from 'react';
+import { extractGroupTemplateVariables, fillWorkspaceTemplate } from '@/domain/tabGroup';
+import type { TabGroup } from '@/types/tab';
+
+/**
+ * 工作区模板启动 Hook：模板 URL 含 `{变量}` 时先弹出填写对话框，填好后再打开。
+ *
+ * 用法（FavoriteStrip 简化）：
+ *   const { launch, dialogProps } = useWorkspaceLaunch<{ lazy: boolean }>((group, { lazy }) => {
+ *     chrome.runtime.sendMessage(buildOpenSessionMessage(group, { lazy }));
+ *   });
+ *   launch(group, { lazy });
+ *   <WorkspaceLaunchDialog {...dialogProps} />
+ *
+ * - 不是模板或没有变量的会话直接调用 onLaunch（普通会话里恰好带 `%7B…%7D` 的 URL 不受影响）；
+ * - onLaunch 收到的是代入变量后的副本，模板本身不变；
+ * - context 为点击时确定的恢复参数（位置、延迟加载等），原样传回 onLaunch。
+ *   只打开单个标签页时，传入只含该标签页的会话视图即可。
+ */
+
+export interface WorkspaceLaunchRequest<T> {
+  group: TabGroup;
+  variables: string[];
+  context: T;
+}
+
+export interface WorkspaceLaunchDialogProps {
+  request: { group: TabGroup; variables: string[] } | null;
+  onConfirm: (values: Record<string, string>) => void;
+  onCancel: () => void;
+}
+
+export function useWorkspaceLaunch<T>(onLaunch: (group: TabGroup, context: T) => void) {
+  const [pending, setPending] = useState<WorkspaceLaunchRequest<T> | null>(null);
+
+  const launch = useCallback((group: TabGroup, context: T) => {
+    const variables = group.isTemplate ? extractGroupTemplateVariables(group) : [];
+    if (variables.length === 0) {
+      onLaunch(group, context);
+      return;
+    }
+    setPending({ group, variables, context });
+  }, [onLaunch]);
+
+  const onConfirm = useCallback((values: Record<string, string>) => {
+    if (!pending) return;
+    setPending(null);
+    onLaunch(fillWorkspaceTemplate(pending.group, values), pending.context);
+  }, [onLaunch, pending]);
+
+  const onCancel = useCallback(() => setPending(null), []);
+
+  const dialogProps: WorkspaceLaunchDialogProps = { request: pending, onConfirm, onCancel };
+  return { launch, dialogProps };
+}
@@ -8,7 +8,7 @@ import { initStorage } from '@/storage/storageAdapter';
 import { storage } from '@/utils/storage';
 import { initialTabState } from '@/store/slices/tabSlice';
 import { decideTabsHydration, buildTabsPreloadedState } from '@/utils/hydrationDecision';
-import { benchmarkStorageRoundtrip, seedLargeDataset } from '@/utils/performanceTest';
+import { benchmarkSearchIndex, benchmarkStorageRoundtrip, seedLargeDataset } from '@/utils/performanceTest';
 
 /**
  * 在 createRoot 之前先 await 把 local 数据塞进 preloadedState，
@@ -32,6 +32,9 @@ async function bootstrap() {
     // 决定是否固化）。这是「单源化」入口：bootstrap 路径只发一次「读盘意图」，
     // 内部 cachedAsyncFn 还会做内存命中。
     const { groups, settings } = await storage.hydrateAll();
+    // 搜索索引在后台载入，首次搜索前载入完成时只需核对摘要
+    void storage.loadSearchIndex();
+    void storage.loadPageContents();
 
     const decision = decideTabsHydration({ groups, now: new Date().toISOString() });
     const tabsPreload = buildTabsPreloadedState(decision);
@@ -71,6 +74,7 @@ async function bootstrap() {
   if (import.meta.env.DEV && typeof window !== 'undefined') {
     (window as any).__TV_BENCH__ = {
       benchmarkStorageRoundtrip,
+      benchmarkSearchIndex,
       seedLargeDataset
     };
     console.log('[bench] helpers attached to window.__TV_BENCH__');
@@ -1,5 +1,25 @@
 import { tabManager } from '@/background/TabManager';
+import { handleAutoSnapshotAlarm, scheduleAutoSnapshot } from '@/background/autoSnapshot';
+import { initSessionRecovery, trackLiveWindows } from '@/background/sessionRecovery';
+import { handleIdleArchiveAlarm, scheduleIdleArchive, trackTabActivity } from '@/background/idleArchive';
+import { handleRetentionAlarm, scheduleRetention } from '@/background/retention';
+import { getSelectionLinks } from '@/background/selectionLinks';
+import { trackPageStateRestores } from '@/background/pageState';
+import {
+  parseSaveTargetMenuItemId,
+  refreshSaveTargetMenu,
+  scheduleSaveTargetMenuRefresh,
+} from '@/background/saveTargetMenu';
+import {
+  isSafeUrl,
+  isTabGroupColor,
+  normalizePageState,
+  SAVE_SCOPE_LABELS,
+  type SaveScope,
+} from '@/domain/tabGroup';
+import type { RestoreTabInput, RestoreTabsOptions, SaveTabsResult } from '@/background/TabManager';
 import { migrateToV2 } from '@/utils/migrationHelper';
+import { isRestoreTarget } from '@/utils/sessionRestore';
 
 
 // Chrome 扩展的 Service Worker
@@ -44,6 +64,70 @@ async function runMigrations() {
   }
 }
 
+// 快捷键命令 → 保存范围（manifest.json 中未设置默认快捷键，用户可在 chrome://extensions/shortcuts 绑定）
+const COMMAND_SAVE_SCOPES: Record<string, SaveScope> = {
+  save_highlighted_tabs: 'highlighted',
+  save_tabs_to_right: 'right-of-active',
+  save_tabs_to_left: 'left-of-active',
+  save_all_windows: 'all-windows',
+  save_current_domain: 'domain',
+};
+
+// 右键菜单「更多保存方式」子菜单中的保存范围
+const CONTEXT_MENU_SAVE_SCOPES: SaveScope[] = [
+  'highlighted',
+  'right-of-active',
+  'left-of-active',
+  'all-windows',
+  'all-windows-merged',
+  'domain',
+];
+const SAVE_SCOPE_MENU_PREFIX = 'saveScope:';
+
+// 前端可发送的 SAVE_* 消息 → 保存范围
+const MESSAGE_SAVE_SCOPES: Record<string, SaveScope> = {
+  SAVE_HIGHLIGHTED_TABS: 'highlighted',
+  SAVE_TABS_TO_RIGHT: 'right-of-active',
+  SAVE_TABS_TO_LEFT: 'left-of-active',
+  SAVE_ALL_WINDOWS: 'all-windows',
+  SAVE_DOMAIN_TABS: 'domain',
+};
+
+const getSaveCurrentTabMessage = (result: SaveTabsResult): string => {
+  const message = !result.appendedTo
+    ? '当前标签页已保存'
+    : result.tabCount > 0
+      ? `当前标签页已追加到「${result.appendedTo.name}」`
+      : `当前标签页已在「${result.appendedTo.name}」中`;
+  return result.keptOpen ? `${message}，标签页保持打开` : message;
+};
+
+// 消息中的 keepOpen 只接受布尔值，其余一律视为「未指定」（跟随用户设置）
+const parseKeepOpen = (data: { keepOpen?: unknown } | undefined): boolean | undefined =>
+  typeof data?.keepOpen === 'boolean' ? data.keepOpen : undefined;
+
+const parseLazy = (data: { lazy?: unknown } | undefined): boolean | undefined =>
+  typeof data?.lazy === 'boolean' ? data.lazy : undefined;
+
+const parseRestoreTarget = (data: { target?: unknown } | undefined): RestoreTabsOptions['target'] =>
+  isRestoreTarget(data?.target) ? data.target : undefined;
+
+// OPEN_TABS 消息中的标签页：只保留 url / pinned / 合法的原生分组信息与阅读位置
+const parseRestoreTabs = (tabs: any[]): RestoreTabInput[] =>
+  tabs.map(tab => ({
+    url: tab?.url,
+    pinned: !!tab?.pinned,
+    nativeGroup: tab?.nativeGroup && typeof tab.nativeGroup.title === 'string' && isTabGroupColor(tab.nativeGroup.color)
+      ? { title: tab.nativeGroup.title, color: tab.nativeGroup.color }
+      : undefined,
+    pageState: normalizePageState(tab?.pageState),
+  }));
+
+const parseRestoreSession = (session: any): RestoreTabsOptions['session'] =>
+  session && typeof session.name === 'string'
+    ? { name: session.name, color: isTabGroupColor(session.color) ? session.color : undefined }
+    : undefined;
+
 const showNotification = async (message: string, title = 'TabStack'): Promise<void> => {
   await tabManager.showNotification({
     type: 'basic',
@@ -76,9 +160,46 @@ async function setupContextMenus() {
 
   chrome.contextMenus.create({
     id: 'saveOtherTabs',
-    title: '保存除当前标签以外的所有标签',
+    title: SAVE_SCOPE_LABELS['other-tabs'],
     contexts: ['action']
   });
+
+  chrome.contextMenus.create({
+    id: 'snapshotCurrentWindow',
+    title: '保存当前窗口（不关闭标签）',
+    contexts: ['action']
+  });
+
+  chrome.contextMenus.create({
+    id: 'saveScopeMenu',
+    title: '更多保存方式',
+    contexts: ['action']
+  });
+
+  CONTEXT_MENU_SAVE_SCOPES.forEach(scope => {
+    chrome.contextMenus.create({
+      id: `${SAVE_SCOPE_MENU_PREFIX}${scope}`,
+      parentId: 'saveScopeMenu',
+      title: SAVE_SCOPE_LABELS[scope],
+      contexts: ['action']
+    });
+  });
+
+  // 页面中的链接 / 选区：只保存链接，不打开
+  chrome.contextMenus.create({
+    id: 'saveLink',
+    title: '保存此链接到 TabStack',
+    contexts: ['link']
+  });
+
+  chrome.contextMenus.create({
+    id: 'saveSelectionLinks',
+    title: '保存选中内容中的所有链接',
+    contexts: ['selection']
+  });
+
+  // 「保存当前标签到会话」/「保存此页面到会话…」子菜单：列出收件箱 / 收藏 / 最近的会话
+  await refreshSaveTargetMenu();
 }
 
 // 初始安装或更新时
@@ -120,6 +241,9 @@ chrome.runtime.onStartup.addListener(async () => {
 
   // 确保右键菜单存在
   await setupContextMenus();
+
+  // 把上次退出前记录的窗口转为可恢复的「上次浏览会话」
+  await initSessionRecovery();
 });
 
 // Service Worker 激活时也初始化一次，防止遗漏
@@ -127,6 +251,32 @@ setupContextMenus().catch(error => {
   console.error('初始化右键菜单失败:', error);
 });
 
+// 定时任务（自动快照 / 闲置归档 / 保留策略）：每次激活时按设置校准闹钟
+const scheduleAutomation = () =>
+  Promise.all([scheduleAutoSnapshot(), scheduleIdleArchive(), scheduleRetention()]);
+
+scheduleAutomation().catch(error => {
+  console.error('初始化定时任务闹钟失败:', error);
+});
+
+chrome.alarms.onAlarm.addListener(alarm => {
+  void handleAutoSnapshotAlarm(alarm);
+  void handleIdleArchiveAlarm(alarm);
+  void handleRetentionAlarm(alarm);
+});
+
+// 闲置归档：记录标签页最近激活时间
+trackTabActivity();
+
+// 阅读位置：恢复的标签页加载完成后滚动回保存时的位置
+trackPageStateRestores();
+
+// 崩溃 / 关闭恢复：持续记录当前窗口
+trackLiveWindows();
+initSessionRecovery().catch(error => {
+  console.error('初始化会话恢复失败:', error);
+});
+
 // 监听扩展图标点击事件
 chrome.action.onClicked.addListener(async () => {
   try {
@@ -153,6 +303,13 @@ chrome.commands.onCommand.addListener(async (command) => {
         break;
       }
 
+      case 'snapshot_current_window': {
+        console.log('快捷键保存当前窗口（不关闭标签）');
+        const allTabs = await chrome.tabs.query({ currentWindow: true });
+        await tabManager.saveAllTabs(allTabs, { keepOpen: true });
+        break;
+      }
+
       case 'save_current_tab': {
         console.log('快捷键保存当前标签页');
         const [activeTab] = await chrome.tabs.query({
@@ -161,18 +318,34 @@ chrome.commands.onCommand.addListener(async (command) => {
         });
         if (activeTab) {
           // 简化的保存当前标签页逻辑
-          await tabManager.saveCurrentTab(activeTab);
-          await showNotification('当前标签页已保存');
+          const result = await tabManager.saveCurrentTab(activeTab);
+          if (result) {
+            await showNotification(getSaveCurrentTabMessage(result));
+          }
         } else {
           console.warn('未找到活跃标签页');
         }
         break;
       }
 
+      case 'launch_workspace':
+        console.log('快捷键启动工作区模板');
+        await tabManager.openWorkspaceLauncher();
+        break;
+
       case '_execute_action':
         console.log('快捷键打开标签管理器');
         await tabManager.openTabManager();
         break;
+
+      default: {
+        const scope = COMMAND_SAVE_SCOPES[command];
+        if (scope) {
+          console.log('快捷键按范围保存标签页:', scope);
+          await tabManager.saveTabsByScope(scope);
+        }
+        break;
+      }
     }
   } catch (error) {
     console.error('处理快捷键命令失败:', error);
@@ -184,6 +357,35 @@ chrome.commands.onCommand.addListener(async (command) => {
 chrome.contextMenus.onClicked.addListener(async (info, tab) => {
   console.log('右键菜单点击:', info.menuItemId);
 
+  const targetGroupId = parseSaveTargetMenuItemId(info.menuItemId);
+  if (targetGroupId) {
+    if (!tab) return;
+    console.log('点击右键菜单，追加当前标签页到会话:', targetGroupId);
+    try {
+      const result = await tabManager.saveCurrentTab(tab, { targetGroupId });
+      await showNotification(result ? getSaveCurrentTabMessage(result) : '当前标签页无法保存');
+    } catch (error) {
+      // 会话已锁定 / 已删除：提示原因并刷新菜单
+      await showNotification(error instanceof Error ? error.message : '追加到会话失败', 'TabStack - 保存失败');
+      void refreshSaveTargetMenu();
+    }
+    return;
+  }
+
+  if (info.menuItemId === 'saveLink' || info.menuItemId === 'saveSelectionLinks') {
+    try {
+      const links = info.menuItemId === 'saveLink'
+        ? (info.linkUrl ? [{ url: info.linkUrl }] : [])
+        : await getSelectionLinks(tab?.id, info.frameId, info.selectionText);
+      console.log('点击右键菜单，保存链接:', links.length);
+      await tabManager.saveLinks(links);
+    } catch (error) {
+      console.error('保存链接失败:', error);
+      await showNotification(error instanceof Error ? error.message : '保存链接失败', 'TabStack - 保存失败');
+    }
+    return;
+  }
+
   try {
     if (info.menuItemId === 'open-tab-manager') {
       console.log('点击右键菜单，打开标签管理器');
@@ -191,31 +393,26 @@ chrome.contextMenus.onClicked.addListener(async (info, tab) => {
     } else if (info.menuItemId === 'saveCurrentTab' && tab) {
       console.log('点击右键菜单，保存当前标签页');
       // 简化的保存当前标签页逻辑
-      await tabManager.saveCurrentTab(tab);
-      await showNotification('当前标签页已保存');
+      const result = await tabManager.saveCurrentTab(tab);
+      if (result) {
+        await showNotification(getSaveCurrentTabMessage(result));
+      }
+      await tabManager.openTabManager(true);
+    } else if (info.menuItemId === 'snapshotCurrentWindow') {
+      console.log('点击右键菜单，保存当前窗口（不关闭标签）');
+      const allTabs = tab?.windowId
+        ? await chrome.tabs.query({ windowId: tab.windowId })
+        : await chrome.tabs.query({ currentWindow: true });
+      await tabManager.saveAllTabs(allTabs, { keepOpen: true });
       await tabManager.openTabManager(true);
     } else if (info.menuItemId === 'saveOtherTabs') {
       console.log('点击右键菜单，保存除当前标签以外的所有标签');
-      // 获取当前窗口的所有标签页和当前活动的标签页
-      const [allTabs, activeTabs] = await Promise.all([
-        chrome.tabs.query({ currentWindow: true }),
-        chrome.tabs.query({ active: true, currentWindow: true })
-      ]);
-
-      // 获取当前活动的标签页ID
-      const activeTabId = activeTabs.length > 0 ? activeTabs[0].id : null;
-
-      // 过滤掉当前活动的标签页
-      const otherTabs = activeTabId
-        ? allTabs.filter(t => t.id !== activeTabId)
-        : allTabs;
-
-      if (otherTabs.length === 0) {
-        await showNotification('没有其他标签页需要保存');
-        return;
-      }
-
-      await tabManager.saveAllTabs(otherTabs);
+      await tabManager.saveTabsByScope('other-tabs', { windowId: tab?.windowId });
+      await tabManager.openTabManager(true);
+    } else if (typeof info.menuItemId === 'string' && info.menuItemId.startsWith(SAVE_SCOPE_MENU_PREFIX)) {
+      const scope = info.menuItemId.slice(SAVE_SCOPE_MENU_PREFIX.length) as SaveScope;
+      console.log('点击右键菜单，按范围保存标签页:', scope);
+      await tabManager.saveTabsByScope(scope, { windowId: tab?.windowId });
       await tabManager.openTabManager(true);
     }
   } catch (error) {
@@ -243,29 +440,25 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     return false;
   }
 
-  // 验证 URL 仅允许 HTTP/HTTPS 协议
-  const isSafeUrl = (url: string): boolean => {
-    try {
-      const parsed = new URL(url);
-      return ['http:', 'https:'].includes(parsed.protocol);
-    } catch {
-      return false;
-    }
-  };
-
   try {
     switch (message.type) {
       case 'OPEN_TAB': {
         const data = message.data || {};
         const singleUrl: string | undefined = data.url || data.tab?.url;
         const pinned: boolean | undefined = data.pinned ?? data.tab?.pinned;
+        const pageState = normalizePageState(data.pageState ?? data.tab?.pageState);
 
         if (singleUrl) {
           if (!isSafeUrl(singleUrl)) {
             sendResponse({ success: false, error: '不安全的 URL 协议' });
             return false;
           }
-          chrome.tabs.create({ url: singleUrl, active: false, pinned })
+          // 显式指定新窗口 / 替换当前窗口时走会话恢复流程，否则保持后台标签页的行为
+          const target = parseRestoreTarget(data);
+          const opening = target === 'new-window' || target === 'replace-window'
+            ? tabManager.restoreTabs([{ url: singleUrl, pinned, pageState }], { target, windowId: sender.tab?.windowId })
+            : tabManager.openTabInBackground({ url: singleUrl, pinned, pageState }, sender.tab?.windowId);
+          opening
             .then(() => sendResponse({ success: true }))
             .catch(error => sendResponse({ success: false, error: error.message }));
           return true;
@@ -282,7 +475,12 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
             sendResponse({ success: false, error: '包含不安全的 URL 协议' });
             return false;
           }
-          tabManager.openTabsInNewWindow(data.tabs)
+          tabManager.restoreTabs(parseRestoreTabs(data.tabs), {
+            session: parseRestoreSession(data.session),
+            lazy: parseLazy(data),
+            target: parseRestoreTarget(data),
+            windowId: sender.tab?.windowId,
+          })
             .then(() => sendResponse({ success: true }))
             .catch(error => sendResponse({ success: false, error: error.message }));
           return true;
@@ -293,8 +491,9 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
             sendResponse({ success: false, error: '包含不安全的 URL 协议' });
             return false;
           }
-          tabManager.openTabsInNewWindow(
-            data.urls.map((url: string) => ({ url }))
+          tabManager.restoreTabs(
+            data.urls.map((url: string) => ({ url })),
+            { lazy: parseLazy(data), target: parseRestoreTarget(data), windowId: sender.tab?.windowId }
           )
             .then(() => sendResponse({ success: true }))
             .catch(error => sendResponse({ success: false, error: error.message }));
@@ -315,7 +514,12 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
 
             console.log('[Service Worker] SAVE_ALL_TABS 查询到标签页:', tabs.length);
 
-            await tabManager.saveAllTabs(tabs);
+            // data.keepOpen：单次「保存但不关闭」；缺省跟随用户设置
+            // data.targetGroupId：追加到已有会话而不是新建
+            await tabManager.saveAllTabs(tabs, {
+              keepOpen: parseKeepOpen(message.data),
+              targetGroupId: typeof message.data?.targetGroupId === 'string' ? message.data.targetGroupId : undefined,
+            });
             sendResponse({ success: true });
           } catch (e: any) {
             console.error('[Service Worker] SAVE_ALL_TABS 失败:', e);
@@ -324,10 +528,85 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
         })();
         return true; // 异步响应
 
+      case 'SAVE_HIGHLIGHTED_TABS':
+      case 'SAVE_TABS_TO_RIGHT':
+      case 'SAVE_TABS_TO_LEFT':
+      case 'SAVE_ALL_WINDOWS':
+      case 'SAVE_DOMAIN_TABS': {
+        const data = message.data || {};
+        const scope: SaveScope = message.type === 'SAVE_ALL_WINDOWS' && data.merge
+          ? 'all-windows-merged'
+          : MESSAGE_SAVE_SCOPES[message.type];
+
+        tabManager.saveTabsByScope(scope, {
+          windowId: data.windowId ?? sender.tab?.windowId,
+          domain: typeof data.domain === 'string' ? data.domain : undefined,
+          keepOpen: parseKeepOpen(data),
+        })
+          .then(() => sendResponse({ success: true }))
+          .catch(error => {
+            console.error(`[Service Worker] ${message.type} 失败:`, error);
+            sendResponse({ success: false, error: error?.message || '保存失败' });
+          });
+        return true; // 异步响应
+      }
+
+      // 追加到已有会话：data.groupId 必填；data.scope 缺省为当前标签页，也可以是任一保存范围
+      case 'SAVE_TO_SESSION': {
+        const data = message.data || {};
+        if (typeof data.groupId !== 'string' || !data.groupId) {
+          sendResponse({ success: false, error: '缺少目标会话' });
+          return false;
+        }
+        const windowId: number | undefined = data.windowId ?? sender.tab?.windowId;
+        const keepOpen = parseKeepOpen(data);
+
+        (async () => {
+          if (typeof data.scope === 'string' && data.scope !== 'current-tab') {
+            if (!(data.scope in SAVE_SCOPE_LABELS)) {
+              throw new Error('未知的保存范围');
+            }
+            return await tabManager.saveTabsByScope(data.scope as SaveScope, {
+              windowId,
+              domain: typeof data.domain === 'string' ? data.domain : undefined,
+              keepOpen,
+              targetGroupId: data.groupId,
+            });
+          }
+
+          const [tab] = typeof data.tabId === 'number'
+            ? [await chrome.tabs.get(data.tabId)]
+            : await chrome.tabs.query(windowId ? { windowId, active: true } : { currentWindow: true, active: true });
+          if (!tab) {
+            throw new Error('未找到要保存的标签页');
+          }
+          return await tabManager.saveCurrentTab(tab, { keepOpen, targetGroupId: data.groupId });
+        })()
+          .then(result => sendResponse({ success: true, data: result }))
+          .catch(error => {
+            console.error('[Service Worker] SAVE_TO_SESSION 失败:', error);
+            sendResponse({ success: false, error: error?.message || '保存失败' });
+          });
+        return true; // 异步响应
+      }
+
       case 'REFRESH_TAB_LIST':
         sendResponse({ success: true });
         return false;
 
+      // 标签管理器页面写入了会话或设置：按最新数据重建「保存到会话」菜单
+      case 'LOCAL_DATA_CHANGED':
+        scheduleSaveTargetMenuRefresh();
+        sendResponse({ success: true });
+        return false;
+
+      // 设置页修改了自动快照 / 闲置归档的开关或间隔
+      case 'UPDATE_AUTOMATION_SCHEDULE':
+        scheduleAutomation()
+          .then(() => sendResponse({ success: true }))
+          .catch(error => sendResponse({ success: false, error: error.message }));
+        return true;
+
       default:
         sendResponse({ success: false, error: '未知消息类型' });
         return false;
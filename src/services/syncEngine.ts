@@ -17,7 +17,12 @@
 import { store } from '@/store';
 import type { TabGroup, UserSettings } from '@/types/tab';
 import { storage } from '@/utils/storage';
-import { downloadTabGroups, uploadTabGroups, markCloudGroupsAsDeleted } from '@/services/tabGroupSyncService';
+import {
+  downloadTabGroups,
+  uploadTabGroups,
+  markCloudGroupsAsDeleted,
+  unmarkCloudGroupsAsDeleted,
+} from '@/services/tabGroupSyncService';
 import { mergeTabGroups, validateMergeResult } from '@/utils/syncUtils';
 import { errorHandler } from '@/utils/errorHandler';
 import { cleanupCloudTombstones } from '@/utils/tombstoneGc';
@@ -64,10 +69,11 @@ export interface UploadResult {
  * （例如只替换 downloadTabGroups 而保留 storage 真实运行）。
  */
 export interface SyncEngineDeps {
-  storage?: Pick<typeof storage, 'getGroups' | 'setGroups' | 'setSyncSnapshot' | 'clearSyncSnapshot' | 'getSettings' | 'setSettings' | 'setLastSyncTime' | 'getLastSyncTime' | 'getLastSyncStatus' | 'setLastSyncStatus'>;
+  storage?: Pick<typeof storage, 'getGroups' | 'setGroups' | 'setSyncSnapshot' | 'clearSyncSnapshot' | 'getSettings' | 'setSettings' | 'setLastSyncTime' | 'getLastSyncTime' | 'getLastSyncStatus' | 'setLastSyncStatus' | 'getPendingCloudRestores' | 'removePendingCloudRestores'>;
   downloadTabGroups?: typeof downloadTabGroups;
   uploadTabGroups?: typeof uploadTabGroups;
   markCloudGroupsAsDeleted?: typeof markCloudGroupsAsDeleted;
+  unmarkCloudGroupsAsDeleted?: typeof unmarkCloudGroupsAsDeleted;
   cleanupCloudTombstones?: typeof cleanupCloudTombstones;
   /** 注入 store 状态获取逻辑，避开 Redux 依赖 */
   getState?: () => Pick<RootState, 'auth' | 'settings' | 'tabs'>;
@@ -107,7 +113,7 @@ export class SyncEngine {
   private pendingUpload = false;
   private isSyncing = false;
   /** 解析后的依赖（构造函数时固化） */
-  private readonly deps: Required<Pick<SyncEngineDeps, 'storage' | 'downloadTabGroups' | 'uploadTabGroups' | 'markCloudGroupsAsDeleted' | 'cleanupCloudTombstones' | 'getState'>>;
+  private readonly deps: Required<Pick<SyncEngineDeps, 'storage' | 'downloadTabGroups' | 'uploadTabGroups' | 'markCloudGroupsAsDeleted' | 'unmarkCloudGroupsAsDeleted' | 'cleanupCloudTombstones' | 'getState'>>;
 
   /**
    * @param deps 依赖注入（可选）。不传则用默认生产依赖。
@@ -124,6 +130,7 @@ export class SyncEngine {
       downloadTabGroups: deps.downloadTabGroups ?? downloadTabGroups,
       uploadTabGroups: deps.uploadTabGroups ?? uploadTabGroups,
       markCloudGroupsAsDeleted: deps.markCloudGroupsAsDeleted ?? markCloudGroupsAsDeleted,
+      unmarkCloudGroupsAsDeleted: deps.unmarkCloudGroupsAsDeleted ?? unmarkCloudGroupsAsDeleted,
       cleanupCloudTombstones: deps.cleanupCloudTombstones ?? cleanupCloudTombstones,
       getState: deps.getState ?? (() => store.getState() as Pick<RootState, 'auth' | 'settings' | 'tabs'>),
     };
@@ -286,7 +293,7 @@ export class SyncEngine {
    * 上传本地数据到云端
    *
    * 流程：
-   *   读取 → 分离活跃组和软删 ID → 上传活跃组 → 标记云端软删
+   *   读取 → 分离活跃组和软删 ID → 上传活跃组 → 撤销恢复组的云端软删 → 标记云端软删
    *   失败不影响本地数据
    *
    * @param opts.includeDeleted 是否包含软删标记（deleteAllGroups 场景）
@@ -320,6 +327,19 @@ export class SyncEngine {
         await this.deps.uploadTabGroups(activeGroups, false);
       }
 
+      // 从回收站恢复的会话：撤销云端删除标记，其他设备才能重新下载到。
+      // 失败时整次上传失败、保留待处理列表，下次上传重试；又被删除的会话直接丢弃。
+      const pendingRestores = (await this.deps.storage.getPendingCloudRestores?.()) ?? [];
+      if (pendingRestores.length > 0) {
+        const activeIds = new Set(activeGroups.map(g => g.id));
+        const restoredIds = pendingRestores.filter(id => activeIds.has(id));
+        if (restoredIds.length > 0) {
+          await this.deps.unmarkCloudGroupsAsDeleted(restoredIds);
+          console.log(`[SyncEngine] 已撤销 ${restoredIds.length} 个恢复组的云端软删`);
+        }
+        await this.deps.storage.removePendingCloudRestores?.(pendingRestores);
+      }
+
       // 标记云端软删
       if (deletedIds.length > 0 && opts?.includeDeleted !== false) {
         try {
@@ -1,18 +1,39 @@
-import type { TabGroup } from '@/types/tab';
+import type { PageContent, TabGroup } from '@/types/tab';
+import { storage } from '@/utils/storage';
 import { sync as supabaseSync } from '@/utils/supabase';
 
+// 页面全文默认只保存在本机，开启「同步页面全文」后才随会话上传与下载
+const isPageContentSyncEnabled = async (): Promise<boolean> => {
+  const settings = await storage.getSettings();
+  return settings.capturePageContent && settings.syncPageContent;
+};
+
 export async function uploadTabGroups(
   groups: TabGroup[],
   overwriteCloud: boolean = false
 ) {
-  return supabaseSync.uploadTabGroups(groups, overwriteCloud);
+  if (!(await isPageContentSyncEnabled())) {
+    return supabaseSync.uploadTabGroups(groups, overwriteCloud);
+  }
+  const pageContents = new Map((await storage.getPageContents()).map(content => [content.url, content]));
+  return supabaseSync.uploadTabGroups(groups, overwriteCloud, { pageContents });
 }
 
 export async function downloadTabGroups(): Promise<TabGroup[]> {
-  const result = await supabaseSync.downloadTabGroups();
+  if (!(await isPageContentSyncEnabled())) {
+    const result = await supabaseSync.downloadTabGroups();
+    return result as TabGroup[];
+  }
+  const pageContents: PageContent[] = [];
+  const result = await supabaseSync.downloadTabGroups({ pageContents });
+  await storage.savePageContents(pageContents);
   return result as TabGroup[];
 }
 
 export async function markCloudGroupsAsDeleted(deletedIds: string[]): Promise<void> {
   return supabaseSync.markCloudGroupsAsDeleted(deletedIds);
 }
+
+export async function unmarkCloudGroupsAsDeleted(restoredIds: string[]): Promise<void> {
+  return supabaseSync.unmarkCloudGroupsAsDeleted(restoredIds);
+}
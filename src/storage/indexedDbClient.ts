@@ -29,16 +29,23 @@ function openDatabase(): Promise<IDBDatabase> {
   });
 }
 
-let cachedDb: IDBDatabase | null = null;
+// 缓存打开中的 Promise：并发调用共用同一个连接，避免多开的连接没有关闭而挡住删除 / 升级
+let cachedDb: Promise<IDBDatabase> | null = null;
 
-async function getDb(): Promise<IDBDatabase> {
+function getDb(): Promise<IDBDatabase> {
   if (cachedDb) return cachedDb;
-  cachedDb = await openDatabase();
-  cachedDb.onversionchange = () => {
-    cachedDb?.close();
-    cachedDb = null;
-  };
-  return cachedDb;
+  const opening = openDatabase().then(db => {
+    db.onversionchange = () => {
+      db.close();
+      if (cachedDb === opening) cachedDb = null;
+    };
+    return db;
+  });
+  cachedDb = opening;
+  opening.catch(() => {
+    if (cachedDb === opening) cachedDb = null;
+  });
+  return opening;
 }
 
 async function runTransaction<T>(
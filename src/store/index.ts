@@ -2,14 +2,18 @@ import { configureStore, combineReducers } from '@reduxjs/toolkit';
 import tabReducer, { initialTabState } from './slices/tabSlice';
 import settingsReducer, { initialSettingsState } from './slices/settingsSlice';
 import authReducer from './slices/authSlice';
+import historyReducer from './slices/historySlice';
 import { autoSyncMiddleware } from './middleware/autoSyncMiddleware';
 import { debouncedPersistMiddleware } from './middleware/debouncedPersist';
+import { undoHistoryMiddleware } from './middleware/undoHistoryMiddleware';
 import { persistGroupsThunk } from './slices/tabSlice';
+import { storage } from '@/utils/storage';
 
 const rootReducer = combineReducers({
   tabs: tabReducer,
   settings: settingsReducer,
   auth: authReducer,
+  history: historyReducer,
 });
 
 export type RootState = ReturnType<typeof rootReducer>;
@@ -30,6 +34,7 @@ function buildStore(preloadedState?: PreloadedState) {
           ignoredPaths: ['tabs.currentTab'],
         },
       })
+        .concat(undoHistoryMiddleware({ persistFn: history => void storage.setUndoHistory(history) }))
         .concat(autoSyncMiddleware)
         .concat(
           debouncedPersistMiddleware({
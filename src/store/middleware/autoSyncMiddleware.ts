@@ -5,10 +5,18 @@ const ACTION_PRIORITIES: Record<string, number> = {
   'tabs/deleteGroup/fulfilled': 10,
   'tabs/deleteAllGroups/fulfilled': 10,
   'tabs/deleteTabAndSync/fulfilled': 10,
+  'tabs/removeEmptiedGroup/fulfilled': 10,
   'tabs/saveGroup/fulfilled': 8,
   'tabs/importGroups/fulfilled': 8,
+  'tabs/restoreGroupFromTrash/fulfilled': 8,
+  'tabs/restoreTabsFromTrash/fulfilled': 8,
+  'history/undo/fulfilled': 8,
+  'history/redo/fulfilled': 8,
   'tabs/updateGroup/fulfilled': 5,
   'tabs/updateGroupNameAndSync/fulfilled': 5,
+  'tabs/applyTagEditAndSync/fulfilled': 5,
+  'tabs/moveGroupsToFolder/fulfilled': 5,
+  'tabs/applyRetentionAndSync/fulfilled': 5,
   'tabs/cleanDuplicateTabs/fulfilled': 5,
   'tabs/toggleGroupLockAndSync/fulfilled': 3,
   'tabs/moveGroupAndSync/fulfilled': 3,
@@ -0,0 +1,82 @@
+import type { Middleware } from '@reduxjs/toolkit';
+import { nanoid } from '@reduxjs/toolkit';
+import type { TabGroup, UndoHistory } from '@/types/tab';
+import { diffGroups } from '@/domain/tabGroup/history';
+import { loadHistory, recordChange } from '@/store/slices/historySlice';
+
+/**
+ * 可撤销的会话编辑及其名称。乐观更新的本地 action 与随后的 thunk fulfilled
+ * 都列在这里，前后两次改动在 recordHistoryEntry 中合并为一步。
+ * 加载 / 同步下载 / 撤销重做本身不在列表中，不会被记录。
+ */
+const HISTORY_ACTION_LABELS: Record<string, string> = {
+  'tabs/updateGroupName': '重命名会话',
+  'tabs/toggleGroupLock': '锁定 / 解锁会话',
+  'tabs/moveTab': '移动标签页',
+  'tabs/moveTabLocal': '移动标签页',
+  'tabs/moveGroup': '调整会话顺序',
+  'tabs/moveGroupLocal': '调整会话顺序',
+  'tabs/updateGroup/fulfilled': '编辑会话',
+  'tabs/deleteGroup/fulfilled': '删除会话',
+  'tabs/removeEmptiedGroup/fulfilled': '删除会话',
+  'tabs/applyTagEditAndSync/fulfilled': '编辑标签',
+  'tabs/moveGroupsToFolder/fulfilled': '移到文件夹',
+  'tabs/applyRetentionAndSync/fulfilled': '执行保留策略',
+  'tabs/cleanDuplicateTabs/fulfilled': '清理重复标签',
+  'tabs/restoreGroupFromTrash/fulfilled': '从回收站恢复会话',
+  'tabs/restoreTabsFromTrash/fulfilled': '从回收站恢复标签页',
+};
+
+// 不是用户编辑的 updateGroup（例如记录打开次数）在参数中带 skipHistory，不记录
+const isSkippedUpdate = (action: { meta?: { arg?: unknown } }): boolean => {
+  const arg = action.meta?.arg;
+  return !!arg && typeof arg === 'object' && (arg as { skipHistory?: unknown }).skipHistory === true;
+};
+
+export interface UndoHistoryOptions {
+  /** 历史变化后（防抖）保存到本地存储 */
+  persistFn: (history: UndoHistory) => void;
+  /** 保存的 trailing 延迟毫秒数；默认 300ms。 */
+  delayMs?: number;
+}
+
+type HistoryRootState = { tabs: { groups: TabGroup[] }; history: UndoHistory };
+
+/**
+ * 撤销历史中间件：对列表中的 action 比较前后的 state.tabs.groups，
+ * 把有改动的会话快照记入 history slice，并在历史变化后保存。
+ * 存储中的历史加载（loadHistory）之前只记录不保存，避免覆盖之前保存的历史。
+ */
+export function undoHistoryMiddleware(opts: UndoHistoryOptions): Middleware {
+  const delay = opts.delayMs ?? 300;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let loaded = false;
+
+  return store => next => (_action: unknown) => {
+    const action = _action as { type?: string; error?: unknown; meta?: { arg?: unknown } };
+    const type = typeof action.type === 'string' ? action.type : '';
+    const before = store.getState() as HistoryRootState;
+
+    const result = next(_action);
+    if (type === loadHistory.fulfilled.type) loaded = true;
+
+    const after = store.getState() as HistoryRootState;
+    const label = HISTORY_ACTION_LABELS[type];
+    if (label && !action.error && !isSkippedUpdate(action) && after.tabs.groups !== before.tabs.groups) {
+      const changes = diffGroups(before.tabs.groups, after.tabs.groups);
+      if (changes.length > 0) {
+        store.dispatch(recordChange({ id: nanoid(), label, at: new Date().toISOString(), changes }));
+      }
+    }
+
+    if (loaded && (store.getState() as HistoryRootState).history !== before.history) {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        opts.persistFn((store.getState() as HistoryRootState).history);
+      }, delay);
+    }
+
+    return result;
+  };
+}
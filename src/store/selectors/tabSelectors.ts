@@ -1,5 +1,13 @@
 import { createSelector } from '@reduxjs/toolkit';
 import type { RootState } from '@/store';
+import {
+  collectTagCounts,
+  filterGroupsByTag,
+  getArchivedGroups,
+  getUnarchivedGroups,
+  selectWorkspaceTemplates,
+  sortAndFilterGroups,
+} from '@/domain/tabGroup';
 
 export const selectGroups = (s: RootState) => s.tabs.groups;
 export const selectIsLoading = (s: RootState) => s.tabs.isLoading;
@@ -9,25 +17,37 @@ export const selectError = (s: RootState) => s.tabs.error;
 export const selectLayoutMode = (s: RootState) => s.settings.layoutMode;
 export const selectReorderMode = (s: RootState) => s.settings.reorderMode;
 export const selectSettings = (s: RootState) => s.settings;
+export const selectGroupSortOrder = (s: RootState) => s.settings.groupSortOrder;
+export const selectGroupRestoreFilter = (s: RootState) => s.settings.groupRestoreFilter;
+export const selectActiveTag = (s: RootState) => s.tabs.activeTag;
+export const selectSessionFolders = (s: RootState) => s.settings.sessionFolders;
+export const selectCollapsedFolderIds = (s: RootState) => s.settings.collapsedFolderIds;
+export const selectSavedSearches = (s: RootState) => s.settings.savedSearches;
 
 /**
- * Sorted by: isFavorite desc, createdAt desc. New array reference only when
- * groups slice changes (createSelector memo). searchQuery is a separate concern
+ * 未归档的会话：会话列表、收藏栏、模板与标签浏览器只处理这些会话。
+ * 搜索仍基于 selectGroups（`archived:` 可以搜到归档的会话）。
+ */
+export const selectUnarchivedGroups = createSelector([selectGroups], getUnarchivedGroups);
+
+/** 归档的会话（最近归档的在前） */
+export const selectArchivedGroups = createSelector([selectGroups], getArchivedGroups);
+
+/**
+ * Sorted by: isFavorite desc, then settings.groupSortOrder (last restored /
+ * restore count), falling back to createdAt desc; filtered by
+ * settings.groupRestoreFilter. New array reference only when groups or those
+ * two settings change (createSelector memo). searchQuery is a separate concern
  * — SearchResultList filters on top of this.
  */
 export const selectSortedGroups = createSelector(
-  [selectGroups],
-  (groups) =>
-    [...groups].sort((l, r) => {
-      const favL = !!l.isFavorite;
-      const favR = !!r.isFavorite;
-      if (favL !== favR) return favL ? -1 : 1;
-      return new Date(r.createdAt).getTime() - new Date(l.createdAt).getTime();
-    })
+  [selectUnarchivedGroups, selectGroupSortOrder, selectGroupRestoreFilter],
+  (groups, sortOrder, restoreFilter) => sortAndFilterGroups(groups, { sortOrder, restoreFilter })
 );
 
 /**
  * S3 §3: 收藏会话过滤 —— 仅返回 isFavorite === true 的组。
+ * 工作区模板在 FavoriteStrip 中单独成区，这里不重复列出。
  *
  * 用途：TabList 顶部独立渲染 FavoriteStrip（与 selectSortedGroups 解耦，避免
  * 改动主排序逻辑导致意料外的回归）。
@@ -35,6 +55,30 @@ export const selectSortedGroups = createSelector(
  * createSelector memo：groups 引用不变时返回同一数组引用。
  */
 export const selectFavoriteGroups = createSelector(
-  [selectGroups],
-  (groups) => groups.filter((g) => !!g.isFavorite)
+  [selectUnarchivedGroups],
+  (groups) => groups.filter((g) => !!g.isFavorite && !g.isTemplate)
+);
+
+/**
+ * 工作区模板（FavoriteStrip 模板区 / 快捷键启动对话框），按名称排序。
+ */
+export const selectTemplateGroups = createSelector(
+  [selectUnarchivedGroups],
+  (groups) => selectWorkspaceTemplates(groups)
+);
+
+/**
+ * 会话列表实际显示的会话：在 selectSortedGroups 基础上按标签浏览器选中的标签过滤。
+ */
+export const selectTagFilteredGroups = createSelector(
+  [selectSortedGroups, selectActiveTag],
+  (groups, activeTag) => filterGroupsByTag(groups, activeTag)
+);
+
+/**
+ * 标签浏览器：所有标签及含有该标签的会话数（按数量降序）。
+ */
+export const selectTagCounts = createSelector(
+  [selectUnarchivedGroups],
+  (groups) => collectTagCounts(groups)
 );
@@ -0,0 +1,84 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import type { HistoryEntry, UndoHistory } from '@/types/tab';
+import { storage } from '@/utils/storage';
+import {
+  applyHistoryEntry,
+  EMPTY_HISTORY,
+  HISTORY_LIMIT,
+  recordHistoryEntry,
+} from '@/domain/tabGroup/history';
+
+/**
+ * 撤销 / 重做栈。由 undoHistoryMiddleware 记录会话编辑，保存在本地存储中，
+ * 关闭弹窗后重新打开仍然可以撤销。
+ */
+
+export const loadHistory = createAsyncThunk('history/load', () => storage.getUndoHistory());
+
+/**
+ * 把一步操作写回本地存储。重新出现的会话记入待撤销列表，
+ * 由 SyncEngine 在下次上传时撤销云端的删除标记；回收站中的项随撤销移出、随重做放回。
+ */
+const applyEntry = async (entry: HistoryEntry, direction: 'undo' | 'redo') => {
+  const now = new Date().toISOString();
+  const { groups, updated, removedIds, revivedIds, trashed } = applyHistoryEntry(
+    await storage.getGroups(),
+    entry,
+    direction,
+    now
+  );
+  await storage.setGroups(groups);
+  await storage.addPendingCloudRestores(revivedIds);
+  await storage.removeDeletedGroups(revivedIds);
+  await storage.addDeletedGroups(trashed, now);
+  return { entry, updated, removedIds };
+};
+
+/** 撤销最近一步操作；没有可撤销的操作时返回 null */
+export const undoChange = createAsyncThunk('history/undo', async (_, { getState }) => {
+  const { past } = (getState() as { history: UndoHistory }).history;
+  const entry = past[past.length - 1];
+  return entry ? applyEntry(entry, 'undo') : null;
+});
+
+/** 重做最近一次撤销的操作；没有可重做的操作时返回 null */
+export const redoChange = createAsyncThunk('history/redo', async (_, { getState }) => {
+  const { future } = (getState() as { history: UndoHistory }).history;
+  const entry = future[future.length - 1];
+  return entry ? applyEntry(entry, 'redo') : null;
+});
+
+export const historySlice = createSlice({
+  name: 'history',
+  initialState: EMPTY_HISTORY,
+  reducers: {
+    recordChange: (state, action: PayloadAction<HistoryEntry>) =>
+      recordHistoryEntry(state, action.payload),
+  },
+  extraReducers: builder => {
+    builder
+      .addCase(loadHistory.fulfilled, (state, action) => {
+        // 加载完成前已经记录的操作排在存储中的历史之后；重复加载不会产生重复的项
+        const loadedIds = new Set(action.payload.past.map(entry => entry.id));
+        const recorded = state.past.filter(entry => !loadedIds.has(entry.id));
+        state.past = [...action.payload.past, ...recorded].slice(-HISTORY_LIMIT);
+        state.future = recorded.length > 0 ? [] : action.payload.future;
+      })
+      .addCase(undoChange.fulfilled, (state, action) => {
+        if (!action.payload) return;
+        const { entry } = action.payload;
+        state.past = state.past.filter(item => item.id !== entry.id);
+        state.future = [...state.future, entry].slice(-HISTORY_LIMIT);
+      })
+      .addCase(redoChange.fulfilled, (state, action) => {
+        if (!action.payload) return;
+        const { entry } = action.payload;
+        state.future = state.future.filter(item => item.id !== entry.id);
+        state.past = [...state.past, entry].slice(-HISTORY_LIMIT);
+      });
+  },
+});
+
+export const { recordChange } = historySlice.actions;
+
+export default historySlice.reducer;
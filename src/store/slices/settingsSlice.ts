@@ -2,6 +2,7 @@ import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import { UserSettings, LayoutMode, ThemeStyle } from '@/types/tab';
 import { storage, DEFAULT_SETTINGS as defaultSettings, validateThemeStyle, validateThemeMode } from '@/utils/storage';
 import { downloadSettings, uploadSettings } from '@/services/settingsSyncService';
+import { mergeSavedSearches, mergeSessionFolders } from '@/utils/syncUtils';
 
 // 更新默认设置
 const updatedDefaultSettings = {
@@ -58,12 +59,17 @@ export const syncSettingsFromCloud = createAsyncThunk<UserSettings | null, void,
     const cloudSettings = await downloadSettings();
     if (cloudSettings) {
       // 将 Record<string, any> 转换为 UserSettings，并验证主题相关设置
+      // 先叠加本地设置：云端不保存的本地字段（如恢复方式）不应被重置为默认值
       const convertedSettings: UserSettings = {
         ...updatedDefaultSettings,
+        ...settings,
         ...cloudSettings,
         // 验证主题相关设置，确保从云端同步的值是有效的
         themeStyle: validateThemeStyle(cloudSettings.themeStyle),
         themeMode: validateThemeMode(cloudSettings.themeMode),
+        // 文件夹结构按文件夹合并，不整体覆盖（本地新建的文件夹可能还没上传）
+        sessionFolders: mergeSessionFolders(settings.sessionFolders, cloudSettings.sessionFolders),
+        savedSearches: mergeSavedSearches(settings.savedSearches, cloudSettings.savedSearches),
       } as UserSettings;
       // 保存到本地存储
       await storage.setSettings(convertedSettings);
@@ -123,6 +129,10 @@ const settingsSlice = createSlice({
     toggleCollectPinnedTabs: (state) => {
       state.collectPinnedTabs = !state.collectPinnedTabs;
     },
+    // 切换保存后是否关闭标签页
+    toggleAutoCloseTabsAfterSaving: (state) => {
+      state.autoCloseTabsAfterSaving = !state.autoCloseTabsAfterSaving;
+    },
     // 设置布局模式
     setLayoutMode: (state, action: PayloadAction<LayoutMode>) => {
       state.layoutMode = action.payload;
@@ -186,6 +196,7 @@ export const {
   toggleAllowDuplicateTabs,
   toggleShowNotifications,
    toggleCollectPinnedTabs,
+  toggleAutoCloseTabsAfterSaving,
   setLayoutMode,
   toggleLayoutMode,
   setReorderMode,
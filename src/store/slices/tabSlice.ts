@@ -1,12 +1,18 @@
 import { createSlice, createAsyncThunk, createSelector, PayloadAction } from '@reduxjs/toolkit';
-import { TabState, TabGroup, Tab } from '@/types/tab';
+import { TabState, TabGroup, Tab, RetentionPolicy } from '@/types/tab';
 import { storage } from '@/utils/storage';
 
 import { nanoid } from '@reduxjs/toolkit';
-import { shouldAutoDeleteAfterTabRemoval } from '@/utils/tabGroupUtils';
+import { getEmptyGroupAction, shouldAutoDeleteAfterTabRemoval } from '@/utils/tabGroupUtils';
 import { updateGroupWithVersion, updateDisplayOrder } from '@/utils/versionHelper';
 import { trackProductEvent } from '@/utils/productEvents';
 import { persistGroupsDebounced } from '@/store/middleware/debouncedPersist';
+import { markTabsRestored } from '@/domain/tabGroup/restoreHistory';
+import { applyTagEdit, type TagEdit } from '@/domain/tabGroup/tags';
+import { applyRetention } from '@/domain/tabGroup/retention';
+import { setGroupArchived } from '@/domain/tabGroup/archive';
+import { restoreTrashedGroup, restoreTrashedTabs } from '@/domain/tabGroup/trash';
+import { undoChange, redoChange } from './historySlice';
 
 // 为了解决"参数隐式具有"any"类型"的问题，添加明确的类型定义
 // 注意：这些接口暂时保留，可能在未来的功能中使用
@@ -46,6 +52,7 @@ export const initialTabState: TabState = {
   backgroundSync: false,
   syncProgress: 0,
   syncOperation: 'none',
+  activeTag: null,
 };
 
 export const loadGroups = createAsyncThunk('tabs/loadGroups', async () => {
@@ -84,9 +91,16 @@ export const saveGroup = createAsyncThunk(
   }
 );
 
+/**
+ * updateGroup 的参数：直接传会话；不是用户编辑的改动（例如记录打开次数）
+ * 附带 skipHistory，撤销历史中间件按 action.meta.arg 跳过，不记入撤销历史。
+ */
+export type UpdateGroupArg = TabGroup | { group: TabGroup; skipHistory: true };
+
 export const updateGroup = createAsyncThunk(
   'tabs/updateGroup',
-  async (group: TabGroup) => {
+  async (arg: UpdateGroupArg) => {
+    const group = 'skipHistory' in arg ? arg.group : arg;
     const groups = await storage.getGroups();
 
     // 使用辅助函数增加版本号
@@ -100,6 +114,90 @@ export const updateGroup = createAsyncThunk(
   }
 );
 
+/**
+ * 记录会话（或其中部分标签页）被重新打开：递增打开次数、更新最近打开时间。
+ * 只用于恢复后保留的会话（锁定 / 模板）；会被消耗的会话直接删除，不必记录。
+ */
+export const recordTabRestores = createAsyncThunk(
+  'tabs/recordTabRestores',
+  async ({ groupId, tabIds }: { groupId: string; tabIds?: string[] }, { getState, dispatch }) => {
+    const s = getState() as { tabs: { groups: TabGroup[] } };
+    const group = s.tabs.groups.find(g => g.id === groupId);
+    if (!group) return;
+
+    await dispatch(updateGroup({
+      group: markTabsRestored(group, tabIds, new Date().toISOString()),
+      skipHistory: true,
+    }));
+  }
+);
+
+/**
+ * 批量标签编辑（改名 / 删除 / 为多个标签页添加），只为有改动的会话递增版本号。
+ * 返回有改动的会话，由 fulfilled reducer 替换到 state 中。
+ */
+export const applyTagEditAndSync = createAsyncThunk(
+  'tabs/applyTagEditAndSync',
+  async (edit: TagEdit) => {
+    const groups = await storage.getGroups();
+    const edited = applyTagEdit(groups, edit);
+
+    const changed: TabGroup[] = [];
+    const updatedGroups = groups.map((group, index) => {
+      if (edited[index] === group) return group;
+      const updated = updateGroupWithVersion(group, edited[index]);
+      changed.push(updated);
+      return updated;
+    });
+
+    if (changed.length > 0) {
+      await storage.setGroups(updatedGroups);
+    }
+    return changed;
+  }
+);
+
+/**
+ * 把会话移到文件夹（folderId 为 undefined 时移回顶层），只为归属有变化的会话递增版本号。
+ */
+export const moveGroupsToFolder = createAsyncThunk(
+  'tabs/moveGroupsToFolder',
+  async ({ groupIds, folderId }: { groupIds: string[]; folderId?: string }) => {
+    const groups = await storage.getGroups();
+    const ids = new Set(groupIds);
+
+    const changed: TabGroup[] = [];
+    const updatedGroups = groups.map(group => {
+      if (!ids.has(group.id) || group.folderId === folderId) return group;
+      const updated = updateGroupWithVersion(group, { folderId });
+      changed.push(updated);
+      return updated;
+    });
+
+    if (changed.length > 0) {
+      await storage.setGroups(updatedGroups);
+    }
+    return changed;
+  }
+);
+
+/**
+ * 立即按保留策略删除 / 归档过期会话（设置页「立即执行」；后台每天也会执行一次）。
+ */
+export const applyRetentionAndSync = createAsyncThunk(
+  'tabs/applyRetentionAndSync',
+  async (policies: RetentionPolicy[]) => {
+    const now = new Date().toISOString();
+    const { groups, deleted, archived } = applyRetention(await storage.getGroups(), policies, now);
+
+    if (deleted.length + archived.length > 0) {
+      await storage.setGroups(groups);
+      await storage.addDeletedGroups(deleted, now);
+    }
+    return { deletedIds: deleted.map(group => group.id), archived };
+  }
+);
+
 export const deleteGroup = createAsyncThunk(
   'tabs/deleteGroup',
   async (groupId: string) => {
@@ -128,6 +226,111 @@ export const deleteGroup = createAsyncThunk(
   }
 );
 
+/**
+ * 用户删除会话：先把删除前的快照放进回收站，再软删除。
+ * 打开会话后清理原会话不算删除，仍直接使用 deleteGroup。
+ */
+export const trashGroup = createAsyncThunk(
+  'tabs/trashGroup',
+  async (group: TabGroup, { dispatch }) => {
+    await storage.addDeletedGroups([group]);
+    return dispatch(deleteGroup(group.id)).unwrap();
+  }
+);
+
+/**
+ * 把要删除的标签页放进回收站（传入删除前的会话，记录原位置）；
+ * 从会话中移除仍由调用方通过 updateGroup / removeEmptiedGroup 完成。
+ */
+export const trashTabs = createAsyncThunk(
+  'tabs/trashTabs',
+  async ({ group, tabIds }: { group: TabGroup; tabIds: string[] }) => {
+    await storage.addDeletedTabs(group, tabIds);
+  }
+);
+
+/**
+ * 从回收站恢复会话。恢复的会话记入待撤销列表，下次上传时撤销云端的删除标记。
+ */
+export const restoreGroupFromTrash = createAsyncThunk(
+  'tabs/restoreGroupFromTrash',
+  async (groupId: string) => {
+    const entries = await storage.getDeletedGroups();
+    const entry = entries.find(item => item.group.id === groupId);
+    if (!entry) {
+      throw new Error('回收站中没有找到该会话');
+    }
+
+    const { groups, restored } = restoreTrashedGroup(
+      await storage.getGroups(),
+      entry,
+      new Date().toISOString()
+    );
+    await storage.setGroups(groups);
+    await storage.addPendingCloudRestores([restored.id]);
+    await storage.setDeletedGroups(entries.filter(item => item !== entry));
+
+    return restored;
+  }
+);
+
+/**
+ * 从回收站恢复标签页，放回原会话的原位置；原会话已不存在时按原名称新建会话。
+ */
+export const restoreTabsFromTrash = createAsyncThunk(
+  'tabs/restoreTabsFromTrash',
+  async (tabIds: string[]) => {
+    const ids = new Set(tabIds);
+    const entries = await storage.getDeletedTabs();
+    const restoring = entries.filter(entry => ids.has(entry.tab.id));
+    if (restoring.length === 0) return [];
+
+    const { groups, updated, revivedIds } = restoreTrashedTabs(
+      await storage.getGroups(),
+      restoring,
+      new Date().toISOString()
+    );
+    await storage.setGroups(groups);
+    await storage.addPendingCloudRestores(revivedIds);
+    await storage.setDeletedTabs(entries.filter(entry => !ids.has(entry.tab.id)));
+
+    return updated;
+  }
+);
+
+/**
+ * 会话的最后一个标签页被打开 / 删除后处理空会话：
+ * 开启 archiveEmptiedGroups 时清空标签页并归档（保留名称、备注、标签），否则软删除。
+ */
+export const removeEmptiedGroup = createAsyncThunk<
+  { groupId: string; archived: TabGroup | null },
+  string,
+  { state: { settings: { archiveEmptiedGroups?: boolean } } }
+>('tabs/removeEmptiedGroup', async (groupId, { getState }) => {
+  const groups = await storage.getGroups();
+  const now = new Date().toISOString();
+  const archiveEmptied = !!getState().settings.archiveEmptiedGroups;
+
+  let archived: TabGroup | null = null;
+  const updatedGroups = groups.map(g => {
+    if (g.id !== groupId) return g;
+    const emptied = { ...g, tabs: [] };
+    const action = getEmptyGroupAction(emptied, archiveEmptied);
+    if (!action) return g;
+
+    const updated = {
+      ...(action === 'archive' ? setGroupArchived(emptied, true, now) : { ...emptied, isDeleted: true }),
+      version: (g.version || 1) + 1,
+      updatedAt: now,
+    };
+    if (action === 'archive') archived = updated;
+    return updated;
+  });
+
+  await storage.setGroups(updatedGroups);
+  return { groupId, archived };
+});
+
 export const deleteAllGroups = createAsyncThunk(
   'tabs/deleteAllGroups',
   async () => {
@@ -447,6 +650,42 @@ export const moveTabAndSync = createAsyncThunk(
   }
 );
 
+// 批量 thunk 只返回有改动的会话，按 id 替换到 state 中
+const replaceGroups = (state: TabState, groups: TabGroup[]) => {
+  for (const group of groups) {
+    const index = state.groups.findIndex(g => g.id === group.id);
+    if (index !== -1) {
+      state.groups[index] = group;
+    }
+  }
+};
+
+// 从回收站恢复的会话此前已从 state 中移除，不存在时追加
+const upsertGroups = (state: TabState, groups: TabGroup[]) => {
+  for (const group of groups) {
+    const index = state.groups.findIndex(g => g.id === group.id);
+    if (index === -1) {
+      state.groups.push(group);
+    } else {
+      state.groups[index] = group;
+    }
+  }
+};
+
+// 撤销 / 重做：移除回到删除状态的会话，其余按 id 替换或追加
+const applyHistoryResult = (
+  state: TabState,
+  result: { updated: TabGroup[]; removedIds: string[] } | null
+) => {
+  if (!result) return;
+  const removedIds = new Set(result.removedIds);
+  state.groups = state.groups.filter(g => !removedIds.has(g.id));
+  upsertGroups(state, result.updated);
+  if (state.activeGroupId && removedIds.has(state.activeGroupId)) {
+    state.activeGroupId = null;
+  }
+};
+
 export const tabSlice = createSlice({
   name: 'tabs',
   initialState: initialTabState,
@@ -509,6 +748,10 @@ export const tabSlice = createSlice({
     setSearchQuery: (state, action) => {
       state.searchQuery = action.payload;
     },
+    // 标签浏览器：再次点击同一标签时取消筛选
+    setActiveTag: (state, action: PayloadAction<string | null>) => {
+      state.activeTag = action.payload;
+    },
     // 新增：设置同步状态
     setSyncStatus: (state, action) => {
       state.syncStatus = action.payload;
@@ -723,12 +966,46 @@ export const tabSlice = createSlice({
           state.groups[index] = action.payload;
         }
       })
+      .addCase(applyTagEditAndSync.fulfilled, (state, action) => {
+        replaceGroups(state, action.payload);
+      })
+      .addCase(moveGroupsToFolder.fulfilled, (state, action) => {
+        replaceGroups(state, action.payload);
+      })
+      .addCase(applyRetentionAndSync.fulfilled, (state, action) => {
+        const deletedIds = new Set(action.payload.deletedIds);
+        state.groups = state.groups.filter(g => !deletedIds.has(g.id));
+        replaceGroups(state, action.payload.archived);
+      })
       .addCase(deleteGroup.fulfilled, (state, action) => {
         state.groups = state.groups.filter(g => g.id !== action.payload);
         if (state.activeGroupId === action.payload) {
           state.activeGroupId = null;
         }
       })
+      .addCase(restoreGroupFromTrash.fulfilled, (state, action) => {
+        upsertGroups(state, [action.payload]);
+      })
+      .addCase(restoreTabsFromTrash.fulfilled, (state, action) => {
+        upsertGroups(state, action.payload);
+      })
+      .addCase(undoChange.fulfilled, (state, action) => {
+        applyHistoryResult(state, action.payload);
+      })
+      .addCase(redoChange.fulfilled, (state, action) => {
+        applyHistoryResult(state, action.payload);
+      })
+      .addCase(removeEmptiedGroup.fulfilled, (state, action) => {
+        const { groupId, archived } = action.payload;
+        state.groups = state.groups.filter(g => g.id !== groupId);
+        // 打开最后一个标签页时界面已先乐观移除该会话，归档后重新放回（列表中不显示）
+        if (archived) {
+          state.groups.push(archived);
+        }
+        if (state.activeGroupId === groupId) {
+          state.activeGroupId = null;
+        }
+      })
       .addCase(deleteAllGroups.pending, state => {
         state.isLoading = true;
         state.error = null;
@@ -811,6 +1088,7 @@ export const {
   updateGroupName,
   toggleGroupLock,
   setSearchQuery,
+  setActiveTag,
   setSyncStatus,
   moveGroup,
   moveTab,
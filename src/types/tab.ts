@@ -1,3 +1,80 @@
+// Chrome 原生标签组颜色（与 chrome.tabGroups.ColorEnum 取值一致）
+export type TabGroupColor =
+  | 'grey'
+  | 'blue'
+  | 'red'
+  | 'yellow'
+  | 'green'
+  | 'pink'
+  | 'purple'
+  | 'cyan'
+  | 'orange';
+
+// 恢复会话的目标位置：新窗口 / 追加到当前窗口 / 替换当前窗口（先自动保存原有标签页）
+export type RestoreTarget = 'new-window' | 'current-window' | 'replace-window';
+
+// 会话列表排序：保存时间 / 最近打开 / 打开次数（收藏始终在前）
+export type GroupSortOrder = 'created' | 'last-restored' | 'most-restored';
+
+// 按打开记录筛选：全部 / 近 7 天打开过 / 打开过 / 从未打开
+export type RestoreHistoryFilter = 'all' | 'recent' | 'restored' | 'never';
+
+// 会话保留策略：超过期限的会话被删除（软删除，随同步传播）或归档
+export type RetentionAction = 'delete' | 'archive';
+// 计时起点：保存时间 / 最近一次打开（从未打开时按保存时间）
+export type RetentionTrigger = 'saved' | 'not-restored';
+
+export interface RetentionRule {
+  action: RetentionAction;
+  trigger: RetentionTrigger;
+  days: number;
+}
+
+// 全局策略（设置中，仅本设备生效）
+export interface RetentionPolicy extends RetentionRule {
+  id: string;
+  enabled: boolean;
+}
+
+// 单个会话的保留设置：永久保留，或代替全局策略的自定义规则
+export type SessionRetention = { mode: 'keep' } | ({ mode: 'custom' } & RetentionRule);
+
+// URL 规则：按 glob / 正则匹配标签页 URL，决定保存、恢复与自动收集时的处理方式
+export type UrlRuleAction = 'never-save' | 'always-pin' | 'skip-auto-collect';
+export type UrlRulePatternType = 'glob' | 'regex';
+
+export interface UrlRule {
+  id: string;
+  pattern: string;
+  patternType: UrlRulePatternType;
+  action: UrlRuleAction;
+  enabled: boolean;
+}
+
+// 保存时标签页所在的 Chrome 原生标签组
+export interface NativeTabGroupInfo {
+  title: string;
+  color: TabGroupColor;
+}
+
+// 保存时页面的阅读位置（需在设置中开启「记录阅读位置」），恢复时滚动回去
+export interface TabPageState {
+  scrollX: number;
+  scrollY: number;
+  /** 纵向滚动比例（0–1）：页面变短时按比例恢复 */
+  scrollRatio: number;
+  /** 视口顶部附近最近的锚点 id：页面变短、记录的位置已不存在时滚动到这里 */
+  fragment?: string;
+}
+
+// 保存时抓取的页面正文（需在设置中开启「保存页面全文」），按网址保存，不放在 TabGroup 中
+export interface PageContent {
+  url: string;
+  /** 去掉导航、页眉页脚等之后的正文纯文本，有长度上限 */
+  text: string;
+  capturedAt: string;
+}
+
 export interface Tab {
   id: string;
   url: string;
@@ -10,6 +87,20 @@ export interface Tab {
   /** 是否为固定标签页，默认 false */
   pinned: boolean;
 
+  /** 保存时所在的 Chrome 原生标签组；恢复时据此重建分组 */
+  nativeGroup?: NativeTabGroupInfo;
+
+  /** 保存时的滚动位置与锚点；未开启记录或页面无法注入脚本时为空 */
+  pageState?: TabPageState;
+
+  /** 从会话中重新打开的次数（会话被消耗时随会话删除，主要用于锁定会话与模板） */
+  restoreCount?: number;
+  /** 最近一次重新打开的时间 */
+  lastRestoredAt?: string;
+
+  /** 自由标签；标签页同时继承所在会话的标签 */
+  tags?: string[];
+
   // 同步相关字段
   syncStatus?: 'synced' | 'local-only' | 'remote-only' | 'conflict';
   lastSyncedAt?: string | null;
@@ -26,6 +117,17 @@ export interface TabData {
   last_accessed: string;
   /** 是否为固定标签页，默认 false（向后兼容，可选） */
   pinned?: boolean;
+  /** 保存时所在的 Chrome 原生标签组（可选） */
+  native_group?: NativeTabGroupInfo;
+  /** 保存时的滚动位置与锚点（可选） */
+  page_state?: TabPageState;
+  /** 重新打开的次数与最近一次时间（可选） */
+  restore_count?: number;
+  last_restored_at?: string;
+  /** 标签页自身的标签（可选） */
+  tags?: string[];
+  /** 页面全文（仅在开启「同步页面全文」的设备上传，可选） */
+  page_content?: { text: string; captured_at: string };
 }
 
 // 用于 Supabase 中的 tab_groups 表结构
@@ -50,6 +152,15 @@ export interface TabGroup {
   isLocked: boolean;
   notes?: string;
   isFavorite?: boolean;
+  color?: TabGroupColor; // 恢复为 Chrome 原生标签组时使用的颜色
+  autoSnapshot?: boolean; // 定时自动快照（Autosave）生成的会话，受快照保留上限管理
+  idleArchive?: boolean; // 闲置标签页自动归档的目标会话
+  isTemplate?: boolean; // 工作区模板：恢复时不消耗，URL 可含 {变量} 占位符
+  tags?: string[]; // 自由标签，用于标签浏览器筛选与 `tag:` 搜索
+  folderId?: string; // 所在文件夹（SessionFolder.id），未设置时在顶层
+  retention?: SessionRetention; // 单个会话的保留设置，未设置时使用全局保留策略
+  isArchived?: boolean; // 已归档（由保留策略或用户归档）
+  archivedAt?: string;
   user_id?: string; // 关联用户ID
   device_id?: string; // 创建设备ID
   last_sync?: string; // 最后同步时间
@@ -64,6 +175,83 @@ export interface TabGroup {
   isDeleted?: boolean; // 软删除标记
 }
 
+// 回收站中的会话：删除前的完整快照，保留 30 天（仅本设备）
+export interface DeletedGroupEntry {
+  group: TabGroup;
+  deletedAt: string;
+}
+
+// 回收站中的标签页：记录所在会话与位置，恢复时放回原处
+export interface DeletedTabEntry {
+  tab: Tab;
+  groupId: string;
+  groupName: string;
+  /** 删除时在会话中的位置 */
+  index: number;
+  deletedAt: string;
+}
+
+// 撤销 / 重做：一次操作中单个会话改动前后的快照（null 表示不存在或已删除）
+export interface HistoryChange {
+  groupId: string;
+  before: TabGroup | null;
+  after: TabGroup | null;
+}
+
+export interface HistoryEntry {
+  id: string;
+  /** 操作名称，用于「已撤销：…」提示 */
+  label: string;
+  at: string;
+  changes: HistoryChange[];
+}
+
+export interface UndoHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+// 会话文件夹：可以嵌套，结构随设置同步；会话通过 TabGroup.folderId 归属
+export interface SessionFolder {
+  id: string;
+  name: string;
+  parentId?: string; // 上级文件夹，未设置时在顶层
+  createdAt: string;
+  updatedAt: string;
+  isDeleted?: boolean; // 软删除标记，合并时避免被另一台设备的旧数据复活
+}
+
+// 搜索结果排序：相关度 / 最近打开 / 打开次数（后两者相同时再按相关度）
+export type SearchSortOrder = 'relevance' | Exclude<GroupSortOrder, 'created'>;
+
+// 搜索结果面板中的筛选条件（在查询之外进一步过滤命中的标签页）
+export interface SearchFilters {
+  domain?: string;
+  groupName?: string;
+  pinned?: 'all' | 'only' | 'exclude';
+  savedWithin?: '24h' | '7d' | '30d' | 'older';
+  restored?: Exclude<RestoreHistoryFilter, 'all'>;
+  sortBy?: SearchSortOrder;
+}
+
+// 保存的搜索：作为「智能会话」显示，命中的标签页在打开时实时计算。结构保存在设置中（随设置同步）
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  filters: SearchFilters;
+  createdAt: string;
+  updatedAt: string;
+  isDeleted?: boolean; // 软删除标记，合并时避免被另一台设备的旧数据复活
+}
+
+// 浏览会话记录：service worker 持续记录当前打开的窗口，浏览器崩溃/关闭后用于恢复。
+// 每个窗口用一个 TabGroup 表示，便于复用预览与恢复逻辑。
+export interface BrowsingSessionRecord {
+  capturedAt: string;
+  windows: TabGroup[];
+}
+
 export interface TabState {
   groups: TabGroup[];
   activeGroupId: string | null;
@@ -97,6 +285,7 @@ export interface TabState {
   backgroundSync: boolean; // 是否在后台同步
   syncProgress: number; // 同步进度（0-100）
   syncOperation: 'none' | 'upload' | 'download'; // 当前同步操作类型
+  activeTag: string | null; // 标签浏览器中选中的标签（仅 UI 状态，不持久化）
 }
 
 // 布局模式枚举
@@ -118,6 +307,64 @@ export interface UserSettings {
   // 是否在收集/保存时包含固定标签页（pinned tabs）
   collectPinnedTabs: boolean;
 
+  // 保存后是否关闭已保存的标签页；false 即「保存但不关闭」快照模式
+  // 字段名与云端 user_settings.auto_close_tabs_after_saving 列对应
+  autoCloseTabsAfterSaving: boolean;
+
+  // 恢复会话时放进以会话命名的 Chrome 原生标签组
+  restoreAsNativeTabGroup: boolean;
+
+  // 延迟恢复：后台标签页创建后立即丢弃（discard），激活时才加载
+  lazyRestore: boolean;
+  // 延迟恢复时同时加载的标签页上限
+  lazyRestoreConcurrency: number;
+
+  // 恢复整个会话时的默认目标位置（点击时可用修饰键临时覆盖）
+  restoreTarget: RestoreTarget;
+
+  // 会话列表的排序方式与打开记录筛选
+  groupSortOrder: GroupSortOrder;
+  groupRestoreFilter: RestoreHistoryFilter;
+
+  // 保存时记录页面滚动位置与锚点（需授予访问所有网站的权限，开启时申请）
+  capturePageState: boolean;
+
+  // 保存时抓取页面正文，供 `content:` 搜索（与阅读位置共用网站访问权限）；
+  // 正文单独保存在本机，只有开启 syncPageContent 时才随会话上传
+  capturePageContent: boolean;
+  syncPageContent: boolean;
+
+  // 定时自动快照：按间隔把所有窗口另存为锁定的 Autosave 会话（不关闭标签页）
+  autoSnapshotEnabled: boolean;
+  autoSnapshotIntervalMinutes: number;
+  // 最多保留的 Autosave 会话数量，超出后清理最旧的
+  autoSnapshotMaxSessions: number;
+
+  // 闲置标签页自动归档：超过 idleArchiveMinutes 未激活的标签页移入「闲置标签页」会话
+  idleArchiveEnabled: boolean;
+  idleArchiveMinutes: number;
+  // 永不归档的域名（含子域名）
+  idleArchiveWhitelist: string[];
+
+  // 会话的最后一个标签页被打开 / 删除后，保留会话并归档，而不是删除
+  archiveEmptiedGroups: boolean;
+
+  // 会话保留策略：service worker 每天检查一次
+  retentionPolicies: RetentionPolicy[];
+
+  // 用户定义的 URL 规则（永不保存 / 恢复时固定 / 不自动收集）
+  urlRules: UrlRule[];
+
+  // 收件箱会话：保存单个标签页时追加到该会话，而不是新建会话；null 表示不使用
+  inboxSessionId: string | null;
+
+  // 会话文件夹（随设置同步）与本设备上折叠的文件夹
+  sessionFolders: SessionFolder[];
+  collapsedFolderIds: string[];
+
+  // 保存的搜索（智能会话，随设置同步）
+  savedSearches: SavedSearch[];
+
   // 新增同步策略设置
   syncStrategy: 'newest' | 'local' | 'remote' | 'ask'; // 冲突解决策略
   deleteStrategy: 'everywhere' | 'local-only'; // 删除策略
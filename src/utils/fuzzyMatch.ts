@@ -0,0 +1,163 @@
+/**
+ * 搜索用的文本归一化与容错匹配（由 AdvancedSearch 使用）。
+ *
+ * - 归一化：全角转半角、去掉变音符号（é → e）、转小写；记录每个字符在原文中的位置，
+ *   命中范围可以换算回原文，高亮不会错位
+ * - 分词：英文、数字按连续字符成词，中文 / 日文每个字单独成词（标题中没有空格分隔）
+ * - 容错：词长 ≥ 5 时允许 1 处编辑（增、删、改、相邻两字交换），≥ 9 时允许 2 处
+ */
+
+export interface NormalizedText {
+  text: string;
+  /** text 中每个字符在原文中的下标，末尾多一项为原文长度 */
+  offsets: number[];
+}
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface WordMatch extends TextRange {
+  /** 按编辑距离命中（不是原样出现） */
+  fuzzy: boolean;
+}
+
+interface Word extends TextRange {
+  value: string;
+}
+
+const COMBINING_MARKS = /\p{M}/gu;
+const CJK_CHAR = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}';
+const WORD_PATTERN = new RegExp(`[${CJK_CHAR}]|(?:(?![${CJK_CHAR}])[\\p{L}\\p{N}])+`, 'gu');
+const CJK_PATTERN = new RegExp(`[${CJK_CHAR}]`, 'u');
+const ASCII_PATTERN = /^[\x20-\x7e]*$/;
+
+const FUZZY_MIN_LENGTH = 5;
+const FUZZY_TWO_EDITS_LENGTH = 9;
+
+// 同一批标签页在每次输入时都会重新搜索，缓存归一化结果；超过上限时整体清空
+const NORMALIZE_CACHE_LIMIT = 5000;
+const normalizeCache = new Map<string, NormalizedText>();
+const wordsCache = new WeakMap<NormalizedText, Word[]>();
+
+const normalizeUncached = (source: string): NormalizedText => {
+  if (ASCII_PATTERN.test(source)) {
+    return {
+      text: source.toLowerCase(),
+      offsets: Array.from({ length: source.length + 1 }, (_, index) => index),
+    };
+  }
+
+  let text = '';
+  const offsets: number[] = [];
+  let index = 0;
+  for (const char of source) {
+    const normalized = char.normalize('NFKD').replace(COMBINING_MARKS, '').toLowerCase();
+    for (let unit = 0; unit < normalized.length; unit++) offsets.push(index);
+    text += normalized;
+    index += char.length;
+  }
+  offsets.push(source.length);
+  return { text, offsets };
+};
+
+export const normalizeSearchText = (source: string): NormalizedText => {
+  const cached = normalizeCache.get(source);
+  if (cached) return cached;
+
+  const normalized = normalizeUncached(source);
+  if (normalizeCache.size >= NORMALIZE_CACHE_LIMIT) normalizeCache.clear();
+  normalizeCache.set(source, normalized);
+  return normalized;
+};
+
+/** 归一化但不放入缓存（页面全文等长文本由调用方自行保存结果） */
+export const normalizeLongText = (source: string): NormalizedText => normalizeUncached(source);
+
+/** 归一化文本中的 [start, end) 换算为原文范围（一个原文字符展开成多个字符时取整个原文字符） */
+export const toSourceRange = (normalized: NormalizedText, range: TextRange): TextRange => {
+  const start = normalized.offsets[range.start];
+  const lastStart = normalized.offsets[Math.max(range.start, range.end - 1)];
+  let next = range.end;
+  while (next < normalized.offsets.length - 1 && normalized.offsets[next] === lastStart) next++;
+  return { start, end: Math.max(start, normalized.offsets[next]) };
+};
+
+const getWords = (normalized: NormalizedText): Word[] => {
+  const cached = wordsCache.get(normalized);
+  if (cached) return cached;
+
+  const words = [...normalized.text.matchAll(WORD_PATTERN)].map(match => ({
+    value: match[0],
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+  wordsCache.set(normalized, words);
+  return words;
+};
+
+/** 把已归一化的查询拆成词 */
+export const splitSearchWords = (normalizedQuery: string): string[] =>
+  normalizedQuery.match(WORD_PATTERN) ?? [];
+
+/** 归一化并拆词（不经过缓存，用于建立搜索索引） */
+export const getSearchWords = (source: string): string[] => splitSearchWords(normalizeUncached(source).text);
+
+/**
+ * 限定最大距离的编辑距离（相邻交换算 1 次）；超过 max 时返回 max + 1
+ */
+export const editDistance = (left: string, right: string, max: number): number => {
+  if (Math.abs(left.length - right.length) > max) return max + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: right.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= left.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= right.length; j++) {
+      const cost = left[i - 1] === right[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && left[i - 1] === right[j - 2] && left[i - 2] === right[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return Math.min(previous[right.length], max + 1);
+};
+
+/** 查询词允许的编辑次数（短词、中日文不做容错时为 0） */
+export const getAllowedEdits = (word: string): number => {
+  if (word.length < FUZZY_MIN_LENGTH || CJK_PATTERN.test(word)) return 0;
+  return word.length >= FUZZY_TWO_EDITS_LENGTH ? 2 : 1;
+};
+
+/**
+ * 在归一化文本中找查询词：先找原样出现的位置，找不到时按编辑距离与文本中的词比较，
+ * 取距离最小的词。返回归一化文本中的范围。
+ */
+export const findWordMatch = (normalized: NormalizedText, word: string): WordMatch | null => {
+  const index = normalized.text.indexOf(word);
+  if (index !== -1) {
+    return { start: index, end: index + word.length, fuzzy: false };
+  }
+
+  const allowedEdits = getAllowedEdits(word);
+  if (allowedEdits === 0) return null;
+
+  let best: WordMatch | null = null;
+  let bestDistance = allowedEdits + 1;
+  for (const candidate of getWords(normalized)) {
+    const distance = editDistance(word, candidate.value, allowedEdits);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = { start: candidate.start, end: candidate.end, fuzzy: true };
+    }
+  }
+  return best;
+};
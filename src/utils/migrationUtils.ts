@@ -8,6 +8,9 @@ import { sanitizeFaviconUrl } from './faviconUtils';
 import { kvRemove } from '@/storage/storageAdapter';
 import { TabGroup } from '@/types/tab';
 import { migrationError } from './errors';
+import { SEARCH_INDEX_VERSION } from './searchIndex';
+
+const SEARCH_INDEX_MIGRATION_KEY = `search_index_v${SEARCH_INDEX_VERSION}`;
 
 /**
  * 迁移现有数据中的 favicon URLs，确保符合 CSP 策略
@@ -94,6 +97,19 @@ export async function removeRecentRestoreHistory(): Promise<void> {
   }
 }
 
+/**
+ * 按当前会话列表重建搜索索引。标记里带有索引版本号，索引格式升级后会再次重建。
+ */
+export async function rebuildSearchIndex(): Promise<void> {
+  try {
+    await storage.rebuildSearchIndex();
+    await storage.setMigrationFlag(SEARCH_INDEX_MIGRATION_KEY, true);
+  } catch (error) {
+    console.error('重建搜索索引失败:', error);
+    throw error;
+  }
+}
+
 /**
  * 运行所有必要的数据迁移
  */
@@ -109,6 +125,10 @@ export async function runMigrations(): Promise<void> {
     if (await shouldRunMigration('recent_restore_history_removed_v1')) {
       await removeRecentRestoreHistory();
     }
+
+    if (await shouldRunMigration(SEARCH_INDEX_MIGRATION_KEY)) {
+      await rebuildSearchIndex();
+    }
     
     console.log('数据迁移检查完成');
     
@@ -0,0 +1,59 @@
+/**
+ * 内存中的页面全文（网址 → 正文），AdvancedSearch 的 `content:` 条件在这里求值。
+ *
+ * 数据由 storage 从 IndexedDB 载入并在改动后整体替换（见 storage.loadPageContents），
+ * 归一化结果按网址缓存，正文不进入 fuzzyMatch 的通用缓存。
+ */
+
+import type { PageContent } from '@/types/tab';
+import { normalizeLongText, type NormalizedText } from './fuzzyMatch';
+
+export class PageContentStore {
+  private contents = new Map<string, PageContent>();
+  private normalized = new Map<string, NormalizedText>();
+
+  get size(): number {
+    return this.contents.size;
+  }
+
+  get(url: string): PageContent | undefined {
+    return this.contents.get(url);
+  }
+
+  /** 归一化后的正文（首次用到时计算） */
+  getNormalized(url: string): NormalizedText | undefined {
+    const cached = this.normalized.get(url);
+    if (cached) return cached;
+
+    const content = this.contents.get(url);
+    if (!content) return undefined;
+    const normalized = normalizeLongText(content.text);
+    this.normalized.set(url, normalized);
+    return normalized;
+  }
+
+  /** 是否有不在 urls 中的正文（需要清理） */
+  hasUnused(urls: Set<string>): boolean {
+    for (const url of this.contents.keys()) {
+      if (!urls.has(url)) return true;
+    }
+    return false;
+  }
+
+  /** 用保存的记录整体替换；正文没变的网址保留归一化结果 */
+  replaceAll(records: readonly PageContent[]): void {
+    const next = new Map(records.map(record => [record.url, record]));
+    for (const [url, content] of this.contents) {
+      if (next.get(url)?.text !== content.text) this.normalized.delete(url);
+    }
+    this.contents = next;
+  }
+
+  clear(): void {
+    this.contents.clear();
+    this.normalized.clear();
+  }
+}
+
+/** 弹窗与 service worker 各自持有一份，通过 storage 共享 */
+export const pageContentStore = new PageContentStore();
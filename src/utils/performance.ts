@@ -115,6 +115,30 @@ export function debounceAsync<TArgs extends any[], TResult>(
   };
 }
 
+/**
+ * 限制并发的异步 map：同一时刻最多 limit 个 mapper 在执行，结果按输入顺序返回。
+ * 任一 mapper 抛错会让整体 reject（已启动的任务不会被取消）。
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const workerCount = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await mapper(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
 /**
  * 简单的内存缓存类（带 LRU 淘汰策略）
  */
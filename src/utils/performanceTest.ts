@@ -1,4 +1,6 @@
 import { storage } from './storage';
+import { AdvancedSearch } from './search';
+import { SearchIndex, searchIndex } from './searchIndex';
 import type { TabGroup, Tab } from '@/types/tab';
 
 /**
@@ -151,6 +153,103 @@ export async function benchmarkStorageRoundtrip(options?: {
   };
 }
 
+const SEARCH_BENCHMARK_TOPICS = [
+  'Kubernetes 部署指南',
+  'React Hooks release notes',
+  'PostgreSQL 性能调优',
+  'Rust async runtime',
+  '周报模板',
+  'Design review checklist',
+  'TypeScript generics cookbook',
+  'Café menu à la carte',
+];
+
+const SEARCH_BENCHMARK_SITES = ['github.com', 'docs.google.com', 'developer.mozilla.org', 'zhihu.com', 'youtube.com'];
+
+const SEARCH_BENCHMARK_SYLLABLES = ['ka', 'lo', 'mi', 'ren', 'tu', 'sa', 'vel', 'dor', 'qui', 'pex', 'zan', 'bo'];
+
+/** 由序号生成一个三音节的假词（共 1728 个），模拟各个项目、文档特有的词 */
+const benchmarkWord = (seed: number) => {
+  const count = SEARCH_BENCHMARK_SYLLABLES.length;
+  return [seed % count, Math.floor(seed / count) % count, Math.floor(seed / count / count) % count]
+    .map(index => SEARCH_BENCHMARK_SYLLABLES[index])
+    .join('');
+};
+
+/**
+ * 生成接近真实分布的搜索测试数据：每个会话围绕一个主题和一个项目词，
+ * 标签页标题再带上各自的词，URL 分布在几个常见站点
+ */
+export function generateSearchTestData(groupCount: number, tabsPerGroup: number): TabGroup[] {
+  return generateTestData(groupCount, tabsPerGroup).map((group, i) => {
+    const topic = SEARCH_BENCHMARK_TOPICS[i % SEARCH_BENCHMARK_TOPICS.length];
+    const project = benchmarkWord(i * 7919);
+    return {
+      ...group,
+      name: `${project} ${topic}`,
+      tabs: group.tabs.map((tab, j) => ({
+        ...tab,
+        title: `${topic} ${project} ${benchmarkWord(i * 31 + j)} ${j}`,
+        url: `https://${SEARCH_BENCHMARK_SITES[(i + j) % SEARCH_BENCHMARK_SITES.length]}/${project}/${j}`,
+      })),
+    };
+  });
+}
+
+/**
+ * 搜索索引基准：同一批查询分别逐个会话求值与使用索引，比较耗时并核对结果一致。
+ * 默认 2000 个会话 × 25 个标签页（5 万个标签页）。
+ */
+export function benchmarkSearchIndex(options?: {
+  groupCount?: number;
+  tabsPerGroup?: number;
+  iterations?: number;
+  queries?: string[];
+}) {
+  const {
+    groupCount = 2000,
+    tabsPerGroup = 25,
+    iterations = 5,
+    queries = [benchmarkWord(7919 * 3), 'kaloren', `${benchmarkWord(42)} site:zhihu.com`, '周报 renvel', 'title:"release notes" dorqui OR rust tusa'],
+  } = options || {};
+  const groups = generateSearchTestData(groupCount, tabsPerGroup);
+
+  const buildStart = performance.now();
+  new SearchIndex().sync(groups);
+  const buildMs = performance.now() - buildStart;
+  console.log(`[benchmark] 建立索引: ${buildMs.toFixed(2)}ms（${groupCount * tabsPerGroup} 个标签页）`);
+
+  // 预热：单例索引与当前数据对齐，之后的搜索只做增量核对
+  searchIndex.sync(groups);
+
+  const runQueries = (useIndex: boolean) => () => {
+    queries.forEach(query => AdvancedSearch.search(groups, { query, useIndex }));
+  };
+  const scan = measurePerformance('逐个会话求值', runQueries(false), iterations);
+  const indexed = measurePerformance('使用搜索索引', runQueries(true), iterations);
+  showPerformanceComparison(scan, indexed, '搜索索引');
+
+  const mismatched = queries.filter(query => {
+    const scanIds = AdvancedSearch.search(groups, { query, useIndex: false }).map(result => result.tab.id);
+    const indexedIds = AdvancedSearch.search(groups, { query }).map(result => result.tab.id);
+    return scanIds.join('\n') !== indexedIds.join('\n');
+  });
+  if (mismatched.length > 0) {
+    console.warn('[benchmark] 使用索引后结果不一致的查询:', mismatched);
+  }
+
+  return {
+    groupCount,
+    tabsPerGroup,
+    iterations,
+    buildMs,
+    scan,
+    indexed,
+    speedup: scan.avg / Math.max(indexed.avg, 0.001),
+    mismatched,
+  };
+}
+
 /**
  * 写入一批测试数据到存储，便于人工或自动基准测试
  */
@@ -1,4 +1,29 @@
-import { Tab, TabGroup } from '@/types/tab';
+import { RestoreHistoryFilter, SearchFilters, SearchSortOrder, Tab, TabGroup } from '@/types/tab';
+import {
+  compareRestoreStats,
+  getGroupRestoreStats,
+  getTabRestoreStats,
+  matchesRestoreHistoryFilter,
+} from '@/domain/tabGroup/restoreHistory';
+import { mergeTags, tabHasTag } from '@/domain/tabGroup/tags';
+import {
+  findWordMatch,
+  normalizeSearchText,
+  splitSearchWords,
+  toSourceRange,
+  type NormalizedText,
+  type TextRange,
+} from './fuzzyMatch';
+import {
+  getHighlightTerms,
+  parseQueryExpression,
+  type QueryNode,
+  type SearchQueryError,
+} from './searchQuery';
+import { searchIndex } from './searchIndex';
+import { pageContentStore, type PageContentStore } from './pageContentStore';
+
+export type { SearchFilters, SearchSortOrder } from '@/types/tab';
 
 export const SCORE_WEIGHTS = {
   TITLE_EXACT: 100,
@@ -9,9 +34,28 @@ export const SCORE_WEIGHTS = {
   GROUP_NAME_PARTIAL: 40,
   NOTES_EXACT: 60,
   NOTES_PARTIAL: 30,
+  /** `content:` 在页面正文中命中（正文很长，命中的信息量低于标题） */
+  CONTENT_PARTIAL: 20,
   PINNED_BONUS: 10,
+  /** 最近打开 / 编辑过的会话加分，按天数减半（半衰期见 RECENCY_HALF_LIFE_DAYS） */
+  RECENCY_BONUS: 15,
+  /** 打开次数加分：每翻一倍加 5 分，最多 20 分 */
+  RESTORE_FREQUENCY_BONUS: 5,
+  RESTORE_FREQUENCY_BONUS_MAX: 20,
 } as const;
 
+/**
+ * 普通词没有原样出现时的得分比例：查询中的词分散在标题、URL 等处命中，或有拼写错误
+ * （例如 "kuberntes" 找到 "Kubernetes"）。区分大小写或精确匹配时不做容错。
+ */
+export const MATCH_QUALITY = {
+  PHRASE: 1,
+  WORDS: 0.8,
+  FUZZY: 0.5,
+} as const;
+
+const RECENCY_HALF_LIFE_DAYS = 14;
+
 export interface SearchOptions {
   query?: string;
   caseSensitive?: boolean;
@@ -24,11 +68,24 @@ export interface SearchOptions {
   groupNameFilter?: string;
   pinnedOnly?: boolean;
   unpinnedOnly?: boolean;
+  /** 按标签页的打开记录筛选 */
+  restoreFilter?: RestoreHistoryFilter;
+  sortBy?: SearchSortOrder;
+  /** 标签页（含继承自会话的标签）须同时带有这些标签；查询中的 `tag:xxx` 也会并入 */
+  tags?: string[];
+  /** 归档的会话：默认不搜索；查询中的 `archived:` 优先 */
+  archived?: ArchivedFilter;
+  /** 用搜索索引缩小范围（默认开启）；关闭时逐个会话求值，用于对比测试与基准 */
+  useIndex?: boolean;
+  /** `content:` 查找正文的来源，默认为载入内存的页面全文 */
+  pageContents?: Pick<PageContentStore, 'get' | 'getNormalized'>;
 }
 
 export interface MatchDetail {
-  field: 'title' | 'url' | 'groupName' | 'notes';
+  field: 'title' | 'url' | 'groupName' | 'notes' | 'content';
+  /** 原文中命中的片段（容错命中时是原文中的整个词） */
   matchedText: string;
+  /** matchedText 在原文中的下标 */
   startIndex: number;
 }
 
@@ -45,13 +102,82 @@ export interface SessionSearchResult {
   score: number;
 }
 
-export interface SearchFilters {
-  domain?: string;
-  groupName?: string;
-  pinned?: 'all' | 'only' | 'exclude';
-  savedWithin?: '24h' | '7d' | '30d' | 'older';
+export interface ParsedTagQuery {
+  /** 去掉 `tag:` 片段后的普通查询文本 */
+  text: string;
+  tags: string[];
+}
+
+// 归档的会话：不搜索 / 一起搜索 / 只搜索归档的会话
+export type ArchivedFilter = 'exclude' | 'include' | 'only';
+
+export interface ParsedSearchQuery extends ParsedTagQuery {
+  archived?: ArchivedFilter;
+}
+
+const TAG_TOKEN_PATTERN = /(^|\s)#?tag:(\S*)/gi;
+const ARCHIVED_TOKEN_PATTERN = /(^|\s)archived:(\S*)/gi;
+
+const ARCHIVED_TOKEN_VALUES: Record<string, ArchivedFilter> = {
+  all: 'include',
+  include: 'include',
+  no: 'exclude',
+  exclude: 'exclude',
+};
+
+/**
+ * 从查询中拆出 `tag:xxx` 片段（可写多个，须同时满足）；`tag:` 后为空时忽略
+ */
+export const parseTagQuery = (query: string): ParsedTagQuery => {
+  const tags: string[] = [];
+  const text = query.replace(TAG_TOKEN_PATTERN, (_token, leading: string, tag: string) => {
+    tags.push(tag);
+    return leading;
+  });
+  return { text: text.replace(/\s+/g, ' ').trim(), tags: mergeTags(tags) };
+};
+
+/**
+ * 拆出查询中的筛选片段：`tag:xxx`（见 parseTagQuery）与 `archived:`。
+ * `archived:` / `archived:only` 只搜索归档的会话，`archived:all` 同时搜索，`archived:no` 不搜索。
+ */
+export const parseSearchQuery = (query: string): ParsedSearchQuery => {
+  let archived: ArchivedFilter | undefined;
+  const rest = query.replace(ARCHIVED_TOKEN_PATTERN, (_token, leading: string, value: string) => {
+    archived = ARCHIVED_TOKEN_VALUES[value.toLowerCase()] ?? 'only';
+    return leading;
+  });
+  return { ...parseTagQuery(rest), ...(archived ? { archived } : {}) };
+};
+
+export interface ParsedSearchExpression {
+  /** 去掉 `archived:` 后的查询表达式（语法见 utils/searchQuery）；空查询或语法错误时为 null */
+  expression: QueryNode | null;
+  archived?: ArchivedFilter;
+  error: SearchQueryError | null;
+  /** 结果中需要高亮的词 */
+  highlightTerms: string[];
 }
 
+/**
+ * 解析搜索框中的完整查询：`archived:` 决定搜索范围，其余部分按查询语法解析。
+ * 语法错误的位置对应原始查询字符串（`archived:` 片段替换为等长空白后再解析）。
+ */
+export const parseSearchExpression = (query: string): ParsedSearchExpression => {
+  let archived: ArchivedFilter | undefined;
+  const rest = query.replace(ARCHIVED_TOKEN_PATTERN, (token, leading: string, value: string) => {
+    archived = ARCHIVED_TOKEN_VALUES[value.toLowerCase()] ?? 'only';
+    return leading + ' '.repeat(token.length - leading.length);
+  });
+  const { expression, error } = parseQueryExpression(rest);
+  return {
+    expression,
+    ...(archived ? { archived } : {}),
+    error,
+    highlightTerms: getHighlightTerms(expression),
+  };
+};
+
 const normalizeText = (value: string, caseSensitive: boolean) => {
   return caseSensitive ? value : value.toLowerCase();
 };
@@ -73,6 +199,13 @@ const buildMatchDetail = (
   };
 };
 
+const matchesArchivedFilter = (group: TabGroup, archived: ArchivedFilter) => {
+  if (archived === 'include') {
+    return true;
+  }
+  return archived === 'only' ? !!group.isArchived : !group.isArchived;
+};
+
 const matchesSavedWithin = (group: TabGroup, savedWithin?: SearchFilters['savedWithin']) => {
   if (!savedWithin) {
     return true;
@@ -101,7 +234,314 @@ const matchesSavedWithin = (group: TabGroup, savedWithin?: SearchFilters['savedW
   }
 };
 
+interface GroupSearchContext {
+  group: TabGroup;
+  normalizedName: string;
+  normalizedNotes: string;
+}
+
+interface EvaluateOptions {
+  caseSensitive: boolean;
+  exactMatch: boolean;
+  searchUrls: boolean;
+  searchTitles: boolean;
+  searchNotes: boolean;
+  now: number;
+  pageContents: Pick<PageContentStore, 'get' | 'getNormalized'>;
+}
+
+// 条件满足时的得分与命中字段；null 表示不满足
+type Evaluation = { score: number; matches: MatchDetail[] } | null;
+
+const MATCHED_WITHOUT_DETAILS: Evaluation = { score: 0, matches: [] };
+
+const matchesTerm = (normalizedSource: string, term: string, exactMatch: boolean) =>
+  exactMatch ? normalizedSource === term : normalizedSource.includes(term);
+
+const getHostname = (url: string): string | null => {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+};
+
+interface SearchableField {
+  field: MatchDetail['field'];
+  source: string;
+  weight: number;
+}
+
+const getSearchableFields = (tab: Tab, context: GroupSearchContext, options: EvaluateOptions): SearchableField[] => {
+  const { group } = context;
+  const fields: SearchableField[] = [];
+  if (options.searchTitles) {
+    fields.push({ field: 'title', source: tab.title, weight: SCORE_WEIGHTS.TITLE_PARTIAL });
+  }
+  if (options.searchUrls) {
+    fields.push({ field: 'url', source: tab.url, weight: SCORE_WEIGHTS.URL_PARTIAL });
+  }
+  fields.push({ field: 'groupName', source: group.name, weight: SCORE_WEIGHTS.GROUP_NAME_PARTIAL });
+  if (options.searchNotes && group.notes) {
+    fields.push({ field: 'notes', source: group.notes, weight: SCORE_WEIGHTS.NOTES_PARTIAL });
+  }
+  return fields;
+};
+
+const toMatchDetail = (
+  field: MatchDetail['field'],
+  source: string,
+  normalized: NormalizedText,
+  range: TextRange
+): MatchDetail => {
+  const { start, end } = toSourceRange(normalized, range);
+  return { field, matchedText: source.slice(start, end), startIndex: start };
+};
+
+/** 区分大小写或精确匹配：整个词原样比较（与引入容错之前一致） */
+const evaluateLiteralText = (
+  value: string,
+  tab: Tab,
+  context: GroupSearchContext,
+  options: EvaluateOptions
+): Evaluation => {
+  const { caseSensitive, exactMatch } = options;
+  const term = normalizeText(value, caseSensitive);
+  const matches: MatchDetail[] = [];
+  let score = 0;
+
+  if (options.searchTitles && matchesTerm(normalizeText(tab.title, caseSensitive), term, exactMatch)) {
+    matches.push(buildMatchDetail('title', tab.title, term, exactMatch, caseSensitive));
+    score += exactMatch ? SCORE_WEIGHTS.TITLE_EXACT : SCORE_WEIGHTS.TITLE_PARTIAL;
+  }
+
+  if (options.searchUrls && matchesTerm(normalizeText(tab.url, caseSensitive), term, exactMatch)) {
+    matches.push(buildMatchDetail('url', tab.url, term, exactMatch, caseSensitive));
+    score += exactMatch ? SCORE_WEIGHTS.URL_EXACT : SCORE_WEIGHTS.URL_PARTIAL;
+  }
+
+  const { group } = context;
+  if (matchesTerm(context.normalizedName, term, exactMatch)) {
+    matches.push(buildMatchDetail('groupName', group.name, term, exactMatch, caseSensitive));
+    score += exactMatch ? SCORE_WEIGHTS.GROUP_NAME_EXACT : SCORE_WEIGHTS.GROUP_NAME_PARTIAL;
+  }
+
+  if (options.searchNotes && group.notes && matchesTerm(context.normalizedNotes, term, exactMatch)) {
+    matches.push(buildMatchDetail('notes', group.notes, term, exactMatch, caseSensitive));
+    score += exactMatch ? SCORE_WEIGHTS.NOTES_EXACT : SCORE_WEIGHTS.NOTES_PARTIAL;
+  }
+
+  return matches.length > 0 ? { score, matches } : null;
+};
+
+/**
+ * 普通词：在标题、URL、会话名称、备注中匹配（忽略大小写、全半角与变音符号）。
+ * 整个短语出现在某个字段时按原权重计分；否则逐词匹配，每个词都要在某个字段中出现
+ * （可以有拼写错误），得分按 MATCH_QUALITY 打折并按词数平均。
+ */
+const evaluateText = (
+  value: string,
+  tab: Tab,
+  context: GroupSearchContext,
+  options: EvaluateOptions
+): Evaluation => {
+  if (options.caseSensitive || options.exactMatch) {
+    return evaluateLiteralText(value, tab, context, options);
+  }
+
+  const phrase = normalizeSearchText(value).text;
+  const fields = getSearchableFields(tab, context, options).map(field => ({
+    ...field,
+    normalized: normalizeSearchText(field.source),
+  }));
+
+  const phraseMatches: MatchDetail[] = [];
+  let phraseScore = 0;
+  for (const { field, source, weight, normalized } of fields) {
+    const index = normalized.text.indexOf(phrase);
+    if (index !== -1) {
+      phraseMatches.push(toMatchDetail(field, source, normalized, { start: index, end: index + phrase.length }));
+      phraseScore += weight * MATCH_QUALITY.PHRASE;
+    }
+  }
+  if (phraseMatches.length > 0) {
+    return { score: phraseScore, matches: phraseMatches };
+  }
+
+  const words = splitSearchWords(phrase);
+  if (words.length === 0) {
+    return null;
+  }
+
+  const matches: MatchDetail[] = [];
+  let score = 0;
+  for (const word of words) {
+    let wordScore = 0;
+    for (const { field, source, weight, normalized } of fields) {
+      const match = findWordMatch(normalized, word);
+      if (match) {
+        matches.push(toMatchDetail(field, source, normalized, match));
+        wordScore += weight * (match.fuzzy ? MATCH_QUALITY.FUZZY : MATCH_QUALITY.WORDS);
+      }
+    }
+    if (wordScore === 0) {
+      return null;
+    }
+    score += wordScore;
+  }
+
+  return { score: score / words.length, matches };
+};
+
+const FIELD_WEIGHTS = {
+  title: SCORE_WEIGHTS.TITLE_PARTIAL,
+  groupName: SCORE_WEIGHTS.GROUP_NAME_PARTIAL,
+  content: SCORE_WEIGHTS.CONTENT_PARTIAL,
+} as const;
+
+/** `title:` / `group:` / `content:`：只在一个字段中匹配，规则同普通词 */
+const evaluateFieldText = (
+  field: keyof typeof FIELD_WEIGHTS,
+  source: string,
+  value: string,
+  options: EvaluateOptions,
+  normalized: NormalizedText = normalizeSearchText(source)
+): Evaluation => {
+  const weight = FIELD_WEIGHTS[field];
+  if (options.caseSensitive) {
+    const term = normalizeText(value, true);
+    return source.includes(term)
+      ? { score: weight, matches: [buildMatchDetail(field, source, term, false, true)] }
+      : null;
+  }
+
+  const phrase = normalizeSearchText(value).text;
+  const index = normalized.text.indexOf(phrase);
+  if (index !== -1) {
+    return {
+      score: weight,
+      matches: [toMatchDetail(field, source, normalized, { start: index, end: index + phrase.length })],
+    };
+  }
+
+  const words = splitSearchWords(phrase);
+  const matches: MatchDetail[] = [];
+  let score = 0;
+  for (const word of words) {
+    const match = findWordMatch(normalized, word);
+    if (!match) return null;
+    matches.push(toMatchDetail(field, source, normalized, match));
+    score += weight * (match.fuzzy ? MATCH_QUALITY.FUZZY : MATCH_QUALITY.WORDS);
+  }
+  return matches.length > 0 ? { score: score / words.length, matches } : null;
+};
+
+const evaluateNode = (
+  node: QueryNode,
+  tab: Tab,
+  context: GroupSearchContext,
+  options: EvaluateOptions
+): Evaluation => {
+  const { group } = context;
+
+  switch (node.type) {
+    case 'text':
+      return evaluateText(node.value, tab, context, options);
+
+    case 'field': {
+      if (node.field === 'title') {
+        return evaluateFieldText('title', tab.title, node.value, options);
+      }
+      if (node.field === 'group') {
+        return evaluateFieldText('groupName', group.name, node.value, options);
+      }
+      if (node.field === 'content') {
+        const content = options.pageContents.get(tab.url);
+        return content
+          ? evaluateFieldText('content', content.text, node.value, options, options.pageContents.getNormalized(tab.url))
+          : null;
+      }
+      if (node.field === 'site') {
+        return getHostname(tab.url)?.includes(node.value.toLowerCase()) ? MATCHED_WITHOUT_DETAILS : null;
+      }
+      return tabHasTag(tab, group, node.value) ? MATCHED_WITHOUT_DETAILS : null;
+    }
+
+    case 'is': {
+      const matched = node.status === 'pinned'
+        ? !!tab.pinned
+        : node.status === 'favorite'
+          ? !!group.isFavorite
+          : !!group.isLocked;
+      return matched ? MATCHED_WITHOUT_DETAILS : null;
+    }
+
+    case 'saved': {
+      const createdAt = new Date(group.createdAt).getTime();
+      const matched = Number.isNaN(createdAt)
+        ? node.comparator === '>'
+        : node.comparator === '<'
+          ? options.now - createdAt <= node.withinMs
+          : options.now - createdAt > node.withinMs;
+      return matched ? MATCHED_WITHOUT_DETAILS : null;
+    }
+
+    case 'not':
+      return evaluateNode(node.node, tab, context, options) ? null : MATCHED_WITHOUT_DETAILS;
+
+    case 'and': {
+      let score = 0;
+      const matches: MatchDetail[] = [];
+      for (const child of node.nodes) {
+        const evaluation = evaluateNode(child, tab, context, options);
+        if (!evaluation) return null;
+        score += evaluation.score;
+        matches.push(...evaluation.matches);
+      }
+      return { score, matches };
+    }
+
+    case 'or': {
+      // 所有分支都求值，命中的分支都计入得分与高亮
+      const evaluations = node.nodes
+        .map(child => evaluateNode(child, tab, context, options))
+        .filter((evaluation): evaluation is NonNullable<Evaluation> => !!evaluation);
+      if (evaluations.length === 0) return null;
+      return {
+        score: evaluations.reduce((total, evaluation) => total + evaluation.score, 0),
+        matches: evaluations.flatMap(evaluation => evaluation.matches),
+      };
+    }
+  }
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 使用情况加分：最近打开或编辑过（取较近的一次，按 RECENCY_HALF_LIFE_DAYS 减半）
+ * 与打开次数（按对数增长，有上限）。同一会话中打开记录相同的标签页加分相同。
+ */
+const getUsageBonus = (tab: Tab, group: TabGroup, now: number): number => {
+  const { restoreCount, lastRestoredAt } = getTabRestoreStats(tab);
+  const lastUsed = Math.max(
+    lastRestoredAt ? new Date(lastRestoredAt).getTime() : 0,
+    new Date(group.updatedAt).getTime() || 0
+  );
+  const ageDays = Math.max(0, (now - lastUsed) / DAY_MS);
+  const recency = lastUsed > 0 ? SCORE_WEIGHTS.RECENCY_BONUS * 0.5 ** (ageDays / RECENCY_HALF_LIFE_DAYS) : 0;
+  const frequency = Math.min(
+    SCORE_WEIGHTS.RESTORE_FREQUENCY_BONUS_MAX,
+    SCORE_WEIGHTS.RESTORE_FREQUENCY_BONUS * Math.log2(1 + restoreCount)
+  );
+  return Math.round((recency + frequency) * 10) / 10;
+};
+
 export class AdvancedSearch {
+  /**
+   * 按查询搜索标签页。查询支持字段、状态、OR、取反与括号（见 utils/searchQuery），
+   * 有语法错误时返回 []（错误信息由 parseSearchExpression 提供给界面显示）。
+   * 得分 = 文字匹配得分 + 固定标签页加分 + 使用情况加分（最近使用、打开次数）。
+   */
   static search(groups: TabGroup[], options: SearchOptions = {}): SearchResult[] {
     const {
       query = '',
@@ -115,30 +555,61 @@ export class AdvancedSearch {
       groupNameFilter,
       pinnedOnly = false,
       unpinnedOnly = false,
+      restoreFilter,
+      sortBy = 'relevance',
+      useIndex = true,
+      pageContents = pageContentStore,
     } = options;
 
-    if (!query.trim()) {
+    const parsed = parseSearchExpression(query);
+    if (parsed.error) {
       return [];
     }
 
-    const searchTerm = normalizeText(query.trim(), caseSensitive);
+    const { expression } = parsed;
+    const tags = mergeTags(options.tags);
+    const archived = parsed.archived ?? options.archived ?? 'exclude';
+    // 只有筛选条件（标签 / 只看归档）时，列出符合条件的全部标签页（没有文字匹配）
+    if (!expression && tags.length === 0 && archived !== 'only') {
+      return [];
+    }
+
+    let candidateIds: Set<string> | null = null;
+    if (useIndex) {
+      searchIndex.sync(groups);
+      candidateIds = searchIndex.getCandidateGroupIds(expression);
+    }
+
     const results: SearchResult[] = [];
+    const now = Date.now();
+    const evaluateOptions: EvaluateOptions = {
+      caseSensitive,
+      exactMatch,
+      searchUrls,
+      searchTitles,
+      searchNotes,
+      now,
+      pageContents,
+    };
 
     groups.forEach(group => {
-      const normalizedGroupName = normalizeText(group.name, caseSensitive);
-      const normalizedNotes = normalizeText(group.notes || '', caseSensitive);
-      const groupNameMatchesQuery = exactMatch
-        ? normalizedGroupName === searchTerm
-        : normalizedGroupName.includes(searchTerm);
-      const notesMatchQuery = searchNotes && normalizedNotes
-        ? exactMatch
-          ? normalizedNotes === searchTerm
-          : normalizedNotes.includes(searchTerm)
-        : false;
+      if (candidateIds && !candidateIds.has(group.id)) {
+        return;
+      }
+
+      if (!matchesArchivedFilter(group, archived)) {
+        return;
+      }
+
+      const context: GroupSearchContext = {
+        group,
+        normalizedName: normalizeText(group.name, caseSensitive),
+        normalizedNotes: normalizeText(group.notes || '', caseSensitive),
+      };
 
       if (groupNameFilter) {
         const normalizedFilter = normalizeText(groupNameFilter, caseSensitive);
-        if (!normalizedGroupName.includes(normalizedFilter)) {
+        if (!context.normalizedName.includes(normalizedFilter)) {
           return;
         }
       }
@@ -156,64 +627,44 @@ export class AdvancedSearch {
           return;
         }
 
-        if (domainFilter) {
-          try {
-            const hostname = new URL(tab.url).hostname.toLowerCase();
-            if (!hostname.includes(domainFilter.toLowerCase())) {
-              return;
-            }
-          } catch {
-            return;
-          }
-        }
-
-        const matches: MatchDetail[] = [];
-        let score = 0;
-
-        if (searchTitles) {
-          const normalizedTitle = normalizeText(tab.title, caseSensitive);
-          if (exactMatch ? normalizedTitle === searchTerm : normalizedTitle.includes(searchTerm)) {
-            matches.push(buildMatchDetail('title', tab.title, searchTerm, exactMatch, caseSensitive));
-            score += exactMatch ? SCORE_WEIGHTS.TITLE_EXACT : SCORE_WEIGHTS.TITLE_PARTIAL;
-          }
-        }
-
-        if (searchUrls) {
-          const normalizedUrl = normalizeText(tab.url, caseSensitive);
-          if (exactMatch ? normalizedUrl === searchTerm : normalizedUrl.includes(searchTerm)) {
-            matches.push(buildMatchDetail('url', tab.url, searchTerm, exactMatch, caseSensitive));
-            score += exactMatch ? SCORE_WEIGHTS.URL_EXACT : SCORE_WEIGHTS.URL_PARTIAL;
-          }
-        }
-
-        if (groupNameMatchesQuery) {
-          matches.push(buildMatchDetail('groupName', group.name, searchTerm, exactMatch, caseSensitive));
-          score += exactMatch ? SCORE_WEIGHTS.GROUP_NAME_EXACT : SCORE_WEIGHTS.GROUP_NAME_PARTIAL;
+        if (!matchesRestoreHistoryFilter(getTabRestoreStats(tab), restoreFilter, now)) {
+          return;
         }
 
-        if (notesMatchQuery && group.notes) {
-          matches.push(buildMatchDetail('notes', group.notes, searchTerm, exactMatch, caseSensitive));
-          score += exactMatch ? SCORE_WEIGHTS.NOTES_EXACT : SCORE_WEIGHTS.NOTES_PARTIAL;
+        if (!tags.every(tag => tabHasTag(tab, group, tag))) {
+          return;
         }
 
-        if (matches.length === 0) {
+        if (domainFilter && !getHostname(tab.url)?.includes(domainFilter.toLowerCase())) {
           return;
         }
 
-        if (tab.pinned) {
-          score += SCORE_WEIGHTS.PINNED_BONUS;
+        const evaluation = expression
+          ? evaluateNode(expression, tab, context, evaluateOptions)
+          : MATCHED_WITHOUT_DETAILS;
+        if (!evaluation) {
+          return;
         }
 
         results.push({
           tab,
           group,
-          score,
-          matches,
+          score: evaluation.score
+            + (tab.pinned ? SCORE_WEIGHTS.PINNED_BONUS : 0)
+            + getUsageBonus(tab, group, now),
+          matches: evaluation.matches,
         });
       });
     });
 
     return results.sort((left, right) => {
+      const byHistory = sortBy === 'relevance'
+        ? 0
+        : compareRestoreStats(getTabRestoreStats(left.tab), getTabRestoreStats(right.tab), sortBy);
+      if (byHistory !== 0) {
+        return byHistory;
+      }
+
       if (right.score !== left.score) {
         return right.score - left.score;
       }
@@ -297,6 +748,7 @@ export class AdvancedSearch {
 }
 
 export const applySearchFilters = (results: SearchResult[], filters: SearchFilters): SearchResult[] => {
+  const now = Date.now();
   return results.filter(result => {
     if (filters.domain) {
       try {
@@ -321,11 +773,39 @@ export const applySearchFilters = (results: SearchResult[], filters: SearchFilte
       return false;
     }
 
+    if (!matchesRestoreHistoryFilter(getTabRestoreStats(result.tab), filters.restored, now)) {
+      return false;
+    }
+
     return matchesSavedWithin(result.group, filters.savedWithin);
   });
 };
 
-export const buildSessionSearchResults = (results: SearchResult[]): SessionSearchResult[] => {
+/**
+ * 某个字段的命中范围（原文下标，已排序并合并重叠部分），用于高亮
+ */
+export const getMatchRanges = (matches: MatchDetail[], field: MatchDetail['field']): TextRange[] => {
+  const ranges = matches
+    .filter(match => match.field === field && match.matchedText.length > 0)
+    .map(match => ({ start: match.startIndex, end: match.startIndex + match.matchedText.length }))
+    .sort((left, right) => left.start - right.start);
+
+  const merged: TextRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+};
+
+export const buildSessionSearchResults = (
+  results: SearchResult[],
+  sortBy: SearchSortOrder = 'relevance'
+): SessionSearchResult[] => {
   const groupedResults = new Map<string, SessionSearchResult>();
 
   results.forEach(result => {
@@ -345,6 +825,13 @@ export const buildSessionSearchResults = (results: SearchResult[]): SessionSearc
   });
 
   return [...groupedResults.values()].sort((left, right) => {
+    const byHistory = sortBy === 'relevance'
+      ? 0
+      : compareRestoreStats(getGroupRestoreStats(left.group), getGroupRestoreStats(right.group), sortBy);
+    if (byHistory !== 0) {
+      return byHistory;
+    }
+
     if (right.score !== left.score) {
       return right.score - left.score;
     }
@@ -352,3 +839,24 @@ export const buildSessionSearchResults = (results: SearchResult[]): SessionSearc
     return new Date(right.group.updatedAt).getTime() - new Date(left.group.updatedAt).getTime();
   });
 };
+
+/**
+ * 按查询与筛选条件搜索并按会话分组：搜索结果面板与保存的搜索（智能会话）共用
+ */
+export const searchSessions = (
+  groups: TabGroup[],
+  query: string,
+  filters: SearchFilters = {}
+): SessionSearchResult[] => {
+  const normalizedQuery = query.trim();
+  if (!normalizedQuery) {
+    return [];
+  }
+
+  const results = AdvancedSearch.search(groups, {
+    query: normalizedQuery,
+    searchPinned: true,
+    sortBy: filters.sortBy,
+  });
+  return buildSessionSearchResults(applySearchFilters(results, filters), filters.sortBy);
+};
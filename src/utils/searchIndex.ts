@@ -0,0 +1,252 @@
+/**
+ * 搜索倒排索引：词 → 包含该词的会话。AdvancedSearch 先用索引找出可能命中的会话，
+ * 只对这些会话逐个标签页求值，结果与全部扫描完全一致（索引只负责缩小范围）。
+ *
+ * - 词取自会话名称、备注、标签页标题与 URL，归一化和拆词规则与 utils/fuzzyMatch 相同；
+ *   查询词是某个词的一部分或与之编辑距离在容错范围内时，该词的会话都算候选
+ * - sync 按会话对象引用与内容摘要比较，只重建有改动的会话
+ * - 快照（摘要 + 词表）由 storage 加密保存在 IndexedDB 中，打开弹窗后只需比较摘要；
+ *   SEARCH_INDEX_VERSION 变化或迁移时整体重建
+ */
+
+import type { TabGroup } from '@/types/tab';
+import { editDistance, getAllowedEdits, getSearchWords } from './fuzzyMatch';
+import type { QueryNode } from './searchQuery';
+
+export const SEARCH_INDEX_VERSION = 1;
+
+export interface SearchIndexEntry {
+  /** 被索引内容的摘要，用于判断会话是否改动 */
+  hash: string;
+  words: string[];
+}
+
+export interface SearchIndexSnapshot {
+  version: number;
+  groups: Record<string, SearchIndexEntry>;
+}
+
+const getIndexText = (group: TabGroup): string => {
+  const parts = [group.name, group.notes ?? ''];
+  for (const tab of group.tabs) {
+    parts.push(tab.title, tab.url);
+  }
+  return parts.join('\n');
+};
+
+// 两个不同种子的 FNV-1a 加上长度，碰撞时该会话会漏掉改动，因此用 64 位
+const hashText = (text: string): string => {
+  let first = 0x811c9dc5;
+  let second = 0x01000193 ^ text.length;
+  for (let index = 0; index < text.length; index++) {
+    const code = text.charCodeAt(index);
+    first = Math.imul(first ^ code, 0x01000193);
+    second = Math.imul(second ^ code, 0x5bd1e995);
+  }
+  return `${text.length.toString(36)}.${(first >>> 0).toString(36)}.${(second >>> 0).toString(36)}`;
+};
+
+const intersect = (left: Set<string>, right: Set<string>): Set<string> => {
+  const [small, large] = left.size <= right.size ? [left, right] : [right, left];
+  return new Set([...small].filter(id => large.has(id)));
+};
+
+export class SearchIndex {
+  private entries = new Map<string, SearchIndexEntry>();
+  private postings = new Map<string, Set<string>>();
+  // 已确认与索引一致的会话对象 → 摘要；Redux 中未改动的会话保持原引用，不用重新计算摘要
+  private verified = new WeakMap<TabGroup, string>();
+  private lastGroups: TabGroup[] | null = null;
+  private wordCandidates = new Map<string, Set<string>>();
+  private dirty = false;
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** 有未保存的改动 */
+  get isDirty(): boolean {
+    return this.dirty;
+  }
+
+  /**
+   * 与当前会话列表对齐：新增、改动的会话重新拆词，不在列表中的会话移出索引。
+   * 返回索引是否有变化。
+   */
+  sync(groups: TabGroup[]): boolean {
+    if (groups === this.lastGroups) {
+      return false;
+    }
+    this.lastGroups = groups;
+
+    let changed = false;
+    const present = new Set<string>();
+    for (const group of groups) {
+      present.add(group.id);
+      const entry = this.entries.get(group.id);
+      if (entry && this.verified.get(group) === entry.hash) {
+        continue;
+      }
+
+      const text = getIndexText(group);
+      const hash = hashText(text);
+      this.verified.set(group, hash);
+      if (entry?.hash === hash) {
+        continue;
+      }
+      this.setEntry(group.id, { hash, words: [...new Set(getSearchWords(text))] });
+      changed = true;
+    }
+
+    for (const id of [...this.entries.keys()]) {
+      if (!present.has(id)) {
+        this.removeEntry(id);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this.wordCandidates.clear();
+      this.dirty = true;
+    }
+    return changed;
+  }
+
+  /** 丢弃现有索引并按会话列表重建 */
+  rebuild(groups: TabGroup[]): void {
+    this.clear();
+    this.sync(groups);
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.postings.clear();
+    this.verified = new WeakMap();
+    this.lastGroups = null;
+    this.wordCandidates.clear();
+    this.dirty = true;
+  }
+
+  /**
+   * 载入保存的快照，只补充还没有索引的会话（本次已经同步过的会话以当前内容为准）。
+   * 版本不一致时忽略快照，返回 false。
+   */
+  restore(snapshot: SearchIndexSnapshot | null): boolean {
+    if (!snapshot || snapshot.version !== SEARCH_INDEX_VERSION || !snapshot.groups) {
+      return false;
+    }
+    for (const [id, entry] of Object.entries(snapshot.groups)) {
+      if (!this.entries.has(id) && typeof entry?.hash === 'string' && Array.isArray(entry.words)) {
+        this.setEntry(id, entry);
+      }
+    }
+    // 载入的会话要在下次 sync 时核对摘要
+    this.lastGroups = null;
+    this.wordCandidates.clear();
+    return true;
+  }
+
+  toSnapshot(): SearchIndexSnapshot {
+    return { version: SEARCH_INDEX_VERSION, groups: Object.fromEntries(this.entries) };
+  }
+
+  markPersisted(): void {
+    this.dirty = false;
+  }
+
+  /**
+   * 可能满足查询的会话 id；返回 null 表示索引无法缩小范围（例如只有 is: / saved: / 取反条件），
+   * 需要逐个会话求值。
+   */
+  getCandidateGroupIds(expression: QueryNode | null): Set<string> | null {
+    return expression ? this.getNodeCandidates(expression) : null;
+  }
+
+  private getNodeCandidates(node: QueryNode): Set<string> | null {
+    switch (node.type) {
+      case 'text':
+        return this.getTextCandidates(node.value);
+      case 'field':
+        // 标签与页面正文不在索引中
+        if (node.field === 'tag' || node.field === 'content') return null;
+        // 国际化域名的 hostname 是 punycode，与 URL 原文不同
+        if (node.field === 'site' && node.value.toLowerCase().includes('xn--')) return null;
+        return this.getTextCandidates(node.value);
+      case 'and': {
+        let result: Set<string> | null = null;
+        for (const child of node.nodes) {
+          const candidates = this.getNodeCandidates(child);
+          if (candidates) result = result ? intersect(result, candidates) : candidates;
+        }
+        return result;
+      }
+      case 'or': {
+        const result = new Set<string>();
+        for (const child of node.nodes) {
+          const candidates = this.getNodeCandidates(child);
+          if (!candidates) return null;
+          candidates.forEach(id => result.add(id));
+        }
+        return result;
+      }
+      default:
+        return null;
+    }
+  }
+
+  // 普通词须每个词都在会话中出现（原样出现时，其中每个词也一定是会话中某个词的一部分）
+  private getTextCandidates(value: string): Set<string> | null {
+    const words = getSearchWords(value);
+    if (words.length === 0) {
+      return null;
+    }
+    return words
+      .map(word => this.getWordCandidates(word))
+      .reduce((result, candidates) => intersect(result, candidates));
+  }
+
+  private getWordCandidates(word: string): Set<string> {
+    const cached = this.wordCandidates.get(word);
+    if (cached) return cached;
+
+    const allowedEdits = getAllowedEdits(word);
+    const candidates = new Set<string>();
+    for (const [indexedWord, groupIds] of this.postings) {
+      if (
+        indexedWord.includes(word)
+        || (allowedEdits > 0 && editDistance(word, indexedWord, allowedEdits) <= allowedEdits)
+      ) {
+        groupIds.forEach(id => candidates.add(id));
+      }
+    }
+    this.wordCandidates.set(word, candidates);
+    return candidates;
+  }
+
+  private setEntry(id: string, entry: SearchIndexEntry): void {
+    this.removeEntry(id);
+    this.entries.set(id, entry);
+    for (const word of entry.words) {
+      let groupIds = this.postings.get(word);
+      if (!groupIds) {
+        groupIds = new Set();
+        this.postings.set(word, groupIds);
+      }
+      groupIds.add(id);
+    }
+  }
+
+  private removeEntry(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    this.entries.delete(id);
+    for (const word of entry.words) {
+      const groupIds = this.postings.get(word);
+      groupIds?.delete(id);
+      if (groupIds && groupIds.size === 0) this.postings.delete(word);
+    }
+  }
+}
+
+/** 弹窗与 service worker 各自持有一份，通过 storage 中的快照共享 */
+export const searchIndex = new SearchIndex();
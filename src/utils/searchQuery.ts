@@ -0,0 +1,307 @@
+/**
+ * 搜索框查询语法解析（由 AdvancedSearch 求值）。
+ *
+ * - 字段：`site:github.com`、`title:"release notes"`、`group:work`、`tag:read`、
+ *   `content:"error budget"`（保存时抓取的页面正文）
+ * - 状态：`is:pinned`、`is:favorite`、`is:locked`；保存时间：`saved:<7d`、`saved:>30d`（单位 h / d / w）
+ * - 逻辑：空格表示同时满足，`OR` 表示任一满足，`-` 取反，括号分组
+ * - 相邻的普通词作为一个短语匹配（与引入语法之前的行为一致），引号可以包含 OR、括号等字符
+ */
+
+export type SearchField = 'site' | 'title' | 'group' | 'tag' | 'content';
+
+export type SearchStatus = 'pinned' | 'favorite' | 'locked';
+
+export type QueryNode =
+  | { type: 'text'; value: string }
+  | { type: 'field'; field: SearchField; value: string }
+  | { type: 'is'; status: SearchStatus }
+  | { type: 'saved'; comparator: '<' | '>'; withinMs: number }
+  | { type: 'not'; node: QueryNode }
+  | { type: 'and' | 'or'; nodes: QueryNode[] };
+
+export interface SearchQueryError {
+  message: string;
+  /** 出错位置在查询字符串中的下标 */
+  index: number;
+}
+
+export interface ParsedQueryExpression {
+  /** 空查询或有语法错误时为 null */
+  expression: QueryNode | null;
+  error: SearchQueryError | null;
+}
+
+const FIELD_ALIASES: Record<string, SearchField | 'is' | 'saved'> = {
+  site: 'site',
+  title: 'title',
+  group: 'group',
+  tag: 'tag',
+  '#tag': 'tag',
+  content: 'content',
+  is: 'is',
+  saved: 'saved',
+};
+
+const STATUS_ALIASES: Record<string, SearchStatus> = {
+  pinned: 'pinned',
+  favorite: 'favorite',
+  fav: 'favorite',
+  locked: 'locked',
+};
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const SAVED_VALUE_PATTERN = /^([<>])?(\d+)([hdw])$/i;
+
+interface TermToken {
+  kind: 'term';
+  index: number;
+  field?: string;
+  value: string;
+  quoted: boolean;
+}
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'or' | 'not'; index: number }
+  | TermToken;
+
+class QuerySyntaxError extends Error {
+  constructor(message: string, readonly index: number) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+const isBoundary = (char: string | undefined) => char === undefined || /\s|\(|\)/.test(char);
+
+const readQuoted = (query: string, start: number): { value: string; end: number } => {
+  const close = query.indexOf('"', start + 1);
+  if (close === -1) {
+    throw new QuerySyntaxError('引号没有闭合', start);
+  }
+  return { value: query.slice(start + 1, close), end: close + 1 };
+};
+
+const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < query.length) {
+    const char = query[index];
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', index });
+      index++;
+    } else if (char === '-' && query[index + 1] !== undefined && !/\s|\)/.test(query[index + 1])) {
+      tokens.push({ kind: 'not', index });
+      index++;
+    } else if (char === '"') {
+      const { value, end } = readQuoted(query, index);
+      tokens.push({ kind: 'term', index, value, quoted: true });
+      index = end;
+    } else {
+      let end = index;
+      while (!isBoundary(query[end]) && query[end] !== ':') end++;
+      const name = query.slice(index, end).toLowerCase();
+
+      if (query[end] === ':' && FIELD_ALIASES[name]) {
+        const valueStart = end + 1;
+        if (query[valueStart] === '"') {
+          const { value, end: quotedEnd } = readQuoted(query, valueStart);
+          tokens.push({ kind: 'term', index, field: name, value, quoted: true });
+          index = quotedEnd;
+        } else {
+          let valueEnd = valueStart;
+          while (!isBoundary(query[valueEnd])) valueEnd++;
+          tokens.push({ kind: 'term', index, field: name, value: query.slice(valueStart, valueEnd), quoted: false });
+          index = valueEnd;
+        }
+        continue;
+      }
+
+      while (!isBoundary(query[end])) end++;
+      const word = query.slice(index, end);
+      tokens.push(word === 'OR' ? { kind: 'or', index } : { kind: 'term', index, value: word, quoted: false });
+      index = end;
+    }
+  }
+  return tokens;
+};
+
+const buildTermNode = (token: TermToken): QueryNode => {
+  if (!token.field) {
+    return { type: 'text', value: token.value };
+  }
+
+  const field = FIELD_ALIASES[token.field];
+  const value = token.value.trim();
+  if (!value) {
+    throw new QuerySyntaxError(`「${token.field}:」后缺少内容`, token.index);
+  }
+
+  if (field === 'is') {
+    const status = STATUS_ALIASES[value.toLowerCase()];
+    if (!status) {
+      throw new QuerySyntaxError(`不支持「is:${value}」，可用 is:pinned、is:favorite、is:locked`, token.index);
+    }
+    return { type: 'is', status };
+  }
+
+  if (field === 'saved') {
+    const match = SAVED_VALUE_PATTERN.exec(value);
+    if (!match) {
+      throw new QuerySyntaxError(`「saved:${value}」格式不对，应写成 saved:<7d 或 saved:>30d（单位 h / d / w）`, token.index);
+    }
+    const [, comparator = '<', amount, unit] = match;
+    return {
+      type: 'saved',
+      comparator: comparator as '<' | '>',
+      withinMs: Number(amount) * DURATION_UNITS_MS[unit.toLowerCase()],
+    };
+  }
+
+  return { type: 'field', field, value };
+};
+
+class Parser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[], private readonly length: number) {}
+
+  parse(): QueryNode {
+    const node = this.parseOr();
+    const rest = this.peek();
+    if (rest) {
+      throw new QuerySyntaxError('多余的右括号', rest.index);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private endIndex(): number {
+    return this.peek()?.index ?? this.length;
+  }
+
+  private startsOperand(): boolean {
+    const token = this.peek();
+    return !!token && token.kind !== 'rparen' && token.kind !== 'or';
+  }
+
+  private parseOr(): QueryNode {
+    const nodes = [this.parseAnd()];
+    while (this.peek()?.kind === 'or') {
+      this.position++;
+      if (!this.startsOperand()) {
+        throw new QuerySyntaxError('OR 后缺少搜索条件', this.endIndex());
+      }
+      nodes.push(this.parseAnd());
+    }
+    return nodes.length === 1 ? nodes[0] : { type: 'or', nodes };
+  }
+
+  private parseAnd(): QueryNode {
+    if (!this.startsOperand()) {
+      throw new QuerySyntaxError(
+        this.peek()?.kind === 'or' ? 'OR 前缺少搜索条件' : '缺少搜索条件',
+        this.endIndex()
+      );
+    }
+
+    const nodes: QueryNode[] = [];
+    let phrase: string[] = [];
+    const flushPhrase = () => {
+      if (phrase.length > 0) nodes.push({ type: 'text', value: phrase.join(' ') });
+      phrase = [];
+    };
+
+    while (this.startsOperand()) {
+      const token = this.peek()!;
+      if (token.kind === 'term' && !token.field && !token.quoted) {
+        phrase.push(token.value);
+        this.position++;
+        continue;
+      }
+      flushPhrase();
+      nodes.push(this.parseUnary());
+    }
+    flushPhrase();
+
+    return nodes.length === 1 ? nodes[0] : { type: 'and', nodes };
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.peek()!;
+    if (token.kind === 'not') {
+      this.position++;
+      if (!this.startsOperand()) {
+        throw new QuerySyntaxError('「-」后缺少搜索条件', token.index);
+      }
+      return { type: 'not', node: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.peek()!;
+    this.position++;
+
+    if (token.kind === 'lparen') {
+      if (this.peek()?.kind === 'rparen') {
+        throw new QuerySyntaxError('括号中缺少搜索条件', token.index);
+      }
+      const node = this.parseOr();
+      if (this.peek()?.kind !== 'rparen') {
+        throw new QuerySyntaxError('括号没有闭合', token.index);
+      }
+      this.position++;
+      return node;
+    }
+
+    return buildTermNode(token as TermToken);
+  }
+}
+
+/**
+ * 把查询解析为表达式树。语法错误时返回第一个错误（含位置），expression 为 null。
+ */
+export const parseQueryExpression = (query: string): ParsedQueryExpression => {
+  try {
+    const tokens = tokenize(query);
+    if (tokens.length === 0) {
+      return { expression: null, error: null };
+    }
+    return { expression: new Parser(tokens, query.length).parse(), error: null };
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      return { expression: null, error: { message: error.message, index: error.index } };
+    }
+    throw error;
+  }
+};
+
+/**
+ * 需要高亮的词：普通词、`title:`、`group:` 的取值（取反的条件不高亮）
+ */
+export const getHighlightTerms = (node: QueryNode | null): string[] => {
+  if (!node) return [];
+  switch (node.type) {
+    case 'text':
+      return [node.value];
+    case 'field':
+      return node.field === 'title' || node.field === 'group' ? [node.value] : [];
+    case 'and':
+    case 'or':
+      return [...new Set(node.nodes.flatMap(getHighlightTerms))];
+    default:
+      return [];
+  }
+};
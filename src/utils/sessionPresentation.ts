@@ -1,18 +1,22 @@
-import { TabGroup } from '@/types/tab';
+import { RestoreTarget, Tab, TabGroup } from '@/types/tab';
+import { RESTORE_TARGET_ACTIONS } from '@/utils/sessionRestore';
 
 export const getPinnedTabCount = (group: Pick<TabGroup, 'tabs'>) => {
   return group.tabs.filter(tab => tab.pinned).length;
 };
 
-export const buildSessionRestoreMessage = (group: Pick<TabGroup, 'name' | 'tabs' | 'isLocked'>) => {
-  const parts = [`已在新窗口恢复会话“${group.name}”`, `${group.tabs.length} 个标签页`];
+export const buildSessionRestoreMessage = (
+  group: Pick<TabGroup, 'name' | 'tabs' | 'isLocked' | 'isTemplate'>,
+  target: RestoreTarget = 'new-window'
+) => {
+  const parts = [`已${RESTORE_TARGET_ACTIONS[target]}会话“${group.name}”`, `${group.tabs.length} 个标签页`];
   const pinnedCount = getPinnedTabCount(group);
 
   if (pinnedCount > 0) {
     parts.push(`保留 ${pinnedCount} 个固定标签页`);
   }
 
-  parts.push(group.isLocked ? '原会话已保留' : '原会话已从列表移除');
+  parts.push(group.isTemplate ? '模板已保留' : group.isLocked ? '原会话已保留' : '原会话已从列表移除');
 
   return parts.join('，');
 };
@@ -28,6 +32,19 @@ export const getSessionResultSummary = (group: Pick<TabGroup, 'tabs' | 'createdA
   return `匹配 ${matchedCount}/${group.tabs.length} 个标签 · 保存于 ${savedTime}`;
 };
 
+// 相对时间文案（formatLastSync / formatRestoreHistory / formatDeletedAt 共用）
+const formatRelativeTime = (ts: number, now: number): string => {
+  const diffMs = now - ts;
+  const diffMins = Math.floor(diffMs / 60000);
+
+  if (diffMins < 1) return '刚刚';
+  if (diffMins < 60) return `${diffMins}分钟前`;
+  const diffHours = Math.floor(diffMins / 60);
+  if (diffHours < 24) return `${diffHours}小时前`;
+  const diffDays = Math.floor(diffHours / 24);
+  return `${diffDays}天前`;
+};
+
 /**
  * 把 `lastSyncTime` 格式化为人类可读的相对时间（纯函数）。
  * 调用方负责拼接语义前缀（如 footer 的「已同步 · 」、SyncTab 的状态行）。
@@ -38,14 +55,24 @@ export const formatLastSync = (timestamp: string | null): string => {
   if (!timestamp) return '尚未同步';
   const ts = new Date(timestamp).getTime();
   if (Number.isNaN(ts)) return '尚未同步';
-  const now = new Date();
-  const diffMs = now.getTime() - ts;
-  const diffMins = Math.floor(diffMs / 60000);
+  return formatRelativeTime(ts, Date.now());
+};
 
-  if (diffMins < 1) return '刚刚';
-  if (diffMins < 60) return `${diffMins}分钟前`;
-  const diffHours = Math.floor(diffMins / 60);
-  if (diffHours < 24) return `${diffHours}小时前`;
-  const diffDays = Math.floor(diffHours / 24);
-  return `${diffDays}天前`;
+/** 回收站中的删除时间，如「3天前删除」 */
+export const formatDeletedAt = (timestamp: string, now: number = Date.now()): string => {
+  const ts = new Date(timestamp).getTime();
+  return Number.isNaN(ts) ? '删除时间未知' : `${formatRelativeTime(ts, now)}删除`;
+};
+
+/**
+ * 打开记录的展示文案，如「上次打开 3天前 · 打开 2 次」；从未打开过返回 null。
+ */
+export const formatRestoreHistory = (
+  tab: Pick<Tab, 'restoreCount' | 'lastRestoredAt'>,
+  now = Date.now()
+): string | null => {
+  if (!tab.restoreCount) return null;
+  const ts = tab.lastRestoredAt ? new Date(tab.lastRestoredAt).getTime() : Number.NaN;
+  const lastOpened = Number.isNaN(ts) ? '' : `上次打开 ${formatRelativeTime(ts, now)} · `;
+  return `${lastOpened}打开 ${tab.restoreCount} 次`;
 };
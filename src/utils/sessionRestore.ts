@@ -0,0 +1,105 @@
+import type { RestoreTarget, Tab, TabGroup } from '@/types/tab';
+
+export const RESTORE_TARGETS: RestoreTarget[] = ['new-window', 'current-window', 'replace-window'];
+
+export const RESTORE_TARGET_LABELS: Record<RestoreTarget, string> = {
+  'new-window': '新窗口',
+  'current-window': '当前窗口',
+  'replace-window': '替换当前窗口',
+};
+
+/** 用于提示文案的动作描述，如「已在新窗口恢复 3 个标签页」 */
+export const RESTORE_TARGET_ACTIONS: Record<RestoreTarget, string> = {
+  'new-window': '在新窗口恢复',
+  'current-window': '在当前窗口恢复',
+  'replace-window': '替换当前窗口并恢复',
+};
+
+/** 恢复按钮 tooltip 中的修饰键说明，与 resolveRestoreTarget 保持一致 */
+export const RESTORE_MODIFIER_HINT = 'Shift：新窗口 · Ctrl/⌘：当前窗口 · Ctrl/⌘+Shift：替换当前窗口';
+
+/** 标签管理器页面的 URL 参数：打开后立即弹出工作区启动对话框（快捷键 launch_workspace） */
+export const WORKSPACE_LAUNCHER_QUERY = 'launcher=workspace';
+
+export const isRestoreTarget = (value: unknown): value is RestoreTarget =>
+  typeof value === 'string' && (RESTORE_TARGETS as string[]).includes(value);
+
+export interface RestoreTabPayload {
+  url: string;
+  pinned: boolean;
+  nativeGroup?: Tab['nativeGroup'];
+  pageState?: Tab['pageState'];
+}
+
+export interface OpenTabsMessage {
+  type: 'OPEN_TABS';
+  data: {
+    tabs: RestoreTabPayload[];
+    session?: { name: string; color?: TabGroup['color'] };
+    /** 缺省时由 service worker 跟随用户设置 lazyRestore */
+    lazy?: boolean;
+    /** 缺省时由 service worker 跟随用户设置 restoreTarget */
+    target?: RestoreTarget;
+  };
+}
+
+export interface OpenSessionOptions {
+  lazy?: boolean;
+  target?: RestoreTarget;
+}
+
+export const buildRestoreTabsPayload = (tabs: Tab[]): RestoreTabPayload[] =>
+  tabs.map(tab => ({
+    url: tab.url,
+    pinned: !!tab.pinned,
+    ...(tab.nativeGroup ? { nativeGroup: tab.nativeGroup } : {}),
+    ...(tab.pageState ? { pageState: tab.pageState } : {}),
+  }));
+
+/**
+ * 构造恢复整个会话的 OPEN_TABS 消息（TabGroup / FavoriteStrip / 搜索结果共用）。
+ * session 信息交给 service worker 决定是否放进同名的原生标签组。
+ */
+export const buildOpenSessionMessage = (
+  group: Pick<TabGroup, 'name' | 'tabs' | 'color'>,
+  options: OpenSessionOptions = {}
+): OpenTabsMessage => ({
+  type: 'OPEN_TABS',
+  data: {
+    tabs: buildRestoreTabsPayload(group.tabs),
+    session: { name: group.name, color: group.color },
+    ...(options.lazy !== undefined ? { lazy: options.lazy } : {}),
+    ...(options.target ? { target: options.target } : {}),
+  },
+});
+
+/**
+ * 单次点击的延迟恢复选择：按住 Alt 点击时与设置相反，否则跟随设置。
+ */
+export const resolveLazyRestore = (
+  event: { altKey: boolean } | undefined,
+  lazyRestoreSetting: boolean
+): boolean => (event?.altKey ? !lazyRestoreSetting : lazyRestoreSetting);
+
+export interface RestoreModifierEvent {
+  shiftKey: boolean;
+  ctrlKey: boolean;
+  metaKey: boolean;
+}
+
+/**
+ * 单次点击的恢复位置，沿用浏览器打开链接的习惯：
+ * Shift → 新窗口；Ctrl/⌘ → 当前窗口；Ctrl/⌘ + Shift → 替换当前窗口；
+ * 不按修饰键时使用 fallback（会话恢复为用户设置，单个标签页为当前窗口）。
+ */
+export const resolveRestoreTarget = (
+  event: RestoreModifierEvent | undefined,
+  fallback: RestoreTarget
+): RestoreTarget => {
+  if (!event) return fallback;
+  const primary = event.ctrlKey || event.metaKey;
+  if (primary && event.shiftKey) return 'replace-window';
+  if (primary) return 'current-window';
+  if (event.shiftKey) return 'new-window';
+  return fallback;
+};
@@ -1,9 +1,31 @@
-import { TabGroup, UserSettings, Tab, LayoutMode, ThemeStyle } from '@/types/tab';
+import {
+  TabGroup,
+  UserSettings,
+  LayoutMode,
+  ThemeStyle,
+  BrowsingSessionRecord,
+  DeletedGroupEntry,
+  DeletedTabEntry,
+  UndoHistory,
+  PageContent,
+} from '@/types/tab';
 import { parseOneTabFormat, formatToOneTabFormat } from './oneTabFormatParser';
 import { secureStorage, encryptLocalBlob, decryptLocalBlob } from './secureStorage';
 import { kvGet, kvSet, kvRemove } from '@/storage/storageAdapter';
 import { cacheManager, cachedAsyncFn, debounceAsync } from './performance';
 import { decryptError } from './errors';
+import { sanitizeTags } from '@/domain/tabGroup/tags';
+import { DEFAULT_RETENTION_POLICIES } from '@/domain/tabGroup/retention';
+import {
+  addGroupsToTrash,
+  addTabsToTrash,
+  purgeExpiredTrash,
+  TRASH_RETENTION_DAYS,
+} from '@/domain/tabGroup/trash';
+import { EMPTY_HISTORY } from '@/domain/tabGroup/history';
+import { searchIndex, type SearchIndexSnapshot } from './searchIndex';
+import { collectGroupUrls, mergePageContents } from '@/domain/tabGroup/pageContent';
+import { pageContentStore } from './pageContentStore';
 
 // 缓存 TTL 配置常量
 export const CACHE_TTL = {
@@ -41,11 +63,17 @@ const STORAGE_KEYS = {
   SETTINGS: 'user_settings',
   DELETED_GROUPS: 'deleted_tab_groups',
   DELETED_TABS: 'deleted_tabs',
+  PENDING_CLOUD_RESTORES: 'pending_cloud_restores',
+  UNDO_HISTORY: 'undo_history',
+  SEARCH_INDEX: 'search_index',
+  PAGE_CONTENTS: 'page_contents',
   LAST_SYNC_TIME: 'last_sync_time',
   LAST_SYNC_STATUS: 'last_sync_status',
   SYNC_SNAPSHOT: 'sync_snapshot',
   PRODUCT_EVENTS: 'product_events',
-  MIGRATION_FLAGS: 'migration_flags'
+  MIGRATION_FLAGS: 'migration_flags',
+  LIVE_WINDOWS: 'live_windows',
+  PREVIOUS_SESSION: 'previous_browsing_session'
 };
 
 const STORAGE_VERSION = 2;
@@ -102,6 +130,40 @@ export const DEFAULT_SETTINGS: UserSettings = {
   themeStyle: 'aurora', // 默认使用极光主题
   // 默认不收集固定标签页（更保守）
   collectPinnedTabs: false,
+  // 默认保存后关闭标签页（OneTab 式行为）
+  autoCloseTabsAfterSaving: true,
+  // 默认按平铺标签页恢复（保存时记录的原生分组仍会重建）
+  restoreAsNativeTabGroup: false,
+  // 默认一次性加载全部标签页；开启延迟恢复后最多同时加载 4 个
+  lazyRestore: false,
+  lazyRestoreConcurrency: 4,
+  // 默认在新窗口恢复会话（与历史行为一致）
+  restoreTarget: 'new-window',
+  // 会话列表默认按保存时间倒序、不筛选
+  groupSortOrder: 'created',
+  groupRestoreFilter: 'all',
+  // 记录阅读位置需要额外的网站访问权限，默认关闭
+  capturePageState: false,
+  // 页面全文同样需要网站访问权限，默认关闭，且默认不上传到云端
+  capturePageContent: false,
+  syncPageContent: false,
+  // 自动快照默认关闭；开启后每 30 分钟一次，最多保留 10 个 Autosave 会话
+  autoSnapshotEnabled: false,
+  autoSnapshotIntervalMinutes: 30,
+  autoSnapshotMaxSessions: 10,
+  // 闲置归档默认关闭；开启后 60 分钟未激活的标签页会被归档
+  idleArchiveEnabled: false,
+  idleArchiveMinutes: 60,
+  idleArchiveWhitelist: [],
+  // 清空的会话默认直接删除（与历史行为一致）
+  archiveEmptiedGroups: false,
+  // 保留策略默认全部关闭
+  retentionPolicies: DEFAULT_RETENTION_POLICIES,
+  urlRules: [],
+  inboxSessionId: null,
+  sessionFolders: [],
+  savedSearches: [],
+  collapsedFolderIds: [],
 };
 
 // 兼容历史字段
@@ -136,6 +198,15 @@ const DEFAULT_LAST_SYNC_STATUS: LastSyncStatus = {
   lastSyncError: null,
 };
 
+/**
+ * 通知其他扩展页面与 service worker：本地会话或设置已写入。
+ * 会话列表保存在 IndexedDB，chrome.storage.onChanged 收不到，service worker 靠它更新「保存到会话」菜单。
+ */
+function notifyLocalDataChanged(key: 'groups' | 'settings'): void {
+  if (typeof chrome === 'undefined' || typeof chrome.runtime?.sendMessage !== 'function') return;
+  chrome.runtime.sendMessage({ type: 'LOCAL_DATA_CHANGED', data: { key } })?.catch(() => {});
+}
+
 class ChromeStorage {
   private async ensureVersion() {
     const version = await kvGet<number>(STORAGE_KEYS.VERSION);
@@ -210,6 +281,15 @@ class ChromeStorage {
       // 强一致：立刻落盘（不要 debounce——见上方注释）
       await this.ensureVersion();
       await this.persistEncryptedGroups(groups);
+      notifyLocalDataChanged('groups');
+
+      // 搜索索引可以随时从会话列表重建，丢掉一次更新也只是下次多比较几个摘要，所以可以防抖
+      this.debouncedUpdateSearchIndex(groups).catch(error => {
+        console.error('更新搜索索引失败:', error);
+      });
+      this.debouncedPrunePageContents(groups).catch(error => {
+        console.error('清理页面全文失败:', error);
+      });
     } catch (error) {
       console.error('保存标签组失败:', error);
       // 清除可能不一致的缓存
@@ -304,6 +384,7 @@ class ChromeStorage {
 
       // 强一致：等待最终一次落盘完成
       await this.debouncedPersistSettings(validatedSettings);
+      notifyLocalDataChanged('settings');
     } catch (error) {
       console.error('保存设置失败:', error);
       // 清除可能不一致的缓存
@@ -312,76 +393,96 @@ class ChromeStorage {
     }
   }
 
-  // 新增：获取已删除的标签组
-  async getDeletedGroups(): Promise<TabGroup[]> {
+  /**
+   * 回收站中的会话（删除前的快照，见 domain/tabGroup/trash）。
+   * 与会话列表一样加密保存；旧版本的明文数组仍可读取。
+   */
+  async getDeletedGroups(): Promise<DeletedGroupEntry[]> {
     try {
       await this.ensureVersion();
-      const groups = await kvGet<unknown>(STORAGE_KEYS.DELETED_GROUPS);
-      return Array.isArray(groups) ? (groups as TabGroup[]) : [];
+      const raw = await kvGet<unknown>(STORAGE_KEYS.DELETED_GROUPS);
+      const entries = typeof raw === 'string' ? await decryptLocalBlob<unknown>(raw) : raw;
+      return Array.isArray(entries)
+        ? (entries as DeletedGroupEntry[]).filter(entry => !!entry?.group && !!entry.deletedAt)
+        : [];
     } catch (error) {
       console.error('获取已删除标签组失败:', error);
       return [];
     }
   }
 
-  // 新增：设置已删除的标签组
-  async setDeletedGroups(groups: TabGroup[]): Promise<void> {
+  async setDeletedGroups(entries: DeletedGroupEntry[]): Promise<void> {
     try {
       await this.ensureVersion();
-      await kvSet(STORAGE_KEYS.DELETED_GROUPS, groups);
+      await kvSet(STORAGE_KEYS.DELETED_GROUPS, await encryptLocalBlob(entries));
     } catch (error) {
       console.error('设置已删除标签组失败:', error);
     }
   }
 
-  // 新增：获取已删除的标签页
-  async getDeletedTabs(): Promise<Tab[]> {
+  /** 回收站中的标签页（记录原会话与位置） */
+  async getDeletedTabs(): Promise<DeletedTabEntry[]> {
     try {
       await this.ensureVersion();
-      const tabs = await kvGet<unknown>(STORAGE_KEYS.DELETED_TABS);
-      return Array.isArray(tabs) ? (tabs as Tab[]) : [];
+      const raw = await kvGet<unknown>(STORAGE_KEYS.DELETED_TABS);
+      const entries = typeof raw === 'string' ? await decryptLocalBlob<unknown>(raw) : raw;
+      return Array.isArray(entries)
+        ? (entries as DeletedTabEntry[]).filter(entry => !!entry?.tab && !!entry.deletedAt)
+        : [];
     } catch (error) {
       console.error('获取已删除标签页失败:', error);
       return [];
     }
   }
 
-  // 新增：设置已删除的标签页
-  async setDeletedTabs(tabs: Tab[]): Promise<void> {
+  async setDeletedTabs(entries: DeletedTabEntry[]): Promise<void> {
     try {
       await this.ensureVersion();
-      await kvSet(STORAGE_KEYS.DELETED_TABS, tabs);
+      await kvSet(STORAGE_KEYS.DELETED_TABS, await encryptLocalBlob(entries));
     } catch (error) {
       console.error('设置已删除标签页失败:', error);
     }
   }
 
-  // 新增：清理过期的已删除标签组
-  async cleanupDeletedGroups(maxAgeInDays: number = 30): Promise<void> {
-    try {
-      const deletedGroups = await this.getDeletedGroups();
-      const now = new Date().getTime();
-      const maxAgeMs = maxAgeInDays * 24 * 60 * 60 * 1000;
+  /** 把用户删除的会话放进回收站 */
+  async addDeletedGroups(groups: TabGroup[], now: string = new Date().toISOString()): Promise<void> {
+    if (groups.length === 0) return;
+    await this.setDeletedGroups(addGroupsToTrash(await this.getDeletedGroups(), groups, now));
+  }
 
-      // 过滤出未过期的已删除标签组
-      const validGroups = deletedGroups.filter(group => {
-        const updatedAt = new Date(group.updatedAt).getTime();
-        return (now - updatedAt) < maxAgeMs;
-      });
+  /** 从回收站移出会话（会话已通过撤销等方式恢复） */
+  async removeDeletedGroups(groupIds: string[]): Promise<void> {
+    if (groupIds.length === 0) return;
+    const ids = new Set(groupIds);
+    const entries = await this.getDeletedGroups();
+    const remaining = entries.filter(entry => !ids.has(entry.group.id));
+    if (remaining.length !== entries.length) await this.setDeletedGroups(remaining);
+  }
+
+  /** 把会话中删除的标签页放进回收站（传入删除前的会话） */
+  async addDeletedTabs(
+    group: TabGroup,
+    tabIds: string[],
+    now: string = new Date().toISOString()
+  ): Promise<void> {
+    if (tabIds.length === 0) return;
+    await this.setDeletedTabs(addTabsToTrash(await this.getDeletedTabs(), group, tabIds, now));
+  }
+
+  // 清理回收站中超过期限的会话与标签页
+  async cleanupDeletedGroups(maxAgeInDays: number = TRASH_RETENTION_DAYS): Promise<void> {
+    try {
+      const now = new Date().toISOString();
 
-      // 如果有过期的标签组，更新存储
+      const deletedGroups = await this.getDeletedGroups();
+      const validGroups = purgeExpiredTrash(deletedGroups, now, maxAgeInDays);
       if (validGroups.length !== deletedGroups.length) {
         await this.setDeletedGroups(validGroups);
         console.log(`清理了 ${deletedGroups.length - validGroups.length} 个过期的已删除标签组`);
       }
 
-      // 同时清理过期的已删除标签页
       const deletedTabs = await this.getDeletedTabs();
-      const validTabs = deletedTabs.filter(tab => {
-        const lastAccessed = new Date(tab.lastAccessed).getTime();
-        return (now - lastAccessed) < maxAgeMs;
-      });
-
+      const validTabs = purgeExpiredTrash(deletedTabs, now, maxAgeInDays);
       if (validTabs.length !== deletedTabs.length) {
         await this.setDeletedTabs(validTabs);
         console.log(`清理了 ${deletedTabs.length - validTabs.length} 个过期的已删除标签页`);
@@ -391,6 +492,33 @@ class ChromeStorage {
     }
   }
 
+  /**
+   * 从回收站恢复、但还没撤销云端 tombstone 的会话 id。
+   * 上传时由 SyncEngine 处理后移除；upsert 本身不会清除 pending_delete。
+   */
+  async getPendingCloudRestores(): Promise<string[]> {
+    try {
+      await this.ensureVersion();
+      const ids = await kvGet<unknown>(STORAGE_KEYS.PENDING_CLOUD_RESTORES);
+      return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : [];
+    } catch (error) {
+      console.error('获取待恢复的云端会话失败:', error);
+      return [];
+    }
+  }
+
+  async addPendingCloudRestores(groupIds: string[]): Promise<void> {
+    if (groupIds.length === 0) return;
+    const ids = await this.getPendingCloudRestores();
+    await kvSet(STORAGE_KEYS.PENDING_CLOUD_RESTORES, [...new Set([...ids, ...groupIds])]);
+  }
+
+  async removePendingCloudRestores(groupIds: string[]): Promise<void> {
+    const handled = new Set(groupIds);
+    const ids = await this.getPendingCloudRestores();
+    await kvSet(STORAGE_KEYS.PENDING_CLOUD_RESTORES, ids.filter(id => !handled.has(id)));
+  }
+
   // 获取最后同步时间
   async getLastSyncTime(): Promise<string | null> {
     try {
@@ -541,6 +669,207 @@ class ChromeStorage {
     await kvRemove(STORAGE_KEYS.PRODUCT_EVENTS);
   }
 
+  /**
+   * 读取加密存储的浏览会话记录；解密失败或格式不符时返回 null。
+   */
+  private async getBrowsingSessionRecord(key: string): Promise<BrowsingSessionRecord | null> {
+    try {
+      await this.ensureVersion();
+      const raw = await kvGet<unknown>(key);
+      if (typeof raw !== 'string') return null;
+      const record = await decryptLocalBlob<BrowsingSessionRecord>(raw);
+      return record && Array.isArray(record.windows) ? record : null;
+    } catch (error) {
+      console.error('获取浏览会话记录失败:', key, error);
+      return null;
+    }
+  }
+
+  /**
+   * 撤销 / 重做历史（见 domain/tabGroup/history），关闭弹窗后重新打开仍可撤销。
+   * 快照包含会话内容，与会话列表一样加密保存。
+   */
+  async getUndoHistory(): Promise<UndoHistory> {
+    try {
+      await this.ensureVersion();
+      const raw = await kvGet<unknown>(STORAGE_KEYS.UNDO_HISTORY);
+      const history = await decryptLocalBlob<UndoHistory>(raw);
+      return history && Array.isArray(history.past) && Array.isArray(history.future)
+        ? history
+        : EMPTY_HISTORY;
+    } catch (error) {
+      console.error('获取撤销历史失败:', error);
+      return EMPTY_HISTORY;
+    }
+  }
+
+  async setUndoHistory(history: UndoHistory): Promise<void> {
+    try {
+      await this.ensureVersion();
+      await kvSet(STORAGE_KEYS.UNDO_HISTORY, await encryptLocalBlob(history));
+    } catch (error) {
+      console.error('保存撤销历史失败:', error);
+    }
+  }
+
+  /**
+   * 搜索索引快照（见 utils/searchIndex）。词表来自标签页标题与 URL，与会话列表一样加密保存。
+   */
+  async getSearchIndex(): Promise<SearchIndexSnapshot | null> {
+    try {
+      await this.ensureVersion();
+      const raw = await kvGet<unknown>(STORAGE_KEYS.SEARCH_INDEX);
+      return raw ? await decryptLocalBlob<SearchIndexSnapshot>(raw) : null;
+    } catch (error) {
+      console.error('获取搜索索引失败:', error);
+      return null;
+    }
+  }
+
+  async setSearchIndex(snapshot: SearchIndexSnapshot): Promise<void> {
+    try {
+      await this.ensureVersion();
+      await kvSet(STORAGE_KEYS.SEARCH_INDEX, await encryptLocalBlob(snapshot));
+    } catch (error) {
+      console.error('保存搜索索引失败:', error);
+    }
+  }
+
+  private searchIndexLoad: Promise<void> | null = null;
+
+  /**
+   * 载入保存的搜索索引（每个页面 / service worker 只载入一次），之后 sync 只需核对摘要
+   */
+  loadSearchIndex(): Promise<void> {
+    if (!this.searchIndexLoad) {
+      this.searchIndexLoad = this.getSearchIndex().then(snapshot => {
+        searchIndex.restore(snapshot);
+      });
+    }
+    return this.searchIndexLoad;
+  }
+
+  private async persistSearchIndex(): Promise<void> {
+    if (!searchIndex.isDirty) return;
+    searchIndex.markPersisted();
+    await this.setSearchIndex(searchIndex.toSnapshot());
+  }
+
+  private debouncedUpdateSearchIndex = debounceAsync(async (groups: TabGroup[]) => {
+    await this.loadSearchIndex();
+    searchIndex.sync(groups);
+    await this.persistSearchIndex();
+  }, 1000);
+
+  /**
+   * 按当前会话列表整体重建搜索索引（数据迁移、索引格式升级时调用）
+   */
+  async rebuildSearchIndex(): Promise<void> {
+    const groups = await this.getGroups();
+    searchIndex.rebuild(groups);
+    await this.persistSearchIndex();
+  }
+
+  /**
+   * 页面全文（见 domain/tabGroup/pageContent），按网址保存，与会话列表分开加密保存
+   */
+  async getPageContents(): Promise<PageContent[]> {
+    try {
+      await this.ensureVersion();
+      const raw = await kvGet<unknown>(STORAGE_KEYS.PAGE_CONTENTS);
+      const records = raw ? await decryptLocalBlob<unknown>(raw) : null;
+      return Array.isArray(records) ? mergePageContents([], records) : [];
+    } catch (error) {
+      console.error('获取页面全文失败:', error);
+      return [];
+    }
+  }
+
+  private pageContentsLoad: Promise<void> | null = null;
+
+  /**
+   * 把保存的页面全文载入内存供搜索使用（每个页面只载入一次；force 时重新读取，
+   * 例如 service worker 保存了新的会话之后）
+   */
+  loadPageContents(force = false): Promise<void> {
+    if (!this.pageContentsLoad || force) {
+      this.pageContentsLoad = this.getPageContents().then(records => {
+        pageContentStore.replaceAll(records);
+      });
+    }
+    return this.pageContentsLoad;
+  }
+
+  // 每次写入都以存储中的最新内容为准：弹窗与 service worker 都会写，内存中的副本可能已经过时
+  private async updatePageContents(update: (records: PageContent[]) => PageContent[] | null): Promise<void> {
+    const next = update(await this.getPageContents());
+    if (!next) return;
+    await this.ensureVersion();
+    await kvSet(STORAGE_KEYS.PAGE_CONTENTS, await encryptLocalBlob(next));
+    pageContentStore.replaceAll(next);
+    this.pageContentsLoad = Promise.resolve();
+  }
+
+  /** 合并新抓取或从云端下载的正文（同一网址保留较新的一份） */
+  async savePageContents(records: readonly PageContent[]): Promise<void> {
+    if (records.length === 0) return;
+    try {
+      await this.updatePageContents(current => mergePageContents(current, records));
+    } catch (error) {
+      console.error('保存页面全文失败:', error);
+    }
+  }
+
+  async clearPageContents(): Promise<void> {
+    await kvRemove(STORAGE_KEYS.PAGE_CONTENTS);
+    pageContentStore.clear();
+    this.pageContentsLoad = Promise.resolve();
+  }
+
+  // 会话和回收站中都不再出现的网址，其正文一并删除（回收站中的会话恢复后仍可搜索正文）
+  private debouncedPrunePageContents = debounceAsync(async (groups: TabGroup[]) => {
+    await this.loadPageContents();
+    const urls = collectGroupUrls(groups);
+    if (!pageContentStore.hasUnused(urls)) return;
+
+    const [deletedGroups, deletedTabs] = await Promise.all([this.getDeletedGroups(), this.getDeletedTabs()]);
+    collectGroupUrls(deletedGroups.map(entry => entry.group)).forEach(url => urls.add(url));
+    deletedTabs.forEach(entry => urls.add(entry.tab.url));
+
+    await this.updatePageContents(current => {
+      const kept = current.filter(content => urls.has(content.url));
+      return kept.length === current.length ? null : kept;
+    });
+  }, 1000);
+
+  /**
+   * 当前打开的窗口（service worker 随标签页事件更新），下次浏览器启动时转为「上次浏览会话」
+   */
+  async getLiveWindows(): Promise<BrowsingSessionRecord | null> {
+    return this.getBrowsingSessionRecord(STORAGE_KEYS.LIVE_WINDOWS);
+  }
+
+  async setLiveWindows(record: BrowsingSessionRecord): Promise<void> {
+    await this.ensureVersion();
+    await kvSet(STORAGE_KEYS.LIVE_WINDOWS, await encryptLocalBlob(record));
+  }
+
+  /**
+   * 可恢复的上次浏览会话；用户恢复或忽略后清除
+   */
+  async getPreviousSession(): Promise<BrowsingSessionRecord | null> {
+    return this.getBrowsingSessionRecord(STORAGE_KEYS.PREVIOUS_SESSION);
+  }
+
+  async setPreviousSession(record: BrowsingSessionRecord): Promise<void> {
+    await this.ensureVersion();
+    await kvSet(STORAGE_KEYS.PREVIOUS_SESSION, await encryptLocalBlob(record));
+  }
+
+  async clearPreviousSession(): Promise<void> {
+    await kvRemove(STORAGE_KEYS.PREVIOUS_SESSION);
+  }
+
   async exportData(): Promise<ExportData> {
     const groups = await this.getGroups();
     const settings = await this.getSettings();
@@ -570,9 +899,16 @@ class ChromeStorage {
         throw new Error('无效的导入数据格式');
       }
 
-      // 导入标签组，并按创建时间倒序排列
+      // 导入标签组，并按创建时间倒序排列；标签字段来自外部文件，先校验
+      const importedGroups = data.data.groups.map(group => ({
+        ...group,
+        tags: sanitizeTags(group.tags),
+        tabs: Array.isArray(group.tabs)
+          ? group.tabs.map(tab => ({ ...tab, tags: sanitizeTags(tab.tags) }))
+          : group.tabs,
+      }));
       const existingGroups = await this.getGroups();
-      const allGroups = [...data.data.groups, ...existingGroups];
+      const allGroups = [...importedGroups, ...existingGroups];
       // 按创建时间倒序排列，确保最新创建的标签组在前面
       const sortedGroups = allGroups.sort((a, b) => {
         const dateA = new Date(a.createdAt);
@@ -641,6 +977,12 @@ class ChromeStorage {
         STORAGE_KEYS.SETTINGS,
         STORAGE_KEYS.DELETED_GROUPS,
         STORAGE_KEYS.DELETED_TABS,
+        STORAGE_KEYS.PENDING_CLOUD_RESTORES,
+        STORAGE_KEYS.UNDO_HISTORY,
+        STORAGE_KEYS.SEARCH_INDEX,
+        STORAGE_KEYS.PAGE_CONTENTS,
+        STORAGE_KEYS.LIVE_WINDOWS,
+        STORAGE_KEYS.PREVIOUS_SESSION,
         STORAGE_KEYS.LAST_SYNC_TIME,
         STORAGE_KEYS.LAST_SYNC_STATUS,
         STORAGE_KEYS.SYNC_SNAPSHOT,
@@ -1,5 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
-import { TabGroup, UserSettings, TabData, SupabaseTabGroup } from '@/types/tab';
+import { TabGroup, UserSettings, TabData, SupabaseTabGroup, PageContent } from '@/types/tab';
 
 import { encryptData, decryptData, isEncrypted } from './encryptionUtils';
 
@@ -188,6 +188,28 @@ export const auth = {
   }
 };
 
+// 页面全文只在开启「同步页面全文」时随标签页上传
+const toPageContentData = (content: PageContent | undefined): TabData['page_content'] =>
+  content ? { text: content.text, captured_at: content.capturedAt } : undefined;
+
+// user_settings 中较晚加入的列：云端尚未加列时去掉该字段重试，不阻塞其他设置同步
+const OPTIONAL_SETTINGS_COLUMNS: Record<string, string> = {
+  collect_pinned_tabs: '忽略该字段',
+  session_folders: '文件夹结构仅保存在本地',
+  saved_searches: '保存的搜索仅保存在本地',
+};
+
+// 是否是 PostgreSQL 的 undefined_column 错误（错误码 42703），且错误信息提到了该列
+const isMissingColumnError = (error: any, column: string): boolean => {
+  if (error?.code !== '42703') return false;
+  const combined = `${error.message || ''} ${error.details || ''} ${error.hint || ''}`.toLowerCase();
+  return combined.includes(column);
+};
+
+// 返回错误中提到的、本次请求仍包含的可选列
+const findMissingOptionalColumn = (error: any, body: Record<string, any>): string | undefined =>
+  Object.keys(OPTIONAL_SETTINGS_COLUMNS).find(column => column in body && isMissingColumnError(error, column));
+
 // 数据同步相关方法
 export const sync = {
   // 迁移数据到 JSONB 格式
@@ -336,8 +358,12 @@ export const sync = {
       throw error;
     }
   },
-  // 上传标签组
-  async uploadTabGroups(groups: TabGroup[], _overwriteCloud: boolean = false) {
+  // 上传标签组（pageContents：开启「同步页面全文」时随标签页上传的正文，按网址）
+  async uploadTabGroups(
+    groups: TabGroup[],
+    _overwriteCloud: boolean = false,
+    options: { pageContents?: ReadonlyMap<string, PageContent> } = {}
+  ) {
     checkSupabaseConfig();
     const deviceId = await getDeviceId();
 
@@ -413,6 +439,12 @@ export const sync = {
         created_at: tab.createdAt,
         last_accessed: tab.lastAccessed,
         pinned: tab.pinned,
+        native_group: tab.nativeGroup,
+        page_state: tab.pageState,
+        restore_count: tab.restoreCount,
+        last_restored_at: tab.lastRestoredAt,
+        tags: tab.tags,
+        page_content: toPageContentData(options.pageContents?.get(tab.url)),
       }));
 
       // 准备返回对象
@@ -463,6 +495,15 @@ export const sync = {
               notes: fullGroup?.notes,
               isFavorite: fullGroup?.isFavorite,
               displayOrder: fullGroup?.displayOrder,
+              color: fullGroup?.color,
+              autoSnapshot: fullGroup?.autoSnapshot,
+              idleArchive: fullGroup?.idleArchive,
+              isTemplate: fullGroup?.isTemplate,
+              tags: fullGroup?.tags,
+              folderId: fullGroup?.folderId,
+              retention: fullGroup?.retention,
+              isArchived: fullGroup?.isArchived,
+              archivedAt: fullGroup?.archivedAt,
             };
             const encryptedData = await encryptData(groupPayload, user.id);
             // 替换原始数据为加密数据
@@ -587,8 +628,8 @@ export const sync = {
     return { result };
   },
 
-  // 下载标签组
-  async downloadTabGroups() {
+  // 下载标签组（传入 pageContents 时，把标签页附带的正文追加到其中）
+  async downloadTabGroups(options: { pageContents?: PageContent[] } = {}) {
     checkSupabaseConfig();
     // 先检查会话是否有效
     const { data: sessionData, error: sessionError } = await supabase.auth.getSession();
@@ -729,9 +770,30 @@ export const sync = {
             notes: full.notes,
             isFavorite: full.isFavorite,
             displayOrder: full.displayOrder,
+            color: full.color,
+            autoSnapshot: full.autoSnapshot,
+            idleArchive: full.idleArchive,
+            isTemplate: full.isTemplate,
+            tags: full.tags,
+            folderId: full.folderId,
+            retention: full.retention,
+            isArchived: full.isArchived,
+            archivedAt: full.archivedAt,
           };
         }
 
+        if (options.pageContents) {
+          for (const tab of tabDataArray) {
+            if (tab.page_content) {
+              options.pageContents.push({
+                url: tab.url,
+                text: tab.page_content.text,
+                capturedAt: tab.page_content.captured_at,
+              });
+            }
+          }
+        }
+
         // 将 TabData 转换为 Tab 格式
         const formattedTabs = tabDataArray.map((tab: TabData) => ({
           id: tab.id,
@@ -742,6 +804,11 @@ export const sync = {
           lastAccessed: tab.last_accessed,
           group_id: String(groupAny.id),
           pinned: tab.pinned ?? false,
+          ...(tab.native_group ? { nativeGroup: tab.native_group } : {}),
+          ...(tab.page_state ? { pageState: tab.page_state } : {}),
+          ...(tab.restore_count ? { restoreCount: tab.restore_count } : {}),
+          ...(tab.last_restored_at ? { lastRestoredAt: tab.last_restored_at } : {}),
+          ...(tab.tags?.length ? { tags: tab.tags } : {}),
         }));
 
         tabGroups.push({
@@ -831,6 +898,35 @@ export const sync = {
     console.log(`[markCloudGroupsAsDeleted] 已标记 ${deletedIds.length} 个云端组为已删除`);
   },
 
+  /**
+   * 撤销云端标签组的删除标记（从回收站恢复的会话）。
+   * upsert 不会改动 pending_delete，不撤销的话其他设备下载时仍会当作已删除。
+   */
+  async unmarkCloudGroupsAsDeleted(restoredIds: string[]) {
+    if (restoredIds.length === 0) return;
+
+    checkSupabaseConfig();
+    const { data: sessionData } = await supabase.auth.getSession();
+    if (!sessionData?.session) {
+      console.warn('[unmarkCloudGroupsAsDeleted] 未登录，跳过');
+      return;
+    }
+
+    const { error } = await supabase
+      .from('tab_groups')
+      .update({ pending_delete: false, updated_at: new Date().toISOString() })
+      .eq('user_id', sessionData.session.user.id)
+      .eq('pending_delete', true)
+      .in('id', restoredIds);
+
+    if (error) {
+      console.error('[unmarkCloudGroupsAsDeleted] 撤销删除标记失败:', error);
+      throw error;
+    }
+
+    console.log(`[unmarkCloudGroupsAsDeleted] 已撤销 ${restoredIds.length} 个云端组的删除标记`);
+  },
+
   // 上传用户设置
   async uploadSettings(settings: UserSettings) {
     checkSupabaseConfig();
@@ -891,7 +987,34 @@ export const sync = {
       'themeMode',
       'themeStyle',
       'collectPinnedTabs',
+      'autoCloseTabsAfterSaving',
       'reorderMode',
+      'sessionFolders',
+      'savedSearches',
+    ];
+
+    // 仅在本设备生效、不上传云端的设置字段
+    const localOnlySettingsKeys: (keyof UserSettings)[] = [
+      'restoreAsNativeTabGroup',
+      'lazyRestore',
+      'lazyRestoreConcurrency',
+      'restoreTarget',
+      'capturePageState',
+      'capturePageContent',
+      'syncPageContent',
+      'groupSortOrder',
+      'groupRestoreFilter',
+      'autoSnapshotEnabled',
+      'autoSnapshotIntervalMinutes',
+      'autoSnapshotMaxSessions',
+      'idleArchiveEnabled',
+      'idleArchiveMinutes',
+      'idleArchiveWhitelist',
+      'retentionPolicies',
+      'archiveEmptiedGroups',
+      'urlRules',
+      'inboxSessionId',
+      'collapsedFolderIds',
     ];
 
     // 将驼峰命名法转换为下划线命名法，并过滤掉不允许的字段
@@ -902,7 +1025,7 @@ export const sync = {
         // 将驼峰命名转换为下划线命名
         const snakeKey = key.replace(/([A-Z])/g, '_$1').toLowerCase();
         convertedSettings[snakeKey] = value;
-      } else if (key in settings) {
+      } else if (!(localOnlySettingsKeys as string[]).includes(key)) {
         // 字段存在但不在 allowlist，说明是新增字段但未被同步逻辑支持
         console.warn(`[uploadSettings] 设置字段 "${key}" 不在同步允许列表中，已跳过。建议检查 allowlist 配置。`);
       }
@@ -923,27 +1046,18 @@ export const sync = {
         .upsert(body, { onConflict: 'user_id' });
     };
 
-    let { data, error } = await doUpsert(payload);
-
-    // 兼容：云端尚未加列 collect_pinned_tabs 时，不阻塞其他设置同步
-    if (error) {
-      // 检查是否是 PostgreSQL 的 undefined_column 错误（错误码 42703）
-      const errorCode = (error as any)?.code;
-      const message = (error as any)?.message || '';
-      const details = (error as any)?.details || '';
-      const hint = (error as any)?.hint || '';
-      const combined = `${message} ${details} ${hint}`.toLowerCase();
-
-      // 更精确的列不存在检查
-      const isUndefinedColumn = errorCode === '42703';
-      const mentionsCollectPinned = combined.includes('collect_pinned_tabs');
-
-      if (isUndefinedColumn && mentionsCollectPinned) {
-        console.warn('[Supabase] user_settings 缺少 collect_pinned_tabs 列，已降级重试（忽略该字段）');
-        const { collect_pinned_tabs: unusedCollectPinnedTabs, ...fallback } = payload as any;
-        void unusedCollectPinnedTabs;
-        ({ data, error } = await doUpsert(fallback));
-      }
+    let body: Record<string, any> = payload;
+    let { data, error } = await doUpsert(body);
+
+    // 兼容：云端可能同时缺少多个较晚加入的列，每次去掉错误中提到的列后重试，直到成功或不再是这些列的问题
+    let missingColumn = findMissingOptionalColumn(error, body);
+    while (missingColumn) {
+      console.warn(`[Supabase] user_settings 缺少 ${missingColumn} 列，已降级重试（${OPTIONAL_SETTINGS_COLUMNS[missingColumn]}）`);
+      const { [missingColumn]: unusedColumn, ...fallback } = body;
+      void unusedColumn;
+      body = fallback;
+      ({ data, error } = await doUpsert(body));
+      missingColumn = findMissingOptionalColumn(error, body);
     }
 
     if (error) {
@@ -1036,7 +1150,10 @@ export const sync = {
         'theme_mode': 'themeMode',
         'theme_style': 'themeStyle',
         'collect_pinned_tabs': 'collectPinnedTabs',
+        'auto_close_tabs_after_saving': 'autoCloseTabsAfterSaving',
         'reorder_mode': 'reorderMode',
+        'session_folders': 'sessionFolders',
+        'saved_searches': 'savedSearches',
         // 向后兼容性：如果云端还有旧的字段，也要处理
         'use_double_column_layout': 'useDoubleColumnLayout'
       };
@@ -1,4 +1,4 @@
-import { TabGroup, Tab, UserSettings } from '@/types/tab';
+import { TabGroup, Tab, UserSettings, SessionFolder, SavedSearch } from '@/types/tab';
 
 /**
  * 智能合并本地和云端标签组
@@ -197,6 +197,59 @@ const mergeGroup = (
     // 本地会话元数据默认保留在本地
     notes: localGroup.notes ?? cloudGroup.notes,
     isFavorite: localGroup.isFavorite ?? cloudGroup.isFavorite,
+    autoSnapshot: localGroup.autoSnapshot ?? cloudGroup.autoSnapshot,
+    idleArchive: localGroup.idleArchive ?? cloudGroup.idleArchive,
+    isTemplate: localGroup.isTemplate ?? cloudGroup.isTemplate,
+
+    // 颜色：使用较新的（清除颜色时为 undefined，不能用 ?? 合并）
+    color: selectNewerField(
+      localGroup.color,
+      cloudGroup.color,
+      localGroup.updatedAt,
+      cloudGroup.updatedAt,
+      syncStrategy === 'local' ? 'local' : syncStrategy === 'remote' ? 'remote' : 'newest'
+    ),
+
+    // 标签：使用较新的（删掉最后一个标签时为 undefined，不能用 ?? 合并）
+    tags: selectNewerField(
+      localGroup.tags,
+      cloudGroup.tags,
+      localGroup.updatedAt,
+      cloudGroup.updatedAt,
+      syncStrategy === 'local' ? 'local' : syncStrategy === 'remote' ? 'remote' : 'newest'
+    ),
+
+    // 文件夹归属：使用较新的（移回顶层时为 undefined，不能用 ?? 合并）
+    folderId: selectNewerField(
+      localGroup.folderId,
+      cloudGroup.folderId,
+      localGroup.updatedAt,
+      cloudGroup.updatedAt,
+      syncStrategy === 'local' ? 'local' : syncStrategy === 'remote' ? 'remote' : 'newest'
+    ),
+
+    // 保留设置与归档状态：使用较新的（清除 / 取消归档时同样为 undefined）
+    retention: selectNewerField(
+      localGroup.retention,
+      cloudGroup.retention,
+      localGroup.updatedAt,
+      cloudGroup.updatedAt,
+      syncStrategy === 'local' ? 'local' : syncStrategy === 'remote' ? 'remote' : 'newest'
+    ),
+    isArchived: selectNewerField(
+      localGroup.isArchived,
+      cloudGroup.isArchived,
+      localGroup.updatedAt,
+      cloudGroup.updatedAt,
+      syncStrategy === 'local' ? 'local' : syncStrategy === 'remote' ? 'remote' : 'newest'
+    ),
+    archivedAt: selectNewerField(
+      localGroup.archivedAt,
+      cloudGroup.archivedAt,
+      localGroup.updatedAt,
+      cloudGroup.updatedAt,
+      syncStrategy === 'local' ? 'local' : syncStrategy === 'remote' ? 'remote' : 'newest'
+    ),
 
     // 锁定状态：逻辑 OR（任一锁定即锁定）
     isLocked: localGroup.isLocked || cloudGroup.isLocked,
@@ -360,6 +413,43 @@ function sortGroups(groups: TabGroup[]): TabGroup[] {
   });
 }
 
+// 随设置同步的条目（会话文件夹、保存的搜索）：按 id 合并，updatedAt 较新的一方胜出
+const mergeSyncedSettingItems = <T extends { id: string; createdAt: string; updatedAt: string }>(
+  localItems: T[] | undefined,
+  cloudItems: T[] | undefined
+): T[] => {
+  const merged = new Map<string, T>();
+  for (const item of [...(localItems ?? []), ...(Array.isArray(cloudItems) ? cloudItems : [])]) {
+    const existing = merged.get(item.id);
+    if (!existing || new Date(item.updatedAt).getTime() > new Date(existing.updatedAt).getTime()) {
+      merged.set(item.id, item);
+    }
+  }
+  return [...merged.values()].sort(
+    (left, right) => new Date(left.createdAt).getTime() - new Date(right.createdAt).getTime()
+  );
+};
+
+/**
+ * 合并本地和云端的会话文件夹（随设置同步）
+ *
+ * 按 id 合并，updatedAt 较新的一方胜出；删除以软删除标记保留，
+ * 避免另一台设备上的旧数据把已删除的文件夹复活。
+ * 云端没有该字段（旧版本或未加列）时保留本地。
+ */
+export const mergeSessionFolders = (
+  localFolders: SessionFolder[] | undefined,
+  cloudFolders: SessionFolder[] | undefined
+): SessionFolder[] => mergeSyncedSettingItems(localFolders, cloudFolders);
+
+/**
+ * 合并本地和云端保存的搜索，规则与会话文件夹相同
+ */
+export const mergeSavedSearches = (
+  localSearches: SavedSearch[] | undefined,
+  cloudSearches: SavedSearch[] | undefined
+): SavedSearch[] => mergeSyncedSettingItems(localSearches, cloudSearches);
+
 /**
  * 获取需要同步到云端的标签组
  * @param groups 所有标签组
@@ -16,6 +16,23 @@ export const shouldAutoDeleteGroup = (group: TabGroup): boolean => {
   return isEmpty && isNotLocked;
 };
 
+/**
+ * 空会话的自动处理方式：删除，或保留会话（名称、备注、标签）并归档
+ */
+export type EmptyGroupAction = 'delete' | 'archive';
+
+/**
+ * 标签组符合自动删除条件时，按设置返回删除或归档；不符合时返回 null
+ * @param group 要检查的标签组
+ * @param archiveEmptied 是否以归档代替删除（settings.archiveEmptiedGroups）
+ */
+export const getEmptyGroupAction = (group: TabGroup, archiveEmptied = false): EmptyGroupAction | null => {
+  if (!shouldAutoDeleteGroup(group)) {
+    return null;
+  }
+  return archiveEmptied ? 'archive' : 'delete';
+};
+
 /**
  * 检查标签组在删除指定标签页后是否应该被自动删除
  * @param group 标签组
@@ -0,0 +1,121 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  applyAutoSnapshotRetention,
+  buildAutoSnapshotName,
+  getLatestAutoSnapshotRun,
+  isSameAutoSnapshotRun,
+} from '../src/domain/tabGroup/autoSnapshot.ts';
+import type { TabGroup } from '../src/types/tab.ts';
+
+const createGroup = (id: string, createdAt: string, urls: string[], overrides: Partial<TabGroup> = {}): TabGroup => ({
+  id,
+  name: id,
+  createdAt,
+  updatedAt: createdAt,
+  isLocked: true,
+  autoSnapshot: true,
+  tabs: urls.map((url, index) => ({
+    id: `${id}-${index}`,
+    url,
+    title: url,
+    createdAt,
+    lastAccessed: createdAt,
+  })),
+  ...overrides,
+});
+
+describe('buildAutoSnapshotName', () => {
+  it('单窗口只带时间，多窗口附加窗口序号', () => {
+    const now = '2024-05-01T08:00:00.000Z';
+    assert.ok(buildAutoSnapshotName(now, 0, 1).startsWith('Autosave '));
+    assert.ok(!buildAutoSnapshotName(now, 0, 1).includes('窗口'));
+    assert.ok(buildAutoSnapshotName(now, 1, 2).endsWith(' · 窗口 2'));
+  });
+});
+
+describe('getLatestAutoSnapshotRun', () => {
+  it('返回最近一次快照的全部会话，忽略普通会话和已删除快照', () => {
+    const groups = [
+      createGroup('manual', '2024-05-03T00:00:00.000Z', ['https://a.com'], { autoSnapshot: undefined }),
+      createGroup('deleted', '2024-05-02T12:00:00.000Z', ['https://b.com'], { isDeleted: true }),
+      createGroup('run2-w1', '2024-05-02T00:00:00.000Z', ['https://c.com']),
+      createGroup('run2-w2', '2024-05-02T00:00:00.000Z', ['https://d.com']),
+      createGroup('run1', '2024-05-01T00:00:00.000Z', ['https://e.com']),
+    ];
+
+    assert.deepEqual(getLatestAutoSnapshotRun(groups).map(group => group.id), ['run2-w1', 'run2-w2']);
+    assert.deepEqual(getLatestAutoSnapshotRun([]), []);
+  });
+});
+
+describe('isSameAutoSnapshotRun', () => {
+  const previous = [
+    createGroup('w1', 't', ['https://a.com', 'https://b.com']),
+    createGroup('w2', 't', ['https://c.com']),
+  ];
+
+  it('窗口顺序不同但内容相同视为相同', () => {
+    const next = [
+      createGroup('n2', 't', ['https://c.com']),
+      createGroup('n1', 't', ['https://a.com', 'https://b.com']),
+    ];
+    assert.equal(isSameAutoSnapshotRun(previous, next), true);
+  });
+
+  it('标签页顺序、数量或窗口数变化时视为不同', () => {
+    assert.equal(
+      isSameAutoSnapshotRun(previous, [
+        createGroup('n1', 't', ['https://b.com', 'https://a.com']),
+        createGroup('n2', 't', ['https://c.com']),
+      ]),
+      false
+    );
+    assert.equal(isSameAutoSnapshotRun(previous, [createGroup('n1', 't', ['https://a.com', 'https://b.com'])]), false);
+    assert.equal(isSameAutoSnapshotRun([], previous), false);
+  });
+});
+
+describe('applyAutoSnapshotRetention', () => {
+  const now = '2024-05-10T00:00:00.000Z';
+
+  it('保留最新的 N 个快照，其余软删除并递增版本', () => {
+    const groups = [
+      createGroup('s3', '2024-05-03T00:00:00.000Z', ['https://a.com']),
+      createGroup('manual', '2024-04-01T00:00:00.000Z', ['https://m.com'], { autoSnapshot: undefined }),
+      createGroup('s1', '2024-05-01T00:00:00.000Z', ['https://a.com'], { version: 3 }),
+      createGroup('s2', '2024-05-02T00:00:00.000Z', ['https://a.com']),
+    ];
+
+    const result = applyAutoSnapshotRetention(groups, 2, now);
+    const byId = new Map(result.map(group => [group.id, group]));
+
+    assert.equal(byId.get('s3')?.isDeleted, undefined);
+    assert.equal(byId.get('s2')?.isDeleted, undefined);
+    assert.equal(byId.get('manual')?.isDeleted, undefined);
+    assert.equal(byId.get('s1')?.isDeleted, true);
+    assert.equal(byId.get('s1')?.version, 4);
+    assert.equal(byId.get('s1')?.updatedAt, now);
+  });
+
+  it('收藏的快照和已删除的快照不计入上限', () => {
+    const groups = [
+      createGroup('fav', '2024-05-05T00:00:00.000Z', ['https://a.com'], { isFavorite: true }),
+      createGroup('gone', '2024-05-04T00:00:00.000Z', ['https://a.com'], { isDeleted: true }),
+      createGroup('s2', '2024-05-02T00:00:00.000Z', ['https://a.com']),
+      createGroup('s1', '2024-05-01T00:00:00.000Z', ['https://a.com']),
+    ];
+
+    const result = applyAutoSnapshotRetention(groups, 1, now);
+    assert.deepEqual(
+      result.filter(group => group.isDeleted).map(group => group.id),
+      ['gone', 's1']
+    );
+    assert.equal(result.find(group => group.id === 'gone')?.updatedAt, '2024-05-04T00:00:00.000Z');
+  });
+
+  it('未超出上限时原样返回', () => {
+    const groups = [createGroup('s1', '2024-05-01T00:00:00.000Z', ['https://a.com'])];
+    assert.equal(applyAutoSnapshotRetention(groups, 10, now), groups);
+  });
+});
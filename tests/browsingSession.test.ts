@@ -0,0 +1,75 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { register } from 'node:module';
+import { pathToFileURL, fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+
+const LOADER_PATH = pathToFileURL(
+  resolve(dirname(fileURLToPath(import.meta.url)), '_alias-loader.mjs')
+).href;
+
+const NOW = '2026-06-04T08:00:00.000Z';
+
+const createChromeTab = (overrides: Partial<chrome.tabs.Tab> = {}): chrome.tabs.Tab => ({
+  id: 1,
+  index: 0,
+  windowId: 1,
+  url: 'https://example.com',
+  title: 'Example',
+  pinned: false,
+  highlighted: false,
+  active: false,
+  incognito: false,
+  selected: false,
+  discarded: false,
+  autoDiscardable: true,
+  groupId: -1,
+  frozen: false,
+  ...overrides,
+} as chrome.tabs.Tab);
+
+before(() => {
+  register(LOADER_PATH);
+});
+
+describe('buildBrowsingSessionRecord', () => {
+  it('按窗口拆分并命名，固定标签页保留，内部页面过滤', async () => {
+    const { buildBrowsingSessionRecord } = await import('@/domain/tabGroup/browsingSession');
+    const record = buildBrowsingSessionRecord([
+      createChromeTab({ id: 1, windowId: 7, index: 1, url: 'https://b.com' }),
+      createChromeTab({ id: 2, windowId: 7, index: 0, url: 'https://a.com', pinned: true }),
+      createChromeTab({ id: 3, windowId: 9, index: 0, url: 'chrome://newtab/' }),
+      createChromeTab({ id: 4, windowId: 8, index: 0, url: 'https://c.com' }),
+    ], NOW);
+
+    assert.equal(record.capturedAt, NOW);
+    assert.deepEqual(record.windows.map(window => window.name), ['窗口 1', '窗口 2']);
+    assert.deepEqual(record.windows[0].tabs.map(tab => tab.url), ['https://a.com', 'https://b.com']);
+    assert.equal(record.windows[0].tabs[0].pinned, true);
+    assert.deepEqual(record.windows[1].tabs.map(tab => tab.url), ['https://c.com']);
+  });
+});
+
+describe('pruneReopenedWindows', () => {
+  it('去掉所有 URL 都已重新打开的窗口', async () => {
+    const { buildBrowsingSessionRecord, pruneReopenedWindows } = await import('@/domain/tabGroup/browsingSession');
+    const record = buildBrowsingSessionRecord([
+      createChromeTab({ id: 1, windowId: 1, url: 'https://a.com' }),
+      createChromeTab({ id: 2, windowId: 1, index: 1, url: 'https://b.com' }),
+      createChromeTab({ id: 3, windowId: 2, url: 'https://c.com' }),
+    ], NOW);
+
+    const pruned = pruneReopenedWindows(record, new Set(['https://a.com', 'https://b.com']));
+    assert.deepEqual(pruned?.windows.map(window => window.tabs.map(tab => tab.url)), [['https://c.com']]);
+
+    assert.equal(pruned?.capturedAt, NOW);
+  });
+
+  it('全部已重新打开或记录为空时返回 null', async () => {
+    const { buildBrowsingSessionRecord, pruneReopenedWindows } = await import('@/domain/tabGroup/browsingSession');
+    const record = buildBrowsingSessionRecord([createChromeTab({ url: 'https://a.com' })], NOW);
+
+    assert.equal(pruneReopenedWindows(record, new Set(['https://a.com'])), null);
+    assert.equal(pruneReopenedWindows({ capturedAt: NOW, windows: [] }, new Set()), null);
+  });
+});
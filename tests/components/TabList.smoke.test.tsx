@@ -27,7 +27,7 @@ import { installJsdom, installChromeStub } from '../_jsdom-helpers.mjs';
 installJsdom();
 installChromeStub();
 
-const { render, screen, cleanup } = await import('@testing-library/react');
+const { render, screen, cleanup, fireEvent } = await import('@testing-library/react');
 const { default: tabReducer, initialTabState } = await import('@/store/slices/tabSlice.ts');
 const { default: settingsReducer, initialSettingsState } = await import('@/store/slices/settingsSlice.ts');
 const { default: authReducer } = await import('@/store/slices/authSlice.ts');
@@ -126,3 +126,18 @@ test('TabList: reorder mode renders the ReorderView lazy chunk', () => {
   assert.ok(container.firstChild, 'TabList should render a non-empty tree in reorder mode');
   cleanup();
 });
+
+test('TabList: clicking a tag in the tag browser filters the list to tagged sessions', () => {
+  const groups = [
+    makeGroup('g1', { name: 'Research Session', tags: ['work'] }),
+    makeGroup('g2', { name: 'Later Work' }),
+  ];
+  renderTabList(groups);
+
+  assert.ok(screen.getByText('Later Work'), 'untagged group is listed before filtering');
+  fireEvent.click(screen.getAllByTitle('只显示带 #work 的会话')[0]);
+
+  assert.ok(screen.getByText('Research Session'), 'tagged group stays visible');
+  assert.equal(screen.queryByText('Later Work'), null, 'untagged group is filtered out');
+  cleanup();
+});
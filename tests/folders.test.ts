@@ -0,0 +1,163 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { register } from 'node:module';
+import { pathToFileURL, fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import type { SessionFolder, TabGroup } from '../src/types/tab.ts';
+
+const LOADER_PATH = pathToFileURL(
+  resolve(dirname(fileURLToPath(import.meta.url)), '_alias-loader.mjs')
+).href;
+
+const NOW = '2026-06-14T08:00:00.000Z';
+const LATER = '2026-06-14T09:00:00.000Z';
+
+before(() => {
+  register(LOADER_PATH);
+});
+
+const createFolder = (id: string, overrides: Partial<SessionFolder> = {}): SessionFolder => ({
+  id,
+  name: `Folder ${id}`,
+  createdAt: NOW,
+  updatedAt: NOW,
+  ...overrides,
+});
+
+const createGroup = (id: string, overrides: Partial<TabGroup> = {}): TabGroup => ({
+  id,
+  name: `Group ${id}`,
+  tabs: [],
+  createdAt: NOW,
+  updatedAt: NOW,
+  isLocked: false,
+  ...overrides,
+});
+
+describe('buildFolderTree', () => {
+  it('按文件夹归类会话并保持传入顺序，统计含下级的会话数', async () => {
+    const { buildFolderTree } = await import('@/domain/tabGroup/folders');
+    const folders = [
+      createFolder('work', { name: 'Work' }),
+      createFolder('docs', { name: 'Docs', parentId: 'work' }),
+      createFolder('archive', { name: 'Archive' }),
+    ];
+    const groups = [
+      createGroup('g1', { folderId: 'docs' }),
+      createGroup('g2'),
+      createGroup('g3', { folderId: 'work' }),
+      createGroup('g4', { folderId: 'docs' }),
+    ];
+
+    const tree = buildFolderTree(folders, groups);
+    assert.deepEqual(tree.rootGroups.map(g => g.id), ['g2']);
+    assert.deepEqual(tree.folders.map(node => node.folder.id), ['archive', 'work']);
+
+    const work = tree.folders[1];
+    assert.equal(work.totalGroups, 3);
+    assert.deepEqual(work.groups.map(g => g.id), ['g3']);
+    assert.deepEqual(work.children[0].groups.map(g => g.id), ['g1', 'g4']);
+
+    assert.deepEqual(buildFolderTree(folders, groups, { hideEmpty: true }).folders.map(node => node.folder.id), ['work']);
+  });
+
+  it('已删除 / 不存在的文件夹中的会话放到顶层，父级环被打断', async () => {
+    const { buildFolderTree } = await import('@/domain/tabGroup/folders');
+    const folders = [
+      createFolder('a', { parentId: 'b' }),
+      createFolder('b', { parentId: 'a' }),
+      createFolder('gone', { isDeleted: true }),
+      createFolder('child', { parentId: 'gone' }),
+    ];
+    const tree = buildFolderTree(folders, [createGroup('g1', { folderId: 'gone' }), createGroup('g2', { folderId: 'missing' })]);
+
+    assert.deepEqual(tree.rootGroups.map(g => g.id), ['g1', 'g2']);
+    assert.deepEqual(tree.folders.map(node => node.folder.id).sort(), ['a', 'b', 'child']);
+  });
+});
+
+describe('文件夹移动与删除', () => {
+  const folders = () => [
+    createFolder('a'),
+    createFolder('b', { parentId: 'a' }),
+    createFolder('c', { parentId: 'b' }),
+    createFolder('d'),
+  ];
+
+  it('canMoveFolder 不允许移到自身或下级，不超过层数上限', async () => {
+    const { canMoveFolder, getFolderDepth, MAX_FOLDER_DEPTH } = await import('@/domain/tabGroup/folders');
+    assert.equal(getFolderDepth(folders(), 'c'), 3);
+    assert.equal(canMoveFolder(folders(), 'a', 'c'), false);
+    assert.equal(canMoveFolder(folders(), 'a', 'a'), false);
+    assert.equal(canMoveFolder(folders(), 'd', 'c'), MAX_FOLDER_DEPTH >= 4);
+    assert.equal(canMoveFolder(folders(), 'a', 'd'), MAX_FOLDER_DEPTH >= 4);
+    assert.equal(canMoveFolder(folders(), 'b', undefined), true);
+  });
+
+  it('moveSessionFolder 更新上级与时间，非法移动时不变', async () => {
+    const { moveSessionFolder } = await import('@/domain/tabGroup/folders');
+    const moved = moveSessionFolder(folders(), 'c', undefined, LATER);
+    assert.equal(moved.find(f => f.id === 'c')?.parentId, undefined);
+    assert.equal(moved.find(f => f.id === 'c')?.updatedAt, LATER);
+    assert.deepEqual(moveSessionFolder(folders(), 'a', 'c', LATER), folders());
+  });
+
+  it('removeSessionFolder 软删除并把下级文件夹移到上一级', async () => {
+    const { removeSessionFolder, getGroupsInFolder } = await import('@/domain/tabGroup/folders');
+    const { folders: next, parentId } = removeSessionFolder(folders(), 'b', LATER);
+
+    assert.equal(parentId, 'a');
+    assert.equal(next.find(f => f.id === 'b')?.isDeleted, true);
+    assert.equal(next.find(f => f.id === 'c')?.parentId, 'a');
+    assert.deepEqual(
+      getGroupsInFolder([createGroup('g1', { folderId: 'b' }), createGroup('g2', { folderId: 'c' })], 'b').map(g => g.id),
+      ['g1']
+    );
+  });
+
+  it('createSessionFolder / renameSessionFolder 规整名称', async () => {
+    const { createSessionFolder, renameSessionFolder } = await import('@/domain/tabGroup/folders');
+    const folder = createSessionFolder('  项目   资料 ', 'a', NOW);
+    assert.equal(folder.name, '项目 资料');
+    assert.equal(folder.parentId, 'a');
+    assert.equal(createSessionFolder('   ').name, '新建文件夹');
+    assert.equal(renameSessionFolder([folder], folder.id, '   ', LATER)[0].name, '项目 资料');
+    assert.equal(renameSessionFolder([folder], folder.id, '归档', LATER)[0].name, '归档');
+  });
+});
+
+describe('文件夹同步合并', () => {
+  it('mergeSessionFolders 按 id 取较新的一方，保留软删除', async () => {
+    const { mergeSessionFolders } = await import('@/utils/syncUtils');
+    const merged = mergeSessionFolders(
+      [createFolder('a', { name: '本地改名', updatedAt: LATER }), createFolder('b'), createFolder('local-only')],
+      [createFolder('a', { name: '旧名' }), createFolder('b', { isDeleted: true, updatedAt: LATER }), createFolder('cloud-only')]
+    );
+
+    assert.deepEqual(
+      merged.map(folder => [folder.id, folder.name, !!folder.isDeleted]),
+      [
+        ['a', '本地改名', false],
+        ['b', 'Folder b', true],
+        ['local-only', 'Folder local-only', false],
+        ['cloud-only', 'Folder cloud-only', false],
+      ]
+    );
+    assert.equal(mergeSessionFolders([createFolder('a')], undefined).length, 1);
+  });
+
+  it('mergeTabGroups 的 folderId 取较新一方（包括移回顶层）', async () => {
+    const { mergeTabGroups } = await import('@/utils/syncUtils');
+    const [movedToRoot] = mergeTabGroups(
+      [createGroup('g', { folderId: undefined, updatedAt: LATER, version: 3 })],
+      [createGroup('g', { folderId: 'work', version: 2 })]
+    );
+    assert.equal(movedToRoot.folderId, undefined);
+
+    const [movedInCloud] = mergeTabGroups(
+      [createGroup('g', { folderId: 'work', version: 2 })],
+      [createGroup('g', { folderId: 'archive', updatedAt: LATER, version: 3 })]
+    );
+    assert.equal(movedInCloud.folderId, 'archive');
+  });
+});
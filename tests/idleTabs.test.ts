@@ -0,0 +1,184 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { register } from 'node:module';
+import { pathToFileURL, fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import type { Tab, TabGroup } from '../src/types/tab.ts';
+
+const LOADER_PATH = pathToFileURL(
+  resolve(dirname(fileURLToPath(import.meta.url)), '_alias-loader.mjs')
+).href;
+
+const NOW_MS = Date.parse('2026-06-04T08:00:00.000Z');
+const NOW = new Date(NOW_MS).toISOString();
+const MINUTE = 60_000;
+
+const createChromeTab = (overrides: Partial<chrome.tabs.Tab> = {}): chrome.tabs.Tab => ({
+  id: 1,
+  index: 0,
+  windowId: 1,
+  url: 'https://example.com',
+  title: 'Example',
+  pinned: false,
+  highlighted: false,
+  active: false,
+  incognito: false,
+  selected: false,
+  discarded: false,
+  autoDiscardable: true,
+  groupId: -1,
+  frozen: false,
+  ...overrides,
+} as chrome.tabs.Tab);
+
+const createTab = (url: string): Tab => ({
+  id: url,
+  url,
+  title: url,
+  createdAt: NOW,
+  lastAccessed: NOW,
+});
+
+const createGroup = (overrides: Partial<TabGroup> = {}): TabGroup => ({
+  id: 'g1',
+  name: '会话',
+  tabs: [],
+  createdAt: NOW,
+  updatedAt: NOW,
+  isLocked: false,
+  ...overrides,
+});
+
+before(() => {
+  register(LOADER_PATH);
+});
+
+describe('getTabLastActiveAt', () => {
+  it('取扩展记录与 tab.lastAccessed 中较新的一个', async () => {
+    const { getTabLastActiveAt } = await import('@/domain/tabGroup/idleTabs');
+    const tab = createChromeTab({ id: 3, lastAccessed: NOW_MS - 10 * MINUTE });
+    assert.equal(getTabLastActiveAt(tab, { 3: NOW_MS - 5 * MINUTE }), NOW_MS - 5 * MINUTE);
+    assert.equal(getTabLastActiveAt(tab, { 3: NOW_MS - 20 * MINUTE }), NOW_MS - 10 * MINUTE);
+    assert.equal(getTabLastActiveAt(createChromeTab({ id: 4 }), {}), undefined);
+  });
+});
+
+describe('selectIdleTabs', () => {
+  it('只选出超过闲置时间的普通标签页', async () => {
+    const { selectIdleTabs } = await import('@/domain/tabGroup/idleTabs');
+    const old = NOW_MS - 90 * MINUTE;
+    const tabs = [
+      createChromeTab({ id: 1, url: 'https://a.com', lastAccessed: old }),
+      createChromeTab({ id: 2, url: 'https://b.com', lastAccessed: NOW_MS - 10 * MINUTE }),
+      createChromeTab({ id: 3, url: 'https://c.com', lastAccessed: old, pinned: true }),
+      createChromeTab({ id: 4, url: 'https://d.com', lastAccessed: old, active: true }),
+      createChromeTab({ id: 5, url: 'https://e.com', lastAccessed: old, audible: true }),
+      createChromeTab({ id: 6, url: 'https://mail.google.com/inbox', lastAccessed: old }),
+      createChromeTab({ id: 7, url: 'chrome://settings', lastAccessed: old }),
+      createChromeTab({ id: 8, url: 'https://f.com' }),
+    ];
+
+    const idle = selectIdleTabs(tabs, {
+      now: NOW_MS,
+      idleMinutes: 60,
+      lastActiveAt: {},
+      whitelist: ['google.com'],
+    });
+
+    assert.deepEqual(idle.map(tab => tab.id), [1]);
+  });
+
+  it('扩展记录的激活时间较新时不归档', async () => {
+    const { selectIdleTabs } = await import('@/domain/tabGroup/idleTabs');
+    const tabs = [createChromeTab({ id: 1, lastAccessed: NOW_MS - 90 * MINUTE })];
+    const idle = selectIdleTabs(tabs, {
+      now: NOW_MS,
+      idleMinutes: 60,
+      lastActiveAt: { 1: NOW_MS - MINUTE },
+      whitelist: [],
+    });
+    assert.equal(idle.length, 0);
+  });
+});
+
+describe('mergeIntoIdleSession', () => {
+  it('没有闲置会话时新建一个', async () => {
+    const { mergeIntoIdleSession, IDLE_SESSION_NAME } = await import('@/domain/tabGroup/idleTabs');
+    const existing = createGroup();
+    const result = mergeIntoIdleSession([existing], [createTab('https://a.com')], {
+      now: NOW,
+      allowDuplicateTabs: false,
+    });
+
+    assert.equal(result.addedCount, 1);
+    assert.equal(result.groups.length, 2);
+    assert.equal(result.groups[0].name, IDLE_SESSION_NAME);
+    assert.equal(result.groups[0].idleArchive, true);
+    assert.equal(result.groups[1], existing);
+  });
+
+  it('追加到已有闲置会话最前面并跳过重复 URL', async () => {
+    const { mergeIntoIdleSession } = await import('@/domain/tabGroup/idleTabs');
+    const idle = createGroup({ id: 'idle', idleArchive: true, tabs: [createTab('https://a.com')], version: 2 });
+    const result = mergeIntoIdleSession(
+      [idle],
+      [createTab('https://a.com'), createTab('https://b.com'), createTab('https://b.com')],
+      { now: '2026-06-04T09:00:00.000Z', allowDuplicateTabs: false }
+    );
+
+    assert.equal(result.addedCount, 1);
+    assert.deepEqual(result.groups[0].tabs.map(tab => tab.url), ['https://b.com', 'https://a.com']);
+    assert.equal(result.groups[0].version, 3);
+    assert.equal(result.groups[0].updatedAt, '2026-06-04T09:00:00.000Z');
+  });
+
+  it('已锁定或已删除的闲置会话不再写入', async () => {
+    const { mergeIntoIdleSession } = await import('@/domain/tabGroup/idleTabs');
+    const locked = createGroup({ id: 'locked', idleArchive: true, isLocked: true });
+    const deleted = createGroup({ id: 'deleted', idleArchive: true, isDeleted: true });
+    const result = mergeIntoIdleSession([locked, deleted], [createTab('https://a.com')], {
+      now: NOW,
+      allowDuplicateTabs: true,
+    });
+
+    assert.equal(result.groups.length, 3);
+    assert.equal(locked.tabs.length, 0);
+    assert.equal(deleted.tabs.length, 0);
+  });
+
+  it('已归档的闲置会话不再写入，新建一个显示在列表中的闲置会话', async () => {
+    const { mergeIntoIdleSession } = await import('@/domain/tabGroup/idleTabs');
+    const archived = createGroup({ id: 'archived', idleArchive: true, isArchived: true });
+    const result = mergeIntoIdleSession([archived], [createTab('https://a.com')], {
+      now: NOW,
+      allowDuplicateTabs: true,
+    });
+
+    assert.equal(result.addedCount, 1);
+    assert.deepEqual(result.groups.map(group => group.id).slice(1), ['archived']);
+    assert.equal(result.groups[0].isArchived, undefined);
+    assert.equal(archived.tabs.length, 0);
+  });
+
+  it('没有可添加的标签页时返回原数组', async () => {
+    const { mergeIntoIdleSession } = await import('@/domain/tabGroup/idleTabs');
+    const idle = createGroup({ idleArchive: true, tabs: [createTab('https://a.com')] });
+    const groups = [idle];
+    const result = mergeIntoIdleSession(groups, [createTab('https://a.com')], {
+      now: NOW,
+      allowDuplicateTabs: false,
+    });
+    assert.equal(result.groups, groups);
+    assert.equal(result.addedCount, 0);
+  });
+});
+
+describe('parseDomainList', () => {
+  it('按行或逗号拆分，去掉协议、路径、www 和重复项', async () => {
+    const { parseDomainList } = await import('@/domain/tabGroup/idleTabs');
+    assert.deepEqual(
+      parseDomainList('https://www.GitHub.com/foo\nmail.google.com, github.com\n\n'),
+      ['github.com', 'mail.google.com']
+    );
+  });
+});
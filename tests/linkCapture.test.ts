@@ -0,0 +1,90 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { register } from 'node:module';
+import { pathToFileURL, fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+
+const LOADER_PATH = pathToFileURL(
+  resolve(dirname(fileURLToPath(import.meta.url)), '_alias-loader.mjs')
+).href;
+
+const NOW = '2026-06-04T08:00:00.000Z';
+
+before(() => {
+  register(LOADER_PATH);
+});
+
+describe('extractUrlsFromText', () => {
+  it('提取 http(s) 链接并去掉结尾标点', async () => {
+    const { extractUrlsFromText } = await import('@/domain/tabGroup/linkCapture');
+    assert.deepEqual(
+      extractUrlsFromText('见 https://a.com/x，以及 (http://b.org/y). 还有 ftp://c.net 和 https://d.io/z?q=1。'),
+      ['https://a.com/x', 'http://b.org/y', 'https://d.io/z?q=1']
+    );
+    assert.deepEqual(extractUrlsFromText('没有链接'), []);
+  });
+});
+
+describe('deriveLinkTitle', () => {
+  it('优先使用链接文字并压缩空白', async () => {
+    const { deriveLinkTitle } = await import('@/domain/tabGroup/linkCapture');
+    assert.equal(deriveLinkTitle('https://a.com/x', '  Hello\n  world '), 'Hello world');
+  });
+
+  it('没有文字时使用域名 + 解码后的路径', async () => {
+    const { deriveLinkTitle } = await import('@/domain/tabGroup/linkCapture');
+    assert.equal(deriveLinkTitle('https://www.example.com/docs/%E4%B8%AD%E6%96%87/'), 'example.com/docs/中文');
+    assert.equal(deriveLinkTitle('https://example.com/'), 'example.com');
+  });
+
+  it('超长文字会被截断', async () => {
+    const { deriveLinkTitle } = await import('@/domain/tabGroup/linkCapture');
+    const title = deriveLinkTitle('https://a.com', 'x'.repeat(300));
+    assert.equal(title.length, 200);
+    assert.ok(title.endsWith('…'));
+  });
+});
+
+describe('createTabsFromLinks', () => {
+  it('只保留安全链接，按 URL 去重并跳过永不保存规则', async () => {
+    const { createTabsFromLinks } = await import('@/domain/tabGroup/linkCapture');
+    const tabs = createTabsFromLinks(
+      [
+        { url: 'https://a.com/1', text: 'A' },
+        { url: 'javascript:alert(1)', text: 'bad' },
+        { url: 'https://a.com/1', text: 'A again' },
+        { url: 'https://bank.example.com/', text: 'bank' },
+        { url: ' https://b.com ' },
+      ],
+      {
+        now: NOW,
+        urlRules: [{
+          id: 'r1',
+          pattern: '*.example.com/*',
+          patternType: 'glob',
+          action: 'never-save',
+          enabled: true,
+        }],
+      }
+    );
+
+    assert.deepEqual(tabs.map(tab => [tab.url, tab.title]), [
+      ['https://a.com/1', 'A'],
+      ['https://b.com', 'b.com'],
+    ]);
+    assert.equal(tabs[0].pinned, false);
+    assert.equal(tabs[0].createdAt, NOW);
+    assert.notEqual(tabs[0].id, tabs[1].id);
+  });
+});
+
+describe('isSafeUrl', () => {
+  it('只接受 http / https', async () => {
+    const { isSafeUrl } = await import('@/domain/tabGroup/filters');
+    assert.equal(isSafeUrl('https://a.com'), true);
+    assert.equal(isSafeUrl('http://a.com'), true);
+    assert.equal(isSafeUrl('javascript:alert(1)'), false);
+    assert.equal(isSafeUrl('chrome://settings'), false);
+    assert.equal(isSafeUrl('not a url'), false);
+  });
+});
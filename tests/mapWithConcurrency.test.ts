@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mapWithConcurrency } from '../src/utils/performance.ts';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 1));
+
+describe('mapWithConcurrency', () => {
+  it('同时执行的任务数不超过 limit，结果保持输入顺序', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    const results = await mapWithConcurrency([5, 1, 4, 2, 3, 6], 2, async (value, index) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      for (let i = 0; i < value; i++) await tick();
+      running--;
+      return `${index}:${value}`;
+    });
+
+    assert.equal(maxRunning, 2);
+    assert.deepEqual(results, ['0:5', '1:1', '2:4', '3:2', '4:3', '5:6']);
+  });
+
+  it('非法的 limit 按 1 处理，空输入直接返回', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    await mapWithConcurrency([1, 2, 3], 0, async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await tick();
+      running--;
+    });
+
+    assert.equal(maxRunning, 1);
+    assert.deepEqual(await mapWithConcurrency([], 4, async () => 1), []);
+  });
+
+  it('任一任务失败时整体 reject', async () => {
+    await assert.rejects(
+      mapWithConcurrency([1, 2, 3], 2, async value => {
+        if (value === 2) throw new Error('boom');
+        return value;
+      }),
+      /boom/
+    );
+  });
+});
@@ -258,6 +258,7 @@ describe('runMigrations: 端到端', () => {
     const finalFlags = await storage.getMigrationFlags();
     assert.equal(finalFlags.favicon_urls_v1, true);
     assert.equal(finalFlags.recent_restore_history_removed_v1, true);
+    assert.equal(finalFlags.search_index_v1, true);
   });
 
   it('迁移已完成 → 不重复跑', async () => {
@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  deriveSessionColor,
+  isTabGroupColor,
+  planNativeTabGroups,
+  toNativeTabGroupInfo,
+} from '../src/domain/tabGroup/nativeGroups.ts';
+
+const work = { title: '工作', color: 'blue' as const };
+const docs = { title: '文档', color: 'green' as const };
+
+describe('isTabGroupColor', () => {
+  it('只接受 Chrome 标签组支持的颜色', () => {
+    assert.equal(isTabGroupColor('cyan'), true);
+    assert.equal(isTabGroupColor('black'), false);
+    assert.equal(isTabGroupColor(undefined), false);
+  });
+});
+
+describe('toNativeTabGroupInfo', () => {
+  it('缺失标题时使用空字符串，未知颜色回退为 grey', () => {
+    assert.deepEqual(toNativeTabGroupInfo({ title: undefined, color: 'blue' }), { title: '', color: 'blue' });
+    assert.deepEqual(
+      toNativeTabGroupInfo({ title: 'x', color: 'black' as chrome.tabGroups.ColorEnum }),
+      { title: 'x', color: 'grey' }
+    );
+  });
+});
+
+describe('planNativeTabGroups', () => {
+  it('按记录的原生分组重建，未分组的标签页保持未分组', () => {
+    const plan = planNativeTabGroups([
+      { nativeGroup: work },
+      {},
+      { nativeGroup: docs },
+      { nativeGroup: work },
+    ]);
+    assert.deepEqual(plan, [
+      { info: work, indices: [0, 3] },
+      { info: docs, indices: [2] },
+    ]);
+  });
+
+  it('存在记录的分组时忽略会话分组', () => {
+    const plan = planNativeTabGroups([{ nativeGroup: work }, {}], { title: '会话', color: 'red' });
+    assert.deepEqual(plan, [{ info: work, indices: [0] }]);
+  });
+
+  it('没有记录时把非固定标签页放进以会话命名的分组', () => {
+    const session = { title: '会话', color: 'red' as const };
+    const plan = planNativeTabGroups([{ pinned: true }, {}, {}], session);
+    assert.deepEqual(plan, [{ info: session, indices: [1, 2] }]);
+  });
+
+  it('固定标签页不会进入任何分组', () => {
+    assert.deepEqual(planNativeTabGroups([{ pinned: true, nativeGroup: work }]), []);
+    assert.deepEqual(planNativeTabGroups([{ pinned: true }], { title: '会话', color: 'red' }), []);
+  });
+
+  it('没有记录也没有会话分组时不创建分组', () => {
+    assert.deepEqual(planNativeTabGroups([{}, {}]), []);
+  });
+});
+
+describe('deriveSessionColor', () => {
+  it('所有标签页来自同一分组时返回其颜色', () => {
+    assert.equal(deriveSessionColor([{ nativeGroup: work }, { nativeGroup: { ...work } }]), 'blue');
+  });
+
+  it('混合分组或存在未分组标签页时返回 undefined', () => {
+    assert.equal(deriveSessionColor([{ nativeGroup: work }, { nativeGroup: docs }]), undefined);
+    assert.equal(deriveSessionColor([{ nativeGroup: work }, {}]), undefined);
+    assert.equal(deriveSessionColor([]), undefined);
+  });
+});
@@ -0,0 +1,141 @@
+// pageContent.ts 测试：页面正文的规整、合并与片段截取，以及 AdvancedSearch 的 content: 条件
+// （正文不在搜索索引中，走索引与逐个求值的结果必须一致）。
+
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { register } from 'node:module';
+import { pathToFileURL, fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import type { PageContent, Tab, TabGroup } from '../src/types/tab.ts';
+
+const LOADER_PATH = pathToFileURL(
+  resolve(dirname(fileURLToPath(import.meta.url)), '_alias-loader.mjs')
+).href;
+
+const NOW = '2026-06-04T08:00:00.000Z';
+const LATER = '2026-06-05T08:00:00.000Z';
+
+before(() => {
+  register(LOADER_PATH);
+});
+
+const makeTab = (id: string, title: string, url: string): Tab => ({
+  id,
+  title,
+  url,
+  favicon: '',
+  createdAt: NOW,
+  lastAccessed: NOW,
+  pinned: false,
+});
+
+const makeGroup = (id: string, name: string, tabs: Tab[]): TabGroup => ({
+  id,
+  name,
+  tabs,
+  createdAt: NOW,
+  updatedAt: NOW,
+  isLocked: false,
+  version: 1,
+});
+
+const SRE_TEXT = 'Site Reliability Engineering. Chapter 3. Embracing risk: an Error Budget makes the '
+  + 'trade-off between reliability and the pace of innovation explicit.';
+
+const makeContent = (url: string, text: string, capturedAt = NOW): PageContent => ({ url, text, capturedAt });
+
+describe('页面全文：规整与合并', () => {
+  it('合并空白、截断到上限，太短或不是字符串时不保存', async () => {
+    const { normalizePageText, MAX_PAGE_CONTENT_LENGTH } = await import('@/domain/tabGroup/pageContent');
+
+    assert.equal(normalizePageText(`  ${SRE_TEXT.replace(/ /g, ' \n\t ')}  `), SRE_TEXT);
+    assert.equal(normalizePageText('登录'), undefined);
+    assert.equal(normalizePageText(42), undefined);
+    assert.equal(normalizePageText('a'.repeat(MAX_PAGE_CONTENT_LENGTH + 10))?.length, MAX_PAGE_CONTENT_LENGTH);
+  });
+
+  it('同一网址保留较新抓取的一份，无效记录跳过', async () => {
+    const { mergePageContents } = await import('@/domain/tabGroup/pageContent');
+    const merged = mergePageContents(
+      [makeContent('https://a.com', SRE_TEXT), makeContent('https://b.com', `${SRE_TEXT} (b)`, LATER)],
+      [
+        makeContent('https://a.com', `${SRE_TEXT} (new)`, LATER),
+        makeContent('https://b.com', `${SRE_TEXT} (old)`),
+        { url: 'https://c.com', text: SRE_TEXT },
+        makeContent('https://d.com', 'too short'),
+        null,
+      ]
+    );
+
+    assert.deepEqual(
+      merged.map(content => [content.url, content.text.slice(SRE_TEXT.length)]),
+      [['https://a.com', ' (new)'], ['https://b.com', ' (b)']]
+    );
+  });
+
+  it('片段以第一处命中为中心，截断处加省略号，片段外的命中不标出', async () => {
+    const { getContentSnippet } = await import('@/domain/tabGroup/pageContent');
+    const start = SRE_TEXT.indexOf('Error Budget');
+    const snippet = getContentSnippet(SRE_TEXT, [
+      { start, end: start + 12 },
+      { start: SRE_TEXT.length - 9, end: SRE_TEXT.length - 1 },
+    ], 10);
+
+    assert.ok(snippet);
+    assert.equal(snippet.text, `…${SRE_TEXT.slice(start - 10, start + 22)}…`);
+    assert.deepEqual(snippet.ranges, [{ start: 11, end: 23 }]);
+    assert.equal(snippet.text.slice(11, 23), 'Error Budget');
+    assert.equal(getContentSnippet(SRE_TEXT, []), null);
+  });
+});
+
+describe('content: 搜索页面正文', () => {
+  const createLibrary = () => [
+    makeGroup('g-sre', 'Reading', [
+      makeTab('t1', 'SRE book', 'https://sre.google/sre-book/embracing-risk/'),
+      makeTab('t2', 'Blog', 'https://blog.example.com/post'),
+    ]),
+    makeGroup('g-other', 'Other', [makeTab('t3', 'Error budget policy', 'https://example.com/policy')]),
+  ];
+
+  it('只在保存了正文的标签页中查找，命中位置指向原文', async () => {
+    const { AdvancedSearch, getMatchRanges } = await import('@/utils/search');
+    const { PageContentStore } = await import('@/utils/pageContentStore');
+    const pageContents = new PageContentStore();
+    pageContents.replaceAll([makeContent('https://sre.google/sre-book/embracing-risk/', SRE_TEXT)]);
+
+    const results = AdvancedSearch.search(createLibrary(), { query: 'content:"error budget"', pageContents });
+    assert.deepEqual(results.map(result => result.tab.id), ['t1']);
+
+    const [range] = getMatchRanges(results[0].matches, 'content');
+    assert.equal(SRE_TEXT.slice(range.start, range.end), 'Error Budget');
+    assert.deepEqual(
+      AdvancedSearch.search(createLibrary(), { query: 'content:"error budget"', pageContents: new PageContentStore() }),
+      []
+    );
+  });
+
+  it('可与其他条件组合，走索引与逐个求值的结果一致', async () => {
+    const { AdvancedSearch } = await import('@/utils/search');
+    const { PageContentStore } = await import('@/utils/pageContentStore');
+    const pageContents = new PageContentStore();
+    pageContents.replaceAll([
+      makeContent('https://sre.google/sre-book/embracing-risk/', SRE_TEXT),
+      makeContent('https://blog.example.com/post', `Notes on innovation velocity. ${'lorem ipsum '.repeat(5)}`),
+    ]);
+
+    for (const query of ['content:innovation', 'content:innovation site:sre.google', 'budget OR content:velocity', '-content:risk']) {
+      const scan = AdvancedSearch.search(createLibrary(), { query, pageContents, useIndex: false });
+      const indexed = AdvancedSearch.search(createLibrary(), { query, pageContents });
+      assert.deepEqual(
+        indexed.map(result => [result.tab.id, result.score]),
+        scan.map(result => [result.tab.id, result.score]),
+        `查询 ${query}`
+      );
+    }
+    assert.deepEqual(
+      AdvancedSearch.search(createLibrary(), { query: 'content:innovation', pageContents }).map(result => result.tab.id).sort(),
+      ['t1', 't2']
+    );
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { register } from 'node:module';
+import { pathToFileURL, fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import type { TabPageState } from '../src/types/tab.ts';
+
+const LOADER_PATH = pathToFileURL(
+  resolve(dirname(fileURLToPath(import.meta.url)), '_alias-loader.mjs')
+).href;
+
+const createChromeTab = (overrides: Partial<chrome.tabs.Tab> = {}): chrome.tabs.Tab => ({
+  id: 1,
+  index: 0,
+  windowId: 1,
+  url: 'https://example.com',
+  title: 'Example',
+  pinned: false,
+  highlighted: false,
+  active: false,
+  incognito: false,
+  selected: false,
+  discarded: false,
+  autoDiscardable: true,
+  groupId: -1,
+  frozen: false,
+  ...overrides,
+} as chrome.tabs.Tab);
+
+before(() => {
+  register(LOADER_PATH);
+});
+
+describe('normalizePageState', () => {
+  it('取整滚动位置、限制比例并去掉过长的锚点', async () => {
+    const { normalizePageState } = await import('@/domain/tabGroup/pageState');
+    assert.deepEqual(
+      normalizePageState({ scrollX: 0.4, scrollY: 1200.6, scrollRatio: 1.3, fragment: ' install ' }),
+      { scrollX: 0, scrollY: 1201, scrollRatio: 1, fragment: 'install' }
+    );
+    assert.deepEqual(
+      normalizePageState({ scrollX: 0, scrollY: 10, scrollRatio: Number.NaN, fragment: 'x'.repeat(201) }),
+      { scrollX: 0, scrollY: 10, scrollRatio: 0 }
+    );
+  });
+
+  it('无效输入返回 undefined', async () => {
+    const { normalizePageState } = await import('@/domain/tabGroup/pageState');
+    assert.equal(normalizePageState(undefined), undefined);
+    assert.equal(normalizePageState('100'), undefined);
+    assert.equal(normalizePageState({ scrollX: 0, scrollY: -5 }), undefined);
+    assert.equal(normalizePageState({ scrollX: 0, scrollY: Infinity }), undefined);
+  });
+});
+
+describe('hasPageStatePosition', () => {
+  it('停在页面顶部且没有锚点时不记录', async () => {
+    const { hasPageStatePosition } = await import('@/domain/tabGroup/pageState');
+    assert.equal(hasPageStatePosition(undefined), false);
+    assert.equal(hasPageStatePosition({ scrollX: 0, scrollY: 0, scrollRatio: 0 }), false);
+    assert.equal(hasPageStatePosition({ scrollX: 0, scrollY: 300, scrollRatio: 0.2 }), true);
+    assert.equal(hasPageStatePosition({ scrollX: 0, scrollY: 0, scrollRatio: 0, fragment: 'top' }), true);
+  });
+});
+
+describe('createTabGroupFromChromeTabs pageStates', () => {
+  it('按 tabId 附加阅读位置，停在顶部的标签页不附加', async () => {
+    const { createTabGroupFromChromeTabs } = await import('@/domain/tabGroup/factory');
+    const scrolled: TabPageState = { scrollX: 0, scrollY: 640, scrollRatio: 0.25 };
+    const group = createTabGroupFromChromeTabs(
+      [
+        createChromeTab({ id: 1, url: 'https://a.com/' }),
+        createChromeTab({ id: 2, url: 'https://b.com/' }),
+        createChromeTab({ id: 3, url: 'https://c.com/' }),
+      ],
+      {
+        pageStates: new Map([
+          [1, scrolled],
+          [2, { scrollX: 0, scrollY: 0, scrollRatio: 0 }],
+        ]),
+      }
+    );
+
+    assert.deepEqual(group.tabs.map(tab => tab.pageState), [scrolled, undefined, undefined]);
+    assert.equal('pageState' in group.tabs[1], false);
+  });
+});
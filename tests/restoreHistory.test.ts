@@ -0,0 +1,126 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { register } from 'node:module';
+import { pathToFileURL, fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import type { Tab, TabGroup } from '../src/types/tab.ts';
+
+const LOADER_PATH = pathToFileURL(
+  resolve(dirname(fileURLToPath(import.meta.url)), '_alias-loader.mjs')
+).href;
+
+const NOW = '2026-06-10T08:00:00.000Z';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysAgo = (days: number) => new Date(new Date(NOW).getTime() - days * DAY_MS).toISOString();
+
+before(() => {
+  register(LOADER_PATH);
+});
+
+const createTab = (id: string, overrides: Partial<Tab> = {}): Tab => ({
+  id,
+  url: `https://example.com/${id}`,
+  title: `Tab ${id}`,
+  createdAt: NOW,
+  lastAccessed: NOW,
+  pinned: false,
+  ...overrides,
+});
+
+const createGroup = (id: string, tabs: Tab[], overrides: Partial<TabGroup> = {}): TabGroup => ({
+  id,
+  name: `Group ${id}`,
+  tabs,
+  createdAt: NOW,
+  updatedAt: NOW,
+  isLocked: true,
+  ...overrides,
+});
+
+describe('markTabsRestored', () => {
+  it('未指定标签页时整个会话各记一次，原对象不变', async () => {
+    const { markTabsRestored } = await import('@/domain/tabGroup/restoreHistory');
+    const group = createGroup('g', [createTab('a', { restoreCount: 2, lastRestoredAt: daysAgo(3) }), createTab('b')]);
+    const restored = markTabsRestored(group, undefined, NOW);
+
+    assert.deepEqual(
+      restored.tabs.map(tab => [tab.restoreCount, tab.lastRestoredAt]),
+      [[3, NOW], [1, NOW]]
+    );
+    assert.equal(group.tabs[0].restoreCount, 2);
+  });
+
+  it('只记录指定的标签页，其余保持原引用', async () => {
+    const { markTabsRestored } = await import('@/domain/tabGroup/restoreHistory');
+    const group = createGroup('g', [createTab('a'), createTab('b')]);
+    const restored = markTabsRestored(group, ['b'], NOW);
+
+    assert.equal(restored.tabs[0], group.tabs[0]);
+    assert.equal(restored.tabs[1].restoreCount, 1);
+  });
+});
+
+describe('getGroupRestoreStats', () => {
+  it('次数取最多的标签页，时间取最近一次', async () => {
+    const { getGroupRestoreStats } = await import('@/domain/tabGroup/restoreHistory');
+    const group = createGroup('g', [
+      createTab('a', { restoreCount: 4, lastRestoredAt: daysAgo(10) }),
+      createTab('b', { restoreCount: 1, lastRestoredAt: daysAgo(1) }),
+      createTab('c'),
+    ]);
+
+    assert.deepEqual(getGroupRestoreStats(group), { restoreCount: 4, lastRestoredAt: daysAgo(1) });
+    assert.deepEqual(getGroupRestoreStats(createGroup('empty', [createTab('x')])), { restoreCount: 0 });
+  });
+});
+
+describe('matchesRestoreHistoryFilter', () => {
+  it('recent / restored / never / all', async () => {
+    const { matchesRestoreHistoryFilter } = await import('@/domain/tabGroup/restoreHistory');
+    const now = new Date(NOW).getTime();
+    const recent = { restoreCount: 1, lastRestoredAt: daysAgo(2) };
+    const stale = { restoreCount: 5, lastRestoredAt: daysAgo(30) };
+    const never = { restoreCount: 0 };
+
+    assert.deepEqual([recent, stale, never].map(s => matchesRestoreHistoryFilter(s, 'recent', now)), [true, false, false]);
+    assert.deepEqual([recent, stale, never].map(s => matchesRestoreHistoryFilter(s, 'restored', now)), [true, true, false]);
+    assert.deepEqual([recent, stale, never].map(s => matchesRestoreHistoryFilter(s, 'never', now)), [false, false, true]);
+    assert.deepEqual([recent, stale, never].map(s => matchesRestoreHistoryFilter(s, 'all', now)), [true, true, true]);
+  });
+});
+
+describe('sortAndFilterGroups', () => {
+  const groups = () => [
+    createGroup('often', [createTab('1', { restoreCount: 9, lastRestoredAt: daysAgo(20) })], { createdAt: daysAgo(40) }),
+    createGroup('latest', [createTab('2', { restoreCount: 2, lastRestoredAt: daysAgo(1) })], { createdAt: daysAgo(50) }),
+    createGroup('fresh', [createTab('3')], { createdAt: daysAgo(0) }),
+    createGroup('fav', [createTab('4')], { createdAt: daysAgo(60), isFavorite: true }),
+  ];
+
+  it('默认收藏在前，再按保存时间倒序', async () => {
+    const { sortAndFilterGroups } = await import('@/domain/tabGroup/restoreHistory');
+    assert.deepEqual(sortAndFilterGroups(groups()).map(g => g.id), ['fav', 'fresh', 'often', 'latest']);
+  });
+
+  it('按最近打开 / 打开次数排序，从未打开的排在最后', async () => {
+    const { sortAndFilterGroups } = await import('@/domain/tabGroup/restoreHistory');
+    assert.deepEqual(
+      sortAndFilterGroups(groups(), { sortOrder: 'last-restored' }).map(g => g.id),
+      ['fav', 'latest', 'often', 'fresh']
+    );
+    assert.deepEqual(
+      sortAndFilterGroups(groups(), { sortOrder: 'most-restored' }).map(g => g.id),
+      ['fav', 'often', 'latest', 'fresh']
+    );
+  });
+
+  it('按打开记录筛选，不修改原数组', async () => {
+    const { sortAndFilterGroups } = await import('@/domain/tabGroup/restoreHistory');
+    const input = groups();
+    const now = new Date(NOW).getTime();
+
+    assert.deepEqual(sortAndFilterGroups(input, { restoreFilter: 'recent', now }).map(g => g.id), ['latest']);
+    assert.deepEqual(sortAndFilterGroups(input, { restoreFilter: 'never', now }).map(g => g.id), ['fav', 'fresh']);
+    assert.deepEqual(input.map(g => g.id), ['often', 'latest', 'fresh', 'fav']);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { register } from 'node:module';
+import { pathToFileURL, fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import type { RetentionPolicy, TabGroup } from '../src/types/tab.ts';
+
+const LOADER_PATH = pathToFileURL(
+  resolve(dirname(fileURLToPath(import.meta.url)), '_alias-loader.mjs')
+).href;
+
+const NOW = '2026-06-14T08:00:00.000Z';
+const daysAgo = (days: number) => new Date(Date.parse(NOW) - days * 24 * 60 * 60 * 1000).toISOString();
+
+before(() => {
+  register(LOADER_PATH);
+});
+
+const createGroup = (id: string, savedDaysAgo: number, overrides: Partial<TabGroup> = {}): TabGroup => ({
+  id,
+  name: `Group ${id}`,
+  tabs: [
+    {
+      id: `${id}-tab`,
+      url: `https://example.com/${id}`,
+      title: id,
+      createdAt: daysAgo(savedDaysAgo),
+      lastAccessed: daysAgo(savedDaysAgo),
+    },
+  ],
+  createdAt: daysAgo(savedDaysAgo),
+  updatedAt: daysAgo(savedDaysAgo),
+  isLocked: false,
+  version: 1,
+  ...overrides,
+});
+
+const policies = (overrides: Partial<Record<'delete' | 'archive', Partial<RetentionPolicy>>> = {}): RetentionPolicy[] => [
+  { id: 'delete', enabled: true, action: 'delete', trigger: 'saved', days: 90, ...overrides.delete },
+  { id: 'archive', enabled: true, action: 'archive', trigger: 'not-restored', days: 30, ...overrides.archive },
+];
+
+describe('previewRetention', () => {
+  it('按期限选出要删除 / 归档的会话，删除优先', async () => {
+    const { previewRetention } = await import('@/domain/tabGroup/retention');
+    const candidates = previewRetention(
+      [createGroup('fresh', 5), createGroup('stale', 40), createGroup('old', 120)],
+      policies(),
+      NOW
+    );
+
+    assert.deepEqual(
+      candidates.map(c => [c.group.id, c.action, c.ageDays]),
+      [
+        ['stale', 'archive', 40],
+        ['old', 'delete', 120],
+      ]
+    );
+  });
+
+  it('收藏、模板不受影响，锁定的会话只归档不删除', async () => {
+    const { previewRetention } = await import('@/domain/tabGroup/retention');
+    const candidates = previewRetention(
+      [
+        createGroup('favorite', 200, { isFavorite: true }),
+        createGroup('template', 200, { isTemplate: true }),
+        createGroup('locked', 200, { isLocked: true }),
+        createGroup('locked-archived', 200, { isLocked: true, isArchived: true }),
+      ],
+      policies(),
+      NOW
+    );
+
+    assert.deepEqual(candidates.map(c => [c.group.id, c.action]), [['locked', 'archive']]);
+  });
+
+  it('未打开计时从最近一次打开算起，关闭的策略不生效', async () => {
+    const { previewRetention } = await import('@/domain/tabGroup/retention');
+    const reopened = createGroup('reopened', 60);
+    reopened.tabs[0] = { ...reopened.tabs[0], restoreCount: 2, lastRestoredAt: daysAgo(3) };
+
+    assert.deepEqual(previewRetention([reopened, createGroup('unused', 60)], policies(), NOW).map(c => c.group.id), ['unused']);
+    assert.deepEqual(previewRetention([createGroup('unused', 60)], policies({ archive: { enabled: false } }), NOW), []);
+  });
+
+  it('会话自己的设置优先：永久保留，或用自定义规则代替全局策略', async () => {
+    const { previewRetention } = await import('@/domain/tabGroup/retention');
+    const candidates = previewRetention(
+      [
+        createGroup('keep', 400, { retention: { mode: 'keep' } }),
+        createGroup('custom', 10, { retention: { mode: 'custom', action: 'delete', trigger: 'saved', days: 7 } }),
+        createGroup('custom-later', 100, { retention: { mode: 'custom', action: 'archive', trigger: 'saved', days: 365 } }),
+      ],
+      policies({ archive: { enabled: false } }),
+      NOW
+    );
+
+    assert.deepEqual(candidates.map(c => [c.group.id, c.action, c.source]), [['custom', 'delete', 'session']]);
+  });
+});
+
+describe('applyRetention', () => {
+  it('软删除与归档都递增版本号，未处理的会话保持原引用', async () => {
+    const { applyRetention } = await import('@/domain/tabGroup/retention');
+    const fresh = createGroup('fresh', 5);
+    const { groups, deleted, archived } = applyRetention(
+      [fresh, createGroup('stale', 40), createGroup('old', 120)],
+      policies(),
+      NOW
+    );
+
+    assert.equal(groups[0], fresh);
+    assert.deepEqual(deleted.map(g => [g.id, g.isDeleted, g.version, g.updatedAt]), [['old', true, 2, NOW]]);
+    assert.deepEqual(archived.map(g => [g.id, g.isArchived, g.archivedAt, g.version]), [['stale', true, NOW, 2]]);
+  });
+
+  it('没有需要处理的会话时原样返回', async () => {
+    const { applyRetention } = await import('@/domain/tabGroup/retention');
+    const groups = [createGroup('fresh', 5)];
+    assert.equal(applyRetention(groups, policies(), NOW).groups, groups);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  getTabHostname,
+  groupTabsByWindow,
+  isMultiWindowScope,
+  matchesDomain,
+  selectTabsForScope,
+} from '../src/domain/tabGroup/saveScope.ts';
+
+const createTab = (overrides: Partial<chrome.tabs.Tab> = {}): chrome.tabs.Tab => ({
+  id: 1,
+  index: 0,
+  windowId: 1,
+  url: 'https://example.com',
+  pinned: false,
+  highlighted: false,
+  active: false,
+  incognito: false,
+  selected: false,
+  discarded: false,
+  autoDiscardable: true,
+  groupId: -1,
+  ...overrides,
+});
+
+describe('getTabHostname', () => {
+  it('strips the leading www.', () => {
+    assert.equal(getTabHostname('https://www.github.com/foo'), 'github.com');
+  });
+
+  it('returns null for invalid or missing URLs', () => {
+    assert.equal(getTabHostname('not a url'), null);
+    assert.equal(getTabHostname(undefined), null);
+  });
+});
+
+describe('matchesDomain', () => {
+  it('matches the domain itself and its subdomains', () => {
+    assert.equal(matchesDomain('https://github.com/a', 'github.com'), true);
+    assert.equal(matchesDomain('https://docs.github.com/a', 'github.com'), true);
+    assert.equal(matchesDomain('https://www.github.com/a', 'www.github.com'), true);
+  });
+
+  it('does not match lookalike hostnames', () => {
+    assert.equal(matchesDomain('https://notgithub.com', 'github.com'), false);
+    assert.equal(matchesDomain('https://github.com', ''), false);
+  });
+});
+
+describe('isMultiWindowScope', () => {
+  it('flags scopes that query every window', () => {
+    assert.equal(isMultiWindowScope('all-windows'), true);
+    assert.equal(isMultiWindowScope('all-windows-merged'), true);
+    assert.equal(isMultiWindowScope('domain'), true);
+    assert.equal(isMultiWindowScope('highlighted'), false);
+  });
+});
+
+describe('selectTabsForScope', () => {
+  const active = createTab({ id: 3, index: 2, active: true, highlighted: true });
+  const tabs = [
+    createTab({ id: 1, index: 0, url: 'https://a.com' }),
+    createTab({ id: 2, index: 1, url: 'https://b.com', highlighted: true }),
+    active,
+    createTab({ id: 4, index: 3, url: 'https://docs.a.com' }),
+    createTab({ id: 5, index: 0, windowId: 2, url: 'https://a.com/other' }),
+  ];
+
+  it('other-tabs excludes the active tab', () => {
+    const ids = selectTabsForScope(tabs, 'other-tabs', { activeTab: active }).map(tab => tab.id);
+    assert.deepEqual(ids, [1, 2, 4, 5]);
+  });
+
+  it('highlighted keeps multi-selected tabs only', () => {
+    const ids = selectTabsForScope(tabs, 'highlighted', { activeTab: active }).map(tab => tab.id);
+    assert.deepEqual(ids, [2, 3]);
+  });
+
+  it('right-of-active / left-of-active stay inside the active window', () => {
+    assert.deepEqual(
+      selectTabsForScope(tabs, 'right-of-active', { activeTab: active }).map(tab => tab.id),
+      [4]
+    );
+    assert.deepEqual(
+      selectTabsForScope(tabs, 'left-of-active', { activeTab: active }).map(tab => tab.id),
+      [1, 2]
+    );
+  });
+
+  it('left/right return nothing without an active tab', () => {
+    assert.deepEqual(selectTabsForScope(tabs, 'right-of-active'), []);
+  });
+
+  it('domain matches across windows, including subdomains', () => {
+    const ids = selectTabsForScope(tabs, 'domain', { domain: 'a.com' }).map(tab => tab.id);
+    assert.deepEqual(ids, [1, 4, 5]);
+  });
+
+  it('all-windows returns the queried tabs untouched', () => {
+    assert.equal(selectTabsForScope(tabs, 'all-windows').length, tabs.length);
+  });
+});
+
+describe('groupTabsByWindow', () => {
+  it('splits per window and sorts each bucket by index', () => {
+    const buckets = groupTabsByWindow([
+      createTab({ id: 1, index: 1, windowId: 7 }),
+      createTab({ id: 2, index: 0, windowId: 9 }),
+      createTab({ id: 3, index: 0, windowId: 7 }),
+    ]);
+    assert.deepEqual(buckets.map(bucket => bucket.map(tab => tab.id)), [[3, 1], [2]]);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Tab, TabGroup } from '../src/types/tab.ts';
+import {
+  appendTabsToGroup,
+  canSaveIntoGroup,
+  dedupeIncomingTabs,
+  resolveInboxGroup,
+  selectSaveTargetGroups,
+} from '../src/domain/tabGroup/saveTarget.ts';
+
+const NOW = '2026-06-04T08:00:00.000Z';
+
+const createTab = (url: string): Tab => ({
+  id: url,
+  url,
+  title: url,
+  createdAt: NOW,
+  lastAccessed: NOW,
+});
+
+const createGroup = (overrides: Partial<TabGroup> = {}): TabGroup => ({
+  id: 'g1',
+  name: '会话',
+  tabs: [],
+  createdAt: NOW,
+  updatedAt: NOW,
+  isLocked: false,
+  ...overrides,
+});
+
+describe('canSaveIntoGroup / resolveInboxGroup', () => {
+  it('已删除或已锁定的会话不能作为保存目标', () => {
+    assert.equal(canSaveIntoGroup(createGroup()), true);
+    assert.equal(canSaveIntoGroup(createGroup({ isLocked: true })), false);
+    assert.equal(canSaveIntoGroup(createGroup({ isDeleted: true })), false);
+  });
+
+  it('收件箱不可用时回退为未设置', () => {
+    const groups = [
+      createGroup({ id: 'inbox' }),
+      createGroup({ id: 'locked', isLocked: true }),
+    ];
+    assert.equal(resolveInboxGroup(groups, 'inbox')?.id, 'inbox');
+    assert.equal(resolveInboxGroup(groups, 'locked'), undefined);
+    assert.equal(resolveInboxGroup(groups, 'missing'), undefined);
+    assert.equal(resolveInboxGroup(groups, null), undefined);
+  });
+});
+
+describe('selectSaveTargetGroups', () => {
+  it('收件箱优先，其次收藏，其余按更新时间倒序，并限制数量', () => {
+    const groups = [
+      createGroup({ id: 'old', updatedAt: '2026-06-01T00:00:00.000Z' }),
+      createGroup({ id: 'new', updatedAt: '2026-06-03T00:00:00.000Z' }),
+      createGroup({ id: 'fav', isFavorite: true, updatedAt: '2026-05-01T00:00:00.000Z' }),
+      createGroup({ id: 'inbox', updatedAt: '2026-04-01T00:00:00.000Z' }),
+      createGroup({ id: 'locked', isLocked: true }),
+      createGroup({ id: 'deleted', isDeleted: true }),
+    ];
+
+    assert.deepEqual(
+      selectSaveTargetGroups(groups, { inboxSessionId: 'inbox' }).map(group => group.id),
+      ['inbox', 'fav', 'new', 'old']
+    );
+    assert.deepEqual(
+      selectSaveTargetGroups(groups, { limit: 2 }).map(group => group.id),
+      ['fav', 'new']
+    );
+  });
+});
+
+describe('dedupeIncomingTabs', () => {
+  it('跳过会话中已有的 URL 和输入里重复的 URL', () => {
+    const result = dedupeIncomingTabs(
+      [createTab('https://a.com')],
+      [createTab('https://a.com'), createTab('https://b.com'), createTab('https://b.com')],
+      false
+    );
+    assert.deepEqual(result.map(tab => tab.url), ['https://b.com']);
+  });
+
+  it('允许重复时原样返回', () => {
+    const tabs = [createTab('https://a.com'), createTab('https://a.com')];
+    assert.equal(dedupeIncomingTabs([createTab('https://a.com')], tabs, true), tabs);
+  });
+});
+
+describe('appendTabsToGroup', () => {
+  it('追加到会话末尾并递增版本', () => {
+    const target = createGroup({ id: 'target', tabs: [createTab('https://a.com')], version: 3 });
+    const other = createGroup({ id: 'other' });
+    const result = appendTabsToGroup(
+      [other, target],
+      'target',
+      [createTab('https://a.com'), createTab('https://b.com')],
+      { now: '2026-06-05T00:00:00.000Z', allowDuplicateTabs: false }
+    );
+
+    assert.equal(result.status, 'appended');
+    if (result.status !== 'appended') return;
+    assert.equal(result.addedCount, 1);
+    assert.equal(result.duplicateCount, 1);
+    assert.deepEqual(result.group.tabs.map(tab => tab.url), ['https://a.com', 'https://b.com']);
+    assert.equal(result.group.version, 4);
+    assert.equal(result.group.updatedAt, '2026-06-05T00:00:00.000Z');
+    assert.equal(result.groups[0], other);
+    assert.equal(result.groups[1], result.group);
+  });
+
+  it('全部重复时不修改会话', () => {
+    const groups = [createGroup({ tabs: [createTab('https://a.com')] })];
+    const result = appendTabsToGroup(groups, 'g1', [createTab('https://a.com')], {
+      now: NOW,
+      allowDuplicateTabs: false,
+    });
+    assert.equal(result.status, 'appended');
+    if (result.status !== 'appended') return;
+    assert.equal(result.addedCount, 0);
+    assert.equal(result.groups, groups);
+  });
+
+  it('会话已锁定或不存在时返回对应状态', () => {
+    const groups = [
+      createGroup({ id: 'locked', isLocked: true }),
+      createGroup({ id: 'deleted', isDeleted: true }),
+    ];
+    const options = { now: NOW, allowDuplicateTabs: true };
+    assert.equal(appendTabsToGroup(groups, 'locked', [createTab('https://a.com')], options).status, 'locked');
+    assert.equal(appendTabsToGroup(groups, 'deleted', [createTab('https://a.com')], options).status, 'not-found');
+    assert.equal(appendTabsToGroup(groups, 'missing', [createTab('https://a.com')], options).status, 'not-found');
+  });
+});
@@ -0,0 +1,145 @@
+// savedSearches.ts 测试：保存的搜索只保存查询与筛选条件，智能会话的标签页按当前会话实时计算；
+// 随设置同步时按 id 合并，删除以软删除标记保留。
+
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { register } from 'node:module';
+import { pathToFileURL, fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import type { SavedSearch, Tab, TabGroup } from '../src/types/tab.ts';
+
+const LOADER_PATH = pathToFileURL(
+  resolve(dirname(fileURLToPath(import.meta.url)), '_alias-loader.mjs')
+).href;
+
+const NOW = '2026-06-04T08:00:00.000Z';
+const LATER = '2026-06-05T08:00:00.000Z';
+
+before(() => {
+  register(LOADER_PATH);
+});
+
+const makeTab = (id: string, title: string, url: string, overrides: Partial<Tab> = {}): Tab => ({
+  id,
+  title,
+  url,
+  favicon: '',
+  createdAt: NOW,
+  lastAccessed: NOW,
+  pinned: false,
+  ...overrides,
+});
+
+const makeGroup = (id: string, name: string, tabs: Tab[], overrides: Partial<TabGroup> = {}): TabGroup => ({
+  id,
+  name,
+  tabs,
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+  isLocked: false,
+  version: 1,
+  ...overrides,
+});
+
+const makeSearch = (id: string, overrides: Partial<SavedSearch> = {}): SavedSearch => ({
+  id,
+  name: id,
+  query: 'jira',
+  filters: {},
+  createdAt: NOW,
+  updatedAt: NOW,
+  ...overrides,
+});
+
+describe('保存的搜索：创建与删除', () => {
+  it('名称为空时使用查询，未设置的筛选项不保存', async () => {
+    const { createSavedSearch } = await import('@/domain/tabGroup/savedSearches');
+    const search = createSavedSearch('  ', '  site:atlassian.net saved:<30d ', {
+      domain: ' ',
+      groupName: '',
+      pinned: 'all',
+      savedWithin: '30d',
+      sortBy: 'relevance',
+    }, NOW);
+
+    assert.equal(search.name, 'site:atlassian.net saved:<30d');
+    assert.equal(search.query, 'site:atlassian.net saved:<30d');
+    assert.deepEqual(search.filters, { savedWithin: '30d' });
+    assert.equal(search.createdAt, NOW);
+  });
+
+  it('删除为软删除，列表中不再显示', async () => {
+    const { getActiveSavedSearches, removeSavedSearch } = await import('@/domain/tabGroup/savedSearches');
+    const searches = removeSavedSearch([makeSearch('a'), makeSearch('b')], 'a', LATER);
+
+    assert.deepEqual(searches[0], { ...makeSearch('a'), isDeleted: true, updatedAt: LATER });
+    assert.deepEqual(getActiveSavedSearches(searches).map(search => search.id), ['b']);
+  });
+
+  it('mergeSavedSearches 按 id 取较新的一方，保留软删除', async () => {
+    const { mergeSavedSearches } = await import('@/utils/syncUtils');
+    const merged = mergeSavedSearches(
+      [makeSearch('a', { query: 'jira is:pinned', updatedAt: LATER }), makeSearch('b')],
+      [makeSearch('a'), makeSearch('b', { isDeleted: true, updatedAt: LATER }), makeSearch('cloud-only')]
+    );
+
+    assert.deepEqual(
+      merged.map(search => [search.id, search.query, !!search.isDeleted]),
+      [['a', 'jira is:pinned', false], ['b', 'jira', true], ['cloud-only', 'jira', false]]
+    );
+    assert.equal(mergeSavedSearches([makeSearch('a')], undefined).length, 1);
+  });
+});
+
+describe('智能会话：实时命中与打开', () => {
+  it('按查询与筛选条件命中标签页，会话变化后数量随之变化', async () => {
+    const { searchSessions } = await import('@/utils/search');
+    const { buildSmartSession } = await import('@/domain/tabGroup/savedSearches');
+    const old = new Date(Date.now() - 60 * 24 * 60 * 60 * 1000).toISOString();
+    const groups = [
+      makeGroup('g-1', 'Sprint', [
+        makeTab('t1', 'PROJ-1 登录失败', 'https://team.atlassian.net/browse/PROJ-1'),
+        makeTab('t2', 'Design doc', 'https://docs.example.com/design'),
+      ]),
+      makeGroup('g-2', 'Old sprint', [
+        makeTab('t3', 'PROJ-0 旧问题', 'https://team.atlassian.net/browse/PROJ-0'),
+      ], { createdAt: old, updatedAt: old }),
+    ];
+    const search = makeSearch('jira-month', { query: 'site:atlassian.net', filters: { savedWithin: '30d' } });
+    const run = (library: TabGroup[]) =>
+      buildSmartSession(search, searchSessions(library, search.query, search.filters).flatMap(session => session.matches));
+
+    const session = run(groups);
+    assert.deepEqual(session.group.tabs.map(tab => tab.id), ['t1']);
+    assert.deepEqual(session.sources, [{ groupId: 'g-1', tabIds: ['t1'] }]);
+
+    const updated = [
+      { ...groups[0], tabs: [...groups[0].tabs, makeTab('t4', 'PROJ-2', 'https://team.atlassian.net/browse/PROJ-2')] },
+      groups[1],
+    ];
+    assert.deepEqual(run(updated).group.tabs.map(tab => tab.id).sort(), ['t1', 't4']);
+  });
+
+  it('虚拟会话视同锁定会话，同一网址只打开一次', async () => {
+    const { buildSmartSession, isConsumedOnRestore, SMART_SESSION_ID_PREFIX } = await import('@/domain/tabGroup');
+    const first = makeGroup('g-1', 'A', [makeTab('t1', 'PROJ-1', 'https://team.atlassian.net/browse/PROJ-1')]);
+    const second = makeGroup('g-2', 'B', [
+      makeTab('t2', 'PROJ-1', 'https://team.atlassian.net/browse/PROJ-1'),
+      makeTab('t3', 'PROJ-3', 'https://team.atlassian.net/browse/PROJ-3'),
+    ]);
+    const session = buildSmartSession(makeSearch('s', { name: 'Jira' }), [
+      { tab: first.tabs[0], group: first },
+      { tab: second.tabs[0], group: second },
+      { tab: second.tabs[1], group: second },
+    ]);
+
+    assert.equal(session.group.id, `${SMART_SESSION_ID_PREFIX}s`);
+    assert.equal(session.group.name, 'Jira');
+    assert.equal(isConsumedOnRestore(session.group), false);
+    assert.deepEqual(session.group.tabs.map(tab => tab.id), ['t1', 't3']);
+    assert.deepEqual(session.sources, [
+      { groupId: 'g-1', tabIds: ['t1'] },
+      { groupId: 'g-2', tabIds: ['t3'] },
+    ]);
+  });
+});
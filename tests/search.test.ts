@@ -409,6 +409,331 @@ describe('applySearchFilters: 后期过滤', () => {
   });
 });
 
+describe('打开记录：筛选与排序', () => {
+  const history = (count: number, daysAgo: number) => ({
+    restoreCount: count,
+    lastRestoredAt: new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000).toISOString(),
+  });
+
+  it('applySearchFilters restored=never / recent', async () => {
+    const { applySearchFilters } = await import('@/utils/search');
+    const results = [
+      { tab: makeTab({ id: 'never' }), group: makeGroup(), score: 1, matches: [] },
+      { tab: makeTab({ id: 'recent', ...history(1, 1) }), group: makeGroup(), score: 1, matches: [] },
+      { tab: makeTab({ id: 'stale', ...history(3, 30) }), group: makeGroup(), score: 1, matches: [] },
+    ] as any;
+
+    assert.deepEqual(applySearchFilters(results, { restored: 'never' }).map((r: any) => r.tab.id), ['never']);
+    assert.deepEqual(applySearchFilters(results, { restored: 'recent' }).map((r: any) => r.tab.id), ['recent']);
+  });
+
+  it('search restoreFilter + sortBy=most-restored 先按次数再按相关度', async () => {
+    const { AdvancedSearch } = await import('@/utils/search');
+    const groups = [
+      makeGroup({
+        tabs: [
+          makeTab({ id: 'title-hit', title: 'docs' }),
+          makeTab({ id: 'url-hit', url: 'https://docs.example.com', ...history(5, 10) }),
+          makeTab({ id: 'both', title: 'docs', url: 'https://docs.dev', ...history(2, 1) }),
+        ],
+      }),
+    ];
+
+    assert.deepEqual(
+      AdvancedSearch.search(groups, { query: 'docs', sortBy: 'most-restored' }).map(r => r.tab.id),
+      ['url-hit', 'both', 'title-hit']
+    );
+    assert.deepEqual(
+      AdvancedSearch.search(groups, { query: 'docs', restoreFilter: 'restored', sortBy: 'last-restored' }).map(r => r.tab.id),
+      ['both', 'url-hit']
+    );
+  });
+
+  it('buildSessionSearchResults sortBy=last-restored 按会话最近打开排序', async () => {
+    const { buildSessionSearchResults } = await import('@/utils/search');
+    const older = makeGroup({ id: 'older', tabs: [makeTab(history(1, 9))] });
+    const newer = makeGroup({ id: 'newer', tabs: [makeTab(history(1, 2))] });
+    const results = [
+      { tab: older.tabs[0], group: older, score: 90, matches: [] },
+      { tab: newer.tabs[0], group: newer, score: 10, matches: [] },
+    ] as any;
+
+    assert.deepEqual(buildSessionSearchResults(results).map(s => s.group.id), ['older', 'newer']);
+    assert.deepEqual(buildSessionSearchResults(results, 'last-restored').map(s => s.group.id), ['newer', 'older']);
+  });
+});
+
+describe('标签：tag: 查询', () => {
+  it('parseTagQuery 拆出 tag: 片段并去重', async () => {
+    const { parseTagQuery } = await import('@/utils/search');
+    assert.deepEqual(parseTagQuery('tag:Work docs #tag:work tag:read'), { text: 'docs', tags: ['Work', 'read'] });
+    assert.deepEqual(parseTagQuery('contag:x tag:'), { text: 'contag:x', tags: [] });
+  });
+
+  it('只有 tag: 时列出带标签的标签页（含继承自会话的标签），与关键词组合时须同时满足', async () => {
+    const { AdvancedSearch } = await import('@/utils/search');
+    const groups = [
+      makeGroup({
+        id: 'g-tagged',
+        tags: ['work'],
+        tabs: [makeTab({ id: 'inherit', title: 'Docs' }), makeTab({ id: 'own', title: 'Board', tags: ['read'] })],
+      }),
+      makeGroup({ id: 'g-plain', tabs: [makeTab({ id: 'plain', title: 'Docs', tags: ['READ'] })] }),
+    ];
+
+    const workOnly = AdvancedSearch.search(groups, { query: 'tag:work' });
+    assert.deepEqual(workOnly.map(r => r.tab.id), ['inherit', 'own']);
+    assert.deepEqual(workOnly[0].matches, []);
+
+    assert.deepEqual(AdvancedSearch.search(groups, { query: 'tag:read' }).map(r => r.tab.id).sort(), ['own', 'plain']);
+    assert.deepEqual(AdvancedSearch.search(groups, { query: 'docs tag:work' }).map(r => r.tab.id), ['inherit']);
+    assert.deepEqual(AdvancedSearch.search(groups, { query: 'tag:work tag:read' }).map(r => r.tab.id), ['own']);
+  });
+});
+
+describe('归档：archived: 查询', () => {
+  it('parseSearchQuery 解析 archived: 取值', async () => {
+    const { parseSearchQuery } = await import('@/utils/search');
+    assert.deepEqual(parseSearchQuery('docs archived:'), { text: 'docs', tags: [], archived: 'only' });
+    assert.equal(parseSearchQuery('archived:all docs').archived, 'include');
+    assert.equal(parseSearchQuery('archived:no').archived, 'exclude');
+    assert.equal(parseSearchQuery('docs').archived, undefined);
+  });
+
+  it('默认不搜索归档的会话，archived: 只搜归档、archived:all 一起搜', async () => {
+    const { AdvancedSearch } = await import('@/utils/search');
+    const groups = [
+      makeGroup({ id: 'g-live', tabs: [makeTab({ id: 'live', title: 'Docs' })] }),
+      makeGroup({ id: 'g-old', isArchived: true, tabs: [makeTab({ id: 'old', title: 'Docs' })] }),
+    ];
+
+    const ids = (query: string) => AdvancedSearch.search(groups, { query }).map(r => r.tab.id).sort();
+    assert.deepEqual(ids('docs'), ['live']);
+    assert.deepEqual(ids('docs archived:'), ['old']);
+    assert.deepEqual(ids('archived:'), ['old'], '只有 archived: 时列出全部归档标签页');
+    assert.deepEqual(ids('docs archived:all'), ['live', 'old']);
+  });
+});
+
+describe('查询语法：字段、逻辑与取反', () => {
+  it('parseQueryExpression 解析字段、OR、括号和取反；相邻普通词仍是一个短语', async () => {
+    const { parseQueryExpression } = await import('@/utils/searchQuery');
+    assert.deepEqual(parseQueryExpression('react hooks').expression, { type: 'text', value: 'react hooks' });
+    assert.deepEqual(parseQueryExpression('(site:a.com OR title:"release notes") -is:pinned').expression, {
+      type: 'and',
+      nodes: [
+        {
+          type: 'or',
+          nodes: [
+            { type: 'field', field: 'site', value: 'a.com' },
+            { type: 'field', field: 'title', value: 'release notes' },
+          ],
+        },
+        { type: 'not', node: { type: 'is', status: 'pinned' } },
+      ],
+    });
+    assert.deepEqual(parseQueryExpression('saved:<7d').expression, {
+      type: 'saved',
+      comparator: '<',
+      withinMs: 7 * 24 * 60 * 60 * 1000,
+    });
+    assert.deepEqual(
+      parseQueryExpression('https://example.com/a-b').expression,
+      { type: 'text', value: 'https://example.com/a-b' },
+      '未知前缀（如 URL 协议）不当作字段'
+    );
+  });
+
+  it('语法错误返回信息和出错位置', async () => {
+    const { parseQueryExpression } = await import('@/utils/searchQuery');
+    const error = (query: string) => parseQueryExpression(query).error;
+    assert.deepEqual(error('title:"release'), { message: '引号没有闭合', index: 6 });
+    assert.deepEqual(error('(site:a.com'), { message: '括号没有闭合', index: 0 });
+    assert.deepEqual(error('docs)'), { message: '多余的右括号', index: 4 });
+    assert.deepEqual(error('docs OR'), { message: 'OR 后缺少搜索条件', index: 7 });
+    assert.equal(error('is:unknown')?.index, 0);
+    assert.equal(error('saved:7x')?.index, 0);
+    assert.equal(parseQueryExpression('docs OR').expression, null);
+  });
+
+  it('高亮词包含普通词和 title: / group: 的取值，不含取反条件', async () => {
+    const { parseSearchExpression } = await import('@/utils/search');
+    const parsed = parseSearchExpression('react title:"hooks guide" -group:old site:a.com archived:');
+    assert.deepEqual(parsed.highlightTerms, ['react', 'hooks guide']);
+    assert.equal(parsed.archived, 'only');
+    assert.equal(parseSearchExpression('(docs').error?.index, 0);
+  });
+
+  it('AdvancedSearch 按表达式求值：site / title / group / is / saved / OR / 取反', async () => {
+    const { AdvancedSearch } = await import('@/utils/search');
+    const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    const groups = [
+      makeGroup({
+        id: 'g-work',
+        name: 'Work',
+        isFavorite: true,
+        createdAt: daysAgo(1),
+        tabs: [
+          makeTab({ id: 'gh', url: 'https://github.com/a', title: 'Release notes', pinned: true }),
+          makeTab({ id: 'yt', url: 'https://www.youtube.com/watch', title: 'Talk' }),
+        ],
+      }),
+      makeGroup({
+        id: 'g-old',
+        name: 'Reading',
+        createdAt: daysAgo(30),
+        tabs: [makeTab({ id: 'mdn', url: 'https://developer.mozilla.org/docs', title: 'Release notes' })],
+      }),
+    ];
+
+    const ids = (query: string) => AdvancedSearch.search(groups, { query }).map(r => r.tab.id).sort();
+    assert.deepEqual(ids('site:github.com'), ['gh']);
+    assert.deepEqual(ids('title:"release notes"'), ['gh', 'mdn']);
+    assert.deepEqual(ids('title:"release notes" -site:github.com'), ['mdn']);
+    assert.deepEqual(ids('group:work -site:youtube.com'), ['gh']);
+    assert.deepEqual(ids('is:pinned'), ['gh']);
+    assert.deepEqual(ids('is:favorite'), ['gh', 'yt']);
+    assert.deepEqual(ids('saved:<7d'), ['gh', 'yt']);
+    assert.deepEqual(ids('saved:>7d'), ['mdn']);
+    assert.deepEqual(ids('site:youtube.com OR site:mozilla.org'), ['mdn', 'yt']);
+    assert.deepEqual(ids('(talk OR group:reading) -is:favorite'), ['mdn']);
+    assert.deepEqual(ids('site:github.com ('), [], '语法错误时不返回结果');
+  });
+
+  it('title: 匹配记录在 matches 中', async () => {
+    const { AdvancedSearch } = await import('@/utils/search');
+    const groups = [makeGroup({ tabs: [makeTab({ title: 'React Hooks Guide' })] })];
+    const [result] = AdvancedSearch.search(groups, { query: 'title:hooks' });
+    assert.deepEqual(result.matches, [{ field: 'title', matchedText: 'Hooks', startIndex: 6 }]);
+  });
+});
+
+describe('容错匹配：拼写错误、分词与归一化', () => {
+  it('拼写错误也能找到，得分低于原样匹配，matches 指向原文中的整个词', async () => {
+    const { AdvancedSearch } = await import('@/utils/search');
+    const groups = [
+      makeGroup({
+        id: 'g-k8s',
+        tabs: [
+          makeTab({ id: 'typo', title: 'Kubernetes Dashboard', url: 'https://k8s.io/dash' }),
+          makeTab({ id: 'other', title: 'Docker', url: 'https://docker.com' }),
+        ],
+      }),
+    ];
+
+    const [fuzzy] = AdvancedSearch.search(groups, { query: 'kuberntes' });
+    assert.equal(fuzzy.tab.id, 'typo');
+    assert.deepEqual(fuzzy.matches, [{ field: 'title', matchedText: 'Kubernetes', startIndex: 0 }]);
+
+    const [exact] = AdvancedSearch.search(groups, { query: 'kubernetes' });
+    assert.ok(exact.score > fuzzy.score, '原样匹配得分更高');
+    assert.deepEqual(AdvancedSearch.search(groups, { query: 'dokr' }), [], '短词不做容错');
+    assert.deepEqual(
+      AdvancedSearch.search(groups, { query: 'kuberntes', caseSensitive: true }),
+      [],
+      '区分大小写时不做容错'
+    );
+  });
+
+  it('多个词可以分散在标题、URL、会话名称中命中', async () => {
+    const { AdvancedSearch } = await import('@/utils/search');
+    const groups = [
+      makeGroup({
+        name: 'Release',
+        tabs: [makeTab({ title: 'Weekly notes', url: 'https://github.com/acme/app' })],
+      }),
+    ];
+
+    const [result] = AdvancedSearch.search(groups, { query: 'github release notes' });
+    assert.deepEqual(
+      result.matches.map(match => [match.field, match.matchedText]),
+      [['url', 'github'], ['groupName', 'Release'], ['title', 'notes']]
+    );
+    assert.deepEqual(AdvancedSearch.search(groups, { query: 'github gitlab' }), [], '每个词都要命中');
+  });
+
+  it('忽略变音符号和全角字符，中英文混排按字匹配；高亮位置对应原文', async () => {
+    const { AdvancedSearch, getMatchRanges } = await import('@/utils/search');
+    const groups = [
+      makeGroup({
+        tabs: [
+          makeTab({ id: 'fr', title: 'Crème brûlée recipe' }),
+          makeTab({ id: 'zh', title: 'Kubernetes 部署指南' }),
+        ],
+      }),
+    ];
+
+    const [french] = AdvancedSearch.search(groups, { query: 'brulee' });
+    assert.equal(french.tab.id, 'fr');
+    assert.deepEqual(french.matches[0], { field: 'title', matchedText: 'brûlée', startIndex: 6 });
+
+    assert.equal(AdvancedSearch.search(groups, { query: 'ＫＵＢＥＲＮＥＴＥＳ' })[0]?.tab.id, 'zh');
+
+    const [chinese] = AdvancedSearch.search(groups, { query: '部署 kubernetes' });
+    assert.equal(chinese.tab.id, 'zh');
+    assert.deepEqual(getMatchRanges(chinese.matches, 'title'), [
+      { start: 0, end: 10 },
+      { start: 11, end: 13 },
+    ]);
+  });
+
+  it('editDistance 把相邻交换算作一次编辑，超过上限时提前返回', async () => {
+    const { editDistance } = await import('@/utils/fuzzyMatch');
+    assert.equal(editDistance('teh', 'the', 2), 1);
+    assert.equal(editDistance('kuberntes', 'kubernetes', 2), 1);
+    assert.equal(editDistance('github', 'gitlab', 1), 2);
+    assert.equal(editDistance('a', 'abcdef', 2), 3);
+  });
+});
+
+describe('排序：最近使用与打开次数', () => {
+  it('相同匹配时，最近打开、打开次数多的标签页排在前面', async () => {
+    const { AdvancedSearch } = await import('@/utils/search');
+    const recent = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+    const groups = [
+      makeGroup({
+        id: 'g-old',
+        updatedAt: '2025-01-01T00:00:00.000Z',
+        tabs: [makeTab({ id: 'stale', title: 'Design doc' })],
+      }),
+      makeGroup({
+        id: 'g-used',
+        updatedAt: '2025-01-01T00:00:00.000Z',
+        tabs: [makeTab({ id: 'used', title: 'Design doc', restoreCount: 7, lastRestoredAt: recent })],
+      }),
+      makeGroup({
+        id: 'g-edited',
+        updatedAt: recent,
+        tabs: [makeTab({ id: 'edited', title: 'Design doc' })],
+      }),
+    ];
+
+    const results = AdvancedSearch.search(groups, { query: 'design' });
+    assert.deepEqual(results.map(result => result.tab.id), ['used', 'edited', 'stale']);
+  });
+
+  it('打开次数加分有上限，不会盖过文字匹配', async () => {
+    const { AdvancedSearch, SCORE_WEIGHTS } = await import('@/utils/search');
+    const now = new Date().toISOString();
+    const groups = [
+      makeGroup({
+        updatedAt: now,
+        tabs: [
+          makeTab({ id: 'many', title: 'Design doc', restoreCount: 1000, lastRestoredAt: now }),
+          makeTab({ id: 'more', title: 'Design doc', restoreCount: 5000, lastRestoredAt: now }),
+          makeTab({ id: 'none', title: 'Design doc' }),
+        ],
+      }),
+    ];
+
+    const scores = Object.fromEntries(
+      AdvancedSearch.search(groups, { query: 'design' }).map(result => [result.tab.id, result.score])
+    );
+    assert.equal(scores.many, scores.more);
+    assert.equal(scores.many - scores.none, SCORE_WEIGHTS.RESTORE_FREQUENCY_BONUS_MAX);
+  });
+});
+
 describe('buildSessionSearchResults: 按 session 分组', () => {
   it('同一 group 的多个 tab 合并到一个 session', async () => {
     const { buildSessionSearchResults } = await import('@/utils/search');
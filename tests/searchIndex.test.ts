@@ -0,0 +1,154 @@
+// searchIndex.ts 测试：索引只负责缩小搜索范围，结果必须与逐个会话求值完全一致；
+// 增量同步只重建改动的会话，快照可以跨页面恢复。
+
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { register } from 'node:module';
+import { pathToFileURL, fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import type { Tab, TabGroup } from '../src/types/tab.ts';
+
+const LOADER_PATH = pathToFileURL(
+  resolve(dirname(fileURLToPath(import.meta.url)), '_alias-loader.mjs')
+).href;
+
+const NOW = '2026-06-04T08:00:00.000Z';
+
+before(() => {
+  register(LOADER_PATH);
+});
+
+const makeTab = (id: string, title: string, url: string, overrides: Partial<Tab> = {}): Tab => ({
+  id,
+  title,
+  url,
+  favicon: '',
+  createdAt: NOW,
+  lastAccessed: NOW,
+  pinned: false,
+  ...overrides,
+});
+
+const makeGroup = (id: string, name: string, tabs: Tab[], overrides: Partial<TabGroup> = {}): TabGroup => ({
+  id,
+  name,
+  tabs,
+  createdAt: NOW,
+  updatedAt: NOW,
+  isLocked: false,
+  version: 1,
+  ...overrides,
+});
+
+const createLibrary = (): TabGroup[] => [
+  makeGroup('g-k8s', 'Infra', [
+    makeTab('k1', 'Kubernetes 部署指南', 'https://kubernetes.io/docs/setup'),
+    makeTab('k2', 'Helm charts', 'https://github.com/helm/charts', { pinned: true }),
+  ]),
+  makeGroup('g-react', 'Frontend', [
+    makeTab('r1', 'React Hooks release notes', 'https://github.com/facebook/react/releases'),
+    makeTab('r2', 'Café à la carte', 'https://www.youtube.com/watch?v=1'),
+  ], { isFavorite: true, notes: 'weekly sync 周报' }),
+  makeGroup('g-db', 'Database', [
+    makeTab('d1', 'PostgreSQL 性能调优', 'https://www.postgresql.org/docs/'),
+  ], { isArchived: true }),
+];
+
+describe('搜索索引：结果与逐个求值一致', () => {
+  it('普通词、容错、字段、OR、取反、状态条件的结果都一致', async () => {
+    const { AdvancedSearch } = await import('@/utils/search');
+    const groups = createLibrary();
+    const queries = [
+      'kubernetes',
+      'kuberntes',
+      'github',
+      'hub/face',
+      '部署',
+      'cafe',
+      '周报',
+      'react notes',
+      'site:github.com',
+      'site:youtube.com OR 性能 archived:all',
+      'title:"release notes" -site:youtube.com',
+      '-group:infra',
+      'is:pinned',
+      'is:favorite cafe',
+      '.',
+      'xyz123',
+    ];
+
+    for (const query of queries) {
+      const scan = AdvancedSearch.search(groups, { query, useIndex: false });
+      const indexed = AdvancedSearch.search(groups, { query });
+      assert.deepEqual(
+        indexed.map(result => [result.tab.id, result.score]),
+        scan.map(result => [result.tab.id, result.score]),
+        `查询 ${query}`
+      );
+    }
+  });
+
+  it('只有 is: / 取反等条件时不缩小范围，普通词与字段按 AND / OR 组合候选会话', async () => {
+    const { SearchIndex } = await import('@/utils/searchIndex');
+    const { parseQueryExpression } = await import('@/utils/searchQuery');
+    const index = new SearchIndex();
+    index.sync(createLibrary());
+
+    const candidates = (query: string) => {
+      const ids = index.getCandidateGroupIds(parseQueryExpression(query).expression);
+      return ids ? [...ids].sort() : null;
+    };
+    assert.equal(candidates('is:pinned'), null);
+    assert.equal(candidates('-github'), null);
+    assert.deepEqual(candidates('github'), ['g-k8s', 'g-react']);
+    assert.deepEqual(candidates('github is:favorite'), ['g-k8s', 'g-react']);
+    assert.deepEqual(candidates('github 周报'), ['g-react']);
+    assert.deepEqual(candidates('postgresql OR helm'), ['g-db', 'g-k8s']);
+    assert.deepEqual(candidates('postgersql'), ['g-db'], '容错范围内的词也是候选');
+    assert.equal(candidates('helm OR -github'), null);
+  });
+});
+
+describe('搜索索引：增量同步与快照', () => {
+  it('只重建改动的会话，删除的会话移出索引', async () => {
+    const { SearchIndex } = await import('@/utils/searchIndex');
+    const { parseQueryExpression } = await import('@/utils/searchQuery');
+    const index = new SearchIndex();
+    const groups = createLibrary();
+    const candidates = (query: string) =>
+      [...(index.getCandidateGroupIds(parseQueryExpression(query).expression) ?? [])].sort();
+
+    assert.equal(index.sync(groups), true);
+    assert.equal(index.sync(groups), false, '同一个数组不再比较');
+    assert.equal(index.sync(groups.map(group => ({ ...group }))), false, '内容没变时只比较摘要');
+
+    const renamed = [
+      { ...groups[0], tabs: [{ ...groups[0].tabs[0], title: 'Terraform modules' }, groups[0].tabs[1]] },
+      groups[1],
+    ];
+    assert.equal(index.sync(renamed), true);
+    assert.equal(index.size, 2);
+    assert.deepEqual(candidates('terraform'), ['g-k8s']);
+    assert.deepEqual(candidates('部署'), [], '旧标题中的词不再命中');
+    assert.deepEqual(candidates('postgresql'), []);
+  });
+
+  it('快照恢复后，内容没变的会话不需要重建；版本不同的快照被忽略', async () => {
+    const { SearchIndex, SEARCH_INDEX_VERSION } = await import('@/utils/searchIndex');
+    const groups = createLibrary();
+    const source = new SearchIndex();
+    source.sync(groups);
+    assert.equal(source.isDirty, true);
+    const snapshot = JSON.parse(JSON.stringify(source.toSnapshot()));
+
+    const restored = new SearchIndex();
+    assert.equal(restored.restore(snapshot), true);
+    assert.equal(restored.size, 3);
+    assert.equal(restored.sync(createLibrary()), false);
+    assert.equal(restored.isDirty, false);
+
+    const stale = new SearchIndex();
+    assert.equal(stale.restore({ ...snapshot, version: SEARCH_INDEX_VERSION + 1 }), false);
+    assert.equal(stale.size, 0);
+  });
+});
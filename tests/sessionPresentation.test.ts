@@ -34,3 +34,16 @@ describe('formatLastSync', () => {
     assert.equal(formatLastSync(new Date(now - 2 * 24 * 60 * 60 * 1000).toISOString()), '2天前');
   });
 });
+
+describe('formatRestoreHistory', () => {
+  it('从未打开返回 null，否则显示上次打开时间与次数', async () => {
+    const { formatRestoreHistory } = await import('@/utils/sessionPresentation');
+    const now = Date.parse('2026-06-10T08:00:00.000Z');
+    assert.equal(formatRestoreHistory({}, now), null);
+    assert.equal(
+      formatRestoreHistory({ restoreCount: 3, lastRestoredAt: '2026-06-07T08:00:00.000Z' }, now),
+      '上次打开 3天前 · 打开 3 次'
+    );
+    assert.equal(formatRestoreHistory({ restoreCount: 1 }, now), '打开 1 次');
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildOpenSessionMessage,
+  isRestoreTarget,
+  resolveLazyRestore,
+  resolveRestoreTarget,
+} from '../src/utils/sessionRestore.ts';
+
+const group = {
+  name: '周报资料',
+  color: 'blue' as const,
+  tabs: [
+    { id: 't1', url: 'https://a.com', title: 'A', createdAt: '', lastAccessed: '', pinned: true },
+    {
+      id: 't2',
+      url: 'https://b.com',
+      title: 'B',
+      createdAt: '',
+      lastAccessed: '',
+      nativeGroup: { title: '参考', color: 'green' as const },
+    },
+  ],
+};
+
+describe('buildOpenSessionMessage', () => {
+  it('携带标签页、会话名和颜色，未指定 lazy 时不写入该字段', () => {
+    const message = buildOpenSessionMessage(group);
+    assert.equal(message.type, 'OPEN_TABS');
+    assert.deepEqual(message.data.tabs, [
+      { url: 'https://a.com', pinned: true },
+      { url: 'https://b.com', pinned: false, nativeGroup: { title: '参考', color: 'green' } },
+    ]);
+    assert.deepEqual(message.data.session, { name: '周报资料', color: 'blue' });
+    assert.equal('lazy' in message.data, false);
+  });
+
+  it('显式传入 lazy 时写入消息', () => {
+    assert.equal(buildOpenSessionMessage(group, { lazy: false }).data.lazy, false);
+    assert.equal(buildOpenSessionMessage(group, { lazy: true }).data.lazy, true);
+  });
+
+  it('显式传入恢复位置时写入消息', () => {
+    assert.equal(buildOpenSessionMessage(group, { target: 'replace-window' }).data.target, 'replace-window');
+    assert.equal('target' in buildOpenSessionMessage(group).data, false);
+  });
+});
+
+describe('resolveLazyRestore', () => {
+  it('普通点击跟随设置，按住 Alt 时取反', () => {
+    assert.equal(resolveLazyRestore({ altKey: false }, true), true);
+    assert.equal(resolveLazyRestore({ altKey: true }, true), false);
+    assert.equal(resolveLazyRestore({ altKey: true }, false), true);
+    assert.equal(resolveLazyRestore(undefined, false), false);
+  });
+});
+
+describe('resolveRestoreTarget', () => {
+  const noKeys = { shiftKey: false, ctrlKey: false, metaKey: false };
+
+  it('不按修饰键时使用 fallback', () => {
+    assert.equal(resolveRestoreTarget(noKeys, 'current-window'), 'current-window');
+    assert.equal(resolveRestoreTarget(undefined, 'replace-window'), 'replace-window');
+  });
+
+  it('Shift → 新窗口，Ctrl/⌘ → 当前窗口，Ctrl/⌘ + Shift → 替换当前窗口', () => {
+    assert.equal(resolveRestoreTarget({ ...noKeys, shiftKey: true }, 'current-window'), 'new-window');
+    assert.equal(resolveRestoreTarget({ ...noKeys, ctrlKey: true }, 'new-window'), 'current-window');
+    assert.equal(resolveRestoreTarget({ ...noKeys, metaKey: true }, 'new-window'), 'current-window');
+    assert.equal(resolveRestoreTarget({ ...noKeys, metaKey: true, shiftKey: true }, 'new-window'), 'replace-window');
+  });
+});
+
+describe('isRestoreTarget', () => {
+  it('只接受已知的恢复位置', () => {
+    assert.equal(isRestoreTarget('replace-window'), true);
+    assert.equal(isRestoreTarget('tab'), false);
+    assert.equal(isRestoreTarget(undefined), false);
+  });
+});
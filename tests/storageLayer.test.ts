@@ -295,3 +295,28 @@ describe('storage layer: STORAGE_KEYS 通过实际行为验证', () => {
     assert.equal(got, ts);
   });
 });
+
+describe('storage layer: 上次浏览会话', () => {
+  it('setPreviousSession + getPreviousSession 往返，clear 后为 null', async () => {
+    const { storage } = await import('@/utils/storage');
+    const record = { capturedAt: NOW, windows: [makeGroup('w-1')] };
+
+    assert.equal(await storage.getPreviousSession(), null);
+    await storage.setPreviousSession(record as any);
+    assert.deepEqual(await storage.getPreviousSession(), record);
+
+    await storage.clearPreviousSession();
+    assert.equal(await storage.getPreviousSession(), null);
+  });
+
+  it('live_windows 加密落盘', async () => {
+    const { storage } = await import('@/utils/storage');
+    const { kvGet } = await import('@/storage/storageAdapter');
+    await storage.setLiveWindows({ capturedAt: NOW, windows: [makeGroup('w-secret')] } as any);
+
+    const raw = await kvGet<string>('live_windows');
+    assert.ok(typeof raw === 'string' && raw.startsWith('SECURE_V2:'));
+    assert.ok(!raw.includes('w-secret'));
+    assert.equal((await storage.getLiveWindows())?.windows[0].id, 'w-secret');
+  });
+});
@@ -516,6 +516,54 @@ describe('SyncEngine.upload: 失败处理', () => {
     const result = await engine.upload();
     assert.equal(result.success, true, 'mark 失败不应导致 upload 失败');
   });
+
+  it('从回收站恢复的组 → 撤销云端软删，处理后清空待处理列表', async () => {
+    const { SyncEngine } = await import('@/services/syncEngine');
+    const fakeStorage = makeFakeStorage({ groups: [makeGroup('restored'), makeGroup('again', { isDeleted: true })] });
+    let pending = ['restored', 'again'];
+    fakeStorage.getPendingCloudRestores = async () => [...pending];
+    fakeStorage.removePendingCloudRestores = async (ids: string[]) => {
+      pending = pending.filter(id => !ids.includes(id));
+    };
+    const unmarkStub = makeMarkDeletedStub();
+
+    const engine = new SyncEngine({
+      storage: fakeStorage,
+      uploadTabGroups: makeUploadStub(),
+      markCloudGroupsAsDeleted: makeMarkDeletedStub(),
+      unmarkCloudGroupsAsDeleted: unmarkStub,
+      cleanupCloudTombstones: makeGCStub(),
+      getState: makeFakeState({ isAuthenticated: true }),
+    });
+
+    const result = await engine.upload();
+    assert.equal(result.success, true);
+    assert.deepEqual(unmarkStub.ids, [['restored']], '又被删除的组不撤销');
+    assert.deepEqual(pending, []);
+  });
+
+  it('撤销云端软删失败 → upload 失败，保留待处理列表下次重试', async () => {
+    const { SyncEngine } = await import('@/services/syncEngine');
+    const fakeStorage = makeFakeStorage({ groups: [makeGroup('restored')] });
+    let pending = ['restored'];
+    fakeStorage.getPendingCloudRestores = async () => [...pending];
+    fakeStorage.removePendingCloudRestores = async (ids: string[]) => {
+      pending = pending.filter(id => !ids.includes(id));
+    };
+
+    const engine = new SyncEngine({
+      storage: fakeStorage,
+      uploadTabGroups: makeUploadStub(),
+      markCloudGroupsAsDeleted: makeMarkDeletedStub(),
+      unmarkCloudGroupsAsDeleted: async () => { throw new Error('unmark 失败'); },
+      cleanupCloudTombstones: makeGCStub(),
+      getState: makeFakeState({ isAuthenticated: true }),
+    });
+
+    const result = await engine.upload();
+    assert.equal(result.success, false);
+    assert.deepEqual(pending, ['restored']);
+  });
 });
 
 describe('SyncEngine: 调度上传', () => {
@@ -28,6 +28,7 @@ const LOADER_PATH = pathToFileURL(
 ).href;
 
 const NOW = '2026-06-04T08:00:00.000Z';
+const LATER = '2026-06-04T09:00:00.000Z';
 
 function makeGroup(id: string, name: string, overrides: Record<string, unknown> = {}) {
   return {
@@ -195,3 +196,20 @@ describe('syncMergeSafety: 同步合并不丢本地数据（真实生产路径
     );
   });
 });
+
+describe('syncMergeSafety: 字段级合并', () => {
+  it('会话颜色取较新一方，本地清除颜色后不会被云端恢复', async () => {
+    const { mergeTabGroups } = await import('@/utils/syncUtils');
+    const [cleared] = mergeTabGroups(
+      [makeGroup('g', 'G', { color: undefined, updatedAt: LATER, version: 3 })],
+      [makeGroup('g', 'G', { color: 'blue', version: 2 })]
+    );
+    assert.equal(cleared.color, undefined);
+
+    const [recoloredInCloud] = mergeTabGroups(
+      [makeGroup('g', 'G', { color: 'blue', version: 2 })],
+      [makeGroup('g', 'G', { color: 'red', updatedAt: LATER, version: 3 })]
+    );
+    assert.equal(recoloredInCloud.color, 'red');
+  });
+});
@@ -91,14 +91,19 @@ describe('storage.getLastSyncStatus', () => {
     assert.equal(status.lastSyncAt, '2026-08-05T12:00:00.000Z', '重开后上次同步时间仍可见');
   });
 
-  it('storage.clear() 清掉 last_sync_status → 回默认值', async () => {
+  it('storage.clear() 清掉 last_sync_status 与打开窗口的记录 → 回默认值', async () => {
     const { storage } = await import('@/utils/storage');
+    const windows = { capturedAt: '2026-08-05T12:00:00.000Z', windows: [] };
     await storage.setLastSyncStatus({
       lastSyncAt: '2026-08-05T12:00:00.000Z',
       lastSyncError: '同步失败，请稍后重试',
     });
+    await storage.setLiveWindows(windows as any);
+    await storage.setPreviousSession(windows as any);
     await storage.clear();
     const status = await storage.getLastSyncStatus();
     assert.deepEqual(status, { lastSyncAt: null, lastSyncError: null });
+    assert.equal(await storage.getLiveWindows(), null, '崩溃恢复用的窗口记录一并清除');
+    assert.equal(await storage.getPreviousSession(), null, '清除后不再提示恢复上次浏览会话');
   });
 });
@@ -63,6 +63,21 @@ describe('shouldAutoDeleteGroup', () => {
   });
 });
 
+describe('getEmptyGroupAction', () => {
+  it('默认删除清空的会话，开启归档选项后改为归档', async () => {
+    const { getEmptyGroupAction } = await import('@/utils/tabGroupUtils');
+    const g = makeGroup({ tabs: [] });
+    assert.equal(getEmptyGroupAction(g), 'delete');
+    assert.equal(getEmptyGroupAction(g, true), 'archive');
+  });
+
+  it('锁定或非空的会话不处理', async () => {
+    const { getEmptyGroupAction } = await import('@/utils/tabGroupUtils');
+    assert.equal(getEmptyGroupAction(makeGroup({ tabs: [], isLocked: true }), true), null);
+    assert.equal(getEmptyGroupAction(makeGroup(), true), null);
+  });
+});
+
 describe('shouldAutoDeleteAfterTabRemoval', () => {
   it('删除最后一个 tab 后未锁定 → 应自动删除', async () => {
     const { shouldAutoDeleteAfterTabRemoval } = await import('@/utils/tabGroupUtils');
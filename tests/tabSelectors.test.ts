@@ -31,7 +31,13 @@ before(async () => {
 
 // 注意：必须用动态 import，因为 alias-loader 必须在 register 之后才生效。
 // 静态 import 会在顶层求值，绕过 register 钩子，导致 ERR_MODULE_NOT_FOUND。
-const { selectGroups, selectSortedGroups, selectIsLoading, selectFavoriteGroups } = await import(
+const {
+  selectGroups,
+  selectSortedGroups,
+  selectIsLoading,
+  selectFavoriteGroups,
+  selectArchivedGroups,
+} = await import(
   '@/store/selectors/tabSelectors'
 );
 const { initialTabState } = await import('@/store/slices/tabSlice');
@@ -101,6 +107,21 @@ test('selectSortedGroups ignores searchQuery (consumer-side filter)', () => {
   assert.equal(selectSortedGroups(s1), selectSortedGroups(s2));
 });
 
+test('selectSortedGroups follows settings.groupSortOrder / groupRestoreFilter', () => {
+  const tab = (id: string, restoreCount: number, lastRestoredAt?: string) => ({
+    id, url: `https://x.com/${id}`, title: id, createdAt: '', lastAccessed: '', pinned: false, restoreCount, lastRestoredAt,
+  });
+  const a = mkGroup({ id: 'a', createdAt: '2026-08-05T00:00:00Z', tabs: [tab('a1', 0)] });
+  const b = mkGroup({ id: 'b', createdAt: '2026-08-01T00:00:00Z', tabs: [tab('b1', 3, '2026-08-02T00:00:00Z')] });
+  const c = mkGroup({ id: 'c', createdAt: '2026-08-03T00:00:00Z', tabs: [tab('c1', 1, '2026-08-04T00:00:00Z')] });
+  const groups = [a, b, c];
+
+  const sorted = (settings: any) => selectSortedGroups(makeRootState({ tabs: { groups } as any, settings })).map(g => g.id);
+  assert.deepEqual(sorted({ groupSortOrder: 'created' }), ['a', 'c', 'b']);
+  assert.deepEqual(sorted({ groupSortOrder: 'most-restored' }), ['b', 'c', 'a']);
+  assert.deepEqual(sorted({ groupSortOrder: 'last-restored', groupRestoreFilter: 'restored' }), ['c', 'b']);
+});
+
 // S3 §3: selectFavoriteGroups — 收藏会话过滤
 test('selectFavoriteGroups returns only groups with isFavorite=true', () => {
   const a = mkGroup({ id: 'a', isFavorite: false });
@@ -118,3 +139,13 @@ test('selectFavoriteGroups returns [] when no favorites exist', () => {
   const s = makeRootState({ tabs: { groups: [a, b] } as any });
   assert.deepEqual(selectFavoriteGroups(s), []);
 });
+
+test('archived groups are hidden from sorted / favorite lists and listed by selectArchivedGroups', () => {
+  const a = mkGroup({ id: 'a', isFavorite: true });
+  const b = mkGroup({ id: 'b', isFavorite: true, isArchived: true, archivedAt: '2026-08-06T00:00:00Z' });
+  const c = mkGroup({ id: 'c', isArchived: true, archivedAt: '2026-08-07T00:00:00Z' });
+  const s = makeRootState({ tabs: { groups: [a, b, c] } as any });
+  assert.deepEqual(selectSortedGroups(s).map(g => g.id), ['a']);
+  assert.deepEqual(selectFavoriteGroups(s).map(g => g.id), ['a']);
+  assert.deepEqual(selectArchivedGroups(s).map(g => g.id), ['c', 'b'], '最近归档的在前');
+});
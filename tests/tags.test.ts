@@ -0,0 +1,151 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { register } from 'node:module';
+import { pathToFileURL, fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import type { Tab, TabGroup } from '../src/types/tab.ts';
+
+const LOADER_PATH = pathToFileURL(
+  resolve(dirname(fileURLToPath(import.meta.url)), '_alias-loader.mjs')
+).href;
+
+const NOW = '2026-06-12T08:00:00.000Z';
+const LATER = '2026-06-12T09:00:00.000Z';
+
+before(() => {
+  register(LOADER_PATH);
+});
+
+const createTab = (id: string, overrides: Partial<Tab> = {}): Tab => ({
+  id,
+  url: `https://example.com/${id}`,
+  title: `Tab ${id}`,
+  createdAt: NOW,
+  lastAccessed: NOW,
+  pinned: false,
+  ...overrides,
+});
+
+const createGroup = (id: string, tabs: Tab[], overrides: Partial<TabGroup> = {}): TabGroup => ({
+  id,
+  name: `Group ${id}`,
+  tabs,
+  createdAt: NOW,
+  updatedAt: NOW,
+  isLocked: false,
+  ...overrides,
+});
+
+describe('标签输入', () => {
+  it('parseTagInput 按逗号 / 顿号 / 空白分隔，去掉 # 并不区分大小写去重', async () => {
+    const { parseTagInput, formatTagInput } = await import('@/domain/tabGroup/tags');
+    const tags = parseTagInput(' #工作，调研、Work  read,, ');
+    assert.deepEqual(tags, ['工作', '调研', 'Work', 'read']);
+    assert.deepEqual(parseTagInput('work WORK #Work'), ['work']);
+    assert.equal(formatTagInput(tags), '工作, 调研, Work, read');
+  });
+
+  it('sanitizeTags 过滤非字符串与空标签，空列表返回 undefined', async () => {
+    const { sanitizeTags, MAX_TAG_LENGTH } = await import('@/domain/tabGroup/tags');
+    assert.deepEqual(sanitizeTags(['a b', 3, '', '#', 'A-B']), ['a-b']);
+    assert.equal(sanitizeTags(['  ']), undefined);
+    assert.equal(sanitizeTags('work'), undefined);
+    assert.equal(sanitizeTags(['x'.repeat(40)])?.[0].length, MAX_TAG_LENGTH);
+  });
+
+  it('setGroupTags 清空时写为 undefined，合并更新时能覆盖旧标签', async () => {
+    const { setGroupTags } = await import('@/domain/tabGroup/tags');
+    const group = createGroup('g', [], { tags: ['work'] });
+    const cleared = setGroupTags(group, []);
+    assert.equal(cleared.tags, undefined);
+    assert.equal({ ...group, ...cleared }.tags, undefined);
+    assert.equal(JSON.stringify(cleared).includes('tags'), false);
+  });
+});
+
+describe('标签筛选与统计', () => {
+  const groups = (): TabGroup[] => [
+    createGroup('g1', [createTab('a'), createTab('b', { tags: ['read'] })], { tags: ['Work'] }),
+    createGroup('g2', [createTab('c', { tags: ['work', 'later'] })]),
+    createGroup('g3', [createTab('d')]),
+    createGroup('g4', [createTab('e', { tags: ['work'] })], { isDeleted: true }),
+  ];
+
+  it('标签页继承会话标签，会话按自身或任一标签页的标签命中', async () => {
+    const { getEffectiveTabTags, tabHasTag, filterGroupsByTag } = await import('@/domain/tabGroup/tags');
+    const [g1] = groups();
+    assert.deepEqual(getEffectiveTabTags(g1.tabs[1], g1), ['read', 'Work']);
+    assert.equal(tabHasTag(g1.tabs[0], g1, 'work'), true);
+    assert.equal(tabHasTag(g1.tabs[0], g1, 'read'), false);
+    assert.deepEqual(filterGroupsByTag(groups(), 'WORK').map(g => g.id), ['g1', 'g2', 'g4']);
+    assert.equal(filterGroupsByTag(groups(), null).length, 4);
+  });
+
+  it('collectTagCounts 按会话计数，跳过已删除会话，按数量降序', async () => {
+    const { collectTagCounts } = await import('@/domain/tabGroup/tags');
+    assert.deepEqual(collectTagCounts(groups()), [
+      { tag: 'Work', count: 2 },
+      { tag: 'later', count: 1 },
+      { tag: 'read', count: 1 },
+    ]);
+  });
+});
+
+describe('applyTagEdit', () => {
+  it('rename 同时修改会话与标签页标签，与已有标签重名时合并；未改动的会话保持原引用', async () => {
+    const { applyTagEdit } = await import('@/domain/tabGroup/tags');
+    const input = [
+      createGroup('g1', [createTab('a', { tags: ['work', 'Focus'] })], { tags: ['work'] }),
+      createGroup('g2', [createTab('b')]),
+    ];
+    const edited = applyTagEdit(input, { type: 'rename', from: 'WORK', to: 'focus' });
+
+    assert.deepEqual(edited[0].tags, ['focus']);
+    assert.deepEqual(edited[0].tabs[0].tags, ['focus']);
+    assert.equal(edited[1], input[1]);
+    assert.deepEqual(input[0].tags, ['work']);
+  });
+
+  it('remove 移除所有位置的标签，已删除会话不处理', async () => {
+    const { applyTagEdit } = await import('@/domain/tabGroup/tags');
+    const deleted = createGroup('g2', [createTab('b', { tags: ['old'] })], { isDeleted: true });
+    const edited = applyTagEdit(
+      [createGroup('g1', [createTab('a', { tags: ['old', 'keep'] })], { tags: ['old'] }), deleted],
+      { type: 'remove', tag: 'old' }
+    );
+
+    assert.equal(edited[0].tags, undefined);
+    assert.deepEqual(edited[0].tabs[0].tags, ['keep']);
+    assert.equal(edited[1], deleted);
+  });
+
+  it('add-to-tabs 只给指定标签页添加，已有标签时不产生改动', async () => {
+    const { applyTagEdit } = await import('@/domain/tabGroup/tags');
+    const input = [
+      createGroup('g1', [createTab('a'), createTab('b'), createTab('c', { tags: ['Read'] })]),
+      createGroup('g2', [createTab('d')]),
+    ];
+    const edited = applyTagEdit(input, { type: 'add-to-tabs', targets: { g1: ['a', 'c'] }, tags: ['read'] });
+
+    assert.deepEqual(edited[0].tabs.map(tab => tab.tags), [['read'], undefined, ['Read']]);
+    assert.equal(edited[0].tabs[2], input[0].tabs[2]);
+    assert.equal(edited[1], input[1]);
+  });
+});
+
+describe('标签同步', () => {
+  it('mergeTabGroups 的会话标签取较新一方，本地删光标签后不会被云端恢复', async () => {
+    const { mergeTabGroups } = await import('@/utils/syncUtils');
+    const [cleared] = mergeTabGroups(
+      [createGroup('g', [], { tags: undefined, updatedAt: LATER, version: 3 })],
+      [createGroup('g', [], { tags: ['work'], version: 2 })]
+    );
+    assert.equal(cleared.tags, undefined);
+
+    const [taggedInCloud] = mergeTabGroups(
+      [createGroup('g', [], { tags: ['work'], version: 2 })],
+      [createGroup('g', [], { tags: ['work', 'urgent'], updatedAt: LATER, version: 3 })]
+    );
+    assert.deepEqual(taggedInCloud.tags, ['work', 'urgent']);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { register } from 'node:module';
+import { pathToFileURL, fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import type { Tab, TabGroup } from '../src/types/tab.ts';
+
+const LOADER_PATH = pathToFileURL(
+  resolve(dirname(fileURLToPath(import.meta.url)), '_alias-loader.mjs')
+).href;
+
+const NOW = '2026-06-20T08:00:00.000Z';
+const daysAgo = (days: number) => new Date(Date.parse(NOW) - days * 24 * 60 * 60 * 1000).toISOString();
+
+before(() => {
+  register(LOADER_PATH);
+});
+
+const createTab = (id: string): Tab => ({
+  id,
+  url: `https://example.com/${id}`,
+  title: id,
+  createdAt: daysAgo(10),
+  lastAccessed: daysAgo(10),
+  pinned: false,
+});
+
+const createGroup = (id: string, tabIds: string[], overrides: Partial<TabGroup> = {}): TabGroup => ({
+  id,
+  name: `Group ${id}`,
+  tabs: tabIds.map(createTab),
+  createdAt: daysAgo(10),
+  updatedAt: daysAgo(10),
+  isLocked: false,
+  version: 3,
+  ...overrides,
+});
+
+describe('回收站：放入与过期', () => {
+  it('会话按删除时间倒序保存，同一会话只保留最新快照，超过 30 天的项被清理', async () => {
+    const { addGroupsToTrash } = await import('@/domain/tabGroup/trash');
+    const old = { group: createGroup('old', ['o1']), deletedAt: daysAgo(31) };
+    const kept = { group: createGroup('kept', ['k1']), deletedAt: daysAgo(5) };
+    const stale = { group: createGroup('a', ['a1']), deletedAt: daysAgo(2) };
+
+    const entries = addGroupsToTrash([stale, kept, old], [createGroup('a', ['a1', 'a2'])], NOW);
+    assert.deepEqual(entries.map(entry => entry.group.id), ['a', 'kept']);
+    assert.equal(entries[0].group.tabs.length, 2);
+    assert.equal(entries[0].deletedAt, NOW);
+  });
+
+  it('标签页记录所在会话与原位置', async () => {
+    const { addTabsToTrash } = await import('@/domain/tabGroup/trash');
+    const entries = addTabsToTrash([], createGroup('g', ['t1', 't2', 't3']), ['t3', 't2'], NOW);
+    assert.deepEqual(
+      entries.map(({ tab, groupId, groupName, index }) => [tab.id, groupId, groupName, index]),
+      [['t2', 'g', 'Group g', 1], ['t3', 'g', 'Group g', 2]]
+    );
+  });
+});
+
+describe('回收站：恢复会话', () => {
+  it('本地还有墓碑时原地替换，版本号高于墓碑', async () => {
+    const { restoreTrashedGroup } = await import('@/domain/tabGroup/trash');
+    const tombstone = createGroup('g', ['t1'], { isDeleted: true, version: 4 });
+    const entry = { group: createGroup('g', ['t1']), deletedAt: daysAgo(1) };
+
+    const { groups, restored } = restoreTrashedGroup([createGroup('x', []), tombstone], entry, NOW);
+    assert.deepEqual(groups.map(group => group.id), ['x', 'g']);
+    assert.equal(restored.isDeleted, false);
+    assert.equal(restored.version, 5);
+    assert.equal(restored.updatedAt, NOW);
+  });
+
+  it('墓碑已被同步清除时追加；同 id 的会话已存在时不改动', async () => {
+    const { restoreTrashedGroup } = await import('@/domain/tabGroup/trash');
+    const entry = { group: createGroup('g', ['t1']), deletedAt: daysAgo(1) };
+
+    const appended = restoreTrashedGroup([], entry, NOW);
+    assert.deepEqual(appended.groups.map(group => group.id), ['g']);
+    assert.equal(appended.restored.version, 4);
+
+    const live = createGroup('g', ['t1', 't2']);
+    const unchanged = restoreTrashedGroup([live], entry, NOW);
+    assert.equal(unchanged.restored, live);
+  });
+});
+
+describe('回收站：恢复标签页', () => {
+  it('放回原会话的原位置', async () => {
+    const { addTabsToTrash, restoreTrashedTabs } = await import('@/domain/tabGroup/trash');
+    const before = createGroup('g', ['t1', 't2', 't3', 't4']);
+    const entries = addTabsToTrash([], before, ['t1', 't3'], NOW);
+    const after = { ...before, tabs: before.tabs.filter(tab => tab.id === 't2' || tab.id === 't4') };
+
+    const { updated, revivedIds } = restoreTrashedTabs([after], entries, NOW);
+    assert.deepEqual(updated[0].tabs.map(tab => tab.id), ['t1', 't2', 't3', 't4']);
+    assert.equal(updated[0].version, 4);
+    assert.deepEqual(revivedIds, []);
+  });
+
+  it('原会话只剩墓碑时一并恢复，墓碑也不在时按原名称新建会话', async () => {
+    const { addTabsToTrash, restoreTrashedTabs } = await import('@/domain/tabGroup/trash');
+    const entries = [
+      ...addTabsToTrash([], createGroup('emptied', ['e1']), ['e1'], NOW),
+      ...addTabsToTrash([], createGroup('gone', ['g1', 'g2']), ['g1', 'g2'], NOW),
+    ];
+    const tombstone = createGroup('emptied', [], { isDeleted: true });
+
+    const { groups, updated, revivedIds } = restoreTrashedTabs([tombstone], entries, NOW);
+    assert.deepEqual(revivedIds, ['emptied']);
+    assert.deepEqual(updated[0].tabs.map(tab => tab.id), ['e1']);
+    assert.equal(updated[0].isDeleted, false);
+
+    const created = updated[1];
+    assert.notEqual(created.id, 'gone');
+    assert.equal(created.name, 'Group gone');
+    assert.deepEqual(created.tabs.map(tab => tab.id), ['g1', 'g2']);
+    assert.equal(groups.length, 2);
+  });
+});
@@ -0,0 +1,231 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { register } from 'node:module';
+import { pathToFileURL, fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import { configureStore, combineReducers } from '@reduxjs/toolkit';
+import type { HistoryEntry, TabGroup, UndoHistory } from '../src/types/tab.ts';
+
+globalThis.__TABSTACK_META_ENV__ = {
+  VITE_SUPABASE_URL: 'https://stub.supabase.co',
+  VITE_SUPABASE_ANON_KEY: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.stub.stub',
+  DEV: false,
+  MODE: 'test',
+};
+
+const LOADER_PATH = pathToFileURL(
+  resolve(dirname(fileURLToPath(import.meta.url)), '_alias-loader.mjs')
+).href;
+
+const NOW = '2026-06-20T08:00:00.000Z';
+const secondsLater = (seconds: number) => new Date(Date.parse(NOW) + seconds * 1000).toISOString();
+
+before(() => {
+  register(LOADER_PATH);
+});
+
+const createGroup = (id: string, overrides: Partial<TabGroup> = {}): TabGroup => ({
+  id,
+  name: `Group ${id}`,
+  tabs: [],
+  createdAt: NOW,
+  updatedAt: NOW,
+  isLocked: false,
+  version: 3,
+  ...overrides,
+});
+
+const createEntry = (id: string, at: string, changes: HistoryEntry['changes']): HistoryEntry => ({
+  id,
+  label: '编辑会话',
+  at,
+  changes,
+});
+
+describe('撤销历史：记录改动', () => {
+  it('只记录有改动的会话，软删除的会话视为不存在', async () => {
+    const { diffGroups } = await import('@/domain/tabGroup/history');
+    const kept = createGroup('kept');
+    const renamed = createGroup('renamed');
+    const removed = createGroup('removed');
+    const added = createGroup('added');
+
+    const changes = diffGroups(
+      [kept, renamed, removed],
+      [kept, { ...renamed, name: 'New name' }, { ...removed, isDeleted: true }, added]
+    );
+    assert.deepEqual(
+      changes.map(change => [change.groupId, change.before?.name ?? null, change.after?.name ?? null]),
+      [
+        ['renamed', 'Group renamed', 'New name'],
+        ['removed', 'Group removed', null],
+        ['added', null, 'Group added'],
+      ]
+    );
+  });
+
+  it('间隔很短的改动合并为一步，改回原样的会话被去掉；记录新操作清空重做栈', async () => {
+    const { recordHistoryEntry } = await import('@/domain/tabGroup/history');
+    const original = createGroup('a');
+    const renamed = { ...original, name: 'Renamed' };
+    const other = createGroup('b');
+    const history: UndoHistory = {
+      past: [createEntry('first', NOW, [{ groupId: 'a', before: original, after: renamed }])],
+      future: [createEntry('undone', NOW, [])],
+    };
+
+    const merged = recordHistoryEntry(
+      history,
+      createEntry('second', secondsLater(0.5), [
+        { groupId: 'a', before: renamed, after: original },
+        { groupId: 'b', before: null, after: other },
+      ])
+    );
+    assert.equal(merged.past.length, 1);
+    assert.deepEqual(merged.past[0].changes.map(change => change.groupId), ['b']);
+    assert.equal(merged.future.length, 0);
+
+    const appended = recordHistoryEntry(
+      merged,
+      createEntry('third', secondsLater(5), [{ groupId: 'a', before: original, after: renamed }])
+    );
+    assert.deepEqual(appended.past.map(entry => entry.id), ['first', 'third']);
+  });
+
+  it('超过上限时丢弃最早的一步', async () => {
+    const { recordHistoryEntry, HISTORY_LIMIT, EMPTY_HISTORY } = await import('@/domain/tabGroup/history');
+    let history = EMPTY_HISTORY;
+    for (let index = 0; index <= HISTORY_LIMIT; index++) {
+      history = recordHistoryEntry(
+        history,
+        createEntry(`e${index}`, secondsLater(index * 10), [
+          { groupId: 'a', before: null, after: createGroup('a', { name: `v${index}` }) },
+        ])
+      );
+    }
+    assert.equal(history.past.length, HISTORY_LIMIT);
+    assert.equal(history.past[0].id, 'e1');
+  });
+});
+
+describe('撤销历史：撤销与重做', () => {
+  it('撤销删除恢复会话（版本号高于墓碑），重做再次软删除并放回回收站', async () => {
+    const { applyHistoryEntry } = await import('@/domain/tabGroup/history');
+    const group = createGroup('a', { version: 3 });
+    const tombstone = { ...group, isDeleted: true, version: 4 };
+    const entry = createEntry('delete', NOW, [{ groupId: 'a', before: group, after: null }]);
+
+    const undone = applyHistoryEntry([tombstone], entry, 'undo', secondsLater(10));
+    assert.equal(undone.groups[0].isDeleted, false);
+    assert.equal(undone.groups[0].version, 5);
+    assert.deepEqual(undone.revivedIds, ['a']);
+    assert.deepEqual(undone.removedIds, []);
+    assert.deepEqual(undone.trashed, []);
+
+    const redone = applyHistoryEntry(undone.groups, entry, 'redo', secondsLater(20));
+    assert.equal(redone.groups[0].isDeleted, true);
+    assert.equal(redone.groups[0].version, 6);
+    assert.deepEqual(redone.removedIds, ['a']);
+    assert.deepEqual(redone.trashed, [undone.groups[0]]);
+  });
+
+  it('撤销新建软删除会话，但不放进回收站', async () => {
+    const { applyHistoryEntry } = await import('@/domain/tabGroup/history');
+    const group = createGroup('a');
+    const entry = createEntry('create', NOW, [{ groupId: 'a', before: null, after: group }]);
+
+    const undone = applyHistoryEntry([group], entry, 'undo', secondsLater(10));
+    assert.deepEqual(undone.removedIds, ['a']);
+    assert.deepEqual(undone.trashed, []);
+  });
+
+  it('撤销改名写回旧名称，本地墓碑已清除时追加会话', async () => {
+    const { applyHistoryEntry } = await import('@/domain/tabGroup/history');
+    const original = createGroup('a', { version: 2 });
+    const renamed = { ...original, name: 'Renamed', version: 3 };
+    const entry = createEntry('rename', NOW, [
+      { groupId: 'a', before: original, after: renamed },
+      { groupId: 'gone', before: createGroup('gone'), after: null },
+    ]);
+
+    const { groups, updated, revivedIds } = applyHistoryEntry([renamed], entry, 'undo', secondsLater(10));
+    assert.deepEqual(groups.map(group => [group.id, group.name, group.version]), [
+      ['a', 'Group a', 4],
+      ['gone', 'Group gone', 4],
+    ]);
+    assert.equal(updated.length, 2);
+    assert.deepEqual(revivedIds, ['gone']);
+  });
+});
+
+describe('撤销历史中间件', () => {
+  const createStore = async (persisted: UndoHistory[]) => {
+    const { default: tabReducer, initialTabState } = await import('@/store/slices/tabSlice');
+    const { default: historyReducer } = await import('@/store/slices/historySlice');
+    const { undoHistoryMiddleware } = await import('@/store/middleware/undoHistoryMiddleware');
+    return configureStore({
+      reducer: combineReducers({ tabs: tabReducer, history: historyReducer }),
+      preloadedState: { tabs: { ...initialTabState, groups: [createGroup('a'), createGroup('b')] } } as any,
+      middleware: getDefaultMiddleware =>
+        getDefaultMiddleware({ serializableCheck: false, immutableCheck: false }).concat(
+          undoHistoryMiddleware({ persistFn: history => persisted.push(history), delayMs: 0 })
+        ),
+    });
+  };
+
+  it('记录列表中的会话编辑，忽略加载、搜索等其他 action', async () => {
+    const { updateGroupName, setSearchQuery, setGroups } = await import('@/store/slices/tabSlice');
+    const store = await createStore([]);
+
+    store.dispatch(setSearchQuery('query'));
+    store.dispatch(setGroups([createGroup('a'), createGroup('b'), createGroup('synced')]));
+    store.dispatch(updateGroupName({ groupId: 'a', name: 'Renamed' }));
+
+    const { past } = store.getState().history;
+    assert.equal(past.length, 1);
+    assert.equal(past[0].label, '重命名会话');
+    assert.equal(past[0].changes[0].before?.name, 'Group a');
+    assert.equal(past[0].changes[0].after?.name, 'Renamed');
+  });
+
+  it('带 skipHistory 的 updateGroup（记录打开次数）不记录，同时进行的用户编辑照常记录', async () => {
+    const store = await createStore([]);
+    const restored = createGroup('a', { restoreCount: 1 });
+    store.dispatch({ type: 'tabs/recordTabRestores/pending' });
+    store.dispatch({
+      type: 'tabs/updateGroup/fulfilled',
+      payload: restored,
+      meta: { arg: { group: restored, skipHistory: true } },
+    });
+    assert.equal(store.getState().history.past.length, 0);
+
+    const edited = createGroup('b', { notes: 'edited' });
+    store.dispatch({ type: 'tabs/updateGroup/fulfilled', payload: edited, meta: { arg: edited } });
+    store.dispatch({ type: 'tabs/recordTabRestores/fulfilled' });
+    assert.equal(store.getState().history.past.length, 1);
+    assert.deepEqual(store.getState().history.past[0].changes.map(change => change.groupId), ['b']);
+  });
+
+  it('加载存储中的历史之前不保存，加载后与新记录合并保存', async () => {
+    const { toggleGroupLock } = await import('@/store/slices/tabSlice');
+    const { loadHistory } = await import('@/store/slices/historySlice');
+    const persisted: UndoHistory[] = [];
+    const store = await createStore(persisted);
+
+    store.dispatch(toggleGroupLock('a'));
+    await new Promise(resolve => setTimeout(resolve, 5));
+    assert.equal(persisted.length, 0);
+
+    const saved = createEntry('saved', '2026-06-01T00:00:00.000Z', [
+      { groupId: 'b', before: null, after: createGroup('b') },
+    ]);
+    store.dispatch({ type: loadHistory.fulfilled.type, payload: { past: [saved], future: [] } });
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    assert.equal(persisted.length, 1);
+    assert.deepEqual(
+      persisted[0].past.map(entry => entry.label),
+      ['编辑会话', '锁定 / 解锁会话']
+    );
+  });
+});
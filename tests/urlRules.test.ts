@@ -0,0 +1,192 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { register } from 'node:module';
+import { pathToFileURL, fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import type { UrlRule } from '../src/types/tab.ts';
+
+const LOADER_PATH = pathToFileURL(
+  resolve(dirname(fileURLToPath(import.meta.url)), '_alias-loader.mjs')
+).href;
+
+const createRule = (overrides: Partial<UrlRule> = {}): UrlRule => ({
+  id: 'r1',
+  pattern: '*.example.com/*',
+  patternType: 'glob',
+  action: 'never-save',
+  enabled: true,
+  ...overrides,
+});
+
+const createChromeTab = (overrides: Partial<chrome.tabs.Tab> = {}): chrome.tabs.Tab => ({
+  id: 1,
+  index: 0,
+  windowId: 1,
+  url: 'https://example.com',
+  title: 'Example',
+  pinned: false,
+  highlighted: false,
+  active: false,
+  incognito: false,
+  selected: false,
+  discarded: false,
+  autoDiscardable: true,
+  groupId: -1,
+  frozen: false,
+  ...overrides,
+} as chrome.tabs.Tab);
+
+before(() => {
+  register(LOADER_PATH);
+});
+
+describe('matchesUrlRule', () => {
+  it('不带协议的 glob 同时匹配 http 与 https', async () => {
+    const { matchesUrlRule } = await import('@/domain/tabGroup/urlRules');
+    const rule = createRule({ pattern: '*.example.com/*' });
+    assert.equal(matchesUrlRule('https://docs.example.com/a', rule), true);
+    assert.equal(matchesUrlRule('http://mail.example.com/', rule), true);
+    assert.equal(matchesUrlRule('https://example.org/', rule), false);
+  });
+
+  it('带协议的 glob 匹配完整 URL，? 匹配单个字符', async () => {
+    const { matchesUrlRule } = await import('@/domain/tabGroup/urlRules');
+    const rule = createRule({ pattern: 'https://example.com/item?' });
+    assert.equal(matchesUrlRule('https://example.com/item1', rule), true);
+    assert.equal(matchesUrlRule('http://example.com/item1', rule), false);
+    assert.equal(matchesUrlRule('https://example.com/item12', rule), false);
+  });
+
+  it('glob 中的正则特殊字符按字面匹配', async () => {
+    const { matchesUrlRule } = await import('@/domain/tabGroup/urlRules');
+    const rule = createRule({ pattern: 'example.com/a+b(1)' });
+    assert.equal(matchesUrlRule('https://example.com/a+b(1)', rule), true);
+    assert.equal(matchesUrlRule('https://exampleXcom/aab1', rule), false);
+  });
+
+  it('正则在完整 URL 中查找且不区分大小写，无效正则不匹配', async () => {
+    const { matchesUrlRule } = await import('@/domain/tabGroup/urlRules');
+    assert.equal(matchesUrlRule('https://GitHub.com/org/repo/pull/1', createRule({
+      pattern: 'github\\.com/.+/pull/\\d+',
+      patternType: 'regex',
+    })), true);
+    assert.equal(matchesUrlRule('https://github.com', createRule({ pattern: '(', patternType: 'regex' })), false);
+  });
+});
+
+describe('hasUrlRuleAction / applyAlwaysPinRules', () => {
+  it('只考虑启用中、动作匹配的规则', async () => {
+    const { hasUrlRuleAction } = await import('@/domain/tabGroup/urlRules');
+    const rules = [
+      createRule({ id: 'a', action: 'always-pin' }),
+      createRule({ id: 'b', action: 'never-save', enabled: false }),
+    ];
+    assert.equal(hasUrlRuleAction('https://a.example.com/', rules, 'always-pin'), true);
+    assert.equal(hasUrlRuleAction('https://a.example.com/', rules, 'never-save'), false);
+    assert.equal(hasUrlRuleAction('https://a.example.com/', undefined, 'always-pin'), false);
+  });
+
+  it('命中 always-pin 的标签页恢复为固定标签页', async () => {
+    const { applyAlwaysPinRules } = await import('@/domain/tabGroup/urlRules');
+    const tabs = [
+      { url: 'https://mail.example.com/' },
+      { url: 'https://other.org/', pinned: false },
+    ];
+    const result = applyAlwaysPinRules(tabs, [createRule({ action: 'always-pin' })]);
+    assert.deepEqual(result, [
+      { url: 'https://mail.example.com/', pinned: true },
+      { url: 'https://other.org/', pinned: false },
+    ]);
+    assert.equal(result[1], tabs[1]);
+  });
+});
+
+describe('URL 规则与保存 / 自动收集', () => {
+  it('filterValidTabs 和 createTabGroupFromChromeTabs 排除 never-save', async () => {
+    const { filterValidTabs } = await import('@/domain/tabGroup/filters');
+    const { createTabGroupFromChromeTabs } = await import('@/domain/tabGroup/factory');
+    const tabs = [
+      createChromeTab({ id: 1, url: 'https://bank.example.com/account' }),
+      createChromeTab({ id: 2, url: 'https://news.org/' }),
+    ];
+    const urlRules = [createRule()];
+
+    assert.deepEqual(filterValidTabs(tabs, { urlRules }).map(tab => tab.id), [2]);
+    assert.deepEqual(
+      createTabGroupFromChromeTabs(tabs, { urlRules }).tabs.map(tab => tab.url),
+      ['https://news.org/']
+    );
+  });
+
+  it('selectIdleTabs 跳过 skip-auto-collect 与 never-save', async () => {
+    const { selectIdleTabs } = await import('@/domain/tabGroup/idleTabs');
+    const tabs = [
+      createChromeTab({ id: 1, url: 'https://a.example.com/', lastAccessed: 0 }),
+      createChromeTab({ id: 2, url: 'https://b.org/', lastAccessed: 0 }),
+      createChromeTab({ id: 3, url: 'https://c.org/', lastAccessed: 0 }),
+    ];
+    const idle = selectIdleTabs(tabs, {
+      now: 10 * 60 * 60_000,
+      idleMinutes: 60,
+      lastActiveAt: {},
+      whitelist: [],
+      urlRules: [
+        createRule({ id: 'a', action: 'skip-auto-collect' }),
+        createRule({ id: 'b', pattern: 'b.org/*', action: 'never-save' }),
+      ],
+    });
+    assert.deepEqual(idle.map(tab => tab.id), [3]);
+  });
+});
+
+describe('规则导入 / 导出', () => {
+  it('导出不含 id，导入后重新生成 id 并跳过无效条目', async () => {
+    const { buildUrlRulesExport, parseUrlRulesImport } = await import('@/domain/tabGroup/urlRules');
+    const exported = buildUrlRulesExport([createRule({ id: 'local' })], '2026-06-04T08:00:00.000Z');
+    assert.equal(exported.format, 'tabstack-url-rules');
+    assert.deepEqual(exported.rules, [{
+      pattern: '*.example.com/*',
+      patternType: 'glob',
+      action: 'never-save',
+      enabled: true,
+    }]);
+
+    const { rules, skipped } = parseUrlRulesImport({
+      ...exported,
+      rules: [
+        ...exported.rules,
+        { pattern: '(', patternType: 'regex', action: 'never-save' },
+        { pattern: 'x.com/*', action: 'unknown' },
+        { pattern: 'y.com/*', action: 'always-pin' },
+      ],
+    });
+    assert.equal(skipped, 2);
+    assert.equal(rules.length, 2);
+    assert.notEqual(rules[0].id, 'local');
+    assert.equal(rules[1].patternType, 'glob');
+    assert.equal(rules[1].enabled, true);
+  });
+
+  it('不是规则文件时抛出错误', async () => {
+    const { parseUrlRulesImport } = await import('@/domain/tabGroup/urlRules');
+    assert.throws(() => parseUrlRulesImport({ groups: [] }));
+  });
+
+  it('合并时跳过模式、类型、动作都相同的规则', async () => {
+    const { mergeUrlRules } = await import('@/domain/tabGroup/urlRules');
+    const existing = [createRule({ id: 'a' })];
+    const result = mergeUrlRules(existing, [
+      createRule({ id: 'b' }),
+      createRule({ id: 'c', action: 'always-pin' }),
+    ]);
+    assert.equal(result.addedCount, 1);
+    assert.deepEqual(result.rules.map(rule => rule.id), ['a', 'c']);
+  });
+
+  it('validateUrlRulePattern 报告空模式与无效正则', async () => {
+    const { validateUrlRulePattern } = await import('@/domain/tabGroup/urlRules');
+    assert.equal(validateUrlRulePattern('  ', 'glob'), '匹配模式不能为空');
+    assert.match(validateUrlRulePattern('[', 'regex') ?? '', /正则表达式无效/);
+    assert.equal(validateUrlRulePattern('a.com/*', 'glob'), null);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { register } from 'node:module';
+import { pathToFileURL, fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import type { Tab, TabGroup } from '../src/types/tab.ts';
+
+const LOADER_PATH = pathToFileURL(
+  resolve(dirname(fileURLToPath(import.meta.url)), '_alias-loader.mjs')
+).href;
+
+const NOW = '2026-06-05T08:00:00.000Z';
+
+before(() => {
+  register(LOADER_PATH);
+});
+
+const createTab = (id: string, url: string, overrides: Partial<Tab> = {}): Tab => ({
+  id,
+  url,
+  title: `Tab ${id}`,
+  createdAt: NOW,
+  lastAccessed: NOW,
+  ...overrides,
+});
+
+const createGroup = (id: string, tabs: Tab[], overrides: Partial<TabGroup> = {}): TabGroup => ({
+  id,
+  name: `Group ${id}`,
+  tabs,
+  createdAt: NOW,
+  updatedAt: NOW,
+  isLocked: false,
+  ...overrides,
+});
+
+describe('isConsumedOnRestore', () => {
+  it('锁定的会话和模板恢复后都保留', async () => {
+    const { isConsumedOnRestore } = await import('@/domain/tabGroup/workspaceTemplate');
+    assert.equal(isConsumedOnRestore({ isLocked: false }), true);
+    assert.equal(isConsumedOnRestore({ isLocked: true }), false);
+    assert.equal(isConsumedOnRestore({ isLocked: false, isTemplate: true }), false);
+  });
+});
+
+describe('extractTemplateVariables', () => {
+  it('按出现顺序去重，支持被编码的花括号和中文变量名', async () => {
+    const { extractTemplateVariables } = await import('@/domain/tabGroup/workspaceTemplate');
+    assert.deepEqual(
+      extractTemplateVariables([
+        'https://jira.example.com/browse/{ticket}',
+        'https://{env}.example.com/logs?q={ticket}',
+        'https://ci.example.com/%7Bbranch%7D',
+        'https://wiki.example.com/{项目}',
+      ]),
+      ['ticket', 'env', 'branch', '项目']
+    );
+    assert.deepEqual(extractTemplateVariables(['https://example.com/{}']), []);
+  });
+});
+
+describe('fillTemplateUrl', () => {
+  it('代入编码后的值，未填写的变量保持原样', async () => {
+    const { fillTemplateUrl } = await import('@/domain/tabGroup/workspaceTemplate');
+    assert.equal(
+      fillTemplateUrl('https://x.com/search?q={query}&p=%7Bpage%7D&t={ticket}', { query: ' a b/c ', page: '2' }),
+      'https://x.com/search?q=a%20b%2Fc&p=2&t={ticket}'
+    );
+  });
+});
+
+describe('fillWorkspaceTemplate', () => {
+  it('返回代入后的副本，模板本身不变', async () => {
+    const { fillWorkspaceTemplate } = await import('@/domain/tabGroup/workspaceTemplate');
+    const template = createGroup('t', [createTab('1', 'https://jira.example.com/browse/{ticket}')], { isTemplate: true });
+    const launched = fillWorkspaceTemplate(template, { ticket: 'OPS-42' });
+
+    assert.equal(launched.tabs[0].url, 'https://jira.example.com/browse/OPS-42');
+    assert.equal(launched.id, 't');
+    assert.equal(template.tabs[0].url, 'https://jira.example.com/browse/{ticket}');
+  });
+});
+
+describe('findMissingTemplateValues', () => {
+  it('空白值视为未填写', async () => {
+    const { findMissingTemplateValues } = await import('@/domain/tabGroup/workspaceTemplate');
+    assert.deepEqual(findMissingTemplateValues(['a', 'b', 'c'], { a: 'x', b: '  ' }), ['b', 'c']);
+  });
+});
+
+describe('selectWorkspaceTemplates', () => {
+  it('只列出未删除、非空的模板，按名称排序', async () => {
+    const { selectWorkspaceTemplates } = await import('@/domain/tabGroup/workspaceTemplate');
+    const tab = createTab('1', 'https://a.com');
+    const groups = [
+      createGroup('b', [tab], { name: 'Beta', isTemplate: true }),
+      createGroup('a', [tab], { name: 'Alpha', isTemplate: true }),
+      createGroup('deleted', [tab], { isTemplate: true, isDeleted: true }),
+      createGroup('empty', [], { isTemplate: true }),
+      createGroup('plain', [tab]),
+    ];
+
+    assert.deepEqual(selectWorkspaceTemplates(groups).map(group => group.id), ['a', 'b']);
+  });
+});
+
+describe('validateTemplateUrl', () => {
+  it('代入示例值后必须是 http(s) 链接', async () => {
+    const { validateTemplateUrl } = await import('@/domain/tabGroup/workspaceTemplate');
+    assert.equal(validateTemplateUrl('https://{env}.example.com/{path}'), null);
+    assert.match(validateTemplateUrl('javascript:alert({x})') ?? '', /不是有效的 http\(s\) 链接/);
+    assert.match(validateTemplateUrl('{host}/x') ?? '', /不是有效的 http\(s\) 链接/);
+  });
+});
+
+describe('parseTemplateUrlList', () => {
+  it('保留未改动的标签页，为新链接生成标签页，忽略空行与重复', async () => {
+    const { parseTemplateUrlList, formatTemplateUrlList } = await import('@/domain/tabGroup/workspaceTemplate');
+    const existing = [
+      createTab('keep', 'https://grafana.example.com/d/1', { title: 'Grafana', favicon: 'icon.png' }),
+      createTab('drop', 'https://old.example.com'),
+    ];
+
+    assert.equal(formatTemplateUrlList(existing), 'https://grafana.example.com/d/1\nhttps://old.example.com');
+
+    const { tabs, errors } = parseTemplateUrlList(
+      '\nhttps://jira.example.com/browse/{ticket}\n  https://grafana.example.com/d/1  \n\nhttps://jira.example.com/browse/{ticket}\n',
+      existing,
+      NOW
+    );
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(tabs.map(tab => tab.url), [
+      'https://jira.example.com/browse/{ticket}',
+      'https://grafana.example.com/d/1',
+    ]);
+    assert.equal(tabs[0].title, 'jira.example.com/browse/{ticket}');
+    assert.equal(tabs[0].createdAt, NOW);
+    assert.equal(tabs[1], existing[0]);
+  });
+
+  it('有无效链接时返回错误且不生成标签页', async () => {
+    const { parseTemplateUrlList } = await import('@/domain/tabGroup/workspaceTemplate');
+    const { tabs, errors } = parseTemplateUrlList('https://ok.com\nchrome://settings', [], NOW);
+    assert.deepEqual(tabs, []);
+    assert.deepEqual(errors, ['不是有效的 http(s) 链接：chrome://settings']);
+  });
+});